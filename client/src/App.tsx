@@ -3,12 +3,20 @@ import { useAuthStore } from './stores/authStore'
 import Layout from './components/Layout'
 import LoginPage from './pages/LoginPage'
 import RegisterPage from './pages/RegisterPage'
+import ForgotPasswordPage from './pages/ForgotPasswordPage'
+import ResetPasswordPage from './pages/ResetPasswordPage'
+import VerifyEmailPage from './pages/VerifyEmailPage'
+import UnlockAccountPage from './pages/UnlockAccountPage'
+import AuthCallbackPage from './pages/AuthCallbackPage'
+import SsoLoginPage from './pages/SsoLoginPage'
 import Dashboard from './pages/Dashboard'
 import Subscriptions from './pages/Subscriptions'
 import Payments from './pages/Payments'
 import Analytics from './pages/Analytics'
 import Settings from './pages/Settings'
 import Plans from './pages/Plans'
+import AdminUsers from './pages/AdminUsers'
+import Team from './pages/Team'
 
 function App() {
   const { isAuthenticated, isLoading } = useAuthStore()
@@ -26,6 +34,12 @@ function App() {
       <Routes>
         <Route path="/login" element={<LoginPage />} />
         <Route path="/register" element={<RegisterPage />} />
+        <Route path="/forgot-password" element={<ForgotPasswordPage />} />
+        <Route path="/reset-password" element={<ResetPasswordPage />} />
+        <Route path="/verify-email" element={<VerifyEmailPage />} />
+        <Route path="/unlock-account" element={<UnlockAccountPage />} />
+        <Route path="/auth/callback" element={<AuthCallbackPage />} />
+        <Route path="/sso" element={<SsoLoginPage />} />
         <Route path="*" element={<Navigate to="/login" replace />} />
       </Routes>
     )
@@ -41,6 +55,10 @@ function App() {
         <Route path="/analytics" element={<Analytics />} />
         <Route path="/plans" element={<Plans />} />
         <Route path="/settings" element={<Settings />} />
+        <Route path="/team" element={<Team />} />
+        <Route path="/admin/users" element={<AdminUsers />} />
+        <Route path="/verify-email" element={<VerifyEmailPage />} />
+        <Route path="/register" element={<RegisterPage />} />
         <Route path="*" element={<Navigate to="/dashboard" replace />} />
       </Routes>
     </Layout>
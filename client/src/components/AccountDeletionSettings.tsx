@@ -0,0 +1,100 @@
+import { useState } from 'react'
+import { useMutation } from '@tanstack/react-query'
+import axios from 'axios'
+import toast from 'react-hot-toast'
+import { useAuthStore } from '../stores/authStore'
+
+// Close the account after a grace period, or take the request back within it
+export default function AccountDeletionSettings() {
+  const { user, updateUser } = useAuthStore()
+  const [confirmation, setConfirmation] = useState('')
+  const hasPassword = user?.hasPassword !== false
+
+  const requestMutation = useMutation({
+    mutationFn: async () => {
+      const response = await axios.post(
+        '/users/account-deletion',
+        hasPassword ? { password: confirmation } : { confirmEmail: confirmation }
+      )
+      return response.data.data.deletionScheduledFor as string
+    },
+    onSuccess: (deletionScheduledFor) => {
+      setConfirmation('')
+      if (user) {
+        updateUser({ ...user, deletionScheduledFor })
+      }
+      toast.success('Your account is scheduled for deletion')
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to delete account')
+    },
+  })
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      const response = await axios.delete('/users/account-deletion')
+      return response.data.message as string
+    },
+    onSuccess: (message) => {
+      if (user) {
+        updateUser({ ...user, deletionScheduledFor: null })
+      }
+      toast.success(message)
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to cancel deletion')
+    },
+  })
+
+  const requestDeletion = () => {
+    if (window.confirm('Delete your account? Your subscriptions will not renew.')) {
+      requestMutation.mutate()
+    }
+  }
+
+  if (user?.deletionScheduledFor) {
+    return (
+      <div className="card border border-red-200">
+        <h3 className="text-lg font-medium text-red-700 mb-1">Account Scheduled for Deletion</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Your account will be deleted on {new Date(user.deletionScheduledFor).toLocaleDateString()}. Until then you
+          can keep it.
+        </p>
+        <button
+          onClick={() => cancelMutation.mutate()}
+          disabled={cancelMutation.isPending}
+          className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {cancelMutation.isPending ? 'Canceling...' : 'Keep my account'}
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="card border border-red-200">
+      <h3 className="text-lg font-medium text-red-700 mb-1">Delete Account</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Your subscriptions stop renewing straight away. After a grace period your personal details are erased and you
+        leave all your companies; payment records are kept for accounting. Companies you own have to be transferred
+        or deleted first.
+      </p>
+      <div className="flex items-center space-x-3">
+        <input
+          type={hasPassword ? 'password' : 'email'}
+          value={confirmation}
+          onChange={(e) => setConfirmation(e.target.value)}
+          className="input-field w-72"
+          placeholder={hasPassword ? 'Current password' : 'Type your email address'}
+        />
+        <button
+          onClick={requestDeletion}
+          disabled={!confirmation || requestMutation.isPending}
+          className="btn-outline text-red-600 border-red-300 hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Delete account
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,235 @@
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import axios from 'axios'
+import toast from 'react-hot-toast'
+import { useAuthStore } from '../stores/authStore'
+
+interface ApiKey {
+  id: string
+  name: string
+  prefix: string
+  scopes: string[]
+  company: boolean
+  expiresAt: string | null
+  lastUsedAt: string | null
+  createdAt: string
+  createdBy: {
+    firstName: string
+    lastName: string
+    email: string
+  }
+}
+
+interface ApiKeysResponse {
+  apiKeys: ApiKey[]
+  availableScopes: string[]
+}
+
+interface CreateKeyForm {
+  name: string
+  scopes: string[]
+  expiresInDays: string
+  company: boolean
+}
+
+const scopeDescriptions: Record<string, string> = {
+  'analytics:read': 'Read dashboard and customer analytics',
+  'analytics:write': 'Track custom analytics events',
+  'payments:read': 'Read payments and payment statistics',
+  'usage:write': 'Report subscription usage',
+}
+
+// Personal and company API keys for programmatic access
+export default function ApiKeySettings() {
+  const { user, hasPermission } = useAuthStore()
+  const [createdKey, setCreatedKey] = useState<string | null>(null)
+  const queryClient = useQueryClient()
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['api-keys'],
+    queryFn: async () => {
+      const response = await axios.get('/api-keys')
+      return response.data.data as ApiKeysResponse
+    },
+  })
+
+  const { register, handleSubmit, reset } = useForm<CreateKeyForm>({
+    defaultValues: { name: '', scopes: [], expiresInDays: '90', company: false },
+  })
+
+  const createMutation = useMutation({
+    mutationFn: async (form: CreateKeyForm) => {
+      const response = await axios.post('/api-keys', {
+        name: form.name,
+        scopes: form.scopes,
+        expiresInDays: form.expiresInDays ? Number(form.expiresInDays) : null,
+        company: form.company,
+      })
+      return response.data.data as { key: string }
+    },
+    onSuccess: ({ key }) => {
+      setCreatedKey(key)
+      reset()
+      queryClient.invalidateQueries({ queryKey: ['api-keys'] })
+      toast.success('API key created')
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to create API key')
+    },
+  })
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await axios.delete(`/api-keys/${id}`)
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['api-keys'] })
+      toast.success('API key revoked')
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to revoke API key')
+    },
+  })
+
+  const copyKey = async () => {
+    if (!createdKey) return
+    await navigator.clipboard.writeText(createdKey)
+    toast.success('Copied to clipboard')
+  }
+
+  return (
+    <div className="space-y-6">
+      <form
+        className="card space-y-4"
+        onSubmit={handleSubmit((form) => {
+          if (!form.scopes?.length) {
+            toast.error('Select at least one scope')
+            return
+          }
+          createMutation.mutate(form)
+        })}
+      >
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 mb-1">Create API Key</h3>
+          <p className="text-sm text-gray-500">
+            Send the key in the <code>Authorization: Bearer</code> or <code>X-API-Key</code> header.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input
+              {...register('name', { required: true })}
+              className="input-field"
+              placeholder="Reporting integration"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Expires</label>
+            <select {...register('expiresInDays')} className="input-field">
+              <option value="30">In 30 days</option>
+              <option value="90">In 90 days</option>
+              <option value="365">In 1 year</option>
+              <option value="">Never</option>
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-medium text-gray-900 mb-2">Scopes</h4>
+          <div className="space-y-2">
+            {(data?.availableScopes || []).map((scope) => (
+              <label key={scope} className="flex items-center space-x-2 text-sm text-gray-700">
+                <input type="checkbox" value={scope} {...register('scopes')} />
+                <span className="font-mono">{scope}</span>
+                <span className="text-gray-500">{scopeDescriptions[scope]}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {hasPermission('api_keys:manage') && user?.company && (
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input type="checkbox" {...register('company')} />
+            <span>Company key (visible to and revocable by everyone who manages {user.company.name}'s API keys)</span>
+          </label>
+        )}
+
+        <button
+          type="submit"
+          disabled={createMutation.isPending}
+          className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {createMutation.isPending ? 'Creating...' : 'Create key'}
+        </button>
+
+        {createdKey && (
+          <div className="p-4 bg-yellow-50 rounded-lg space-y-2">
+            <p className="text-sm font-medium text-yellow-800">
+              Copy your new key now. You won't be able to see it again.
+            </p>
+            <div className="flex items-center space-x-2">
+              <code className="flex-1 p-2 bg-white rounded border border-yellow-200 text-sm break-all">
+                {createdKey}
+              </code>
+              <button type="button" onClick={copyKey} className="btn-outline">
+                Copy
+              </button>
+            </div>
+            <button
+              type="button"
+              onClick={() => setCreatedKey(null)}
+              className="text-sm text-yellow-800 underline"
+            >
+              Done
+            </button>
+          </div>
+        )}
+      </form>
+
+      <div className="card">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">API Keys</h3>
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading API keys...</p>
+        ) : data && data.apiKeys.length > 0 ? (
+          <div className="space-y-4">
+            {data.apiKeys.map((apiKey) => (
+              <div key={apiKey.id} className="flex items-center justify-between py-3 border-b border-gray-200 last:border-b-0">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900">
+                    {apiKey.name}
+                    <span className="ml-2 font-mono text-gray-500">{apiKey.prefix}_…</span>
+                    {apiKey.company && (
+                      <span className="ml-2 inline-flex px-2 py-0.5 text-xs font-medium rounded-full bg-blue-100 text-blue-800">
+                        Company
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-sm text-gray-500 truncate">{apiKey.scopes.join(', ')}</p>
+                  <p className="text-xs text-gray-400 mt-1">
+                    Created by {apiKey.createdBy.firstName} {apiKey.createdBy.lastName} ·{' '}
+                    {apiKey.lastUsedAt ? `Last used ${new Date(apiKey.lastUsedAt).toLocaleString()}` : 'Never used'} ·{' '}
+                    {apiKey.expiresAt
+                      ? `${new Date(apiKey.expiresAt) < new Date() ? 'Expired' : 'Expires'} ${new Date(apiKey.expiresAt).toLocaleDateString()}`
+                      : 'Never expires'}
+                  </p>
+                </div>
+                <button
+                  onClick={() => revokeMutation.mutate(apiKey.id)}
+                  disabled={revokeMutation.isPending}
+                  className="btn-outline ml-4 flex-shrink-0 text-red-600 border-red-300 hover:bg-red-50"
+                >
+                  Revoke
+                </button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-gray-500 text-center py-8">No API keys yet</p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,196 @@
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import axios from 'axios'
+import toast from 'react-hot-toast'
+
+export interface ChangePlanSubscription {
+  id: string
+  planId: string
+  currentPeriodEnd: string
+  plan: {
+    name: string
+    currency: string
+    interval: string
+    perSeat: boolean
+  }
+}
+
+interface Plan {
+  id: string
+  name: string
+  amount: number
+  currency: string
+  interval: string
+  intervalCount: number
+  perSeat: boolean
+  isActive: boolean
+}
+
+interface PlanChangePreview {
+  timing: 'immediate' | 'period_end'
+  currency: string
+  amountDueNow: number
+  nextInvoice: { amount: number; date: string }
+  prorationDate: number | null
+  lines: { description: string | null; amount: number }[]
+}
+
+interface ChangePlanDialogProps {
+  subscription: ChangePlanSubscription
+  initialPlanId?: string
+  onClose: () => void
+}
+
+const formatCurrency = (amount: number, currency: string) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: currency.toUpperCase(),
+  }).format(amount / 100)
+
+// Pick a plan, see what switching costs now and next time, then apply it
+export default function ChangePlanDialog({ subscription, initialPlanId, onClose }: ChangePlanDialogProps) {
+  const queryClient = useQueryClient()
+  const [planId, setPlanId] = useState(initialPlanId || '')
+  const [timing, setTiming] = useState<'immediate' | 'period_end'>('immediate')
+
+  const { data: plans } = useQuery({
+    queryKey: ['plans'],
+    queryFn: async () => {
+      const response = await axios.get('/plans')
+      return response.data.data as Plan[]
+    },
+  })
+
+  // Only plans billed the same way can be swapped in
+  const availablePlans = plans?.filter(
+    (plan) =>
+      plan.id !== subscription.planId &&
+      plan.currency === subscription.plan.currency &&
+      plan.interval === subscription.plan.interval &&
+      plan.perSeat === subscription.plan.perSeat
+  )
+
+  const { data: preview, isFetching: isPreviewing, error: previewError } = useQuery({
+    queryKey: ['plan-change-preview', subscription.id, planId, timing],
+    queryFn: async () => {
+      const response = await axios.post(`/subscriptions/${subscription.id}/change-plan/preview`, { planId, timing })
+      return response.data.data as PlanChangePreview
+    },
+    enabled: !!planId,
+    retry: false,
+  })
+
+  const changeMutation = useMutation({
+    mutationFn: async () => {
+      await axios.post(`/subscriptions/${subscription.id}/change-plan`, {
+        planId,
+        timing,
+        ...(preview?.prorationDate && { prorationDate: preview.prorationDate }),
+      })
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['subscriptions'] })
+      queryClient.invalidateQueries({ queryKey: ['entitlements'] })
+      toast.success(timing === 'immediate' ? 'Plan changed successfully' : 'Plan change scheduled')
+      onClose()
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to change plan')
+    },
+  })
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="fixed inset-0 bg-gray-600 bg-opacity-75" onClick={onClose} />
+      <div className="relative bg-white rounded-lg shadow-xl w-full max-w-lg mx-4 p-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-1">Change Plan</h3>
+        <p className="text-sm text-gray-500 mb-4">Currently on {subscription.plan.name}</p>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">New plan</label>
+            <select value={planId} onChange={(e) => setPlanId(e.target.value)} className="input-field">
+              <option value="">Select a plan</option>
+              {availablePlans?.map((plan) => (
+                <option key={plan.id} value={plan.id}>
+                  {plan.name} ({formatCurrency(plan.amount, plan.currency)}/{plan.interval})
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-2">
+            <label className="flex items-start">
+              <input
+                type="radio"
+                checked={timing === 'immediate'}
+                onChange={() => setTiming('immediate')}
+                className="mt-1 mr-2"
+              />
+              <span className="text-sm text-gray-700">
+                Switch now
+                <span className="block text-gray-500">The difference for the rest of this period is charged or credited today</span>
+              </span>
+            </label>
+            <label className="flex items-start">
+              <input
+                type="radio"
+                checked={timing === 'period_end'}
+                onChange={() => setTiming('period_end')}
+                className="mt-1 mr-2"
+              />
+              <span className="text-sm text-gray-700">
+                Switch on {new Date(subscription.currentPeriodEnd).toLocaleDateString()}
+                <span className="block text-gray-500">Keep the current plan until the period ends</span>
+              </span>
+            </label>
+          </div>
+
+          {planId && (
+            <div className="rounded-md bg-gray-50 p-4 text-sm">
+              {isPreviewing ? (
+                <p className="text-gray-500">Calculating...</p>
+              ) : previewError ? (
+                <p className="text-red-600">
+                  {(previewError as any).response?.data?.error || 'Failed to preview plan change'}
+                </p>
+              ) : (
+                preview && (
+                  <div className="space-y-2">
+                    {preview.lines.map((line, index) => (
+                      <div key={index} className="flex justify-between text-gray-500">
+                        <span className="mr-4">{line.description}</span>
+                        <span>{formatCurrency(line.amount, preview.currency)}</span>
+                      </div>
+                    ))}
+                    <div className="flex justify-between font-medium text-gray-900">
+                      <span>{preview.amountDueNow < 0 ? 'Credit applied now' : 'Due now'}</span>
+                      <span>{formatCurrency(Math.abs(preview.amountDueNow), preview.currency)}</span>
+                    </div>
+                    <div className="flex justify-between text-gray-700">
+                      <span>Next invoice on {new Date(preview.nextInvoice.date).toLocaleDateString()}</span>
+                      <span>{formatCurrency(preview.nextInvoice.amount, preview.currency)}</span>
+                    </div>
+                  </div>
+                )
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-3 mt-6">
+          <button onClick={onClose} className="btn-outline">
+            Cancel
+          </button>
+          <button
+            onClick={() => changeMutation.mutate()}
+            disabled={!preview || isPreviewing || changeMutation.isPending}
+            className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {changeMutation.isPending ? 'Changing...' : 'Confirm change'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
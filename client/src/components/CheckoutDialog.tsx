@@ -0,0 +1,285 @@
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import axios from 'axios'
+import { CheckCircleIcon } from '@heroicons/react/24/outline'
+import { useAuthStore } from '../stores/authStore'
+import { useStripeCard } from '../hooks/useStripeCard'
+import { useEntitlements } from '../hooks/useEntitlements'
+
+export interface CheckoutPlan {
+  id: string
+  name: string
+  amount: number
+  currency: string
+  interval: string
+  // `amount` is charged for each seat
+  perSeat: boolean
+  trialDays: number
+  trialRequiresPaymentMethod: boolean
+}
+
+interface CheckoutDialogProps {
+  plan: CheckoutPlan
+  onClose: () => void
+}
+
+// A subscription that was created but whose first payment still needs confirming
+interface PendingPayment {
+  subscriptionId: string
+  clientSecret: string
+}
+
+// A promotion code the server accepted for this plan
+interface AppliedDiscount {
+  code: string
+  description: string
+  discountedAmount: number
+}
+
+const formatCurrency = (amount: number, currency: string) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: currency.toUpperCase(),
+  }).format(amount / 100)
+
+// Collect a card with Stripe Elements, create the subscription and confirm its
+// first payment, including any 3D Secure challenge the bank asks for
+export default function CheckoutDialog({ plan, onClose }: CheckoutDialogProps) {
+  const queryClient = useQueryClient()
+  const { user } = useAuthStore()
+  const { containerRef, stripe, ready, complete, error: cardError, setError, createPaymentMethod } = useStripeCard()
+  const [pendingPayment, setPendingPayment] = useState<PendingPayment | null>(null)
+  const [status, setStatus] = useState<'idle' | 'processing' | 'succeeded'>('idle')
+  const [promotionCode, setPromotionCode] = useState('')
+  const [discount, setDiscount] = useState<AppliedDiscount | null>(null)
+  const [codeError, setCodeError] = useState<string | null>(null)
+  const [isApplyingCode, setIsApplyingCode] = useState(false)
+  const [seats, setSeats] = useState<number | null>(null)
+  const { data: entitlementsData } = useEntitlements()
+
+  const { data: trialEligible } = useQuery({
+    queryKey: ['trial-eligibility'],
+    queryFn: async () => {
+      const response = await axios.get('/subscriptions/trial-eligibility')
+      return response.data.data.eligible as boolean
+    },
+    enabled: plan.trialDays > 0,
+  })
+
+  const trialDays = trialEligible ? plan.trialDays : 0
+  // Every member needs a seat, so that's the least that can be bought
+  const seatsInUse = entitlementsData?.usage.max_users ?? 1
+  const seatCount = Math.max(seats ?? seatsInUse, seatsInUse)
+  const periodAmount = plan.perSeat ? plan.amount * seatCount : plan.amount
+  const dueAmount = discount ? discount.discountedAmount : periodAmount
+  const price = plan.perSeat
+    ? `${formatCurrency(periodAmount, plan.currency)} (${seatCount} seats at ${formatCurrency(plan.amount, plan.currency)})`
+    : formatCurrency(plan.amount, plan.currency)
+
+  const applyCode = async () => {
+    setIsApplyingCode(true)
+    setCodeError(null)
+
+    try {
+      const response = await axios.post('/coupons/validate', {
+        code: promotionCode,
+        planId: plan.id,
+        ...(plan.perSeat && { seats: seatCount }),
+      })
+      setDiscount(response.data.data)
+    } catch (error: any) {
+      setDiscount(null)
+      setCodeError(error.response?.data?.error || 'This code is not valid')
+    } finally {
+      setIsApplyingCode(false)
+    }
+  }
+
+  const subscribe = async (withCard: boolean) => {
+    setStatus('processing')
+    setError(null)
+
+    try {
+      const paymentMethod = withCard
+        ? await createPaymentMethod({
+            name: user ? `${user.firstName} ${user.lastName}` : undefined,
+            email: user?.email,
+          })
+        : null
+
+      // A retry after a failed payment confirms the subscription that already exists
+      let payment = pendingPayment
+      if (!payment) {
+        const response = await axios.post('/subscriptions/create', {
+          planId: plan.id,
+          ...(paymentMethod && { paymentMethodId: paymentMethod.id }),
+          ...(discount && { promotionCode: discount.code }),
+          ...(plan.perSeat && { seats: seatCount }),
+        })
+        queryClient.invalidateQueries({ queryKey: ['subscriptions'] })
+        queryClient.invalidateQueries({ queryKey: ['trial-eligibility'] })
+
+        if (response.data.clientSecret) {
+          payment = { subscriptionId: response.data.subscription.id, clientSecret: response.data.clientSecret }
+          setPendingPayment(payment)
+        }
+
+        // Trials save the card for later, which the bank may also want to confirm
+        if (response.data.setupClientSecret && stripe && paymentMethod) {
+          const { error: setupError } = await stripe.confirmCardSetup(response.data.setupClientSecret, {
+            payment_method: paymentMethod.id,
+          })
+          if (setupError) {
+            throw new Error(setupError.message)
+          }
+        }
+      }
+
+      if (payment && stripe && paymentMethod) {
+        const { error: paymentError } = await stripe.confirmCardPayment(payment.clientSecret, {
+          payment_method: paymentMethod.id,
+        })
+        if (paymentError) {
+          throw new Error(paymentError.message)
+        }
+      }
+
+      setStatus('succeeded')
+      queryClient.invalidateQueries({ queryKey: ['subscriptions'] })
+      queryClient.invalidateQueries({ queryKey: ['entitlements'] })
+    } catch (error: any) {
+      setStatus('idle')
+      setError(error.response?.data?.error || error.message || 'Payment failed')
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="fixed inset-0 bg-gray-600 bg-opacity-75" onClick={status === 'processing' ? undefined : onClose} />
+      <div className="relative bg-white rounded-lg shadow-xl w-full max-w-md mx-4 p-6">
+        {status === 'succeeded' ? (
+          <div className="text-center">
+            <CheckCircleIcon className="mx-auto h-12 w-12 text-green-500" />
+            <h3 className="mt-2 text-lg font-medium text-gray-900">
+              {trialDays ? `Your ${trialDays}-day trial of ${plan.name} has started` : `You're subscribed to ${plan.name}`}
+            </h3>
+            <p className="mt-1 text-sm text-gray-500">
+              {trialDays
+                ? "We'll remind you a few days before the trial ends."
+                : 'A receipt is on its way to your email.'}
+            </p>
+            <div className="flex justify-center space-x-3 mt-6">
+              <button onClick={onClose} className="btn-outline">
+                Close
+              </button>
+              <Link to="/subscriptions" className="btn-primary">
+                View subscriptions
+              </Link>
+            </div>
+          </div>
+        ) : (
+          <>
+            <h3 className="text-lg font-medium text-gray-900 mb-1">Subscribe to {plan.name}</h3>
+            <p className="text-sm text-gray-500 mb-4">
+              {trialDays
+                ? `Free for ${trialDays} days, then ${price} per ${plan.interval} until you cancel`
+                : `${price} per ${plan.interval}, billed until you cancel`}
+            </p>
+
+            {plan.perSeat && (
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Seats</label>
+                <input
+                  type="number"
+                  min={seatsInUse}
+                  value={seatCount}
+                  onChange={(e) => {
+                    setSeats(Number(e.target.value) || null)
+                    setDiscount(null)
+                  }}
+                  disabled={!!pendingPayment || status === 'processing'}
+                  className="input-field"
+                />
+                <p className="mt-1 text-sm text-gray-500">
+                  {seatsInUse === 1 ? '1 member needs' : `${seatsInUse} members need`} a seat. New members get one
+                  automatically.
+                </p>
+              </div>
+            )}
+
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Promotion code</label>
+              <div className="flex space-x-2 mb-1">
+                <input
+                  type="text"
+                  value={promotionCode}
+                  onChange={(e) => {
+                    setPromotionCode(e.target.value)
+                    setDiscount(null)
+                    setCodeError(null)
+                  }}
+                  disabled={!!pendingPayment || status === 'processing'}
+                  className="input-field uppercase"
+                />
+                <button
+                  onClick={applyCode}
+                  disabled={!promotionCode.trim() || isApplyingCode || !!pendingPayment || status === 'processing'}
+                  className="btn-outline disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isApplyingCode ? 'Applying...' : 'Apply'}
+                </button>
+              </div>
+              {codeError && <p className="text-sm text-red-600">{codeError}</p>}
+              {discount && (
+                <p className="text-sm text-green-600">
+                  {discount.code}: {discount.description}, so {formatCurrency(discount.discountedAmount, plan.currency)}{' '}
+                  instead of <span className="line-through">{formatCurrency(periodAmount, plan.currency)}</span>
+                </p>
+              )}
+            </div>
+
+            <label className="block text-sm font-medium text-gray-700 mb-1">Card details</label>
+            <div ref={containerRef} className="input-field py-3" />
+
+            {cardError && <p className="mt-2 text-sm text-red-600">{cardError}</p>}
+            {pendingPayment && status === 'idle' && (
+              <p className="mt-2 text-sm text-gray-500">Your payment didn't go through. Try again or use another card.</p>
+            )}
+
+            {trialDays > 0 && !plan.trialRequiresPaymentMethod && !pendingPayment && (
+              <p className="mt-4 text-sm text-gray-500">
+                No card handy?{' '}
+                <button
+                  onClick={() => subscribe(false)}
+                  disabled={status === 'processing'}
+                  className="font-medium text-primary-600 hover:text-primary-500"
+                >
+                  Start the trial without one
+                </button>
+                . You can add it before the trial ends.
+              </p>
+            )}
+
+            <div className="flex justify-end space-x-3 mt-6">
+              <button onClick={onClose} disabled={status === 'processing'} className="btn-outline">
+                Cancel
+              </button>
+              <button
+                onClick={() => subscribe(true)}
+                disabled={!ready || !complete || status === 'processing'}
+                className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {status === 'processing'
+                  ? 'Processing...'
+                  : trialDays
+                    ? `Start ${trialDays}-day free trial`
+                    : `Pay ${formatCurrency(dueAmount, plan.currency)}`}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
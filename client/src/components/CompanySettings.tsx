@@ -0,0 +1,404 @@
+import { useEffect, useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import axios from 'axios'
+import toast from 'react-hot-toast'
+import { BuildingOfficeIcon } from '@heroicons/react/24/outline'
+import { useAuthStore } from '../stores/authStore'
+
+interface Company {
+  id: string
+  name: string
+  domain: string | null
+  domainVerified: boolean
+  industry: string | null
+  size: string | null
+  logoUrl: string | null
+  billingEmail: string | null
+  billingName: string | null
+  billingAddressLine1: string | null
+  billingAddressLine2: string | null
+  billingCity: string | null
+  billingState: string | null
+  billingPostalCode: string | null
+  billingCountry: string | null
+  taxId: string | null
+  owner: {
+    id: string
+    email: string
+    firstName: string
+    lastName: string
+  } | null
+}
+
+type CompanyForm = Omit<Company, 'id' | 'domain' | 'domainVerified' | 'logoUrl' | 'owner'>
+
+interface Member {
+  id: string
+  email: string
+  firstName: string
+  lastName: string
+}
+
+const companySizes = ['STARTUP', 'SMALL', 'MEDIUM', 'LARGE', 'ENTERPRISE']
+
+const billingFields: { name: keyof CompanyForm; label: string; placeholder?: string }[] = [
+  { name: 'billingName', label: 'Billing name', placeholder: 'Legal company name' },
+  { name: 'billingEmail', label: 'Billing email', placeholder: 'billing@example.com' },
+  { name: 'billingAddressLine1', label: 'Address' },
+  { name: 'billingAddressLine2', label: 'Address line 2' },
+  { name: 'billingCity', label: 'City' },
+  { name: 'billingState', label: 'State / region' },
+  { name: 'billingPostalCode', label: 'Postal code' },
+  { name: 'billingCountry', label: 'Country', placeholder: 'Two-letter code, e.g. US' },
+  { name: 'taxId', label: 'Tax ID', placeholder: 'VAT or EIN' },
+]
+
+const LOGO_MAX_BYTES = 2 * 1024 * 1024
+
+// Logos are served by the API, which may live on another origin
+const API_URL = import.meta.env.VITE_API_URL || '/api'
+const resolveUploadUrl = (path: string) => new URL(path, new URL(API_URL, window.location.href)).toString()
+
+const readAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(file)
+  })
+
+const formatSize = (size: string) => size.charAt(0) + size.slice(1).toLowerCase()
+
+// Profile, billing details, logo and ownership of the active company, or a
+// form to start one for users who don't belong to any
+export default function CompanySettings() {
+  const { user, updateUser, hasPermission } = useAuthStore()
+  const queryClient = useQueryClient()
+  const [newOwnerId, setNewOwnerId] = useState('')
+  const companyId = user?.company?.id
+  const canManage = hasPermission('company:manage')
+
+  const { data: company, isLoading } = useQuery({
+    queryKey: ['company', companyId],
+    queryFn: async () => {
+      const response = await axios.get(`/companies/${companyId}`)
+      return response.data.data as Company
+    },
+    enabled: !!companyId,
+  })
+
+  const isOwner = canManage && !!company && (!company.owner || company.owner.id === user?.id)
+
+  const { data: members } = useQuery({
+    queryKey: ['team-members'],
+    queryFn: async () => {
+      const response = await axios.get('/team/members')
+      return response.data.data as { members: Member[] }
+    },
+    enabled: isOwner,
+  })
+
+  const { register, handleSubmit, reset } = useForm<CompanyForm>()
+  const createForm = useForm<{ name: string }>()
+
+  useEffect(() => {
+    if (!company) return
+    const { id, domain, domainVerified, logoUrl, owner, ...fields } = company
+    reset({ ...fields, size: fields.size || '' } as CompanyForm)
+  }, [company, reset])
+
+  // The company name and logo also appear in the navigation
+  const refreshUser = async () => {
+    const response = await axios.get('/auth/me')
+    updateUser(response.data.user)
+  }
+
+  const onCompanyUpdated = (updated: Company) => {
+    queryClient.setQueryData(['company', companyId], updated)
+    refreshUser().catch(() => {})
+  }
+
+  const createMutation = useMutation({
+    mutationFn: async (form: { name: string }) => {
+      await axios.post('/companies', form)
+    },
+    onSuccess: () => {
+      // The session now works in the new company; start over without cached data
+      window.location.assign('/settings?tab=company')
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to create company')
+    },
+  })
+
+  const updateMutation = useMutation({
+    mutationFn: async (form: CompanyForm) => {
+      const response = await axios.put(`/companies/${companyId}`, { ...form, size: form.size || null })
+      return response.data.data as Company
+    },
+    onSuccess: (updated) => {
+      onCompanyUpdated(updated)
+      toast.success('Company updated')
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to update company')
+    },
+  })
+
+  const logoMutation = useMutation({
+    mutationFn: async (image: string | null) => {
+      const response = image
+        ? await axios.put(`/companies/${companyId}/logo`, { image })
+        : await axios.delete(`/companies/${companyId}/logo`)
+      return response.data.data as Company
+    },
+    onSuccess: (updated) => {
+      onCompanyUpdated(updated)
+      toast.success(updated.logoUrl ? 'Logo updated' : 'Logo removed')
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to update logo')
+    },
+  })
+
+  const transferMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const response = await axios.post(`/companies/${companyId}/transfer-ownership`, { userId })
+      return response.data.data as Company
+    },
+    onSuccess: (updated) => {
+      setNewOwnerId('')
+      onCompanyUpdated(updated)
+      queryClient.invalidateQueries({ queryKey: ['team-members'] })
+      toast.success(`${updated.owner?.email} now owns ${updated.name}`)
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to transfer ownership')
+    },
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: async (name: string) => {
+      await axios.delete(`/companies/${companyId}`, { data: { name } })
+    },
+    onSuccess: () => {
+      window.location.assign('/dashboard')
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to delete company')
+    },
+  })
+
+  const uploadLogo = async (file?: File) => {
+    if (!file) return
+    if (file.size > LOGO_MAX_BYTES) {
+      toast.error('The logo must be 2 MB or smaller')
+      return
+    }
+    logoMutation.mutate(await readAsDataUrl(file))
+  }
+
+  const transferOwnership = () => {
+    const member = members?.members.find((candidate) => candidate.id === newOwnerId)
+    if (member && window.confirm(`Make ${member.email} the owner of ${company?.name}? You will stay an admin.`)) {
+      transferMutation.mutate(member.id)
+    }
+  }
+
+  const deleteCompany = () => {
+    const name = window.prompt(
+      `This permanently deletes ${company?.name}, its roles, invitations and settings. Type the company name to confirm.`
+    )
+    if (name) {
+      deleteMutation.mutate(name)
+    }
+  }
+
+  if (!companyId) {
+    return (
+      <form className="card space-y-4" onSubmit={createForm.handleSubmit((form) => createMutation.mutate(form))}>
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 mb-1">Create a Company</h3>
+          <p className="text-sm text-gray-500">
+            Start a company to invite your team and share subscriptions. You'll be its owner.
+          </p>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Company name</label>
+          <input {...createForm.register('name', { required: true })} className="input-field" />
+        </div>
+        <button
+          type="submit"
+          disabled={createMutation.isPending}
+          className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {createMutation.isPending ? 'Creating...' : 'Create company'}
+        </button>
+      </form>
+    )
+  }
+
+  if (isLoading || !company) {
+    return (
+      <div className="card">
+        <p className="text-sm text-gray-500">Loading company...</p>
+      </div>
+    )
+  }
+
+  const otherMembers = (members?.members || []).filter((member) => member.id !== company.owner?.id)
+
+  return (
+    <div className="space-y-6">
+      <div className="card">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">Logo</h3>
+        <div className="flex items-center space-x-4">
+          {company.logoUrl ? (
+            <img
+              src={resolveUploadUrl(company.logoUrl)}
+              alt={`${company.name} logo`}
+              className="h-16 w-16 rounded-lg object-contain border border-gray-200"
+            />
+          ) : (
+            <div className="h-16 w-16 rounded-lg bg-gray-100 flex items-center justify-center">
+              <BuildingOfficeIcon className="h-8 w-8 text-gray-400" />
+            </div>
+          )}
+          {canManage && (
+            <div className="flex items-center space-x-3">
+              <label className="btn-outline cursor-pointer">
+                {logoMutation.isPending ? 'Uploading...' : 'Upload logo'}
+                <input
+                  type="file"
+                  accept="image/png,image/jpeg,image/gif,image/webp"
+                  className="hidden"
+                  disabled={logoMutation.isPending}
+                  onChange={(e) => {
+                    uploadLogo(e.target.files?.[0])
+                    e.target.value = ''
+                  }}
+                />
+              </label>
+              {company.logoUrl && (
+                <button
+                  onClick={() => logoMutation.mutate(null)}
+                  disabled={logoMutation.isPending}
+                  className="text-sm text-red-600 hover:text-red-900"
+                >
+                  Remove
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+        <p className="mt-2 text-xs text-gray-500">PNG, JPEG, GIF or WebP, up to 2 MB.</p>
+      </div>
+
+      <form className="card space-y-6" onSubmit={handleSubmit((form) => updateMutation.mutate(form))}>
+        <fieldset disabled={!canManage} className="space-y-6">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Company Profile</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                <input {...register('name', { required: true })} className="input-field" />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Domain</label>
+                <input
+                  value={company.domain ? `${company.domain}${company.domainVerified ? '' : ' (unverified)'}` : 'None'}
+                  disabled
+                  className="input-field bg-gray-50"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Industry</label>
+                <input {...register('industry')} className="input-field" placeholder="e.g. Technology" />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Size</label>
+                <select {...register('size')} className="input-field">
+                  <option value="">Not set</option>
+                  {companySizes.map((size) => (
+                    <option key={size} value={size}>
+                      {formatSize(size)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-lg font-medium text-gray-900 mb-1">Billing Details</h3>
+            <p className="text-sm text-gray-500 mb-4">Shown on the company's invoices.</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {billingFields.map((field) => (
+                <div key={field.name}>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{field.label}</label>
+                  <input {...register(field.name)} className="input-field" placeholder={field.placeholder} />
+                </div>
+              ))}
+            </div>
+          </div>
+        </fieldset>
+
+        {canManage && (
+          <button
+            type="submit"
+            disabled={updateMutation.isPending}
+            className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {updateMutation.isPending ? 'Saving...' : 'Save changes'}
+          </button>
+        )}
+      </form>
+
+      <div className="card">
+        <h3 className="text-lg font-medium text-gray-900 mb-1">Ownership</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          {company.owner
+            ? `${company.owner.firstName} ${company.owner.lastName} (${company.owner.email}) owns this company.`
+            : 'This company has no owner yet.'}{' '}
+          Only the owner can transfer or delete it.
+        </p>
+        {isOwner && (
+          <div className="flex items-center space-x-3">
+            <select value={newOwnerId} onChange={(e) => setNewOwnerId(e.target.value)} className="input-field w-72">
+              <option value="">Choose a member</option>
+              {otherMembers.map((member) => (
+                <option key={member.id} value={member.id}>
+                  {member.firstName} {member.lastName} ({member.email})
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={transferOwnership}
+              disabled={!newOwnerId || transferMutation.isPending}
+              className="btn-outline disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Transfer ownership
+            </button>
+          </div>
+        )}
+      </div>
+
+      {isOwner && (
+        <div className="card border border-red-200">
+          <h3 className="text-lg font-medium text-red-700 mb-1">Delete Company</h3>
+          <p className="text-sm text-gray-500 mb-4">
+            Members lose access to the company. Cancel its subscription first.
+          </p>
+          <button
+            onClick={deleteCompany}
+            disabled={deleteMutation.isPending}
+            className="btn-outline text-red-600 border-red-300 hover:bg-red-50"
+          >
+            Delete company
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,142 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import axios from 'axios'
+import toast from 'react-hot-toast'
+import { ArrowDownTrayIcon } from '@heroicons/react/24/outline'
+
+interface DataExport {
+  id: string
+  status: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'EXPIRED'
+  fileSize: number | null
+  error: string | null
+  createdAt: string
+  completedAt: string | null
+  expiresAt: string | null
+}
+
+const statusStyles: Record<DataExport['status'], string> = {
+  PENDING: 'bg-yellow-100 text-yellow-800',
+  PROCESSING: 'bg-yellow-100 text-yellow-800',
+  COMPLETED: 'bg-green-100 text-green-800',
+  FAILED: 'bg-red-100 text-red-800',
+  EXPIRED: 'bg-gray-100 text-gray-800',
+}
+
+const statusLabels: Record<DataExport['status'], string> = {
+  PENDING: 'Preparing',
+  PROCESSING: 'Preparing',
+  COMPLETED: 'Ready',
+  FAILED: 'Failed',
+  EXPIRED: 'Expired',
+}
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+
+// Self-service copy of everything the account holds (data-subject access requests)
+export default function DataExportSettings() {
+  const queryClient = useQueryClient()
+
+  const { data: exports, isLoading } = useQuery({
+    queryKey: ['data-exports'],
+    queryFn: async () => {
+      const response = await axios.get('/users/data-exports')
+      return response.data.data as DataExport[]
+    },
+    // Keep checking while an export is being built
+    refetchInterval: (query) =>
+      query.state.data?.some((dataExport) => dataExport.status === 'PENDING' || dataExport.status === 'PROCESSING')
+        ? 5000
+        : false,
+  })
+
+  const requestMutation = useMutation({
+    mutationFn: async () => {
+      await axios.post('/users/data-exports')
+    },
+    onSuccess: () => {
+      toast.success("We're preparing your data. We'll email you when it's ready.")
+      queryClient.invalidateQueries({ queryKey: ['data-exports'] })
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to request export')
+    },
+  })
+
+  const downloadMutation = useMutation({
+    mutationFn: async (dataExport: DataExport) => {
+      const response = await axios.get(`/users/data-exports/${dataExport.id}/download`, { responseType: 'blob' })
+      const url = URL.createObjectURL(response.data)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `account-data-${dataExport.createdAt.slice(0, 10)}.zip`
+      link.click()
+      URL.revokeObjectURL(url)
+    },
+    onError: () => {
+      toast.error('Failed to download export')
+      queryClient.invalidateQueries({ queryKey: ['data-exports'] })
+    },
+  })
+
+  const isPreparing = exports?.some((dataExport) => dataExport.status === 'PENDING' || dataExport.status === 'PROCESSING')
+
+  return (
+    <div className="card">
+      <h3 className="text-lg font-medium text-gray-900 mb-1">Export Your Data</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Download a copy of your profile, companies, subscriptions, payments, usage, activity log and sessions as JSON
+        and CSV files. Download links expire after a couple of days.
+      </p>
+      <button
+        onClick={() => requestMutation.mutate()}
+        disabled={requestMutation.isPending || isPreparing}
+        className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isPreparing ? 'Preparing export...' : 'Request export'}
+      </button>
+
+      <div className="mt-6 space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading exports...</p>
+        ) : exports && exports.length > 0 ? (
+          exports.map((dataExport) => (
+            <div
+              key={dataExport.id}
+              className="flex items-center justify-between py-3 border-b border-gray-200 last:border-b-0"
+            >
+              <div>
+                <p className="text-sm font-medium text-gray-900">
+                  Requested {new Date(dataExport.createdAt).toLocaleString()}
+                </p>
+                <p className="text-sm text-gray-500">
+                  {dataExport.status === 'COMPLETED' && dataExport.expiresAt
+                    ? `${formatBytes(dataExport.fileSize || 0)} · available until ${new Date(dataExport.expiresAt).toLocaleString()}`
+                    : dataExport.error || ''}
+                </p>
+              </div>
+              <div className="flex items-center space-x-4 ml-4 flex-shrink-0">
+                <span
+                  className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${statusStyles[dataExport.status]}`}
+                >
+                  {statusLabels[dataExport.status]}
+                </span>
+                {dataExport.status === 'COMPLETED' && (
+                  <button
+                    onClick={() => downloadMutation.mutate(dataExport)}
+                    disabled={downloadMutation.isPending}
+                    className="btn-outline flex items-center"
+                  >
+                    <ArrowDownTrayIcon className="h-4 w-4 mr-2" />
+                    Download
+                  </button>
+                )}
+              </div>
+            </div>
+          ))
+        ) : (
+          <p className="text-gray-500 text-center py-8">No exports yet</p>
+        )}
+      </div>
+    </div>
+  )
+}
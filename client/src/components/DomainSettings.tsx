@@ -0,0 +1,194 @@
+import { useEffect } from 'react'
+import { useForm } from 'react-hook-form'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import axios from 'axios'
+import toast from 'react-hot-toast'
+import { CheckCircleIcon } from '@heroicons/react/24/outline'
+import { useAuthStore } from '../stores/authStore'
+
+interface DomainResponse {
+  domain: string | null
+  verified: boolean
+  verifiedAt: string | null
+  joinPolicy: 'DISABLED' | 'APPROVAL' | 'AUTOMATIC'
+  verificationRecord: {
+    name: string
+    value: string
+  } | null
+}
+
+interface DomainForm {
+  domain: string
+  joinPolicy: DomainResponse['joinPolicy']
+}
+
+const joinPolicies: { value: DomainForm['joinPolicy']; label: string }[] = [
+  { value: 'APPROVAL', label: 'New users can ask to join; member managers approve them' },
+  { value: 'AUTOMATIC', label: 'New users join automatically once they verify their email' },
+  { value: 'DISABLED', label: 'Only use the domain for single sign-on discovery' },
+]
+
+// The company's email domain, proved through a DNS TXT record
+export default function DomainSettings() {
+  const { user } = useAuthStore()
+  const queryClient = useQueryClient()
+  const companyId = user?.company?.id
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['company-domain', companyId],
+    queryFn: async () => {
+      const response = await axios.get(`/companies/${companyId}/domain`)
+      return response.data.data as DomainResponse
+    },
+    enabled: !!companyId,
+  })
+
+  const { register, handleSubmit, reset } = useForm<DomainForm>()
+
+  useEffect(() => {
+    if (!data) return
+    reset({ domain: data.domain || '', joinPolicy: data.joinPolicy })
+  }, [data, reset])
+
+  const onSuccess = (updated: DomainResponse) => {
+    queryClient.setQueryData(['company-domain', companyId], updated)
+  }
+
+  const saveMutation = useMutation({
+    mutationFn: async (form: DomainForm) => {
+      const response = await axios.put(`/companies/${companyId}/domain`, form)
+      return response.data.data as DomainResponse
+    },
+    onSuccess: (updated) => {
+      onSuccess(updated)
+      toast.success('Domain settings saved')
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to save domain')
+    },
+  })
+
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await axios.post(`/companies/${companyId}/domain/verify`)
+      return response.data.data as DomainResponse
+    },
+    onSuccess: (updated) => {
+      onSuccess(updated)
+      toast.success('Domain verified')
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to verify domain')
+    },
+  })
+
+  const removeMutation = useMutation({
+    mutationFn: async () => {
+      await axios.delete(`/companies/${companyId}/domain`)
+    },
+    onSuccess: () => {
+      toast.success('Domain removed')
+      queryClient.invalidateQueries({ queryKey: ['company-domain'] })
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to remove domain')
+    },
+  })
+
+  if (isLoading || !data) {
+    return (
+      <div className="card">
+        <p className="text-sm text-gray-500">Loading domain settings...</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <form className="card space-y-4" onSubmit={handleSubmit((form) => saveMutation.mutate(form))}>
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 mb-1">Email Domain</h3>
+          <p className="text-sm text-gray-500">
+            Once you verify your domain, people who sign up with an address on it can join your company.
+          </p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Domain</label>
+          <input {...register('domain', { required: true })} className="input-field" placeholder="example.com" />
+        </div>
+
+        <div>
+          <h4 className="text-sm font-medium text-gray-900 mb-2">New users on this domain</h4>
+          <div className="space-y-2">
+            {joinPolicies.map((policy) => (
+              <label key={policy.value} className="flex items-center space-x-2 text-sm text-gray-700">
+                <input type="radio" value={policy.value} {...register('joinPolicy')} />
+                <span>{policy.label}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex space-x-3">
+          <button
+            type="submit"
+            disabled={saveMutation.isPending}
+            className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saveMutation.isPending ? 'Saving...' : 'Save'}
+          </button>
+          {data.domain && (
+            <button
+              type="button"
+              onClick={() => removeMutation.mutate()}
+              disabled={removeMutation.isPending}
+              className="btn-outline text-red-600 border-red-300 hover:bg-red-50"
+            >
+              Remove domain
+            </button>
+          )}
+        </div>
+      </form>
+
+      {data.domain && (
+        <div className="card">
+          <h3 className="text-lg font-medium text-gray-900 mb-1">Verification</h3>
+          {data.verified ? (
+            <p className="flex items-center text-sm text-green-700">
+              <CheckCircleIcon className="h-5 w-5 mr-2" />
+              {data.domain} was verified on {new Date(data.verifiedAt!).toLocaleDateString()}
+            </p>
+          ) : (
+            data.verificationRecord && (
+              <>
+                <p className="text-sm text-gray-500 mb-4">
+                  Add this TXT record to {data.domain}'s DNS, then check it. DNS changes can take a while to appear.
+                </p>
+                <dl className="space-y-2 text-sm">
+                  {[
+                    ['Type', 'TXT'],
+                    ['Name', data.verificationRecord.name],
+                    ['Value', data.verificationRecord.value],
+                  ].map(([label, value]) => (
+                    <div key={label} className="grid grid-cols-3 gap-4">
+                      <dt className="text-gray-500">{label}</dt>
+                      <dd className="col-span-2 font-mono text-gray-800 break-all">{value}</dd>
+                    </div>
+                  ))}
+                </dl>
+                <button
+                  onClick={() => verifyMutation.mutate()}
+                  disabled={verifyMutation.isPending}
+                  className="mt-4 btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {verifyMutation.isPending ? 'Checking...' : 'Verify domain'}
+                </button>
+              </>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,60 @@
+import { Link } from 'react-router-dom'
+import { EntitlementLimit, useEntitlements } from '../hooks/useEntitlements'
+
+const METERS: { limit: EntitlementLimit; label: string }[] = [
+  { limit: 'max_users', label: 'Team members' },
+  { limit: 'max_api_keys', label: 'API keys' },
+]
+
+// How much of each plan limit is in use, with a nudge to upgrade when one runs out
+export default function EntitlementMeters() {
+  const { data } = useEntitlements()
+
+  if (!data) {
+    return null
+  }
+
+  const { entitlements, usage } = data
+  const anyLimitReached = METERS.some(
+    ({ limit }) => entitlements[limit] !== null && usage[limit] >= entitlements[limit]!
+  )
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-medium text-gray-900">Plan usage</h3>
+        {anyLimitReached && (
+          <Link to="/plans" className="text-sm font-medium text-primary-600 hover:text-primary-500">
+            Upgrade for more
+          </Link>
+        )}
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {METERS.map(({ limit, label }) => {
+          const max = entitlements[limit]
+          const used = usage[limit]
+          const percent = max === null ? 0 : max === 0 ? 100 : Math.min(100, (used / max) * 100)
+
+          return (
+            <div key={limit}>
+              <div className="flex justify-between text-sm mb-1">
+                <span className="font-medium text-gray-700">{label}</span>
+                <span className="text-gray-500">
+                  {max === null ? `${used} of unlimited` : `${used} of ${max}`}
+                </span>
+              </div>
+              {max !== null && (
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div
+                    className={`h-2 rounded-full ${percent >= 100 ? 'bg-red-500' : percent >= 80 ? 'bg-yellow-500' : 'bg-primary-600'}`}
+                    style={{ width: `${percent}%` }}
+                  />
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
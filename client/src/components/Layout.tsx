@@ -1,6 +1,9 @@
 import { useState } from 'react'
 import { Link, useLocation } from 'react-router-dom'
+import axios from 'axios'
+import toast from 'react-hot-toast'
 import { useAuthStore } from '../stores/authStore'
+import WorkspaceSwitcher from './WorkspaceSwitcher'
 import {
   HomeIcon,
   CreditCardIcon,
@@ -11,14 +14,21 @@ import {
   Bars3Icon,
   XMarkIcon,
   UserCircleIcon,
+  EnvelopeIcon,
+  EyeIcon,
+  UsersIcon,
+  BuildingOfficeIcon,
 } from '@heroicons/react/24/outline'
 
+// Items with a permission are hidden from users who lack it
 const navigation = [
   { name: 'Dashboard', href: '/dashboard', icon: HomeIcon },
-  { name: 'Subscriptions', href: '/subscriptions', icon: UserGroupIcon },
-  { name: 'Payments', href: '/payments', icon: CreditCardIcon },
-  { name: 'Analytics', href: '/analytics', icon: ChartBarIcon },
+  { name: 'Subscriptions', href: '/subscriptions', icon: UserGroupIcon, permission: 'subscriptions:read' },
+  { name: 'Payments', href: '/payments', icon: CreditCardIcon, permission: 'payments:read' },
+  { name: 'Analytics', href: '/analytics', icon: ChartBarIcon, permission: 'analytics:read' },
   { name: 'Plans', href: '/plans', icon: BanknotesIcon },
+  { name: 'Team', href: '/team', icon: BuildingOfficeIcon, permission: 'members:read', requiresCompany: true },
+  { name: 'Users', href: '/admin/users', icon: UsersIcon, permission: 'users:read_all' },
   { name: 'Settings', href: '/settings', icon: CogIcon },
 ]
 
@@ -29,7 +39,32 @@ interface LayoutProps {
 export default function Layout({ children }: LayoutProps) {
   const [sidebarOpen, setSidebarOpen] = useState(false)
   const location = useLocation()
-  const { user, logout } = useAuthStore()
+  const [isResending, setIsResending] = useState(false)
+  const { user, logout, hasPermission, impersonation, stopImpersonation } = useAuthStore()
+
+  const visibleNavigation = navigation.filter(
+    (item) =>
+      (!item.permission || hasPermission(item.permission)) &&
+      (!item.requiresCompany || !!user?.company)
+  )
+
+  const endImpersonation = async () => {
+    await stopImpersonation()
+    // Reload so no data fetched as the impersonated user stays cached
+    window.location.assign('/admin/users')
+  }
+
+  const resendVerification = async () => {
+    setIsResending(true)
+    try {
+      await axios.post('/auth/resend-verification')
+      toast.success('Verification email sent')
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to send verification email')
+    } finally {
+      setIsResending(false)
+    }
+  }
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -46,8 +81,9 @@ export default function Layout({ children }: LayoutProps) {
               <XMarkIcon className="h-6 w-6" />
             </button>
           </div>
+          <WorkspaceSwitcher />
           <nav className="flex-1 space-y-1 px-2 py-4">
-            {navigation.map((item) => (
+            {visibleNavigation.map((item) => (
               <Link
                 key={item.name}
                 to={item.href}
@@ -72,8 +108,9 @@ export default function Layout({ children }: LayoutProps) {
           <div className="flex items-center h-16 flex-shrink-0 px-4 border-b border-gray-200">
             <div className="text-xl font-bold text-gray-900">SAAS Dashboard</div>
           </div>
+          <WorkspaceSwitcher />
           <nav className="flex-1 space-y-1 px-2 py-4">
-            {navigation.map((item) => (
+            {visibleNavigation.map((item) => (
               <Link
                 key={item.name}
                 to={item.href}
@@ -109,17 +146,78 @@ export default function Layout({ children }: LayoutProps) {
               </div>
               <div className="relative">
                 <button
-                  onClick={logout}
+                  onClick={impersonation ? endImpersonation : logout}
                   className="flex items-center text-sm text-gray-700 hover:text-gray-900"
                 >
                   <UserCircleIcon className="h-8 w-8 mr-2" />
-                  Logout
+                  {impersonation ? 'Stop impersonating' : 'Logout'}
                 </button>
               </div>
             </div>
           </div>
         </div>
 
+        {/* Impersonation bar */}
+        {impersonation && (
+          <div className="sticky top-16 z-10 bg-purple-700 text-white">
+            <div className="flex items-center justify-between px-4 py-2 sm:px-6 lg:px-8 text-sm">
+              <div className="flex items-center">
+                <EyeIcon className="h-5 w-5 mr-2 flex-shrink-0" />
+                You are impersonating {user?.firstName} {user?.lastName} ({user?.email}). Billing and security changes are disabled.
+              </div>
+              <button
+                onClick={endImpersonation}
+                className="ml-4 font-medium underline hover:text-purple-100 flex-shrink-0"
+              >
+                Stop impersonating
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Email verification banner */}
+        {user && user.isEmailVerified === false && (
+          <div className="bg-yellow-50 border-b border-yellow-200">
+            <div className="flex items-center justify-between px-4 py-3 sm:px-6 lg:px-8">
+              <div className="flex items-center text-sm text-yellow-800">
+                <EnvelopeIcon className="h-5 w-5 mr-2 flex-shrink-0" />
+                Please verify your email address. We sent a link to {user.email}.
+              </div>
+              <button
+                onClick={resendVerification}
+                disabled={isResending}
+                className="text-sm font-medium text-yellow-800 underline hover:text-yellow-900 disabled:opacity-50"
+              >
+                {isResending ? 'Sending...' : 'Resend email'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Two-factor policy banner */}
+        {user?.twoFactorRequired && !user.twoFactorEnabled && (
+          <div className="bg-red-50 border-b border-red-200">
+            <div className="px-4 py-3 sm:px-6 lg:px-8 text-sm text-red-800">
+              Your role requires two-factor authentication.{' '}
+              <Link to="/settings" className="font-medium underline hover:text-red-900">
+                Set it up in Settings → Security
+              </Link>
+            </div>
+          </div>
+        )}
+
+        {/* Account deletion banner */}
+        {user?.deletionScheduledFor && !impersonation && (
+          <div className="bg-red-50 border-b border-red-200">
+            <div className="px-4 py-3 sm:px-6 lg:px-8 text-sm text-red-800">
+              Your account will be deleted on {new Date(user.deletionScheduledFor).toLocaleDateString()}.{' '}
+              <Link to="/settings?tab=privacy" className="font-medium underline hover:text-red-900">
+                Keep my account
+              </Link>
+            </div>
+          </div>
+        )}
+
         {/* Page content */}
         <main className="p-4 sm:p-6 lg:p-8">
           {children}
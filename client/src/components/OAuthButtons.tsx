@@ -0,0 +1,67 @@
+import { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import axios from 'axios'
+import toast from 'react-hot-toast'
+
+export interface OAuthProvider {
+  id: string
+  name: string
+}
+
+export const useOAuthProviders = () =>
+  useQuery({
+    queryKey: ['oauth-providers'],
+    queryFn: async () => {
+      const response = await axios.get('/auth/oauth/providers')
+      return response.data.data as OAuthProvider[]
+    },
+    staleTime: Infinity,
+  })
+
+// "Continue with ..." buttons for every enabled provider; renders nothing if none are configured
+export default function OAuthButtons() {
+  const { data: providers } = useOAuthProviders()
+  const [pendingProvider, setPendingProvider] = useState<string | null>(null)
+
+  const startOAuth = async (providerId: string) => {
+    setPendingProvider(providerId)
+    try {
+      const response = await axios.post(`/auth/oauth/${providerId}/start`)
+      window.location.assign(response.data.url)
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Could not start sign-in')
+      setPendingProvider(null)
+    }
+  }
+
+  if (!providers || providers.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="mt-6">
+      <div className="relative">
+        <div className="absolute inset-0 flex items-center">
+          <div className="w-full border-t border-gray-300" />
+        </div>
+        <div className="relative flex justify-center text-sm">
+          <span className="px-2 bg-gray-50 text-gray-500">Or continue with</span>
+        </div>
+      </div>
+
+      <div className="mt-6 space-y-3">
+        {providers.map((provider) => (
+          <button
+            key={provider.id}
+            type="button"
+            onClick={() => startOAuth(provider.id)}
+            disabled={pendingProvider !== null}
+            className="w-full flex justify-center btn-secondary disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {pendingProvider === provider.id ? 'Redirecting...' : `Continue with ${provider.name}`}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,66 @@
+import { useState } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import axios from 'axios'
+import toast from 'react-hot-toast'
+import { useAuthStore } from '../stores/authStore'
+import { useStripeCard } from '../hooks/useStripeCard'
+
+interface PaymentMethodDialogProps {
+  subscriptionId: string
+  onClose: () => void
+}
+
+// Add the card a subscription is charged to, e.g. during a card-less trial
+export default function PaymentMethodDialog({ subscriptionId, onClose }: PaymentMethodDialogProps) {
+  const queryClient = useQueryClient()
+  const { user } = useAuthStore()
+  const { containerRef, ready, complete, error, setError, createPaymentMethod } = useStripeCard()
+  const [isSaving, setIsSaving] = useState(false)
+
+  const save = async () => {
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const paymentMethod = await createPaymentMethod({
+        name: user ? `${user.firstName} ${user.lastName}` : undefined,
+        email: user?.email,
+      })
+      await axios.post(`/subscriptions/${subscriptionId}/payment-method`, { paymentMethodId: paymentMethod.id })
+      queryClient.invalidateQueries({ queryKey: ['subscriptions'] })
+      toast.success('Payment method saved')
+      onClose()
+    } catch (error: any) {
+      setError(error.response?.data?.error || error.message || 'Failed to save payment method')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="fixed inset-0 bg-gray-600 bg-opacity-75" onClick={isSaving ? undefined : onClose} />
+      <div className="relative bg-white rounded-lg shadow-xl w-full max-w-md mx-4 p-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-1">Add Payment Method</h3>
+        <p className="text-sm text-gray-500 mb-4">This card is charged when your trial ends and on every renewal.</p>
+
+        <label className="block text-sm font-medium text-gray-700 mb-1">Card details</label>
+        <div ref={containerRef} className="input-field py-3" />
+        {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+
+        <div className="flex justify-end space-x-3 mt-6">
+          <button onClick={onClose} disabled={isSaving} className="btn-outline">
+            Cancel
+          </button>
+          <button
+            onClick={save}
+            disabled={!ready || !complete || isSaving}
+            className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? 'Saving...' : 'Save card'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,199 @@
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import axios from 'axios'
+import toast from 'react-hot-toast'
+
+interface CompanyRole {
+  id: string
+  name: string
+  description: string | null
+  permissions: string[]
+  _count: { memberships: number }
+}
+
+interface RolesResponse {
+  permissions: string[]
+  roles: CompanyRole[]
+}
+
+interface RoleForm {
+  name: string
+  description: string
+  permissions: string[]
+}
+
+const permissionDescriptions: Record<string, string> = {
+  'analytics:read': 'View dashboard and customer analytics',
+  'analytics:write': 'Track custom analytics events',
+  'payments:read': 'View payments',
+  'subscriptions:read': 'View subscriptions and usage',
+  'subscriptions:write': 'Create, cancel and reactivate subscriptions',
+  'usage:write': 'Report subscription usage',
+  'members:read': 'View the company team',
+  'members:invite': 'Invite people to the company',
+  'members:manage': 'Change member roles and remove members',
+  'api_keys:manage': 'Create and revoke company API keys',
+  'roles:manage': 'Manage custom roles',
+  'sso:manage': 'Configure single sign-on',
+  'domains:manage': 'Claim and verify the company email domain',
+  'company:manage': 'Edit the company profile, billing details and logo',
+}
+
+const emptyForm: RoleForm = { name: '', description: '', permissions: [] }
+
+// Custom company roles; members are given them from the Team page
+export default function RoleSettings() {
+  const [editingRoleId, setEditingRoleId] = useState<string | null>(null)
+  const queryClient = useQueryClient()
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['company-roles'],
+    queryFn: async () => {
+      const response = await axios.get('/roles')
+      return response.data.data as RolesResponse
+    },
+  })
+
+  const { register, handleSubmit, reset } = useForm<RoleForm>({ defaultValues: emptyForm })
+
+  const saveMutation = useMutation({
+    mutationFn: async (form: RoleForm) => {
+      if (editingRoleId) {
+        await axios.put(`/roles/${editingRoleId}`, form)
+      } else {
+        await axios.post('/roles', form)
+      }
+    },
+    onSuccess: () => {
+      toast.success(editingRoleId ? 'Role updated' : 'Role created')
+      setEditingRoleId(null)
+      reset(emptyForm)
+      queryClient.invalidateQueries({ queryKey: ['company-roles'] })
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to save role')
+    },
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await axios.delete(`/roles/${id}`)
+    },
+    onSuccess: () => {
+      toast.success('Role deleted')
+      queryClient.invalidateQueries({ queryKey: ['company-roles'] })
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to delete role')
+    },
+  })
+
+  const startEditing = (role: CompanyRole) => {
+    setEditingRoleId(role.id)
+    reset({ name: role.name, description: role.description || '', permissions: role.permissions })
+  }
+
+  const cancelEditing = () => {
+    setEditingRoleId(null)
+    reset(emptyForm)
+  }
+
+  if (isLoading || !data) {
+    return (
+      <div className="card">
+        <p className="text-sm text-gray-500">Loading roles...</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <form className="card space-y-4" onSubmit={handleSubmit((form) => saveMutation.mutate(form))}>
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 mb-1">
+            {editingRoleId ? 'Edit Role' : 'Create Role'}
+          </h3>
+          <p className="text-sm text-gray-500">
+            A custom role replaces a member's default company permissions with the ones selected here.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input {...register('name', { required: true })} className="input-field" placeholder="Billing viewer" />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+            <input {...register('description')} className="input-field" />
+          </div>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-medium text-gray-900 mb-2">Permissions</h4>
+          <div className="space-y-2">
+            {data.permissions.map((permission) => (
+              <label key={permission} className="flex items-center space-x-2 text-sm text-gray-700">
+                <input type="checkbox" value={permission} {...register('permissions')} />
+                <span className="font-mono">{permission}</span>
+                <span className="text-gray-500">{permissionDescriptions[permission]}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex space-x-3">
+          <button
+            type="submit"
+            disabled={saveMutation.isPending}
+            className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saveMutation.isPending ? 'Saving...' : editingRoleId ? 'Save role' : 'Create role'}
+          </button>
+          {editingRoleId && (
+            <button type="button" onClick={cancelEditing} className="btn-outline">
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+
+      <div className="card">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">Custom Roles</h3>
+        {data.roles.length > 0 ? (
+          <div className="space-y-4">
+            {data.roles.map((role) => (
+              <div key={role.id} className="flex items-center justify-between py-3 border-b border-gray-200 last:border-b-0">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900">
+                    {role.name}
+                    <span className="ml-2 text-gray-500 font-normal">
+                      {role._count.memberships} {role._count.memberships === 1 ? 'member' : 'members'}
+                    </span>
+                  </p>
+                  {role.description && <p className="text-sm text-gray-500">{role.description}</p>}
+                  <p className="text-xs text-gray-400 mt-1">{role.permissions.join(', ') || 'No permissions'}</p>
+                </div>
+                <div className="flex space-x-2 ml-4 flex-shrink-0">
+                  <button onClick={() => startEditing(role)} className="btn-outline">
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => deleteMutation.mutate(role.id)}
+                    disabled={deleteMutation.isPending}
+                    className="btn-outline text-red-600 border-red-300 hover:bg-red-50"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-gray-500 text-center py-8">No custom roles yet</p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,146 @@
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import axios from 'axios'
+import toast from 'react-hot-toast'
+
+export interface SeatsSubscription {
+  id: string
+  quantity: number
+  plan: {
+    amount: number
+    currency: string
+    interval: string
+  }
+}
+
+interface SeatChangePreview {
+  currency: string
+  amountDueNow: number
+  nextInvoice: { amount: number; date: string }
+  prorationDate: number
+  lines: { description: string | null; amount: number }[]
+}
+
+interface SeatsDialogProps {
+  subscription: SeatsSubscription
+  // Members who each hold a seat
+  seatsInUse: number
+  onClose: () => void
+}
+
+const formatCurrency = (amount: number, currency: string) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: currency.toUpperCase(),
+  }).format(amount / 100)
+
+// Pick a seat count, see the prorated charge or credit, then apply it
+export default function SeatsDialog({ subscription, seatsInUse, onClose }: SeatsDialogProps) {
+  const queryClient = useQueryClient()
+  const [seats, setSeats] = useState(subscription.quantity + 1)
+
+  const changed = seats !== subscription.quantity && seats >= seatsInUse
+
+  const { data: preview, isFetching: isPreviewing, error: previewError } = useQuery({
+    queryKey: ['seat-change-preview', subscription.id, seats],
+    queryFn: async () => {
+      const response = await axios.post(`/subscriptions/${subscription.id}/seats/preview`, { seats })
+      return response.data.data as SeatChangePreview
+    },
+    enabled: changed,
+    retry: false,
+  })
+
+  const changeMutation = useMutation({
+    mutationFn: async () => {
+      await axios.post(`/subscriptions/${subscription.id}/seats`, {
+        seats,
+        ...(preview && { prorationDate: preview.prorationDate }),
+      })
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['subscriptions'] })
+      queryClient.invalidateQueries({ queryKey: ['entitlements'] })
+      toast.success(`Subscription now has ${seats} seats`)
+      onClose()
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to change seats')
+    },
+  })
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="fixed inset-0 bg-gray-600 bg-opacity-75" onClick={onClose} />
+      <div className="relative bg-white rounded-lg shadow-xl w-full max-w-md mx-4 p-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-1">Manage Seats</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          {seatsInUse} of {subscription.quantity} seats in use, at{' '}
+          {formatCurrency(subscription.plan.amount, subscription.plan.currency)} per seat per {subscription.plan.interval}
+        </p>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Seats</label>
+            <input
+              type="number"
+              min={seatsInUse}
+              value={seats}
+              onChange={(e) => setSeats(Number(e.target.value))}
+              className="input-field"
+            />
+            {seats < seatsInUse && (
+              <p className="mt-1 text-sm text-red-600">
+                {seatsInUse} seats are in use. Remove members before dropping below that.
+              </p>
+            )}
+          </div>
+
+          {changed && (
+            <div className="rounded-md bg-gray-50 p-4 text-sm">
+              {isPreviewing ? (
+                <p className="text-gray-500">Calculating...</p>
+              ) : previewError ? (
+                <p className="text-red-600">
+                  {(previewError as any).response?.data?.error || 'Failed to preview seat change'}
+                </p>
+              ) : (
+                preview && (
+                  <div className="space-y-2">
+                    {preview.lines.map((line, index) => (
+                      <div key={index} className="flex justify-between text-gray-500">
+                        <span className="mr-4">{line.description}</span>
+                        <span>{formatCurrency(line.amount, preview.currency)}</span>
+                      </div>
+                    ))}
+                    <div className="flex justify-between font-medium text-gray-900">
+                      <span>{preview.amountDueNow < 0 ? 'Credit applied now' : 'Due now'}</span>
+                      <span>{formatCurrency(Math.abs(preview.amountDueNow), preview.currency)}</span>
+                    </div>
+                    <div className="flex justify-between text-gray-700">
+                      <span>Next invoice on {new Date(preview.nextInvoice.date).toLocaleDateString()}</span>
+                      <span>{formatCurrency(preview.nextInvoice.amount, preview.currency)}</span>
+                    </div>
+                  </div>
+                )
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-3 mt-6">
+          <button onClick={onClose} className="btn-outline">
+            Cancel
+          </button>
+          <button
+            onClick={() => changeMutation.mutate()}
+            disabled={!changed || !preview || isPreviewing || changeMutation.isPending}
+            className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {changeMutation.isPending ? 'Updating...' : 'Update seats'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
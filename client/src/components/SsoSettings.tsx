@@ -0,0 +1,247 @@
+import { useEffect, useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import axios from 'axios'
+import toast from 'react-hot-toast'
+
+interface SsoConfigResponse {
+  featureAvailable: boolean
+  serviceProvider: {
+    entityId: string
+    acsUrl: string
+    metadataUrl: string
+    loginUrl: string
+  }
+  config: {
+    enabled: boolean
+    idpEntityId: string
+    idpSsoUrl: string
+    idpCertificate: string
+    hasMetadata: boolean
+    emailAttribute: string
+    firstNameAttribute: string
+    lastNameAttribute: string
+    jitProvisioning: boolean
+    enforceSso: boolean
+  } | null
+}
+
+interface SsoForm {
+  idpEntityId: string
+  idpSsoUrl: string
+  idpCertificate: string
+  emailAttribute: string
+  firstNameAttribute: string
+  lastNameAttribute: string
+  enabled: boolean
+  jitProvisioning: boolean
+  enforceSso: boolean
+}
+
+// SAML single sign-on settings for the admin's company
+export default function SsoSettings() {
+  const [metadataXml, setMetadataXml] = useState<string | null>(null)
+  const [metadataFileName, setMetadataFileName] = useState('')
+  const queryClient = useQueryClient()
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['sso-config'],
+    queryFn: async () => {
+      const response = await axios.get('/sso/config')
+      return response.data.data as SsoConfigResponse
+    },
+  })
+
+  const { register, handleSubmit, reset } = useForm<SsoForm>()
+
+  useEffect(() => {
+    if (!data) return
+    reset({
+      idpEntityId: data.config?.idpEntityId || '',
+      idpSsoUrl: data.config?.idpSsoUrl || '',
+      idpCertificate: data.config?.idpCertificate || '',
+      emailAttribute: data.config?.emailAttribute || 'email',
+      firstNameAttribute: data.config?.firstNameAttribute || 'firstName',
+      lastNameAttribute: data.config?.lastNameAttribute || 'lastName',
+      enabled: data.config?.enabled ?? false,
+      jitProvisioning: data.config?.jitProvisioning ?? true,
+      enforceSso: data.config?.enforceSso ?? false,
+    })
+  }, [data, reset])
+
+  const saveMutation = useMutation({
+    mutationFn: async (form: SsoForm) => {
+      const response = await axios.put('/sso/config', { ...form, metadataXml })
+      return response.data.data as SsoConfigResponse
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(['sso-config'], updated)
+      setMetadataXml(null)
+      setMetadataFileName('')
+      toast.success('Single sign-on settings saved')
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to save single sign-on settings')
+    },
+  })
+
+  const removeMutation = useMutation({
+    mutationFn: async () => {
+      await axios.delete('/sso/config')
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sso-config'] })
+      toast.success('Single sign-on removed')
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to remove single sign-on')
+    },
+  })
+
+  const onMetadataFile = async (file?: File) => {
+    if (!file) return
+    setMetadataXml(await file.text())
+    setMetadataFileName(file.name)
+  }
+
+  if (isLoading || !data) {
+    return (
+      <div className="card">
+        <p className="text-sm text-gray-500">Loading single sign-on settings...</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="card">
+        <h3 className="text-lg font-medium text-gray-900 mb-1">Single Sign-On (SAML)</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          Let your team sign in through your identity provider. Register these details with your IdP:
+        </p>
+
+        <dl className="space-y-2 text-sm">
+          {[
+            ['Entity ID', data.serviceProvider.entityId],
+            ['ACS URL', data.serviceProvider.acsUrl],
+            ['Metadata URL', data.serviceProvider.metadataUrl],
+            ['SSO login URL', data.serviceProvider.loginUrl],
+          ].map(([label, value]) => (
+            <div key={label} className="grid grid-cols-3 gap-4">
+              <dt className="text-gray-500">{label}</dt>
+              <dd className="col-span-2 font-mono text-gray-800 break-all">{value}</dd>
+            </div>
+          ))}
+        </dl>
+
+        {!data.featureAvailable && (
+          <div className="p-4 mt-4 bg-yellow-50 rounded-lg">
+            <p className="text-sm text-yellow-800">
+              Single sign-on is available on the Enterprise plan. Upgrade to configure it.
+            </p>
+          </div>
+        )}
+      </div>
+
+      <form className="card space-y-6" onSubmit={handleSubmit((form) => saveMutation.mutate(form))}>
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 mb-1">Identity Provider</h3>
+          <p className="text-sm text-gray-500">
+            Upload your IdP's metadata XML, or enter its details by hand.
+          </p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Metadata XML</label>
+          <input
+            type="file"
+            accept=".xml,application/xml,text/xml"
+            onChange={(e) => onMetadataFile(e.target.files?.[0])}
+            className="block text-sm text-gray-700"
+          />
+          {metadataFileName && (
+            <p className="mt-1 text-sm text-gray-500">{metadataFileName} will be applied when you save.</p>
+          )}
+          {!metadataFileName && data.config?.hasMetadata && (
+            <p className="mt-1 text-sm text-gray-500">Configured from uploaded metadata.</p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">IdP entity ID</label>
+            <input {...register('idpEntityId')} className="input-field" disabled={!!metadataXml} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">IdP SSO URL</label>
+            <input {...register('idpSsoUrl')} className="input-field" disabled={!!metadataXml} />
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Signing certificate</label>
+          <textarea
+            {...register('idpCertificate')}
+            rows={4}
+            className="input-field font-mono text-xs"
+            placeholder="-----BEGIN CERTIFICATE-----"
+            disabled={!!metadataXml}
+          />
+        </div>
+
+        <div>
+          <h4 className="text-sm font-medium text-gray-900 mb-2">Attribute mapping</h4>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm text-gray-700 mb-1">Email</label>
+              <input {...register('emailAttribute')} className="input-field" />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-700 mb-1">First name</label>
+              <input {...register('firstNameAttribute')} className="input-field" />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-700 mb-1">Last name</label>
+              <input {...register('lastNameAttribute')} className="input-field" />
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input type="checkbox" {...register('enabled')} />
+            <span>Enable single sign-on</span>
+          </label>
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input type="checkbox" {...register('jitProvisioning')} />
+            <span>Create accounts for new users on their first sign-in</span>
+          </label>
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input type="checkbox" {...register('enforceSso')} />
+            <span>Require single sign-on (disables password login for your company's users)</span>
+          </label>
+        </div>
+
+        <div className="flex space-x-3">
+          <button
+            type="submit"
+            disabled={!data.featureAvailable || saveMutation.isPending}
+            className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saveMutation.isPending ? 'Saving...' : 'Save'}
+          </button>
+          {data.config && (
+            <button
+              type="button"
+              onClick={() => removeMutation.mutate()}
+              disabled={removeMutation.isPending}
+              className="btn-outline text-red-600 border-red-300 hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Remove
+            </button>
+          )}
+        </div>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,21 @@
+interface TrialCountdownProps {
+  trialEnd: string
+  className?: string
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// "3 days left in your trial", or hours once it's down to the last day
+export default function TrialCountdown({ trialEnd, className = '' }: TrialCountdownProps) {
+  const remainingMs = new Date(trialEnd).getTime() - Date.now()
+
+  if (remainingMs <= 0) {
+    return <span className={className}>Trial ended</span>
+  }
+
+  const days = Math.floor(remainingMs / DAY_MS)
+  const hours = Math.ceil(remainingMs / (60 * 60 * 1000))
+  const label = days >= 1 ? `${days} day${days === 1 ? '' : 's'}` : `${hours} hour${hours === 1 ? '' : 's'}`
+
+  return <span className={className}>{label} left in your trial</span>
+}
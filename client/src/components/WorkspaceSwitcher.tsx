@@ -0,0 +1,45 @@
+import { useAuthStore } from '../stores/authStore'
+
+// Lets users who belong to several companies choose which one they work in
+export default function WorkspaceSwitcher() {
+  const { user, impersonation, switchCompany } = useAuthStore()
+  const companies = user?.companies || []
+
+  if (companies.length === 0) {
+    return null
+  }
+
+  const changeCompany = async (companyId: string) => {
+    try {
+      await switchCompany(companyId)
+      // Reload so nothing fetched for the previous company stays cached
+      window.location.assign('/dashboard')
+    } catch (error) {
+      // Already reported by the store
+    }
+  }
+
+  return (
+    <div className="px-4 py-3 border-b border-gray-200">
+      <label className="block text-xs font-medium text-gray-500 uppercase tracking-wider mb-1">
+        Company
+      </label>
+      {companies.length === 1 ? (
+        <p className="text-sm font-medium text-gray-900 truncate">{companies[0].name}</p>
+      ) : (
+        <select
+          value={user?.company?.id || ''}
+          onChange={(e) => changeCompany(e.target.value)}
+          disabled={!!impersonation}
+          className="input-field"
+        >
+          {companies.map((company) => (
+            <option key={company.id} value={company.id}>
+              {company.name}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,24 @@
+import { useQuery } from '@tanstack/react-query'
+import axios from 'axios'
+
+export type EntitlementLimit = 'max_users' | 'max_api_keys'
+export type EntitlementFlag = 'advanced_analytics' | 'custom_integrations' | 'priority_support' | 'sso'
+
+// Limits are null when unlimited
+export type Entitlements = Record<EntitlementLimit, number | null> & Record<EntitlementFlag, boolean>
+
+export interface EntitlementsData {
+  entitlements: Entitlements
+  usage: Record<EntitlementLimit, number>
+}
+
+// The limits and features of the active company's plan (or the user's own, outside of one)
+export function useEntitlements() {
+  return useQuery({
+    queryKey: ['entitlements'],
+    queryFn: async () => {
+      const response = await axios.get('/entitlements')
+      return response.data.data as EntitlementsData
+    },
+  })
+}
@@ -0,0 +1,57 @@
+import { useEffect, useRef, useState } from 'react'
+import { loadStripe, Stripe, StripeCardElement } from '@stripe/stripe-js'
+
+// Loaded once and shared by every card form
+const stripePromise = loadStripe(import.meta.env.VITE_STRIPE_PUBLISHABLE_KEY)
+
+// Mount a Stripe Elements card field into `containerRef` and track its state
+export function useStripeCard() {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [stripe, setStripe] = useState<Stripe | null>(null)
+  const [card, setCard] = useState<StripeCardElement | null>(null)
+  const [complete, setComplete] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cardElement: StripeCardElement | undefined
+
+    stripePromise.then((loadedStripe) => {
+      if (!loadedStripe || !containerRef.current) {
+        setError('Payments are unavailable right now')
+        return
+      }
+
+      cardElement = loadedStripe.elements().create('card', {
+        style: { base: { fontSize: '16px', color: '#111827' } },
+      })
+      cardElement.mount(containerRef.current)
+      cardElement.on('change', (event) => {
+        setComplete(event.complete)
+        setError(event.error?.message || null)
+      })
+
+      setStripe(loadedStripe)
+      setCard(cardElement)
+    })
+
+    return () => cardElement?.destroy()
+  }, [])
+
+  // Turn the entered card into a payment method the server can attach
+  const createPaymentMethod = async (billingDetails: { name?: string; email?: string }) => {
+    if (!stripe || !card) {
+      throw new Error('Payments are unavailable right now')
+    }
+    const { paymentMethod, error: cardError } = await stripe.createPaymentMethod({
+      type: 'card',
+      card,
+      billing_details: billingDetails,
+    })
+    if (cardError) {
+      throw new Error(cardError.message)
+    }
+    return paymentMethod
+  }
+
+  return { containerRef, stripe, ready: !!card, complete, error, setError, createPaymentMethod }
+}
@@ -0,0 +1,207 @@
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import axios from 'axios'
+import toast from 'react-hot-toast'
+import { useAuthStore } from '../stores/authStore'
+
+interface AdminUser {
+  id: string
+  email: string
+  firstName: string
+  lastName: string
+  role: string
+  lockedUntil: string | null
+  createdAt: string
+  memberships: {
+    company: {
+      name: string
+    }
+  }[]
+}
+
+export default function AdminUsers() {
+  const [currentPage, setCurrentPage] = useState(1)
+  const [search, setSearch] = useState('')
+  const { user, hasPermission, startImpersonation } = useAuthStore()
+  const queryClient = useQueryClient()
+
+  const { data: usersData, isLoading } = useQuery({
+    queryKey: ['admin-users', currentPage, search],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        page: currentPage.toString(),
+        limit: '20',
+        ...(search && { search })
+      })
+      const response = await axios.get(`/users/admin/all?${params}`)
+      return response.data
+    },
+  })
+
+  const unlockMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await axios.post(`/users/admin/${id}/unlock`)
+    },
+    onSuccess: () => {
+      toast.success('Account unlocked')
+      queryClient.invalidateQueries({ queryKey: ['admin-users'] })
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to unlock account')
+    },
+  })
+
+  const impersonate = async (target: AdminUser) => {
+    const reason = window.prompt(`Why are you impersonating ${target.email}? (optional)`)
+    if (reason === null) return
+
+    try {
+      await startImpersonation(target.id, reason)
+      // Reload so nothing fetched as the admin stays cached
+      window.location.assign('/dashboard')
+    } catch (error) {
+      // Already reported by the store
+    }
+  }
+
+  const isLocked = (target: AdminUser) => !!target.lockedUntil && new Date(target.lockedUntil) > new Date()
+
+  const users: AdminUser[] = usersData?.data || []
+  const pagination = usersData?.pagination
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Users</h1>
+        <p className="text-gray-600">Find customer accounts and see what they see</p>
+      </div>
+
+      {/* Filters */}
+      <div className="card">
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Search
+        </label>
+        <input
+          value={search}
+          onChange={(e) => {
+            setSearch(e.target.value)
+            setCurrentPage(1)
+          }}
+          className="input-field"
+          placeholder="Name or email"
+        />
+      </div>
+
+      {/* Users Table */}
+      <div className="card">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  User
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Companies
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Role
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Joined
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {isLoading ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-12 text-center text-gray-500">
+                    Loading users...
+                  </td>
+                </tr>
+              ) : users.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-12 text-center text-gray-500">
+                    No users found
+                  </td>
+                </tr>
+              ) : (
+                users.map((target) => (
+                  <tr key={target.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">
+                        {target.firstName} {target.lastName}
+                        {isLocked(target) && (
+                          <span className="ml-2 inline-flex px-2 py-0.5 text-xs font-medium rounded-full bg-red-100 text-red-800">
+                            Locked
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-sm text-gray-500">{target.email}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {target.memberships.map((membership) => membership.company.name).join(', ') || 'N/A'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {target.role}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {new Date(target.createdAt).toLocaleDateString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm space-x-4">
+                      {isLocked(target) && hasPermission('users:unlock') && (
+                        <button
+                          onClick={() => unlockMutation.mutate(target.id)}
+                          disabled={unlockMutation.isPending}
+                          className="text-primary-600 hover:text-primary-900"
+                        >
+                          Unlock
+                        </button>
+                      )}
+                      {hasPermission('users:impersonate') && target.id !== user?.id && (
+                        <button
+                          onClick={() => impersonate(target)}
+                          className="text-primary-600 hover:text-primary-900"
+                        >
+                          Impersonate
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Pagination */}
+        {pagination && pagination.pages > 1 && (
+          <div className="flex items-center justify-between px-6 py-3 border-t border-gray-200">
+            <div className="text-sm text-gray-700">
+              Showing page {pagination.current} of {pagination.pages} ({pagination.total} total)
+            </div>
+            <div className="flex space-x-2">
+              <button
+                onClick={() => setCurrentPage(Math.max(1, currentPage - 1))}
+                disabled={currentPage === 1}
+                className="btn-outline disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Previous
+              </button>
+              <button
+                onClick={() => setCurrentPage(Math.min(pagination.pages, currentPage + 1))}
+                disabled={currentPage === pagination.pages}
+                className="btn-outline disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
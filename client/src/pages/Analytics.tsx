@@ -1,5 +1,6 @@
 import { useState } from 'react'
 import { useQuery } from '@tanstack/react-query'
+import { Link } from 'react-router-dom'
 import axios from 'axios'
 import {
   Chart as ChartJS,
@@ -18,8 +19,10 @@ import {
   ChartBarIcon,
   ArrowTrendingUpIcon,
   UserGroupIcon,
-  CurrencyDollarIcon 
+  CurrencyDollarIcon,
+  LockClosedIcon
 } from '@heroicons/react/24/outline'
+import { useEntitlements } from '../hooks/useEntitlements'
 
 ChartJS.register(
   CategoryScale,
@@ -44,12 +47,16 @@ export default function Analytics() {
     },
   })
 
+  const { data: entitlementsData } = useEntitlements()
+  const hasAdvancedAnalytics = !!entitlementsData?.entitlements.advanced_analytics
+
   const { data: customerAnalytics } = useQuery({
     queryKey: ['customer-analytics'],
     queryFn: async () => {
       const response = await axios.get('/analytics/customers')
       return response.data.data
     },
+    enabled: hasAdvancedAnalytics,
   })
 
   const formatCurrency = (amount: number) => {
@@ -211,87 +218,102 @@ export default function Analytics() {
           </div>
         </div>
 
-        {/* Customer Growth */}
-        <div className="card">
-          <h3 className="text-lg font-medium text-gray-900 mb-4">Customer Growth</h3>
-          <div className="h-64">
-            {customerAnalytics?.customerGrowth?.length > 0 ? (
-              <Bar
-                data={customerGrowthData}
-                options={{
-                  responsive: true,
-                  maintainAspectRatio: false,
-                  plugins: {
-                    legend: {
-                      display: false,
-                    },
-                  },
-                  scales: {
-                    y: {
-                      beginAtZero: true,
-                    }
-                  }
-                }}
-              />
-            ) : (
-              <div className="flex items-center justify-center h-full">
-                <p className="text-gray-500">No customer growth data available</p>
+        {hasAdvancedAnalytics ? (
+          <>
+            {/* Customer Growth */}
+            <div className="card">
+              <h3 className="text-lg font-medium text-gray-900 mb-4">Customer Growth</h3>
+              <div className="h-64">
+                {customerAnalytics?.customerGrowth?.length > 0 ? (
+                  <Bar
+                    data={customerGrowthData}
+                    options={{
+                      responsive: true,
+                      maintainAspectRatio: false,
+                      plugins: {
+                        legend: {
+                          display: false,
+                        },
+                      },
+                      scales: {
+                        y: {
+                          beginAtZero: true,
+                        }
+                      }
+                    }}
+                  />
+                ) : (
+                  <div className="flex items-center justify-center h-full">
+                    <p className="text-gray-500">No customer growth data available</p>
+                  </div>
+                )}
               </div>
-            )}
-          </div>
-        </div>
+            </div>
 
-        {/* Customer Segments */}
-        <div className="card">
-          <h3 className="text-lg font-medium text-gray-900 mb-4">Customer Segments</h3>
-          <div className="h-64">
-            {customerAnalytics?.segments?.length > 0 ? (
-              <Doughnut
-                data={segmentsData}
-                options={{
-                  responsive: true,
-                  maintainAspectRatio: false,
-                  plugins: {
-                    legend: {
-                      position: 'bottom',
-                    },
-                  },
-                }}
-              />
-            ) : (
-              <div className="flex items-center justify-center h-full">
-                <p className="text-gray-500">No segment data available</p>
+            {/* Customer Segments */}
+            <div className="card">
+              <h3 className="text-lg font-medium text-gray-900 mb-4">Customer Segments</h3>
+              <div className="h-64">
+                {customerAnalytics?.segments?.length > 0 ? (
+                  <Doughnut
+                    data={segmentsData}
+                    options={{
+                      responsive: true,
+                      maintainAspectRatio: false,
+                      plugins: {
+                        legend: {
+                          position: 'bottom',
+                        },
+                      },
+                    }}
+                  />
+                ) : (
+                  <div className="flex items-center justify-center h-full">
+                    <p className="text-gray-500">No segment data available</p>
+                  </div>
+                )}
               </div>
-            )}
-          </div>
-        </div>
+            </div>
 
-        {/* Top Customers */}
-        <div className="card">
-          <h3 className="text-lg font-medium text-gray-900 mb-4">Top Customers</h3>
-          <div className="space-y-3">
-            {customerAnalytics?.topCustomers?.slice(0, 5).map((customer: any) => (
-              <div key={customer.id} className="flex items-center justify-between py-2">
-                <div>
-                  <p className="text-sm font-medium text-gray-900">
-                    {customer.first_name} {customer.last_name}
-                  </p>
-                  <p className="text-sm text-gray-500">{customer.email}</p>
-                </div>
-                <div className="text-right">
-                  <p className="text-sm font-medium text-gray-900">
-                    {formatCurrency(customer.total_spent || 0)}
-                  </p>
-                  <p className="text-sm text-gray-500">
-                    {customer.payment_count} payments
-                  </p>
-                </div>
+            {/* Top Customers */}
+            <div className="card">
+              <h3 className="text-lg font-medium text-gray-900 mb-4">Top Customers</h3>
+              <div className="space-y-3">
+                {customerAnalytics?.topCustomers?.slice(0, 5).map((customer: any) => (
+                  <div key={customer.id} className="flex items-center justify-between py-2">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">
+                        {customer.first_name} {customer.last_name}
+                      </p>
+                      <p className="text-sm text-gray-500">{customer.email}</p>
+                    </div>
+                    <div className="text-right">
+                      <p className="text-sm font-medium text-gray-900">
+                        {formatCurrency(customer.total_spent || 0)}
+                      </p>
+                      <p className="text-sm text-gray-500">
+                        {customer.payment_count} payments
+                      </p>
+                    </div>
+                  </div>
+                )) || (
+                  <p className="text-gray-500 text-center py-4">No customer data available</p>
+                )}
               </div>
-            )) || (
-              <p className="text-gray-500 text-center py-4">No customer data available</p>
-            )}
+            </div>
+          </>
+        ) : (
+          <div className="card flex flex-col items-center justify-center text-center py-12">
+            <LockClosedIcon className="h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-lg font-medium text-gray-900">Customer analytics</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Customer growth, segments and top customers come with advanced analytics.
+            </p>
+            <Link to="/plans" className="mt-4 btn-primary">
+              Upgrade your plan
+            </Link>
           </div>
-        </div>
+        )}
       </div>
 
       {/* Subscription Status Distribution */}
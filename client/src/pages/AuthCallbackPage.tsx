@@ -0,0 +1,56 @@
+import { useEffect, useRef, useState } from 'react'
+import { Link, useNavigate, useSearchParams } from 'react-router-dom'
+import { XCircleIcon } from '@heroicons/react/24/outline'
+import { useAuthStore } from '../stores/authStore'
+
+// Landing page after signing in with an external provider
+export default function AuthCallbackPage() {
+  const [searchParams] = useSearchParams()
+  const [errorMessage, setErrorMessage] = useState(searchParams.get('error') || '')
+  const { completeOAuthLogin } = useAuthStore()
+  const navigate = useNavigate()
+  const hasSubmitted = useRef(false)
+  const code = searchParams.get('code')
+
+  useEffect(() => {
+    // Codes are single-use, so never submit twice (e.g. StrictMode re-runs)
+    if (hasSubmitted.current || !code) return
+    hasSubmitted.current = true
+
+    completeOAuthLogin(code)
+      .then((result) => {
+        if (result.twoFactorRequired) {
+          navigate('/login', { replace: true, state: { challengeToken: result.challengeToken } })
+        } else {
+          navigate('/dashboard', { replace: true })
+        }
+      })
+      .catch((error) => {
+        setErrorMessage(error.response?.data?.error || 'Sign-in failed')
+      })
+  }, [code, completeOAuthLogin, navigate])
+
+  const failed = !!errorMessage || !code
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full card text-center">
+        {failed ? (
+          <>
+            <XCircleIcon className="mx-auto h-12 w-12 text-red-500" />
+            <h2 className="mt-4 text-xl font-semibold text-gray-900">Sign-in failed</h2>
+            <p className="mt-2 text-gray-600">{errorMessage || 'This sign-in link is missing its code.'}</p>
+            <Link to="/login" className="mt-6 inline-block btn-primary">
+              Back to sign in
+            </Link>
+          </>
+        ) : (
+          <>
+            <div className="mx-auto animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+            <p className="mt-4 text-gray-600">Signing you in...</p>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
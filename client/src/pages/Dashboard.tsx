@@ -1,4 +1,5 @@
 import { useQuery } from '@tanstack/react-query'
+import { Link } from 'react-router-dom'
 import axios from 'axios'
 import {
   Chart as ChartJS,
@@ -17,6 +18,7 @@ import {
   CreditCardIcon,
   ExclamationTriangleIcon 
 } from '@heroicons/react/24/outline'
+import TrialCountdown from '../components/TrialCountdown'
 
 ChartJS.register(
   CategoryScale,
@@ -28,6 +30,16 @@ ChartJS.register(
   ArcElement
 )
 
+interface TrialSubscription {
+  id: string
+  status: string
+  trialEnd: string
+  paymentMethodMissing: boolean
+  plan: {
+    name: string
+  }
+}
+
 export default function Dashboard() {
   const { data: analytics, isLoading } = useQuery({
     queryKey: ['dashboard-analytics'],
@@ -37,6 +49,16 @@ export default function Dashboard() {
     },
   })
 
+  const { data: trials } = useQuery({
+    queryKey: ['subscriptions'],
+    queryFn: async () => {
+      const response = await axios.get('/subscriptions')
+      return response.data.data as TrialSubscription[]
+    },
+    select: (subscriptions) =>
+      subscriptions.filter((subscription) => subscription.status === 'TRIALING' && subscription.trialEnd),
+  })
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -123,6 +145,22 @@ export default function Dashboard() {
         <p className="text-gray-600">Overview of your SAAS business metrics</p>
       </div>
 
+      {trials?.map((subscription) => (
+        <div
+          key={subscription.id}
+          className="flex items-center justify-between rounded-md bg-blue-50 px-4 py-3"
+        >
+          <p className="text-sm text-blue-800">
+            <span className="font-medium">{subscription.plan.name}:</span>{' '}
+            <TrialCountdown trialEnd={subscription.trialEnd} />
+            {subscription.paymentMethodMissing && '. Add a payment method to keep it.'}
+          </p>
+          <Link to="/subscriptions" className="text-sm font-medium text-blue-700 hover:text-blue-900">
+            Manage
+          </Link>
+        </div>
+      ))}
+
       {/* Stats */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         {stats.map((stat) => (
@@ -1,7 +1,8 @@
 import { useState } from 'react'
-import { Link, useNavigate } from 'react-router-dom'
+import { Link, useLocation, useNavigate } from 'react-router-dom'
 import { useForm } from 'react-hook-form'
 import { useAuthStore } from '../stores/authStore'
+import OAuthButtons from '../components/OAuthButtons'
 import { EyeIcon, EyeSlashIcon } from '@heroicons/react/24/outline'
 
 interface LoginForm {
@@ -9,10 +10,22 @@ interface LoginForm {
   password: string
 }
 
+interface TwoFactorForm {
+  code: string
+}
+
 export default function LoginPage() {
   const [showPassword, setShowPassword] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
-  const { login } = useAuthStore()
+  const location = useLocation()
+  // Provider sign-ins that still need a second factor land here with a challenge
+  const [challengeToken, setChallengeToken] = useState<string | null>(
+    (location.state as { challengeToken?: string } | null)?.challengeToken ?? null
+  )
+  // Pages that sent the user here to sign in first (e.g. accepting an invitation)
+  const redirectTo = (location.state as { from?: string } | null)?.from || '/dashboard'
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false)
+  const { login, verifyTwoFactor } = useAuthStore()
   const navigate = useNavigate()
 
   const {
@@ -21,18 +34,114 @@ export default function LoginPage() {
     formState: { errors },
   } = useForm<LoginForm>()
 
+  const twoFactorForm = useForm<TwoFactorForm>()
+
   const onSubmit = async (data: LoginForm) => {
     setIsLoading(true)
     try {
-      await login(data.email, data.password)
-      navigate('/dashboard')
-    } catch (error) {
-      // Error is handled in the store
+      const result = await login(data.email, data.password)
+      if (result.twoFactorRequired) {
+        setChallengeToken(result.challengeToken)
+      } else {
+        navigate(redirectTo)
+      }
+    } catch (error: any) {
+      // Error is handled in the store; companies enforcing SSO send users to their IdP
+      if (error.response?.data?.code === 'SSO_REQUIRED') {
+        window.location.assign(error.response.data.loginUrl)
+      }
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const onSubmitTwoFactor = async (data: TwoFactorForm) => {
+    if (!challengeToken) return
+    setIsLoading(true)
+    try {
+      await verifyTwoFactor(
+        challengeToken,
+        useRecoveryCode ? { recoveryCode: data.code } : { code: data.code }
+      )
+      navigate(redirectTo)
+    } catch (error: any) {
+      // An expired challenge means starting over from the password step
+      if (error.response?.status === 401) {
+        setChallengeToken(null)
+      }
     } finally {
       setIsLoading(false)
     }
   }
 
+  if (challengeToken) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-md w-full space-y-8">
+          <div>
+            <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+              Two-factor authentication
+            </h2>
+            <p className="mt-2 text-center text-sm text-gray-600">
+              {useRecoveryCode
+                ? 'Enter one of your recovery codes'
+                : 'Enter the 6-digit code from your authenticator app'}
+            </p>
+          </div>
+          <form className="mt-8 space-y-6" onSubmit={twoFactorForm.handleSubmit(onSubmitTwoFactor)}>
+            <div>
+              <label htmlFor="code" className="block text-sm font-medium text-gray-700">
+                {useRecoveryCode ? 'Recovery code' : 'Authentication code'}
+              </label>
+              <input
+                {...twoFactorForm.register('code', {
+                  required: 'Code is required',
+                })}
+                type="text"
+                inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                autoComplete="one-time-code"
+                autoFocus
+                className="input-field mt-1"
+                placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+              />
+              {twoFactorForm.formState.errors.code && (
+                <p className="mt-1 text-sm text-red-600">{twoFactorForm.formState.errors.code.message}</p>
+              )}
+            </div>
+
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="group relative w-full flex justify-center btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLoading ? 'Verifying...' : 'Verify'}
+            </button>
+
+            <div className="flex justify-between text-sm">
+              <button
+                type="button"
+                onClick={() => {
+                  setUseRecoveryCode(!useRecoveryCode)
+                  twoFactorForm.reset()
+                }}
+                className="font-medium text-primary-600 hover:text-primary-500"
+              >
+                {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+              </button>
+              <button
+                type="button"
+                onClick={() => setChallengeToken(null)}
+                className="font-medium text-gray-600 hover:text-gray-500"
+              >
+                Back to sign in
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    )
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full space-y-8">
@@ -105,6 +214,21 @@ export default function LoginPage() {
             </div>
           </div>
 
+          <div className="flex justify-between">
+            <Link
+              to="/sso"
+              className="text-sm font-medium text-primary-600 hover:text-primary-500"
+            >
+              Sign in with SSO
+            </Link>
+            <Link
+              to="/forgot-password"
+              className="text-sm font-medium text-primary-600 hover:text-primary-500"
+            >
+              Forgot your password?
+            </Link>
+          </div>
+
           <div>
             <button
               type="submit"
@@ -125,6 +249,8 @@ export default function LoginPage() {
             </button>
           </div>
         </form>
+
+        <OAuthButtons />
       </div>
     </div>
   )
@@ -15,6 +15,10 @@ interface Payment {
   status: string
   description?: string
   receiptUrl?: string
+  discountAmount: number
+  coupon?: {
+    name: string
+  }
   createdAt: string
   subscription?: {
     plan: {
@@ -219,7 +223,18 @@ export default function Payments() {
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {payment.discountAmount > 0 && (
+                        <div className="text-xs font-normal text-gray-400 line-through">
+                          {formatCurrency(payment.amount + payment.discountAmount, payment.currency)}
+                        </div>
+                      )}
                       {formatCurrency(payment.amount, payment.currency)}
+                      {payment.discountAmount > 0 && (
+                        <div className="text-xs font-normal text-green-600">
+                          −{formatCurrency(payment.discountAmount, payment.currency)}
+                          {payment.coupon && ` (${payment.coupon.name})`}
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${getStatusColor(payment.status)}`}>
@@ -1,6 +1,9 @@
+import { useState } from 'react'
 import { useQuery } from '@tanstack/react-query'
 import axios from 'axios'
 import { CheckIcon } from '@heroicons/react/24/outline'
+import ChangePlanDialog, { ChangePlanSubscription } from '../components/ChangePlanDialog'
+import CheckoutDialog from '../components/CheckoutDialog'
 
 interface Plan {
   id: string
@@ -8,11 +11,22 @@ interface Plan {
   amount: number
   currency: string
   interval: string
+  perSeat: boolean
+  trialDays: number
+  trialRequiresPaymentMethod: boolean
   features: string[]
   isActive: boolean
 }
 
+interface Subscription extends ChangePlanSubscription {
+  status: string
+  cancelAtPeriodEnd: boolean
+}
+
 export default function Plans() {
+  const [switchToPlanId, setSwitchToPlanId] = useState<string | null>(null)
+  const [checkoutPlan, setCheckoutPlan] = useState<Plan | null>(null)
+
   const { data: plans, isLoading } = useQuery({
     queryKey: ['plans'],
     queryFn: async () => {
@@ -21,6 +35,19 @@ export default function Plans() {
     },
   })
 
+  const { data: subscriptions } = useQuery({
+    queryKey: ['subscriptions'],
+    queryFn: async () => {
+      const response = await axios.get('/subscriptions')
+      return response.data.data as Subscription[]
+    },
+  })
+
+  // The subscription a plan switch applies to
+  const currentSubscription = subscriptions?.find(
+    (subscription) => ['ACTIVE', 'TRIALING'].includes(subscription.status) && !subscription.cancelAtPeriodEnd
+  )
+
   const formatCurrency = (amount: number, currency: string) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -62,8 +89,16 @@ export default function Plans() {
                   <span className="text-4xl font-bold text-gray-900">
                     {formatCurrency(plan.amount, plan.currency)}
                   </span>
-                  <span className="text-gray-500">/{plan.interval}</span>
+                  <span className="text-gray-500">
+                    {plan.perSeat && '/seat'}/{plan.interval}
+                  </span>
                 </div>
+                {plan.trialDays > 0 && !currentSubscription && (
+                  <p className="-mt-2 mb-4 text-sm font-medium text-primary-600">
+                    {plan.trialDays}-day free trial
+                    {!plan.trialRequiresPaymentMethod && ', no card required'}
+                  </p>
+                )}
               </div>
 
               {plan.features && plan.features.length > 0 && (
@@ -77,19 +112,33 @@ export default function Plans() {
                 </ul>
               )}
 
-              <button
-                className="w-full btn-primary"
-                onClick={() => {
-                  // This would typically open a subscription creation flow
-                  alert('Subscription creation would be implemented here with Stripe Elements')
-                }}
-              >
-                Choose Plan
-              </button>
+              {currentSubscription?.planId === plan.id ? (
+                <button className="w-full btn-outline" disabled>
+                  Current Plan
+                </button>
+              ) : currentSubscription ? (
+                <button className="w-full btn-primary" onClick={() => setSwitchToPlanId(plan.id)}>
+                  Switch to this Plan
+                </button>
+              ) : (
+                <button className="w-full btn-primary" onClick={() => setCheckoutPlan(plan)}>
+                  Choose Plan
+                </button>
+              )}
             </div>
           ))}
         </div>
       )}
+
+      {checkoutPlan && <CheckoutDialog plan={checkoutPlan} onClose={() => setCheckoutPlan(null)} />}
+
+      {currentSubscription && switchToPlanId && (
+        <ChangePlanDialog
+          subscription={currentSubscription}
+          initialPlanId={switchToPlanId}
+          onClose={() => setSwitchToPlanId(null)}
+        />
+      )}
     </div>
   )
 }
@@ -1,8 +1,12 @@
-import { useState } from 'react'
-import { Link, useNavigate } from 'react-router-dom'
+import { useEffect, useState } from 'react'
+import { Link, Navigate, useLocation, useNavigate, useSearchParams } from 'react-router-dom'
 import { useForm } from 'react-hook-form'
+import { useQuery } from '@tanstack/react-query'
+import axios from 'axios'
+import toast from 'react-hot-toast'
 import { useAuthStore } from '../stores/authStore'
-import { EyeIcon, EyeSlashIcon } from '@heroicons/react/24/outline'
+import OAuthButtons from '../components/OAuthButtons'
+import { EnvelopeIcon, EyeIcon, EyeSlashIcon } from '@heroicons/react/24/outline'
 
 interface RegisterForm {
   email: string
@@ -11,23 +15,72 @@ interface RegisterForm {
   firstName: string
   lastName: string
   companyName?: string
+  joinCompany: boolean
+}
+
+interface Invitation {
+  email: string
+  companyName: string
+  invitedBy: string
+  expiresAt: string
+  hasAccount: boolean
+}
+
+interface JoinableCompany {
+  companyName: string
+  joinPolicy: 'APPROVAL' | 'AUTOMATIC'
 }
 
 export default function RegisterPage() {
   const [showPassword, setShowPassword] = useState(false)
   const [showConfirmPassword, setShowConfirmPassword] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
-  const { register: registerUser } = useAuthStore()
+  const [isDeclined, setIsDeclined] = useState(false)
+  const [joinableCompany, setJoinableCompany] = useState<JoinableCompany | null>(null)
+  const { user, isAuthenticated, register: registerUser, updateUser } = useAuthStore()
   const navigate = useNavigate()
+  const location = useLocation()
+  const [searchParams] = useSearchParams()
+  const invitationToken = searchParams.get('invitation')
 
   const {
     register,
     handleSubmit,
     watch,
+    setValue,
     formState: { errors },
-  } = useForm<RegisterForm>()
+  } = useForm<RegisterForm>({ defaultValues: { joinCompany: true } })
 
   const password = watch('password')
+  const joinCompany = watch('joinCompany')
+
+  const { data: invitation, isLoading: isLoadingInvitation, error: invitationError } = useQuery<Invitation>({
+    queryKey: ['invitation', invitationToken],
+    queryFn: async () => {
+      const response = await axios.post('/team/invitations/lookup', { token: invitationToken })
+      return response.data.data
+    },
+    enabled: !!invitationToken,
+    retry: false,
+  })
+
+  // The account has to be created with the address the invitation went to
+  useEffect(() => {
+    if (invitation) {
+      setValue('email', invitation.email)
+    }
+  }, [invitation, setValue])
+
+  // Offer to join the company that verified the address's domain
+  const lookupCompany = async (email: string) => {
+    if (invitation || !email) return
+    try {
+      const response = await axios.post('/auth/company-lookup', { email })
+      setJoinableCompany(response.data.data)
+    } catch (error) {
+      setJoinableCompany(null)
+    }
+  }
 
   const onSubmit = async (data: RegisterForm) => {
     setIsLoading(true)
@@ -37,7 +90,11 @@ export default function RegisterPage() {
         password: data.password,
         firstName: data.firstName,
         lastName: data.lastName,
-        companyName: data.companyName,
+        ...(invitation && invitationToken
+          ? { invitationToken }
+          : joinableCompany && data.joinCompany
+            ? { joinCompany: true }
+            : { companyName: data.companyName }),
       })
       navigate('/dashboard')
     } catch (error) {
@@ -47,6 +104,99 @@ export default function RegisterPage() {
     }
   }
 
+  const acceptInvitation = async () => {
+    setIsLoading(true)
+    try {
+      const response = await axios.post('/team/invitations/accept', { token: invitationToken })
+      toast.success(response.data.message)
+      const me = await axios.get('/auth/me')
+      updateUser(me.data.user)
+      navigate('/team')
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to accept invitation')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const declineInvitation = async () => {
+    setIsLoading(true)
+    try {
+      await axios.post('/team/invitations/decline', { token: invitationToken })
+      setIsDeclined(true)
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to decline invitation')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const invitationErrorMessage =
+    (invitationError as any)?.response?.data?.error || 'This invitation is invalid or has expired'
+
+  // Signed-in users only come here to answer an invitation
+  if (isAuthenticated) {
+    if (!invitationToken) {
+      return <Navigate to="/dashboard" replace />
+    }
+
+    return (
+      <div className="min-h-[60vh] flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-md w-full card text-center">
+          <EnvelopeIcon className="mx-auto h-12 w-12 text-primary-600" />
+          {isLoadingInvitation ? (
+            <p className="mt-4 text-gray-600">Loading invitation...</p>
+          ) : isDeclined ? (
+            <>
+              <h2 className="mt-4 text-xl font-semibold text-gray-900">Invitation declined</h2>
+              <Link to="/dashboard" className="mt-6 inline-block btn-primary">
+                Go to dashboard
+              </Link>
+            </>
+          ) : !invitation ? (
+            <>
+              <h2 className="mt-4 text-xl font-semibold text-gray-900">Invitation unavailable</h2>
+              <p className="mt-2 text-gray-600">{invitationErrorMessage}</p>
+              <Link to="/dashboard" className="mt-6 inline-block btn-primary">
+                Go to dashboard
+              </Link>
+            </>
+          ) : (
+            <>
+              <h2 className="mt-4 text-xl font-semibold text-gray-900">
+                Join {invitation.companyName}
+              </h2>
+              <p className="mt-2 text-gray-600">
+                {invitation.invitedBy} invited {invitation.email} to join {invitation.companyName}.
+              </p>
+              {user?.email.toLowerCase() !== invitation.email && (
+                <p className="mt-2 text-sm text-red-600">
+                  You are signed in as {user?.email}. Sign in with the invited address to accept.
+                </p>
+              )}
+              <div className="mt-6 flex justify-center space-x-3">
+                <button
+                  onClick={declineInvitation}
+                  disabled={isLoading}
+                  className="btn-outline disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Decline
+                </button>
+                <button
+                  onClick={acceptInvitation}
+                  disabled={isLoading}
+                  className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Accept invitation
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    )
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full space-y-8">
@@ -64,6 +214,43 @@ export default function RegisterPage() {
             </Link>
           </p>
         </div>
+
+        {invitationToken && !isLoadingInvitation && (
+          <div className="rounded-md bg-primary-50 border border-primary-200 p-4 text-sm">
+            {isDeclined ? (
+              <p className="text-gray-700">You declined the invitation.</p>
+            ) : invitation ? (
+              <>
+                <p className="text-gray-700">
+                  <span className="font-medium">{invitation.invitedBy}</span> invited you to join{' '}
+                  <span className="font-medium">{invitation.companyName}</span>.
+                </p>
+                <div className="mt-3 flex items-center space-x-4">
+                  {invitation.hasAccount && (
+                    <Link
+                      to="/login"
+                      state={{ from: `${location.pathname}${location.search}` }}
+                      className="font-medium text-primary-600 hover:text-primary-500"
+                    >
+                      Sign in to accept
+                    </Link>
+                  )}
+                  <button
+                    type="button"
+                    onClick={declineInvitation}
+                    disabled={isLoading}
+                    className="font-medium text-gray-600 hover:text-gray-900"
+                  >
+                    Decline
+                  </button>
+                </div>
+              </>
+            ) : (
+              <p className="text-red-600">{invitationErrorMessage}</p>
+            )}
+          </div>
+        )}
+
         <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
           <div className="space-y-4">
             <div className="grid grid-cols-2 gap-4">
@@ -112,10 +299,12 @@ export default function RegisterPage() {
                     value: /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i,
                     message: 'Invalid email address',
                   },
+                  onBlur: (e) => lookupCompany(e.target.value),
                 })}
                 type="email"
                 autoComplete="email"
-                className="input-field mt-1"
+                readOnly={!!invitation}
+                className={`input-field mt-1 ${invitation ? 'bg-gray-100' : ''}`}
                 placeholder="Enter your email"
               />
               {errors.email && (
@@ -123,17 +312,33 @@ export default function RegisterPage() {
               )}
             </div>
 
-            <div>
-              <label htmlFor="companyName" className="block text-sm font-medium text-gray-700">
-                Company name (optional)
-              </label>
-              <input
-                {...register('companyName')}
-                type="text"
-                className="input-field mt-1"
-                placeholder="Enter your company name"
-              />
-            </div>
+            {!invitation && joinableCompany && (
+              <div className="rounded-md bg-primary-50 border border-primary-200 p-4">
+                <label className="flex items-center space-x-2 text-sm font-medium text-gray-900">
+                  <input type="checkbox" {...register('joinCompany')} />
+                  <span>Join {joinableCompany.companyName}</span>
+                </label>
+                <p className="mt-1 ml-6 text-sm text-gray-600">
+                  {joinableCompany.joinPolicy === 'AUTOMATIC'
+                    ? "You'll join once you verify your email."
+                    : 'An admin will review your request after you verify your email.'}
+                </p>
+              </div>
+            )}
+
+            {!invitation && !(joinableCompany && joinCompany) && (
+              <div>
+                <label htmlFor="companyName" className="block text-sm font-medium text-gray-700">
+                  Company name (optional)
+                </label>
+                <input
+                  {...register('companyName')}
+                  type="text"
+                  className="input-field mt-1"
+                  placeholder="Enter your company name"
+                />
+              </div>
+            )}
 
             <div>
               <label htmlFor="password" className="block text-sm font-medium text-gray-700">
@@ -224,6 +429,8 @@ export default function RegisterPage() {
             </button>
           </div>
         </form>
+
+        <OAuthButtons />
       </div>
     </div>
   )
@@ -0,0 +1,116 @@
+import { useState } from 'react'
+import { Link, useNavigate, useSearchParams } from 'react-router-dom'
+import { useForm } from 'react-hook-form'
+import axios from 'axios'
+import toast from 'react-hot-toast'
+
+interface ResetPasswordForm {
+  password: string
+  confirmPassword: string
+}
+
+export default function ResetPasswordPage() {
+  const [isLoading, setIsLoading] = useState(false)
+  const [searchParams] = useSearchParams()
+  const navigate = useNavigate()
+  const token = searchParams.get('token')
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors },
+  } = useForm<ResetPasswordForm>()
+
+  const password = watch('password')
+
+  const onSubmit = async (data: ResetPasswordForm) => {
+    setIsLoading(true)
+    try {
+      await axios.post('/auth/reset-password', { token, password: data.password })
+      toast.success('Password reset. Please sign in with your new password.')
+      navigate('/login')
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to reset password')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            Choose a new password
+          </h2>
+        </div>
+
+        {!token ? (
+          <div className="p-4 bg-red-50 rounded-lg">
+            <p className="text-sm text-red-800">
+              This reset link is missing its token.{' '}
+              <Link to="/forgot-password" className="font-medium underline">
+                Request a new link
+              </Link>
+            </p>
+          </div>
+        ) : (
+          <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
+            <div className="space-y-4">
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                  New password
+                </label>
+                <input
+                  {...register('password', {
+                    required: 'Password is required',
+                    minLength: {
+                      value: 6,
+                      message: 'Password must be at least 6 characters',
+                    },
+                  })}
+                  type="password"
+                  autoComplete="new-password"
+                  className="input-field mt-1"
+                  placeholder="Enter a new password"
+                />
+                {errors.password && (
+                  <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700">
+                  Confirm new password
+                </label>
+                <input
+                  {...register('confirmPassword', {
+                    required: 'Please confirm your password',
+                    validate: (value) =>
+                      value === password || 'Passwords do not match',
+                  })}
+                  type="password"
+                  autoComplete="new-password"
+                  className="input-field mt-1"
+                  placeholder="Confirm your new password"
+                />
+                {errors.confirmPassword && (
+                  <p className="mt-1 text-sm text-red-600">{errors.confirmPassword.message}</p>
+                )}
+              </div>
+            </div>
+
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="group relative w-full flex justify-center btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLoading ? 'Resetting...' : 'Reset password'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  )
+}
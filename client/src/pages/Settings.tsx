@@ -1,18 +1,67 @@
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
+import { useSearchParams } from 'react-router-dom'
 import { useForm } from 'react-hook-form'
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import axios from 'axios'
 import toast from 'react-hot-toast'
 import { useAuthStore } from '../stores/authStore'
+import { useOAuthProviders } from '../components/OAuthButtons'
+import SsoSettings from '../components/SsoSettings'
+import ApiKeySettings from '../components/ApiKeySettings'
+import RoleSettings from '../components/RoleSettings'
+import DomainSettings from '../components/DomainSettings'
+import CompanySettings from '../components/CompanySettings'
+import DataExportSettings from '../components/DataExportSettings'
+import AccountDeletionSettings from '../components/AccountDeletionSettings'
 
 interface ProfileForm {
   firstName: string
   lastName: string
 }
 
+interface TwoFactorStatus {
+  enabled: boolean
+  required: boolean
+  recoveryCodesRemaining: number
+}
+
+interface TwoFactorSetup {
+  secret: string
+  otpauthUrl: string
+  qrCode: string
+}
+
+interface Session {
+  id: string
+  device: string
+  ipAddress?: string
+  userAgent?: string
+  lastSeenAt: string
+  current: boolean
+}
+
+interface ConnectedAccount {
+  id: string
+  provider: string
+  providerName: string
+  email?: string
+  lastUsedAt?: string
+  createdAt: string
+}
+
+interface SsoCompany {
+  companyId: string
+  companyName: string
+}
+
 export default function Settings() {
-  const [activeTab, setActiveTab] = useState('profile')
-  const { user, updateUser } = useAuthStore()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const [activeTab, setActiveTab] = useState(searchParams.get('tab') || 'profile')
+  const [twoFactorSetup, setTwoFactorSetup] = useState<TwoFactorSetup | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [twoFactorCode, setTwoFactorCode] = useState('')
+  const [disablePassword, setDisablePassword] = useState('')
+  const { user, updateUser, logout, logoutAll, hasPermission } = useAuthStore()
   const queryClient = useQueryClient()
 
   const {
@@ -34,13 +83,201 @@ export default function Settings() {
     },
   })
 
+  const { data: sessions } = useQuery({
+    queryKey: ['sessions'],
+    queryFn: async () => {
+      const response = await axios.get('/auth/sessions')
+      return response.data.data as Session[]
+    },
+    enabled: activeTab === 'sessions',
+  })
+
+  const revokeSessionMutation = useMutation({
+    mutationFn: async (sessionId: string) => {
+      await axios.delete(`/auth/sessions/${sessionId}`)
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sessions'] })
+      toast.success('Session signed out')
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to sign out session')
+    },
+  })
+
+  const { data: twoFactorStatus } = useQuery({
+    queryKey: ['two-factor-status'],
+    queryFn: async () => {
+      const response = await axios.get('/auth/2fa/status')
+      return response.data.data as TwoFactorStatus
+    },
+    enabled: activeTab === 'security',
+  })
+
+  const { data: oauthProviders } = useOAuthProviders()
+
+  const { data: connectedAccounts } = useQuery({
+    queryKey: ['connected-accounts'],
+    queryFn: async () => {
+      const response = await axios.get('/auth/oauth/identities')
+      return response.data.data as ConnectedAccount[]
+    },
+    enabled: activeTab === 'security',
+  })
+
+  // A company of the user that signs in through its identity provider
+  const { data: ssoCompany } = useQuery({
+    queryKey: ['sso-company', user?.email],
+    queryFn: async () => {
+      try {
+        const response = await axios.post('/sso/discover', { email: user?.email })
+        return response.data.data as SsoCompany
+      } catch (error: any) {
+        if (error.response?.status === 404) return null
+        throw error
+      }
+    },
+    enabled: activeTab === 'security' && !!user?.email,
+  })
+
+  const ssoAccount = ssoCompany && connectedAccounts?.find((item) => item.provider === `saml:${ssoCompany.companyId}`)
+
+  // Follow links to a tab while already on this page, e.g. from the deletion banner
+  useEffect(() => {
+    const tab = searchParams.get('tab')
+    if (tab) setActiveTab(tab)
+  }, [searchParams])
+
+  // Result of connecting a provider comes back on the redirect URL
+  useEffect(() => {
+    const linked = searchParams.get('linked')
+    const oauthError = searchParams.get('oauthError')
+    if (!linked && !oauthError) return
+
+    if (linked) {
+      toast.success('Account connected')
+    } else if (oauthError) {
+      toast.error(oauthError)
+    }
+    setSearchParams({ tab: 'security' }, { replace: true })
+  }, [searchParams, setSearchParams])
+
+  const connectAccountMutation = useMutation({
+    mutationFn: async (providerId: string) => {
+      const response = await axios.post(`/auth/oauth/${providerId}/link`)
+      return response.data.url as string
+    },
+    onSuccess: (url) => {
+      window.location.assign(url)
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to connect account')
+    },
+  })
+
+  const connectSsoMutation = useMutation({
+    mutationFn: async (companyId: string) => {
+      const response = await axios.post(`/sso/saml/${companyId}/link`)
+      return response.data.url as string
+    },
+    onSuccess: (url) => {
+      window.location.assign(url)
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to connect single sign-on')
+    },
+  })
+
+  const disconnectAccountMutation = useMutation({
+    mutationFn: async (identityId: string) => {
+      await axios.delete(`/auth/oauth/identities/${identityId}`)
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['connected-accounts'] })
+      toast.success('Account disconnected')
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to disconnect account')
+    },
+  })
+
+  const onTwoFactorChanged = (enabled: boolean) => {
+    setTwoFactorCode('')
+    setDisablePassword('')
+    queryClient.invalidateQueries({ queryKey: ['two-factor-status'] })
+    if (user) {
+      updateUser({ ...user, twoFactorEnabled: enabled })
+    }
+  }
+
+  const setupTwoFactorMutation = useMutation({
+    mutationFn: async () => {
+      const response = await axios.post('/auth/2fa/setup')
+      return response.data.data as TwoFactorSetup
+    },
+    onSuccess: (setup) => {
+      setRecoveryCodes(null)
+      setTwoFactorSetup(setup)
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to start two-factor setup')
+    },
+  })
+
+  const enableTwoFactorMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const response = await axios.post('/auth/2fa/enable', { code })
+      return response.data.data.recoveryCodes as string[]
+    },
+    onSuccess: (codes) => {
+      setTwoFactorSetup(null)
+      setRecoveryCodes(codes)
+      onTwoFactorChanged(true)
+      toast.success('Two-factor authentication enabled')
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to enable two-factor authentication')
+    },
+  })
+
+  const disableTwoFactorMutation = useMutation({
+    mutationFn: async () => {
+      await axios.post('/auth/2fa/disable', { password: disablePassword || undefined, code: twoFactorCode })
+    },
+    onSuccess: () => {
+      setRecoveryCodes(null)
+      onTwoFactorChanged(false)
+      toast.success('Two-factor authentication disabled')
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to disable two-factor authentication')
+    },
+  })
+
+  const regenerateRecoveryCodesMutation = useMutation({
+    mutationFn: async () => {
+      const response = await axios.post('/auth/2fa/recovery-codes', { code: twoFactorCode })
+      return response.data.data.recoveryCodes as string[]
+    },
+    onSuccess: (codes) => {
+      setRecoveryCodes(codes)
+      setTwoFactorCode('')
+      queryClient.invalidateQueries({ queryKey: ['two-factor-status'] })
+      toast.success('New recovery codes generated')
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to regenerate recovery codes')
+    },
+  })
+
   const updateProfileMutation = useMutation({
     mutationFn: async (data: ProfileForm) => {
       const response = await axios.put('/users/profile', data)
       return response.data.data
     },
     onSuccess: (updatedUser) => {
-      updateUser(updatedUser)
+      // The profile endpoint doesn't return auth-only fields like permissions
+      updateUser(user ? { ...user, ...updatedUser } : updatedUser)
       toast.success('Profile updated successfully')
       queryClient.invalidateQueries({ queryKey: ['user-profile'] })
     },
@@ -53,10 +290,22 @@ export default function Settings() {
     updateProfileMutation.mutate(data)
   }
 
+  const canManageSso = hasPermission('sso:manage')
+  const canManageRoles = hasPermission('roles:manage')
+  const canManageDomain = hasPermission('domains:manage')
+
   const tabs = [
     { id: 'profile', name: 'Profile' },
     { id: 'activity', name: 'Activity Log' },
+    { id: 'security', name: 'Security' },
+    { id: 'sessions', name: 'Sessions' },
     { id: 'billing', name: 'Billing' },
+    { id: 'api-keys', name: 'API Keys' },
+    { id: 'company', name: 'Company' },
+    { id: 'privacy', name: 'Privacy' },
+    ...(canManageRoles && user?.company ? [{ id: 'roles', name: 'Roles' }] : []),
+    ...(canManageSso && user?.company ? [{ id: 'sso', name: 'Single Sign-On' }] : []),
+    ...(canManageDomain && user?.company ? [{ id: 'domain', name: 'Domain' }] : []),
   ]
 
   return (
@@ -184,6 +433,273 @@ export default function Settings() {
         </div>
       )}
 
+      {/* Security Tab */}
+      {activeTab === 'security' && (
+        <div className="space-y-6">
+          <div className="card">
+            <h3 className="text-lg font-medium text-gray-900 mb-1">Two-Factor Authentication</h3>
+            <p className="text-sm text-gray-500 mb-4">
+              Protect your account with a code from an authenticator app in addition to your password.
+            </p>
+
+            {twoFactorStatus?.required && !twoFactorStatus.enabled && (
+              <div className="p-4 mb-4 bg-yellow-50 rounded-lg">
+                <p className="text-sm text-yellow-800">
+                  Your role requires two-factor authentication. Admin features stay locked until you enable it.
+                </p>
+              </div>
+            )}
+
+            {recoveryCodes && (
+              <div className="p-4 mb-4 bg-gray-50 rounded-lg">
+                <p className="text-sm font-medium text-gray-900 mb-2">
+                  Save these recovery codes somewhere safe. Each can be used once, and they won't be shown again.
+                </p>
+                <div className="grid grid-cols-2 gap-2 font-mono text-sm text-gray-800">
+                  {recoveryCodes.map((code) => (
+                    <span key={code}>{code}</span>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {twoFactorStatus && !twoFactorStatus.enabled && !twoFactorSetup && (
+              <button
+                onClick={() => setupTwoFactorMutation.mutate()}
+                disabled={setupTwoFactorMutation.isPending}
+                className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {setupTwoFactorMutation.isPending ? 'Starting...' : 'Enable two-factor authentication'}
+              </button>
+            )}
+
+            {twoFactorSetup && (
+              <div className="space-y-4">
+                <p className="text-sm text-gray-700">
+                  Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+                </p>
+                <img src={twoFactorSetup.qrCode} alt="Two-factor QR code" className="h-48 w-48" />
+                <p className="text-sm text-gray-500">
+                  Can't scan it? Enter this key manually:{' '}
+                  <span className="font-mono text-gray-800 break-all">{twoFactorSetup.secret}</span>
+                </p>
+                <div className="flex space-x-3">
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    value={twoFactorCode}
+                    onChange={(e) => setTwoFactorCode(e.target.value)}
+                    className="input-field max-w-xs"
+                    placeholder="123456"
+                  />
+                  <button
+                    onClick={() => enableTwoFactorMutation.mutate(twoFactorCode)}
+                    disabled={!twoFactorCode || enableTwoFactorMutation.isPending}
+                    className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {enableTwoFactorMutation.isPending ? 'Verifying...' : 'Confirm'}
+                  </button>
+                  <button onClick={() => setTwoFactorSetup(null)} className="btn-outline">
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {twoFactorStatus?.enabled && (
+              <div className="space-y-4">
+                <div className="flex items-center justify-between p-3 bg-green-50 rounded-lg">
+                  <p className="text-sm text-green-800">Two-factor authentication is on.</p>
+                  <p className="text-sm text-green-800">
+                    {twoFactorStatus.recoveryCodesRemaining} recovery codes left
+                  </p>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Authentication code
+                    </label>
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      autoComplete="one-time-code"
+                      value={twoFactorCode}
+                      onChange={(e) => setTwoFactorCode(e.target.value)}
+                      className="input-field"
+                      placeholder="123456"
+                    />
+                  </div>
+                  {user?.hasPassword !== false && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Password (to disable)
+                      </label>
+                      <input
+                        type="password"
+                        autoComplete="current-password"
+                        value={disablePassword}
+                        onChange={(e) => setDisablePassword(e.target.value)}
+                        className="input-field"
+                      />
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex space-x-3">
+                  <button
+                    onClick={() => regenerateRecoveryCodesMutation.mutate()}
+                    disabled={!twoFactorCode || regenerateRecoveryCodesMutation.isPending}
+                    className="btn-outline disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Regenerate recovery codes
+                  </button>
+                  {!twoFactorStatus.required && (
+                    <button
+                      onClick={() => disableTwoFactorMutation.mutate()}
+                      disabled={
+                        !twoFactorCode ||
+                        (user?.hasPassword !== false && !disablePassword) ||
+                        disableTwoFactorMutation.isPending
+                      }
+                      className="btn-outline text-red-600 border-red-300 hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Disable two-factor authentication
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+          <div className="card">
+            <h3 className="text-lg font-medium text-gray-900 mb-1">Connected Accounts</h3>
+            <p className="text-sm text-gray-500 mb-4">
+              Sign in with an external provider instead of your password.
+            </p>
+
+            <div className="space-y-3">
+              {oauthProviders?.map((provider) => {
+                const account = connectedAccounts?.find((item) => item.provider === provider.id)
+                return (
+                  <div key={provider.id} className="flex items-center justify-between p-4 border border-gray-200 rounded-lg">
+                    <div>
+                      <p className="font-medium text-gray-900">{provider.name}</p>
+                      <p className="text-sm text-gray-500">
+                        {account ? `Connected${account.email ? ` as ${account.email}` : ''}` : 'Not connected'}
+                      </p>
+                    </div>
+                    {account ? (
+                      <button
+                        onClick={() => disconnectAccountMutation.mutate(account.id)}
+                        disabled={disconnectAccountMutation.isPending}
+                        className="btn-outline text-red-600 border-red-300 hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Disconnect
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => connectAccountMutation.mutate(provider.id)}
+                        disabled={connectAccountMutation.isPending}
+                        className="btn-outline disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Connect
+                      </button>
+                    )}
+                  </div>
+                )
+              })}
+              {ssoCompany && (
+                <div className="flex items-center justify-between p-4 border border-gray-200 rounded-lg">
+                  <div>
+                    <p className="font-medium text-gray-900">Single sign-on ({ssoCompany.companyName})</p>
+                    <p className="text-sm text-gray-500">
+                      {ssoAccount
+                        ? `Connected${ssoAccount.email ? ` as ${ssoAccount.email}` : ''}`
+                        : 'Not connected'}
+                    </p>
+                  </div>
+                  {ssoAccount ? (
+                    <button
+                      onClick={() => disconnectAccountMutation.mutate(ssoAccount.id)}
+                      disabled={disconnectAccountMutation.isPending}
+                      className="btn-outline text-red-600 border-red-300 hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Disconnect
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => connectSsoMutation.mutate(ssoCompany.companyId)}
+                      disabled={connectSsoMutation.isPending}
+                      className="btn-outline disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Connect
+                    </button>
+                  )}
+                </div>
+              )}
+              {oauthProviders?.length === 0 && !ssoCompany && (
+                <p className="text-sm text-gray-500">No sign-in providers are configured.</p>
+              )}
+            </div>
+
+            {user?.hasPassword === false && (
+              <p className="mt-4 text-sm text-gray-500">
+                Your account has no password yet. Use "Forgot your password?" on the sign-in page to set one.
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Sessions Tab */}
+      {activeTab === 'sessions' && (
+        <div className="card">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-medium text-gray-900">Active Sessions</h3>
+            <button
+              onClick={() => logoutAll().catch(() => {})}
+              className="btn-outline text-red-600 border-red-300 hover:bg-red-50"
+            >
+              Sign out of all devices
+            </button>
+          </div>
+          <div className="space-y-4">
+            {sessions && sessions.length > 0 ? (
+              sessions.map((session) => (
+                <div key={session.id} className="flex items-center justify-between py-3 border-b border-gray-200 last:border-b-0">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900">
+                      {session.device}
+                      {session.current && (
+                        <span className="ml-2 inline-flex px-2 py-0.5 text-xs font-medium rounded-full bg-green-100 text-green-800">
+                          This device
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-sm text-gray-500 truncate">
+                      {session.ipAddress || 'Unknown IP'} · {session.userAgent || 'Unknown user agent'}
+                    </p>
+                    <p className="text-xs text-gray-400 mt-1">
+                      Last seen {new Date(session.lastSeenAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => (session.current ? logout() : revokeSessionMutation.mutate(session.id))}
+                    disabled={revokeSessionMutation.isPending}
+                    className="btn-outline ml-4 flex-shrink-0"
+                  >
+                    Sign out
+                  </button>
+                </div>
+              ))
+            ) : (
+              <p className="text-gray-500 text-center py-8">No active sessions</p>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Billing Tab */}
       {activeTab === 'billing' && (
         <div className="card">
@@ -221,6 +737,29 @@ export default function Settings() {
           </div>
         </div>
       )}
+
+      {/* API Keys Tab */}
+      {activeTab === 'api-keys' && <ApiKeySettings />}
+
+      {/* Company Tab */}
+      {activeTab === 'company' && <CompanySettings />}
+
+      {/* Privacy Tab */}
+      {activeTab === 'privacy' && (
+        <div className="space-y-6">
+          <DataExportSettings />
+          <AccountDeletionSettings />
+        </div>
+      )}
+
+      {/* Roles Tab */}
+      {activeTab === 'roles' && canManageRoles && <RoleSettings />}
+
+      {/* Single Sign-On Tab */}
+      {activeTab === 'sso' && canManageSso && <SsoSettings />}
+
+      {/* Domain Tab */}
+      {activeTab === 'domain' && canManageDomain && <DomainSettings />}
     </div>
   )
 }
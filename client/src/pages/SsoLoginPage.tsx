@@ -0,0 +1,83 @@
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useForm } from 'react-hook-form'
+import axios from 'axios'
+import toast from 'react-hot-toast'
+
+interface SsoLoginForm {
+  email: string
+}
+
+export default function SsoLoginPage() {
+  const [isLoading, setIsLoading] = useState(false)
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<SsoLoginForm>()
+
+  const onSubmit = async (data: SsoLoginForm) => {
+    setIsLoading(true)
+    try {
+      const response = await axios.post('/sso/discover', { email: data.email })
+      window.location.assign(response.data.data.loginUrl)
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Could not start single sign-on')
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            Single sign-on
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            Enter your work email and we'll send you to your company's sign-in page.{' '}
+            <Link
+              to="/login"
+              className="font-medium text-primary-600 hover:text-primary-500"
+            >
+              Back to sign in
+            </Link>
+          </p>
+        </div>
+
+        <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
+          <div>
+            <label htmlFor="email" className="block text-sm font-medium text-gray-700">
+              Work email
+            </label>
+            <input
+              {...register('email', {
+                required: 'Email is required',
+                pattern: {
+                  value: /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i,
+                  message: 'Invalid email address',
+                },
+              })}
+              type="email"
+              autoComplete="email"
+              className="input-field mt-1"
+              placeholder="you@company.com"
+            />
+            {errors.email && (
+              <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>
+            )}
+          </div>
+
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="group relative w-full flex justify-center btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isLoading ? 'Redirecting...' : 'Continue'}
+          </button>
+        </form>
+      </div>
+    </div>
+  )
+}
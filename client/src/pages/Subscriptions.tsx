@@ -1,4 +1,6 @@
+import { useState } from 'react'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { Link } from 'react-router-dom'
 import axios from 'axios'
 import toast from 'react-hot-toast'
 import { 
@@ -7,24 +9,44 @@ import {
   ClockIcon,
   CreditCardIcon 
 } from '@heroicons/react/24/outline'
+import ChangePlanDialog from '../components/ChangePlanDialog'
+import PaymentMethodDialog from '../components/PaymentMethodDialog'
+import TrialCountdown from '../components/TrialCountdown'
+import EntitlementMeters from '../components/EntitlementMeters'
+import SeatsDialog from '../components/SeatsDialog'
+import { useEntitlements } from '../hooks/useEntitlements'
 
 interface Subscription {
   id: string
+  planId: string
   status: string
+  // Seats, on per-seat plans
+  quantity: number
   currentPeriodStart: string
   currentPeriodEnd: string
   cancelAtPeriodEnd: boolean
+  trialEnd: string | null
+  paymentMethodMissing: boolean
   plan: {
     name: string
     amount: number
     currency: string
     interval: string
+    perSeat: boolean
     features: string[]
   }
+  scheduledPlan: {
+    name: string
+  } | null
 }
 
 export default function Subscriptions() {
   const queryClient = useQueryClient()
+  const [changingSubscription, setChangingSubscription] = useState<Subscription | null>(null)
+  const [cardSubscriptionId, setCardSubscriptionId] = useState<string | null>(null)
+  const [seatsSubscription, setSeatsSubscription] = useState<Subscription | null>(null)
+  const { data: entitlementsData } = useEntitlements()
+  const seatsInUse = entitlementsData?.usage.max_users ?? 1
 
   const { data: subscriptions, isLoading } = useQuery({
     queryKey: ['subscriptions'],
@@ -32,6 +54,9 @@ export default function Subscriptions() {
       const response = await axios.get('/subscriptions')
       return response.data.data as Subscription[]
     },
+    // A new subscription turns active once Stripe reports its first payment
+    refetchInterval: (query) =>
+      query.state.data?.some((subscription) => subscription.status === 'INCOMPLETE') ? 5000 : false,
   })
 
   const cancelMutation = useMutation({
@@ -60,6 +85,19 @@ export default function Subscriptions() {
     },
   })
 
+  const cancelPlanChangeMutation = useMutation({
+    mutationFn: async (subscriptionId: string) => {
+      await axios.delete(`/subscriptions/${subscriptionId}/change-plan`)
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['subscriptions'] })
+      toast.success('Scheduled plan change canceled')
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to cancel plan change')
+    },
+  })
+
   const formatCurrency = (amount: number, currency: string) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -110,6 +148,8 @@ export default function Subscriptions() {
         </div>
       </div>
 
+      <EntitlementMeters />
+
       {!subscriptions || subscriptions.length === 0 ? (
         <div className="card text-center py-12">
           <CreditCardIcon className="mx-auto h-12 w-12 text-gray-400" />
@@ -117,6 +157,9 @@ export default function Subscriptions() {
           <p className="mt-1 text-sm text-gray-500">
             You don't have any active subscriptions yet.
           </p>
+          <Link to="/plans" className="mt-4 inline-block btn-primary">
+            Browse plans
+          </Link>
         </div>
       ) : (
         <div className="grid gap-6">
@@ -132,14 +175,24 @@ export default function Subscriptions() {
                     <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${getStatusColor(subscription.status)}`}>
                       {subscription.status}
                     </span>
+                    {subscription.status === 'TRIALING' && subscription.trialEnd && (
+                      <TrialCountdown trialEnd={subscription.trialEnd} className="ml-2 text-sm text-blue-700" />
+                    )}
                   </div>
                 </div>
                 <div className="text-right">
                   <div className="text-2xl font-bold text-gray-900">
-                    {formatCurrency(subscription.plan.amount, subscription.plan.currency)}
+                    {formatCurrency(
+                      subscription.plan.perSeat
+                        ? subscription.plan.amount * subscription.quantity
+                        : subscription.plan.amount,
+                      subscription.plan.currency
+                    )}
                   </div>
                   <div className="text-sm text-gray-500">
                     per {subscription.plan.interval}
+                    {subscription.plan.perSeat &&
+                      ` (${subscription.quantity} × ${formatCurrency(subscription.plan.amount, subscription.plan.currency)} per seat)`}
                   </div>
                 </div>
               </div>
@@ -163,6 +216,55 @@ export default function Subscriptions() {
                 </div>
               </div>
 
+              {subscription.plan.perSeat && (
+                <div className="mb-4">
+                  <div className="flex items-center justify-between mb-1">
+                    <p className="text-sm text-gray-500">Seats</p>
+                    <p className="text-sm font-medium">
+                      {seatsInUse} of {subscription.quantity} in use
+                    </p>
+                  </div>
+                  <div className="w-full bg-gray-200 rounded-full h-2">
+                    <div
+                      className="h-2 rounded-full bg-primary-600"
+                      style={{ width: `${Math.min(100, (seatsInUse / subscription.quantity) * 100)}%` }}
+                    />
+                  </div>
+                  <p className="mt-1 text-xs text-gray-500">New members get a seat automatically.</p>
+                </div>
+              )}
+
+              {subscription.status === 'TRIALING' && subscription.paymentMethodMissing && (
+                <div className="flex items-center justify-between rounded-md bg-yellow-50 px-4 py-3 mb-4">
+                  <p className="text-sm text-yellow-800">
+                    Add a payment method to keep this subscription after the trial ends
+                    {subscription.trialEnd && ` on ${new Date(subscription.trialEnd).toLocaleDateString()}`}.
+                  </p>
+                  <button
+                    onClick={() => setCardSubscriptionId(subscription.id)}
+                    className="text-sm font-medium text-yellow-800 hover:text-yellow-900"
+                  >
+                    Add payment method
+                  </button>
+                </div>
+              )}
+
+              {subscription.scheduledPlan && (
+                <div className="flex items-center justify-between rounded-md bg-blue-50 px-4 py-3 mb-4">
+                  <p className="text-sm text-blue-800">
+                    Switching to {subscription.scheduledPlan.name} on{' '}
+                    {new Date(subscription.currentPeriodEnd).toLocaleDateString()}
+                  </p>
+                  <button
+                    onClick={() => cancelPlanChangeMutation.mutate(subscription.id)}
+                    disabled={cancelPlanChangeMutation.isPending}
+                    className="text-sm font-medium text-blue-700 hover:text-blue-900"
+                  >
+                    Keep current plan
+                  </button>
+                </div>
+              )}
+
               {subscription.plan.features && subscription.plan.features.length > 0 && (
                 <div className="mb-4">
                   <p className="text-sm text-gray-500 mb-2">Features</p>
@@ -178,6 +280,18 @@ export default function Subscriptions() {
               )}
 
               <div className="flex space-x-3">
+                {['ACTIVE', 'TRIALING'].includes(subscription.status) && !subscription.cancelAtPeriodEnd && (
+                  <button onClick={() => setChangingSubscription(subscription)} className="btn-primary">
+                    Change Plan
+                  </button>
+                )}
+
+                {subscription.plan.perSeat && ['ACTIVE', 'TRIALING'].includes(subscription.status) && (
+                  <button onClick={() => setSeatsSubscription(subscription)} className="btn-outline">
+                    Buy more seats
+                  </button>
+                )}
+
                 {subscription.status === 'ACTIVE' && !subscription.cancelAtPeriodEnd && (
                   <button
                     onClick={() => cancelMutation.mutate(subscription.id)}
@@ -202,6 +316,22 @@ export default function Subscriptions() {
           ))}
         </div>
       )}
+
+      {cardSubscriptionId && (
+        <PaymentMethodDialog subscriptionId={cardSubscriptionId} onClose={() => setCardSubscriptionId(null)} />
+      )}
+
+      {seatsSubscription && (
+        <SeatsDialog
+          subscription={seatsSubscription}
+          seatsInUse={seatsInUse}
+          onClose={() => setSeatsSubscription(null)}
+        />
+      )}
+
+      {changingSubscription && (
+        <ChangePlanDialog subscription={changingSubscription} onClose={() => setChangingSubscription(null)} />
+      )}
     </div>
   )
 }
@@ -0,0 +1,417 @@
+import { useForm } from 'react-hook-form'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import axios from 'axios'
+import toast from 'react-hot-toast'
+import { useAuthStore } from '../stores/authStore'
+
+interface RoleOption {
+  id: string
+  name: string
+}
+
+interface Member {
+  id: string
+  email: string
+  firstName: string
+  lastName: string
+  role: string
+  joinedAt: string
+  customRole: RoleOption | null
+}
+
+interface Invitation {
+  id: string
+  email: string
+  role: string
+  expiresAt: string
+  customRole: RoleOption | null
+}
+
+interface JoinRequest {
+  id: string
+  createdAt: string
+  user: {
+    id: string
+    email: string
+    firstName: string
+    lastName: string
+  }
+}
+
+interface InviteForm {
+  email: string
+  role: string
+  customRoleId: string
+}
+
+const builtInRoles = ['USER', 'ADMIN']
+
+const formatRole = (role: string) => role.toLowerCase().replace('_', ' ')
+
+export default function Team() {
+  const { user, hasPermission } = useAuthStore()
+  const queryClient = useQueryClient()
+  const canInvite = hasPermission('members:invite')
+  const canManage = hasPermission('members:manage')
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['team-members'],
+    queryFn: async () => {
+      const response = await axios.get('/team/members')
+      return response.data.data as { members: Member[]; roles: RoleOption[] }
+    },
+  })
+
+  const { data: invitations } = useQuery({
+    queryKey: ['team-invitations'],
+    queryFn: async () => {
+      const response = await axios.get('/team/invitations')
+      return response.data.data as Invitation[]
+    },
+    enabled: canInvite,
+  })
+
+  const { data: joinRequests } = useQuery({
+    queryKey: ['join-requests', user?.company?.id],
+    queryFn: async () => {
+      const response = await axios.get(`/companies/${user?.company?.id}/join-requests`)
+      return response.data.data as JoinRequest[]
+    },
+    enabled: canManage,
+  })
+
+  const { register, handleSubmit, reset } = useForm<InviteForm>({
+    defaultValues: { email: '', role: 'USER', customRoleId: '' },
+  })
+
+  const inviteMutation = useMutation({
+    mutationFn: async (form: InviteForm) => {
+      await axios.post('/team/invitations', {
+        email: form.email,
+        role: form.role,
+        customRoleId: form.customRoleId || null,
+      })
+    },
+    onSuccess: () => {
+      toast.success('Invitation sent')
+      reset()
+      queryClient.invalidateQueries({ queryKey: ['team-invitations'] })
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to send invitation')
+    },
+  })
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await axios.delete(`/team/invitations/${id}`)
+    },
+    onSuccess: () => {
+      toast.success('Invitation revoked')
+      queryClient.invalidateQueries({ queryKey: ['team-invitations'] })
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to revoke invitation')
+    },
+  })
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ member, role, customRoleId }: { member: Member; role: string; customRoleId: string | null }) => {
+      await axios.put(`/team/members/${member.id}/role`, { role, customRoleId })
+    },
+    onSuccess: () => {
+      toast.success('Role updated')
+      queryClient.invalidateQueries({ queryKey: ['team-members'] })
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to update role')
+    },
+  })
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await axios.delete(`/team/members/${id}`)
+    },
+    onSuccess: () => {
+      toast.success('Member removed')
+      queryClient.invalidateQueries({ queryKey: ['team-members'] })
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to remove member')
+    },
+  })
+
+  const joinRequestMutation = useMutation({
+    mutationFn: async ({ id, decision }: { id: string; decision: 'approve' | 'decline' }) => {
+      const response = await axios.post(`/companies/${user?.company?.id}/join-requests/${id}/${decision}`)
+      return response.data.message as string
+    },
+    onSuccess: (message, { decision }) => {
+      toast.success(message)
+      queryClient.invalidateQueries({ queryKey: ['join-requests'] })
+      if (decision === 'approve') {
+        queryClient.invalidateQueries({ queryKey: ['team-members'] })
+      }
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to update join request')
+    },
+  })
+
+  const removeMember = (member: Member) => {
+    if (window.confirm(`Remove ${member.email} from ${user?.company?.name}?`)) {
+      removeMutation.mutate(member.id)
+    }
+  }
+
+  const members = data?.members || []
+  const roles = data?.roles || []
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Team</h1>
+        <p className="text-gray-600">Manage who has access to {user?.company?.name}</p>
+      </div>
+
+      {canInvite && (
+        <form className="card space-y-4" onSubmit={handleSubmit((form) => inviteMutation.mutate(form))}>
+          <h3 className="text-lg font-medium text-gray-900">Invite a Member</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+              <input
+                {...register('email', { required: true })}
+                type="email"
+                className="input-field"
+                placeholder="colleague@example.com"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Role</label>
+              <select {...register('role')} className="input-field">
+                {builtInRoles.map((role) => (
+                  <option key={role} value={role}>
+                    {formatRole(role)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Custom role</label>
+              <select {...register('customRoleId')} className="input-field">
+                <option value="">None</option>
+                {roles.map((role) => (
+                  <option key={role.id} value={role.id}>
+                    {role.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <button
+            type="submit"
+            disabled={inviteMutation.isPending}
+            className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {inviteMutation.isPending ? 'Sending...' : 'Send invitation'}
+          </button>
+        </form>
+      )}
+
+      {/* Members Table */}
+      <div className="card">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">Members</h3>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Member
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Role
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Custom role
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Joined
+                </th>
+                {canManage && (
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                )}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {isLoading ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-12 text-center text-gray-500">
+                    Loading members...
+                  </td>
+                </tr>
+              ) : (
+                members.map((member) => {
+                  // Changing your own role could lock you out of team management
+                  const isEditable = canManage && member.id !== user?.id
+
+                  return (
+                    <tr key={member.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900">
+                          {member.firstName} {member.lastName}
+                          {member.id === user?.id && <span className="ml-2 text-gray-500 font-normal">(you)</span>}
+                        </div>
+                        <div className="text-sm text-gray-500">{member.email}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {isEditable ? (
+                          <select
+                            value={member.role}
+                            onChange={(e) =>
+                              roleMutation.mutate({
+                                member,
+                                role: e.target.value,
+                                customRoleId: member.customRole?.id || null,
+                              })
+                            }
+                            disabled={roleMutation.isPending}
+                            className="input-field w-32"
+                          >
+                            {builtInRoles.map((role) => (
+                              <option key={role} value={role}>
+                                {formatRole(role)}
+                              </option>
+                            ))}
+                          </select>
+                        ) : (
+                          formatRole(member.role)
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {isEditable ? (
+                          <select
+                            value={member.customRole?.id || ''}
+                            onChange={(e) =>
+                              roleMutation.mutate({
+                                member,
+                                role: member.role,
+                                customRoleId: e.target.value || null,
+                              })
+                            }
+                            disabled={roleMutation.isPending}
+                            className="input-field w-44"
+                          >
+                            <option value="">None</option>
+                            {roles.map((role) => (
+                              <option key={role.id} value={role.id}>
+                                {role.name}
+                              </option>
+                            ))}
+                          </select>
+                        ) : (
+                          member.customRole?.name || 'None'
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {new Date(member.joinedAt).toLocaleDateString()}
+                      </td>
+                      {canManage && (
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          {isEditable && (
+                            <button
+                              onClick={() => removeMember(member)}
+                              disabled={removeMutation.isPending}
+                              className="text-red-600 hover:text-red-900"
+                            >
+                              Remove
+                            </button>
+                          )}
+                        </td>
+                      )}
+                    </tr>
+                  )
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {canManage && joinRequests && joinRequests.length > 0 && (
+        <div className="card">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Join Requests</h3>
+          <div className="space-y-4">
+            {joinRequests.map((request) => (
+              <div
+                key={request.id}
+                className="flex items-center justify-between py-3 border-b border-gray-200 last:border-b-0"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">
+                    {request.user.firstName} {request.user.lastName}
+                  </p>
+                  <p className="text-sm text-gray-500">
+                    {request.user.email} · asked {new Date(request.createdAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <div className="flex space-x-3 ml-4 flex-shrink-0">
+                  <button
+                    onClick={() => joinRequestMutation.mutate({ id: request.id, decision: 'decline' })}
+                    disabled={joinRequestMutation.isPending}
+                    className="btn-outline"
+                  >
+                    Decline
+                  </button>
+                  <button
+                    onClick={() => joinRequestMutation.mutate({ id: request.id, decision: 'approve' })}
+                    disabled={joinRequestMutation.isPending}
+                    className="btn-primary"
+                  >
+                    Approve
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {canInvite && (
+        <div className="card">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Pending Invitations</h3>
+          {invitations && invitations.length > 0 ? (
+            <div className="space-y-4">
+              {invitations.map((invitation) => (
+                <div
+                  key={invitation.id}
+                  className="flex items-center justify-between py-3 border-b border-gray-200 last:border-b-0"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">{invitation.email}</p>
+                    <p className="text-sm text-gray-500">
+                      {formatRole(invitation.role)}
+                      {invitation.customRole && ` · ${invitation.customRole.name}`} · expires{' '}
+                      {new Date(invitation.expiresAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => revokeMutation.mutate(invitation.id)}
+                    disabled={revokeMutation.isPending}
+                    className="btn-outline text-red-600 border-red-300 hover:bg-red-50 ml-4 flex-shrink-0"
+                  >
+                    Revoke
+                  </button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-gray-500 text-center py-8">No pending invitations</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,74 @@
+import { useEffect, useRef, useState } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+import axios from 'axios'
+import { CheckCircleIcon, XCircleIcon } from '@heroicons/react/24/outline'
+
+export default function UnlockAccountPage() {
+  const [status, setStatus] = useState<'unlocking' | 'unlocked' | 'failed'>('unlocking')
+  const [errorMessage, setErrorMessage] = useState('')
+  const [searchParams] = useSearchParams()
+  const hasSubmitted = useRef(false)
+  const token = searchParams.get('token')
+
+  useEffect(() => {
+    // Tokens are single-use, so never submit twice (e.g. StrictMode re-runs)
+    if (hasSubmitted.current) return
+    hasSubmitted.current = true
+
+    if (!token) {
+      setStatus('failed')
+      setErrorMessage('This unlock link is missing its token.')
+      return
+    }
+
+    axios
+      .post('/auth/unlock', { token })
+      .then(() => setStatus('unlocked'))
+      .catch((error) => {
+        setStatus('failed')
+        setErrorMessage(error.response?.data?.error || 'Unlock failed')
+      })
+  }, [token])
+
+  return (
+    <div className="min-h-[60vh] flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full card text-center">
+        {status === 'unlocking' && (
+          <>
+            <div className="mx-auto animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+            <p className="mt-4 text-gray-600">Unlocking your account...</p>
+          </>
+        )}
+
+        {status === 'unlocked' && (
+          <>
+            <CheckCircleIcon className="mx-auto h-12 w-12 text-green-500" />
+            <h2 className="mt-4 text-xl font-semibold text-gray-900">Account unlocked</h2>
+            <p className="mt-2 text-gray-600">You can sign in again now.</p>
+          </>
+        )}
+
+        {status === 'failed' && (
+          <>
+            <XCircleIcon className="mx-auto h-12 w-12 text-red-500" />
+            <h2 className="mt-4 text-xl font-semibold text-gray-900">Unlock failed</h2>
+            <p className="mt-2 text-gray-600">{errorMessage}</p>
+            <p className="mt-2 text-sm text-gray-500">
+              You can also wait for the lock to expire or{' '}
+              <Link to="/forgot-password" className="font-medium text-primary-600 hover:text-primary-500">
+                reset your password
+              </Link>
+              .
+            </p>
+          </>
+        )}
+
+        {status !== 'unlocking' && (
+          <Link to="/login" className="mt-6 inline-block btn-primary">
+            Sign in
+          </Link>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,90 @@
+import { useEffect, useRef, useState } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+import axios from 'axios'
+import { CheckCircleIcon, XCircleIcon } from '@heroicons/react/24/outline'
+import { useAuthStore } from '../stores/authStore'
+
+export default function VerifyEmailPage() {
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>('verifying')
+  const [errorMessage, setErrorMessage] = useState('')
+  const [joinedCompanies, setJoinedCompanies] = useState<string[]>([])
+  const [searchParams] = useSearchParams()
+  const { user, isAuthenticated, updateUser } = useAuthStore()
+  const hasSubmitted = useRef(false)
+  const token = searchParams.get('token')
+
+  useEffect(() => {
+    // Tokens are single-use, so never submit twice (e.g. StrictMode re-runs)
+    if (hasSubmitted.current) return
+    hasSubmitted.current = true
+
+    if (!token) {
+      setStatus('failed')
+      setErrorMessage('This verification link is missing its token.')
+      return
+    }
+
+    axios
+      .post('/auth/verify-email', { token })
+      .then((response) => {
+        setStatus('verified')
+        const joined: string[] = response.data.joinedCompanies || []
+        setJoinedCompanies(joined)
+        if (user) {
+          updateUser({ ...user, isEmailVerified: true })
+        }
+        if (user && joined.length > 0) {
+          // Pick up the new memberships
+          axios
+            .get('/auth/me')
+            .then((me) => updateUser(me.data.user))
+            .catch(() => {})
+        }
+      })
+      .catch((error) => {
+        setStatus('failed')
+        setErrorMessage(error.response?.data?.error || 'Verification failed')
+      })
+  }, [token, user, updateUser])
+
+  return (
+    <div className="min-h-[60vh] flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full card text-center">
+        {status === 'verifying' && (
+          <>
+            <div className="mx-auto animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+            <p className="mt-4 text-gray-600">Verifying your email address...</p>
+          </>
+        )}
+
+        {status === 'verified' && (
+          <>
+            <CheckCircleIcon className="mx-auto h-12 w-12 text-green-500" />
+            <h2 className="mt-4 text-xl font-semibold text-gray-900">Email verified</h2>
+            <p className="mt-2 text-gray-600">Thanks for confirming your email address.</p>
+            {joinedCompanies.length > 0 && (
+              <p className="mt-2 text-gray-600">You joined {joinedCompanies.join(', ')}.</p>
+            )}
+          </>
+        )}
+
+        {status === 'failed' && (
+          <>
+            <XCircleIcon className="mx-auto h-12 w-12 text-red-500" />
+            <h2 className="mt-4 text-xl font-semibold text-gray-900">Verification failed</h2>
+            <p className="mt-2 text-gray-600">{errorMessage}</p>
+          </>
+        )}
+
+        {status !== 'verifying' && (
+          <Link
+            to={isAuthenticated ? '/dashboard' : '/login'}
+            className="mt-6 inline-block btn-primary"
+          >
+            {isAuthenticated ? 'Go to dashboard' : 'Sign in'}
+          </Link>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
-import axios from 'axios'
+import axios, { InternalAxiosRequestConfig } from 'axios'
 import toast from 'react-hot-toast'
 
 interface User {
@@ -9,31 +9,73 @@ interface User {
   firstName: string
   lastName: string
   role: string
+  isEmailVerified?: boolean
+  hasPassword?: boolean
+  twoFactorEnabled?: boolean
+  twoFactorRequired?: boolean
+  deletionScheduledFor?: string | null
+  permissions?: string[]
   company?: {
     id: string
     name: string
-  }
+    logoUrl?: string | null
+  } | null
+  // Every company the user belongs to; `company` is the active one
+  companies?: CompanyMembership[]
   subscriptions?: any[]
 }
 
+interface CompanyMembership {
+  id: string
+  name: string
+  role: string
+  customRole: { id: string; name: string } | null
+}
+
+// The admin's own session, parked while they impersonate another user
+interface Impersonation {
+  impersonator: User
+  token: string | null
+  refreshToken: string | null
+  expiresAt: string
+}
+
 interface AuthState {
   user: User | null
   token: string | null
+  refreshToken: string | null
+  impersonation: Impersonation | null
   isAuthenticated: boolean
   isLoading: boolean
-  login: (email: string, password: string) => Promise<void>
+  login: (email: string, password: string) => Promise<LoginResult>
+  verifyTwoFactor: (challengeToken: string, input: { code?: string; recoveryCode?: string }) => Promise<void>
+  completeOAuthLogin: (code: string) => Promise<LoginResult>
   register: (data: RegisterData) => Promise<void>
-  logout: () => void
+  logout: () => Promise<void>
+  logoutAll: () => Promise<void>
+  clearSession: () => void
   updateUser: (user: User) => void
+  startImpersonation: (userId: string, reason?: string) => Promise<void>
+  stopImpersonation: () => Promise<void>
+  restoreImpersonator: () => void
+  switchCompany: (companyId: string) => Promise<void>
+  hasPermission: (permission: string) => boolean
   initialize: () => Promise<void>
 }
 
+// Login either completes or asks for a second factor
+export type LoginResult =
+  | { twoFactorRequired: false }
+  | { twoFactorRequired: true; challengeToken: string }
+
 interface RegisterData {
   email: string
   password: string
   firstName: string
   lastName: string
   companyName?: string
+  invitationToken?: string
+  joinCompany?: boolean
 }
 
 // Set up axios defaults
@@ -48,11 +90,61 @@ axios.interceptors.request.use((config) => {
   return config
 })
 
+// Share one in-flight refresh between all requests that hit a 401 at once,
+// otherwise the second refresh would present an already-rotated token
+let refreshRequest: Promise<string> | null = null
+
+const refreshAccessToken = async (): Promise<string> => {
+  const refreshToken = useAuthStore.getState().refreshToken
+  if (!refreshToken) {
+    throw new Error('No refresh token')
+  }
+
+  const response = await axios.post('/auth/refresh', { refreshToken })
+  const { token, refreshToken: nextRefreshToken } = response.data
+
+  useAuthStore.setState({ token, refreshToken: nextRefreshToken })
+  return token
+}
+
 axios.interceptors.response.use(
   (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      useAuthStore.getState().logout()
+  async (error) => {
+    const originalRequest = error.config as (InternalAxiosRequestConfig & { _retry?: boolean }) | undefined
+
+    // Impersonation tokens can't be refreshed; hand the session back to the admin
+    if (error.response?.status === 401 && useAuthStore.getState().impersonation) {
+      useAuthStore.getState().restoreImpersonator()
+      toast.error('Impersonation session ended')
+      return Promise.reject(error)
+    }
+
+    if (
+      error.response?.status === 401 &&
+      originalRequest &&
+      !originalRequest._retry &&
+      originalRequest.url !== '/auth/refresh' &&
+      useAuthStore.getState().refreshToken
+    ) {
+      originalRequest._retry = true
+      try {
+        refreshRequest = refreshRequest || refreshAccessToken().finally(() => {
+          refreshRequest = null
+        })
+        const token = await refreshRequest
+        originalRequest.headers.Authorization = `Bearer ${token}`
+        return axios(originalRequest)
+      } catch (refreshError) {
+        // Fall through to logging out below
+      }
+    }
+
+    if (
+      error.response?.status === 401 &&
+      originalRequest?.url !== '/auth/refresh' &&
+      originalRequest?.url !== '/auth/logout'
+    ) {
+      useAuthStore.getState().clearSession()
       toast.error('Session expired. Please login again.')
     }
     return Promise.reject(error)
@@ -64,22 +156,77 @@ export const useAuthStore = create<AuthState>()(
     (set, get) => ({
       user: null,
       token: null,
+      refreshToken: null,
+      impersonation: null,
       isAuthenticated: false,
       isLoading: true,
 
       login: async (email: string, password: string) => {
         try {
           const response = await axios.post('/auth/login', { email, password })
-          const { token, user } = response.data
+
+          if (response.data.twoFactorRequired) {
+            return { twoFactorRequired: true, challengeToken: response.data.challengeToken }
+          }
+
+          const { token, refreshToken, user } = response.data
           
           set({
             user,
             token,
+            refreshToken,
             isAuthenticated: true,
             isLoading: false,
           })
           
           toast.success('Login successful!')
+          return { twoFactorRequired: false }
+        } catch (error: any) {
+          toast.error(error.response?.data?.error || 'Login failed')
+          throw error
+        }
+      },
+
+      verifyTwoFactor: async (challengeToken, input) => {
+        try {
+          const response = await axios.post('/auth/login/2fa', { challengeToken, ...input })
+          const { token, refreshToken, user } = response.data
+
+          set({
+            user,
+            token,
+            refreshToken,
+            isAuthenticated: true,
+            isLoading: false,
+          })
+
+          toast.success('Login successful!')
+        } catch (error: any) {
+          toast.error(error.response?.data?.error || 'Verification failed')
+          throw error
+        }
+      },
+
+      completeOAuthLogin: async (code) => {
+        try {
+          const response = await axios.post('/auth/oauth/exchange', { code })
+
+          if (response.data.twoFactorRequired) {
+            return { twoFactorRequired: true, challengeToken: response.data.challengeToken }
+          }
+
+          const { token, refreshToken, user } = response.data
+
+          set({
+            user,
+            token,
+            refreshToken,
+            isAuthenticated: true,
+            isLoading: false,
+          })
+
+          toast.success('Login successful!')
+          return { twoFactorRequired: false }
         } catch (error: any) {
           toast.error(error.response?.data?.error || 'Login failed')
           throw error
@@ -89,36 +236,119 @@ export const useAuthStore = create<AuthState>()(
       register: async (data: RegisterData) => {
         try {
           const response = await axios.post('/auth/register', data)
-          const { token, user } = response.data
+          const { token, refreshToken, user, joinRequest } = response.data
           
           set({
             user,
             token,
+            refreshToken,
             isAuthenticated: true,
             isLoading: false,
           })
           
           toast.success('Registration successful!')
+          if (joinRequest) {
+            toast(`Verify your email to ${joinRequest.joinPolicy === 'AUTOMATIC' ? 'join' : 'ask to join'} ${joinRequest.companyName}`)
+          }
         } catch (error: any) {
           toast.error(error.response?.data?.error || 'Registration failed')
           throw error
         }
       },
 
-      logout: () => {
+      logout: async () => {
+        if (get().impersonation) {
+          await get().stopImpersonation()
+        }
+        if (get().token) {
+          try {
+            await axios.post('/auth/logout')
+          } catch (error) {
+            // The session may already be revoked server-side
+          }
+        }
+        get().clearSession()
+        toast.success('Logged out successfully')
+      },
+
+      logoutAll: async () => {
+        try {
+          await axios.post('/auth/logout-all')
+          get().clearSession()
+          toast.success('Signed out of all devices')
+        } catch (error: any) {
+          toast.error(error.response?.data?.error || 'Failed to sign out of all devices')
+          throw error
+        }
+      },
+
+      clearSession: () => {
         set({
           user: null,
           token: null,
+          refreshToken: null,
+          impersonation: null,
           isAuthenticated: false,
           isLoading: false,
         })
-        toast.success('Logged out successfully')
       },
 
       updateUser: (user: User) => {
         set({ user })
       },
 
+      startImpersonation: async (userId, reason) => {
+        try {
+          const { user, token, refreshToken } = get()
+          const response = await axios.post(`/users/admin/${userId}/impersonate`, { reason })
+
+          set({
+            impersonation: { impersonator: user!, token, refreshToken, expiresAt: response.data.expiresAt },
+            user: response.data.user,
+            token: response.data.token,
+            refreshToken: null,
+          })
+        } catch (error: any) {
+          toast.error(error.response?.data?.error || 'Failed to impersonate user')
+          throw error
+        }
+      },
+
+      stopImpersonation: async () => {
+        try {
+          await axios.post('/users/impersonation/stop')
+        } catch (error) {
+          // The impersonation may already have expired
+        }
+        get().restoreImpersonator()
+      },
+
+      restoreImpersonator: () => {
+        const { impersonation } = get()
+        if (!impersonation) return
+
+        set({
+          user: impersonation.impersonator,
+          token: impersonation.token,
+          refreshToken: impersonation.refreshToken,
+          impersonation: null,
+        })
+      },
+
+      switchCompany: async (companyId) => {
+        try {
+          const response = await axios.post('/auth/switch-company', { companyId })
+          set({ user: response.data.user })
+        } catch (error: any) {
+          toast.error(error.response?.data?.error || 'Failed to switch company')
+          throw error
+        }
+      },
+
+      hasPermission: (permission: string) => {
+        return get().user?.permissions?.includes(permission) ?? false
+      },
+
       initialize: async () => {
         const token = get().token
         if (!token) {
@@ -136,9 +366,16 @@ export const useAuthStore = create<AuthState>()(
             isLoading: false,
           })
         } catch (error) {
+          // An expired impersonation hands the session back to the admin; load them instead
+          if (get().token && get().token !== token) {
+            return get().initialize()
+          }
+
           set({
             user: null,
             token: null,
+            refreshToken: null,
+            impersonation: null,
             isAuthenticated: false,
             isLoading: false,
           })
@@ -149,6 +386,8 @@ export const useAuthStore = create<AuthState>()(
       name: 'auth-storage',
       partialize: (state) => ({ 
         token: state.token,
+        refreshToken: state.refreshToken,
+        impersonation: state.impersonation,
         user: state.user,
         isAuthenticated: state.isAuthenticated 
       }),
@@ -0,0 +1,189 @@
+import express from 'express';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+
+// Minimal OpenID Connect issuer for trying out external sign-in locally.
+// Start it with `npm run mock:oidc`, then point the generic provider at it:
+//
+//   OAUTH_OIDC_ISSUER=http://localhost:4010
+//   OAUTH_OIDC_CLIENT_ID=mock-client
+//   OAUTH_OIDC_CLIENT_SECRET=mock-secret
+//   OAUTH_OIDC_NAME="Mock IdP"
+//
+// The authorize page lets you type in any identity to sign in as.
+
+const PORT = Number(process.env.MOCK_OIDC_PORT) || 4010;
+const ISSUER = process.env.MOCK_OIDC_ISSUER || `http://localhost:${PORT}`;
+const CLIENT_ID = process.env.MOCK_OIDC_CLIENT_ID || 'mock-client';
+const CLIENT_SECRET = process.env.MOCK_OIDC_CLIENT_SECRET || 'mock-secret';
+const KEY_ID = 'mock-key';
+const CODE_EXPIRES_MS = 60 * 1000;
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+interface MockIdentity {
+  email: string;
+  emailVerified: boolean;
+  givenName: string;
+  familyName: string;
+}
+
+interface PendingCode {
+  redirectUri: string;
+  codeChallenge: string;
+  nonce?: string;
+  identity: MockIdentity;
+  expiresAt: number;
+}
+
+const codes = new Map<string, PendingCode>();
+const accessTokens = new Map<string, MockIdentity>();
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+// Stable subject per email, like a real provider's user ID
+const subjectFor = (email: string) =>
+  crypto.createHash('sha256').update(email.toLowerCase()).digest('hex').slice(0, 24);
+
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+
+app.get('/.well-known/openid-configuration', (req, res) => {
+  res.json({
+    issuer: ISSUER,
+    authorization_endpoint: `${ISSUER}/authorize`,
+    token_endpoint: `${ISSUER}/token`,
+    userinfo_endpoint: `${ISSUER}/userinfo`,
+    jwks_uri: `${ISSUER}/jwks`,
+    response_types_supported: ['code'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: ['RS256'],
+    code_challenge_methods_supported: ['S256'],
+    scopes_supported: ['openid', 'email', 'profile']
+  });
+});
+
+app.get('/jwks', (req, res) => {
+  res.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, use: 'sig', alg: 'RS256' }] });
+});
+
+app.get('/authorize', (req, res) => {
+  const { client_id, redirect_uri, response_type, code_challenge, code_challenge_method, login_hint } =
+    req.query as Record<string, string | undefined>;
+
+  if (client_id !== CLIENT_ID || response_type !== 'code' || !redirect_uri) {
+    return res.status(400).send('Invalid authorization request');
+  }
+  if (!code_challenge || code_challenge_method !== 'S256') {
+    return res.status(400).send('PKCE with S256 is required');
+  }
+
+  const hiddenFields = ['redirect_uri', 'state', 'nonce', 'code_challenge']
+    .map((name) => `<input type="hidden" name="${name}" value="${escapeHtml(String(req.query[name] || ''))}">`)
+    .join('\n');
+
+  res.send(`<!doctype html>
+<html>
+  <body style="font-family: sans-serif; max-width: 360px; margin: 48px auto;">
+    <h2>Mock IdP sign-in</h2>
+    <form method="post" action="/authorize">
+      ${hiddenFields}
+      <p><label>Email<br><input name="email" type="email" required value="${escapeHtml(login_hint || 'jane@example.com')}"></label></p>
+      <p><label>First name<br><input name="given_name" value="Jane"></label></p>
+      <p><label>Last name<br><input name="family_name" value="Doe"></label></p>
+      <p><label><input name="email_verified" type="checkbox" checked> Email verified</label></p>
+      <button type="submit">Sign in</button>
+      <button type="submit" name="deny" value="1">Cancel</button>
+    </form>
+  </body>
+</html>`);
+});
+
+app.post('/authorize', (req, res) => {
+  const { redirect_uri, state, nonce, code_challenge, email, given_name, family_name, email_verified, deny } = req.body;
+
+  const redirect = new URL(redirect_uri);
+  if (state) redirect.searchParams.set('state', state);
+
+  if (deny) {
+    redirect.searchParams.set('error', 'access_denied');
+    return res.redirect(redirect.toString());
+  }
+
+  const code = crypto.randomBytes(16).toString('hex');
+  codes.set(code, {
+    redirectUri: redirect_uri,
+    codeChallenge: code_challenge,
+    nonce: nonce || undefined,
+    identity: {
+      email,
+      emailVerified: email_verified === 'on',
+      givenName: given_name || '',
+      familyName: family_name || ''
+    },
+    expiresAt: Date.now() + CODE_EXPIRES_MS
+  });
+
+  redirect.searchParams.set('code', code);
+  res.redirect(redirect.toString());
+});
+
+app.post('/token', (req, res) => {
+  const { grant_type, code, redirect_uri, client_id, client_secret, code_verifier } = req.body;
+
+  if (client_id !== CLIENT_ID || client_secret !== CLIENT_SECRET) {
+    return res.status(401).json({ error: 'invalid_client' });
+  }
+
+  const pending = codes.get(code);
+  codes.delete(code);
+
+  if (grant_type !== 'authorization_code' || !pending || pending.expiresAt < Date.now()) {
+    return res.status(400).json({ error: 'invalid_grant' });
+  }
+
+  const challenge = crypto.createHash('sha256').update(String(code_verifier || '')).digest('base64url');
+  if (pending.redirectUri !== redirect_uri || challenge !== pending.codeChallenge) {
+    return res.status(400).json({ error: 'invalid_grant', error_description: 'PKCE verification failed' });
+  }
+
+  const { identity } = pending;
+  const accessToken = crypto.randomBytes(24).toString('hex');
+  accessTokens.set(accessToken, identity);
+
+  const idToken = jwt.sign(
+    {
+      sub: subjectFor(identity.email),
+      email: identity.email,
+      email_verified: identity.emailVerified,
+      given_name: identity.givenName,
+      family_name: identity.familyName,
+      name: `${identity.givenName} ${identity.familyName}`.trim(),
+      nonce: pending.nonce
+    },
+    privateKey,
+    { algorithm: 'RS256', keyid: KEY_ID, issuer: ISSUER, audience: CLIENT_ID, expiresIn: '5m' }
+  );
+
+  res.json({ access_token: accessToken, token_type: 'Bearer', expires_in: 3600, id_token: idToken });
+});
+
+app.get('/userinfo', (req, res) => {
+  const identity = accessTokens.get((req.get('Authorization') || '').replace(/^Bearer /, ''));
+  if (!identity) {
+    return res.status(401).json({ error: 'invalid_token' });
+  }
+
+  res.json({
+    sub: subjectFor(identity.email),
+    email: identity.email,
+    email_verified: identity.emailVerified,
+    given_name: identity.givenName,
+    family_name: identity.familyName
+  });
+});
+
+app.listen(PORT, () => {
+  console.log(`Mock OIDC issuer running at ${ISSUER} (client_id=${CLIENT_ID})`);
+});
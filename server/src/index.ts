@@ -13,17 +13,34 @@ dotenv.config();
 
 // Import routes
 import authRoutes from './routes/auth';
+import twoFactorRoutes from './routes/twoFactor';
+import oauthRoutes from './routes/oauth';
+import ssoRoutes from './routes/sso';
 import userRoutes from './routes/users';
 import subscriptionRoutes from './routes/subscriptions';
 import paymentRoutes from './routes/payments';
 import analyticsRoutes from './routes/analytics';
 import webhookRoutes from './routes/webhooks';
 import planRoutes from './routes/plans';
+import couponRoutes from './routes/coupons';
+import entitlementRoutes from './routes/entitlements';
+import apiKeyRoutes from './routes/apiKeys';
+import roleRoutes from './routes/roles';
+import teamRoutes from './routes/team';
+import companiesRoutes from './routes/companies';
+import devBillingRoutes from './routes/devBilling';
 
 // Import middleware
 import { errorHandler } from './middleware/errorHandler';
 import { notFound } from './middleware/notFound';
 import logger from './utils/logger';
+import { getUploadDirectory, UPLOADS_URL_PATH } from './utils/storage';
+import { startDataExportWorker } from './utils/dataExports';
+import { startAccountDeletionWorker } from './utils/accountDeletion';
+import { startTrialReminderWorker } from './utils/trials';
+import { startUsageReportingWorker } from './utils/usage';
+import { getBillingProvider, isFakeBillingProvider } from './utils/billing';
+import { restoreFakeBillingState } from './utils/fakeBillingProvider';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -64,12 +81,31 @@ app.get('/health', (req, res) => {
 });
 
 // API Routes
+app.use('/api/auth/2fa', twoFactorRoutes);
+app.use('/api/auth/oauth', oauthRoutes);
 app.use('/api/auth', authRoutes);
+app.use('/api/sso', ssoRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/subscriptions', subscriptionRoutes);
 app.use('/api/payments', paymentRoutes);
 app.use('/api/analytics', analyticsRoutes);
 app.use('/api/plans', planRoutes);
+app.use('/api/coupons', couponRoutes);
+app.use('/api/entitlements', entitlementRoutes);
+app.use('/api/api-keys', apiKeyRoutes);
+app.use('/api/roles', roleRoutes);
+app.use('/api/team', teamRoutes);
+app.use('/api/companies', companiesRoutes);
+
+// Offline billing only: lets renewals and trial ends be triggered by hand
+if (process.env.BILLING_PROVIDER === 'fake') {
+  app.use('/api/dev/billing', devBillingRoutes);
+}
+
+// Uploaded files such as company logos, shown by the client from another origin
+app.use(UPLOADS_URL_PATH, express.static(getUploadDirectory(), {
+  setHeaders: (res) => res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin')
+}));
 
 // Error handling middleware
 app.use(notFound);
@@ -91,6 +127,21 @@ process.on('SIGTERM', async () => {
 app.listen(PORT, () => {
   logger.info(`Server running on port ${PORT}`);
   logger.info(`Environment: ${process.env.NODE_ENV}`);
+
+  startDataExportWorker().catch((error) => logger.error('Failed to start data export worker', error));
+  startAccountDeletionWorker();
+  startTrialReminderWorker();
+  startUsageReportingWorker();
+
+  // The fake provider forgets everything on restart; pick up where the database left off
+  if (process.env.BILLING_PROVIDER === 'fake') {
+    const billing = getBillingProvider();
+    if (isFakeBillingProvider(billing)) {
+      restoreFakeBillingState(billing)
+        .then((count) => logger.info(`Restored ${count} fake billing subscriptions`))
+        .catch((error) => logger.error('Failed to restore fake billing state', error));
+    }
+  }
 });
 
 export default app;
@@ -1,55 +1,145 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { prisma } from '../index';
+import { findActiveSession } from '../utils/sessions';
+import { ApiKeyScope, findActiveApiKey, isApiKey } from '../utils/apiKeys';
+import { IMPERSONATION_PURPOSE, findActiveImpersonation } from '../utils/impersonation';
+import { hasPermission } from '../utils/permissions';
+import { membershipsInclude, withActiveCompany } from '../utils/memberships';
+
+const SESSION_TOUCH_INTERVAL_MS = 60 * 1000;
 
 interface AuthenticatedRequest extends Request {
   user?: any;
+  sessionFamilyId?: string;
+  apiKey?: any;
+  impersonation?: any;
 }
 
-export const auth = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+// The user with their membership of the active company attached
+const loadUser = async (userId: string, activeCompanyId?: string | null) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    include: {
+      ...membershipsInclude,
+      subscriptions: {
+        include: {
+          plan: true
+        }
+      }
+    }
+  });
+
+  // Anonymised accounts can no longer be used, whatever credentials are left over
+  return user && !user.deletedAt ? withActiveCompany(user, activeCompanyId) : null;
+};
+
+// API keys only work on routes that opt in with the scope they require
+const authenticateApiKey = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+  key: string,
+  scope?: ApiKeyScope
+) => {
+  if (!scope) {
+    return res.status(403).json({ error: 'API keys cannot be used for this endpoint' });
+  }
+
+  const apiKey = await findActiveApiKey(key);
+  if (!apiKey) {
+    return res.status(401).json({ error: 'API key is not valid' });
+  }
+
+  if (!apiKey.scopes.includes(scope)) {
+    return res.status(403).json({ error: `API key is missing the ${scope} scope` });
+  }
+
+  // Company keys act in their company; personal keys in the user's default one
+  const user = await loadUser(apiKey.userId, apiKey.companyId);
+  if (!user || (apiKey.companyId && user.companyId !== apiKey.companyId)) {
+    return res.status(401).json({ error: 'API key is not valid' });
+  }
+
+  req.user = user;
+  req.apiKey = apiKey;
+  next();
+};
+
+const authenticate = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+  apiKeyScope?: ApiKeyScope
+) => {
   try {
-    const token = req.header('Authorization')?.replace('Bearer ', '') || req.cookies.token;
+    const token =
+      req.header('X-API-Key') || req.header('Authorization')?.replace('Bearer ', '') || req.cookies.token;
 
     if (!token) {
       return res.status(401).json({ error: 'No token, authorization denied' });
     }
 
+    if (isApiKey(token)) {
+      return await authenticateApiKey(req, res, next, token, apiKeyScope);
+    }
+
     const secret = process.env.JWT_SECRET;
     if (!secret) {
       return res.status(500).json({ error: 'JWT secret not configured' });
     }
 
     const decoded = jwt.verify(token, secret) as any;
-    
-    const user = await prisma.user.findUnique({
-      where: { id: decoded.userId },
-      include: {
-        company: true,
-        subscriptions: {
-          include: {
-            plan: true
-          }
-        }
-      }
-    });
+
+    const isImpersonating = decoded.purpose === IMPERSONATION_PURPOSE;
+
+    // Access tokens stay valid only while their session has not been revoked.
+    // Impersonation tokens ride on the admin's session.
+    const session = decoded.familyId ? await findActiveSession(decoded.familyId) : null;
+    if (!session || session.userId !== (isImpersonating ? decoded.impersonatorId : decoded.userId)) {
+      return res.status(401).json({ error: 'Session has been revoked' });
+    }
+
+    const impersonation = isImpersonating ? await findActiveImpersonation(decoded.impersonationId) : null;
+    if (
+      isImpersonating &&
+      (!impersonation ||
+        impersonation.adminId !== decoded.impersonatorId ||
+        impersonation.targetUserId !== decoded.userId ||
+        !hasPermission(impersonation.admin, 'users:impersonate'))
+    ) {
+      return res.status(401).json({ error: 'Impersonation has ended', code: 'IMPERSONATION_ENDED' });
+    }
+
+    // Impersonation starts in the target's default company, not the admin's
+    const user = await loadUser(decoded.userId, isImpersonating ? null : session.activeCompanyId);
 
     if (!user) {
       return res.status(401).json({ error: 'Token is not valid' });
     }
 
+    // Track last seen without writing on every request
+    if (Date.now() - session.lastUsedAt.getTime() > SESSION_TOUCH_INTERVAL_MS) {
+      await prisma.session.update({
+        where: { id: session.id },
+        data: { lastUsedAt: new Date() }
+      });
+    }
+
     req.user = user;
+    if (impersonation) {
+      req.impersonation = impersonation;
+    } else {
+      req.sessionFamilyId = session.familyId;
+    }
     next();
   } catch (error) {
     res.status(401).json({ error: 'Token is not valid' });
   }
 };
 
-export const adminAuth = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
-  await auth(req, res, () => {
-    if (req.user && (req.user.role === 'ADMIN' || req.user.role === 'SUPER_ADMIN')) {
-      next();
-    } else {
-      res.status(403).json({ error: 'Access denied. Admin role required.' });
-    }
-  });
-};
+export const auth = (req: AuthenticatedRequest, res: Response, next: NextFunction) => authenticate(req, res, next);
+
+// Like auth, but also accepts an API key that has the given scope
+export const authOrApiKey = (scope: ApiKeyScope) => (req: AuthenticatedRequest, res: Response, next: NextFunction) =>
+  authenticate(req, res, next, scope);
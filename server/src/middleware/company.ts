@@ -0,0 +1,28 @@
+import { Request, Response, NextFunction } from 'express';
+
+interface AuthenticatedRequest extends Request {
+  user?: any;
+}
+
+// Blocks company-scoped routes for users who don't belong to a company. Must run after `auth`.
+export const requireCompany = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  if (!req.user?.companyId) {
+    return res.status(400).json({ error: 'You are not part of a company' });
+  }
+  next();
+};
+
+// Company routes addressed by `:id` act on the active company, so the
+// permissions of the user's membership there apply. Must run after `auth`.
+export const requireActiveCompanyParam = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const { id } = req.params;
+
+  if (id !== req.user?.companyId) {
+    const isMember = req.user?.memberships?.some((membership: any) => membership.companyId === id);
+    if (isMember) {
+      return res.status(400).json({ error: 'Switch to this company to manage it' });
+    }
+    return res.status(404).json({ error: 'Company not found' });
+  }
+  next();
+};
@@ -0,0 +1,27 @@
+import { Request, Response, NextFunction } from 'express';
+import { EntitlementFlag, getEntitlements } from '../utils/entitlements';
+import logger from '../utils/logger';
+
+interface AuthenticatedRequest extends Request {
+  user?: any;
+}
+
+// Blocks the route unless a live subscription of the user's company (or the
+// user, outside of one) includes the feature. Must run after `auth`.
+export const requireEntitlement =
+  (entitlement: EntitlementFlag) => async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const entitlements = await getEntitlements(req.user);
+      if (!entitlements[entitlement]) {
+        return res.status(403).json({
+          error: 'Your plan does not include this feature. Upgrade to use it.',
+          code: 'ENTITLEMENT_REQUIRED',
+          entitlement
+        });
+      }
+      next();
+    } catch (error) {
+      logger.error('Entitlement check error', error);
+      res.status(500).json({ error: 'Server error' });
+    }
+  };
@@ -0,0 +1,18 @@
+import { Request, Response, NextFunction } from 'express';
+
+interface AuthenticatedRequest extends Request {
+  impersonation?: any;
+}
+
+// Blocks the route while an admin is impersonating the user, for billing and
+// account security changes the customer has to make themselves. Must run after `auth`.
+export const blockImpersonation = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  if (!req.impersonation) {
+    return next();
+  }
+
+  res.status(403).json({
+    error: 'This action is not available while impersonating a user',
+    code: 'IMPERSONATION_RESTRICTED'
+  });
+};
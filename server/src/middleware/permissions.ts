@@ -0,0 +1,28 @@
+import { Request, Response, NextFunction } from 'express';
+import { Permission, hasPermission, isElevatedPermission } from '../utils/permissions';
+import { isTwoFactorRequired } from '../utils/twoFactor';
+
+interface AuthenticatedRequest extends Request {
+  user?: any;
+}
+
+// Blocks the route unless the user's role grants the permission. Elevated
+// permissions also enforce the 2FA policy. Must run after `auth`.
+export const requirePermission = (permission: Permission) => (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  if (!req.user || !hasPermission(req.user, permission)) {
+    return res.status(403).json({
+      error: 'You do not have permission to perform this action',
+      code: 'PERMISSION_DENIED',
+      permission
+    });
+  }
+
+  if (isElevatedPermission(permission) && isTwoFactorRequired(req.user) && !req.user.twoFactorEnabled) {
+    return res.status(403).json({
+      error: 'Two-factor authentication is required for this action',
+      code: 'TWO_FACTOR_REQUIRED'
+    });
+  }
+
+  next();
+};
@@ -0,0 +1,18 @@
+import { Request, Response, NextFunction } from 'express';
+
+interface AuthenticatedRequest extends Request {
+  user?: any;
+}
+
+// Blocks the route for users who have not verified their email address.
+// Set REQUIRE_EMAIL_VERIFICATION=false to turn the policy off. Must run after `auth`.
+export const requireVerifiedEmail = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  if (process.env.REQUIRE_EMAIL_VERIFICATION === 'false' || req.user?.isEmailVerified) {
+    return next();
+  }
+
+  res.status(403).json({
+    error: 'Please verify your email address first',
+    code: 'EMAIL_NOT_VERIFIED'
+  });
+};
@@ -1,14 +1,16 @@
 import express from 'express';
 import { prisma } from '../index';
-import { auth, adminAuth } from '../middleware/auth';
+import { auth, authOrApiKey } from '../middleware/auth';
+import { requirePermission } from '../middleware/permissions';
+import { requireEntitlement } from '../middleware/entitlements';
 import logger from '../utils/logger';
 
 const router = express.Router();
 
 // @route   GET /api/analytics/dashboard
 // @desc    Get dashboard analytics
-// @access  Private
-router.get('/dashboard', auth, async (req, res) => {
+// @access  Private (analytics:read)
+router.get('/dashboard', authOrApiKey('analytics:read'), requirePermission('analytics:read'), async (req, res) => {
   try {
     const user = (req as any).user;
     const { timeRange = '30d' } = req.query;
@@ -155,8 +157,8 @@ router.get('/dashboard', auth, async (req, res) => {
 
 // @route   GET /api/analytics/customers
 // @desc    Get customer analytics
-// @access  Private
-router.get('/customers', auth, async (req, res) => {
+// @access  Private (analytics:read, advanced_analytics plan entitlement)
+router.get('/customers', authOrApiKey('analytics:read'), requirePermission('analytics:read'), requireEntitlement('advanced_analytics'), async (req, res) => {
   try {
     const user = (req as any).user;
 
@@ -165,7 +167,7 @@ router.get('/customers', auth, async (req, res) => {
       SELECT 
         DATE_TRUNC('month', created_at) as month,
         COUNT(*) as new_customers
-      FROM users 
+      FROM company_memberships 
       WHERE company_id = ${user.companyId}
         AND created_at >= NOW() - INTERVAL '12 months'
       GROUP BY DATE_TRUNC('month', created_at)
@@ -184,8 +186,9 @@ router.get('/customers', auth, async (req, res) => {
         MIN(p.created_at) as first_payment,
         MAX(p.created_at) as last_payment
       FROM users u
+      JOIN company_memberships m ON m.user_id = u.id
       LEFT JOIN payments p ON u.id = p.user_id AND p.status = 'SUCCEEDED'
-      WHERE u.company_id = ${user.companyId}
+      WHERE m.company_id = ${user.companyId}
       GROUP BY u.id, u.email, u.first_name, u.last_name
       ORDER BY total_spent DESC
       LIMIT 50
@@ -207,8 +210,9 @@ router.get('/customers', auth, async (req, res) => {
           u.id,
           COALESCE(SUM(p.amount), 0) as total_spent
         FROM users u
+        JOIN company_memberships m ON m.user_id = u.id
         LEFT JOIN payments p ON u.id = p.user_id AND p.status = 'SUCCEEDED'
-        WHERE u.company_id = ${user.companyId}
+        WHERE m.company_id = ${user.companyId}
         GROUP BY u.id
       ) customer_totals
       GROUP BY segment
@@ -231,8 +235,8 @@ router.get('/customers', auth, async (req, res) => {
 
 // @route   GET /api/analytics/admin
 // @desc    Get admin analytics (all users)
-// @access  Private (Admin)
-router.get('/admin', adminAuth, async (req, res) => {
+// @access  Private (analytics:read_all)
+router.get('/admin', auth, requirePermission('analytics:read_all'), async (req, res) => {
   try {
     // Platform-wide metrics
     const totalUsers = await prisma.user.count();
@@ -303,8 +307,8 @@ router.get('/admin', adminAuth, async (req, res) => {
 
 // @route   POST /api/analytics/track
 // @desc    Track custom analytics event
-// @access  Private
-router.post('/track', auth, async (req, res) => {
+// @access  Private (analytics:write)
+router.post('/track', authOrApiKey('analytics:write'), requirePermission('analytics:write'), async (req, res) => {
   try {
     const { metric, value, dimensions } = req.body;
     const user = (req as any).user;
@@ -0,0 +1,170 @@
+import express from 'express';
+import Joi from 'joi';
+import { prisma } from '../index';
+import { auth } from '../middleware/auth';
+import { blockImpersonation } from '../middleware/impersonation';
+import { API_KEY_SCOPES, generateApiKey } from '../utils/apiKeys';
+import { hasPermission } from '../utils/permissions';
+import { checkApiKeyLimit, entitlementScope } from '../utils/entitlements';
+import logger from '../utils/logger';
+
+const router = express.Router();
+
+// Validation schemas
+const createKeySchema = Joi.object({
+  name: Joi.string().trim().max(100).required(),
+  scopes: Joi.array().items(Joi.string().valid(...API_KEY_SCOPES)).min(1).unique().required(),
+  expiresInDays: Joi.number().integer().min(1).max(3650).allow(null),
+  company: Joi.boolean().default(false)
+});
+
+// Keys the user can see: their own, plus the company's keys if they manage them
+const visibleKeysFilter = (user: any) =>
+  hasPermission(user, 'api_keys:manage') && user.companyId
+    ? { OR: [{ userId: user.id }, { companyId: user.companyId }] }
+    : { userId: user.id };
+
+// Never return the key hash
+const formatApiKey = (apiKey: any) => ({
+  id: apiKey.id,
+  name: apiKey.name,
+  prefix: apiKey.prefix,
+  scopes: apiKey.scopes,
+  company: !!apiKey.companyId,
+  expiresAt: apiKey.expiresAt,
+  lastUsedAt: apiKey.lastUsedAt,
+  createdAt: apiKey.createdAt,
+  createdBy: apiKey.user && {
+    firstName: apiKey.user.firstName,
+    lastName: apiKey.user.lastName,
+    email: apiKey.user.email
+  }
+});
+
+// @route   GET /api/api-keys
+// @desc    List active API keys
+// @access  Private
+router.get('/', auth, async (req, res) => {
+  try {
+    const user = (req as any).user;
+
+    const apiKeys = await prisma.apiKey.findMany({
+      where: { ...visibleKeysFilter(user), revokedAt: null },
+      include: { user: true },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    res.json({
+      success: true,
+      data: {
+        apiKeys: apiKeys.map(formatApiKey),
+        availableScopes: API_KEY_SCOPES
+      }
+    });
+  } catch (error) {
+    logger.error('List API keys error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/api-keys
+// @desc    Create an API key. The full key is only returned here.
+// @access  Private
+router.post('/', auth, blockImpersonation, async (req, res) => {
+  try {
+    const { error, value } = createKeySchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const user = (req as any).user;
+
+    if (value.company && (!hasPermission(user, 'api_keys:manage') || !user.companyId)) {
+      return res.status(403).json({ error: 'You do not have permission to create company API keys' });
+    }
+
+    // Personal keys count against the user's own plan, company keys against the company's
+    const limitError = await checkApiKeyLimit(entitlementScope(value.company ? user : { id: user.id }));
+    if (limitError) {
+      return res.status(403).json(limitError);
+    }
+
+    const { key, prefix, keyHash } = generateApiKey();
+    const apiKey = await prisma.apiKey.create({
+      data: {
+        name: value.name,
+        prefix,
+        keyHash,
+        scopes: value.scopes,
+        expiresAt: value.expiresInDays ? new Date(Date.now() + value.expiresInDays * 24 * 60 * 60 * 1000) : null,
+        userId: user.id,
+        companyId: value.company ? user.companyId : null
+      },
+      include: { user: true }
+    });
+
+    // Log activity
+    await prisma.userActivity.create({
+      data: {
+        userId: user.id,
+        action: 'API_KEY_CREATED',
+        description: `Created API key ${apiKey.name}`,
+        metadata: { apiKeyId: apiKey.id, prefix, scopes: apiKey.scopes, companyId: apiKey.companyId },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { apiKey: formatApiKey(apiKey), key }
+    });
+  } catch (error) {
+    logger.error('Create API key error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   DELETE /api/api-keys/:id
+// @desc    Revoke an API key
+// @access  Private
+router.delete('/:id', auth, blockImpersonation, async (req, res) => {
+  try {
+    const user = (req as any).user;
+
+    const apiKey = await prisma.apiKey.findFirst({
+      where: { id: req.params.id, revokedAt: null, ...visibleKeysFilter(user) }
+    });
+
+    if (!apiKey) {
+      return res.status(404).json({ error: 'API key not found' });
+    }
+
+    await prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: { revokedAt: new Date() }
+    });
+
+    // Log activity
+    await prisma.userActivity.create({
+      data: {
+        userId: user.id,
+        action: 'API_KEY_REVOKED',
+        description: `Revoked API key ${apiKey.name}`,
+        metadata: { apiKeyId: apiKey.id, prefix: apiKey.prefix },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.json({
+      success: true,
+      message: 'API key revoked'
+    });
+  } catch (error) {
+    logger.error('Revoke API key error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+export default router;
@@ -1,9 +1,33 @@
 import express from 'express';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
 import Joi from 'joi';
 import { prisma } from '../index';
 import { auth } from '../middleware/auth';
+import { blockImpersonation } from '../middleware/impersonation';
+import {
+  createSession,
+  describeDevice,
+  revokeSessionFamily,
+  revokeUserSessions,
+  rotateSession
+} from '../utils/sessions';
+import { consumeUserToken, createUserToken } from '../utils/userTokens';
+import { verifySecondFactor, verifyTwoFactorChallenge } from '../utils/twoFactor';
+import {
+  getLoginRetryAfter,
+  isAccountLocked,
+  recordLoginFailure,
+  unlockAccount
+} from '../utils/loginProtection';
+import { completeLogin, formatUser, respondToFirstFactor, sendAccountLocked } from '../utils/authResponse';
+import { getEnforcedSsoLoginUrl } from '../utils/saml';
+import { closeInvitation, findPendingInvitation, normalizeEmail } from '../utils/invitations';
+import { membershipsInclude, setActiveCompany, withActiveCompany } from '../utils/memberships';
+import { completeAutomaticJoins, findJoinableCompany } from '../utils/domains';
+import { checkMemberLimit } from '../utils/entitlements';
+import { syncSeats } from '../utils/seats';
+import { sendMail } from '../utils/mailer';
+import { buildFrontendUrl, emailVerificationEmail, passwordResetEmail } from '../utils/emailTemplates';
 import logger from '../utils/logger';
 
 const router = express.Router();
@@ -14,7 +38,17 @@ const registerSchema = Joi.object({
   password: Joi.string().min(6).required(),
   firstName: Joi.string().required(),
   lastName: Joi.string().required(),
-  companyName: Joi.string().optional()
+  companyName: Joi.string().optional(),
+  invitationToken: Joi.string().optional(),
+  joinCompany: Joi.boolean().optional()
+});
+
+const companyLookupSchema = Joi.object({
+  email: Joi.string().email().required()
+});
+
+const switchCompanySchema = Joi.object({
+  companyId: Joi.string().required()
 });
 
 const loginSchema = Joi.object({
@@ -22,15 +56,75 @@ const loginSchema = Joi.object({
   password: Joi.string().required()
 });
 
-// Generate JWT token
-const generateToken = (userId: string): string => {
-  const secret = process.env.JWT_SECRET;
-  if (!secret) {
-    throw new Error('JWT_SECRET is not defined');
-  }
-  return jwt.sign({ userId }, secret, { expiresIn: '7d' });
+const twoFactorLoginSchema = Joi.object({
+  challengeToken: Joi.string().required(),
+  code: Joi.string(),
+  recoveryCode: Joi.string()
+}).xor('code', 'recoveryCode');
+
+const refreshSchema = Joi.object({
+  refreshToken: Joi.string().required()
+});
+
+const forgotPasswordSchema = Joi.object({
+  email: Joi.string().email().required()
+});
+
+const resetPasswordSchema = Joi.object({
+  token: Joi.string().required(),
+  password: Joi.string().min(6).required()
+});
+
+const verifyEmailSchema = Joi.object({
+  token: Joi.string().required()
+});
+
+const unlockSchema = Joi.object({
+  token: Joi.string().required()
+});
+
+const PASSWORD_RESET_EXPIRES_MINUTES = Number(process.env.PASSWORD_RESET_EXPIRES_MINUTES) || 60;
+const EMAIL_VERIFICATION_EXPIRES_HOURS = 48;
+const VERIFICATION_RESEND_COOLDOWN_MS = 60 * 1000;
+const VERIFICATION_RESEND_HOURLY_LIMIT = 5;
+
+// Email a fresh verification link
+const sendVerificationEmail = async (user: { id: string; email: string; firstName: string }) => {
+  const token = await createUserToken(
+    user.id,
+    'EMAIL_VERIFICATION',
+    EMAIL_VERIFICATION_EXPIRES_HOURS * 60 * 60 * 1000
+  );
+  const verifyUrl = buildFrontendUrl('/verify-email', { token });
+
+  await sendMail({
+    to: user.email,
+    ...emailVerificationEmail(user, verifyUrl)
+  });
 };
 
+// @route   POST /api/auth/company-lookup
+// @desc    Find the company a new user can join through their email domain
+// @access  Public
+router.post('/company-lookup', async (req, res) => {
+  try {
+    const { error } = companyLookupSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const company = await findJoinableCompany(req.body.email);
+
+    res.json({
+      success: true,
+      data: company && { companyName: company.name, joinPolicy: company.domainJoinPolicy }
+    });
+  } catch (error) {
+    logger.error('Company lookup error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
 // @route   POST /api/auth/register
 // @desc    Register user
 // @access  Public
@@ -41,7 +135,7 @@ router.post('/register', async (req, res) => {
       return res.status(400).json({ error: error.details[0].message });
     }
 
-    const { email, password, firstName, lastName, companyName } = req.body;
+    const { email, password, firstName, lastName, companyName, invitationToken, joinCompany } = req.body;
 
     // Check if user exists
     const existingUser = await prisma.user.findUnique({ where: { email } });
@@ -49,18 +143,43 @@ router.post('/register', async (req, res) => {
       return res.status(400).json({ error: 'User already exists' });
     }
 
+    // An invited user joins the inviting company instead of creating one
+    const invitation = invitationToken ? await findPendingInvitation(invitationToken) : null;
+    if (invitationToken) {
+      if (!invitation) {
+        return res.status(400).json({ error: 'This invitation is invalid or has expired' });
+      }
+      if (normalizeEmail(email) !== invitation.email) {
+        return res.status(400).json({ error: 'This invitation was sent to a different email address' });
+      }
+      const limitError = await checkMemberLimit(invitation.companyId);
+      if (limitError) {
+        return res.status(403).json(limitError);
+      }
+      if (!(await closeInvitation(invitation.id, 'acceptedAt'))) {
+        return res.status(400).json({ error: 'This invitation is invalid or has expired' });
+      }
+    }
+
     // Hash password
     const salt = await bcrypt.genSalt(10);
     const hashedPassword = await bcrypt.hash(password, salt);
 
-    // Create company if provided
+    // Users on a company's verified domain can ask to join it instead
+    const joinableCompany = joinCompany && !invitation ? await findJoinableCompany(email) : null;
+
+    // Create company if provided; its founder owns and administers it
     let company = null;
-    if (companyName) {
+    if (companyName && !invitation && !joinableCompany) {
       company = await prisma.company.create({
         data: { name: companyName }
       });
     }
 
+    const membership = invitation
+      ? { companyId: invitation.companyId, role: invitation.role, customRoleId: invitation.customRoleId }
+      : company && { companyId: company.id, role: 'ADMIN' as const };
+
     // Create user
     const user = await prisma.user.create({
       data: {
@@ -68,15 +187,30 @@ router.post('/register', async (req, res) => {
         password: hashedPassword,
         firstName,
         lastName,
-        companyId: company?.id
+        // Following an emailed invitation link already proved the address
+        isEmailVerified: !!invitation,
+        ...(membership && { memberships: { create: membership } }),
+        // Granted automatically or by an admin once the email address is verified
+        ...(joinableCompany && { joinRequests: { create: { companyId: joinableCompany.id } } })
       },
-      include: {
-        company: true
-      }
+      include: membershipsInclude
     });
 
-    // Generate token
-    const token = generateToken(user.id);
+    if (company) {
+      await prisma.company.update({ where: { id: company.id }, data: { ownerId: user.id } });
+    }
+
+    // Start session
+    const { token, refreshToken } = await createSession(user.id, req);
+
+    if (!invitation) {
+      try {
+        await sendVerificationEmail(user);
+      } catch (mailError) {
+        // The user can request another link later; don't fail the registration
+        logger.error('Failed to send verification email', mailError);
+      }
+    }
 
     // Log activity
     await prisma.userActivity.create({
@@ -87,19 +221,29 @@ router.post('/register', async (req, res) => {
       }
     });
 
+    if (invitation) {
+      await syncSeats(invitation.companyId, 'joined');
+
+      await prisma.userActivity.create({
+        data: {
+          userId: user.id,
+          action: 'INVITATION_ACCEPTED',
+          description: `Joined ${invitation.company.name}`,
+          metadata: { invitationId: invitation.id, companyId: invitation.companyId, invitedBy: invitation.invitedById }
+        }
+      });
+    }
+
     logger.info('User registered', { userId: user.id, email: user.email });
 
     res.status(201).json({
       success: true,
       token,
-      user: {
-        id: user.id,
-        email: user.email,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        role: user.role,
-        company: user.company
-      }
+      refreshToken,
+      user: formatUser(user),
+      ...(joinableCompany && {
+        joinRequest: { companyName: joinableCompany.name, joinPolicy: joinableCompany.domainJoinPolicy }
+      })
     });
   } catch (error) {
     logger.error('Registration error', error);
@@ -119,11 +263,19 @@ router.post('/login', async (req, res) => {
 
     const { email, password } = req.body;
 
+    const retryAfter = await getLoginRetryAfter(email, req.ip);
+    if (retryAfter > 0) {
+      res.set('Retry-After', String(retryAfter));
+      return res.status(429).json({
+        error: `Too many failed login attempts. Please wait ${retryAfter} seconds and try again.`
+      });
+    }
+
     // Check if user exists
     const user = await prisma.user.findUnique({
       where: { email },
       include: {
-        company: true,
+        ...membershipsInclude,
         subscriptions: {
           include: {
             plan: true
@@ -133,46 +285,355 @@ router.post('/login', async (req, res) => {
     });
 
     if (!user) {
+      await recordLoginFailure(email, req, null, 'LOGIN_FAILED', 'Unknown account');
       return res.status(400).json({ error: 'Invalid credentials' });
     }
 
-    // Check password
-    const isMatch = await bcrypt.compare(password, user.password);
+    if (isAccountLocked(user)) {
+      return sendAccountLocked(res, user.lockedUntil!);
+    }
+
+    // Company policy may allow signing in through the company IdP only
+    const ssoLoginUrl = await getEnforcedSsoLoginUrl(user);
+    if (ssoLoginUrl) {
+      return res.status(403).json({
+        error: 'Your company requires you to sign in with single sign-on',
+        code: 'SSO_REQUIRED',
+        loginUrl: ssoLoginUrl
+      });
+    }
+
+    // Check password (accounts created through a sign-in provider may have none)
+    const isMatch = !!user.password && (await bcrypt.compare(password, user.password));
     if (!isMatch) {
+      const lockedUntil = await recordLoginFailure(email, req, user, 'LOGIN_FAILED', 'Invalid password');
+      if (lockedUntil) {
+        return sendAccountLocked(res, lockedUntil);
+      }
       return res.status(400).json({ error: 'Invalid credentials' });
     }
 
-    // Generate token
-    const token = generateToken(user.id);
+    await respondToFirstFactor(req, res, user, 'User logged in successfully');
+  } catch (error) {
+    logger.error('Login error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/auth/login/2fa
+// @desc    Complete login with a TOTP or recovery code
+// @access  Public
+router.post('/login/2fa', async (req, res) => {
+  try {
+    const { error } = twoFactorLoginSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const { challengeToken, code, recoveryCode } = req.body;
+
+    const userId = verifyTwoFactorChallenge(challengeToken);
+    const user = userId
+      ? await prisma.user.findUnique({
+          where: { id: userId },
+          include: {
+            ...membershipsInclude,
+            subscriptions: {
+              include: {
+                plan: true
+              }
+            }
+          }
+        })
+      : null;
+
+    if (!user || !user.twoFactorEnabled) {
+      return res.status(401).json({ error: 'Login challenge has expired. Please sign in again.' });
+    }
+
+    if (isAccountLocked(user)) {
+      return sendAccountLocked(res, user.lockedUntil!);
+    }
+
+    const method = await verifySecondFactor(user, { code, recoveryCode });
+    if (!method) {
+      const lockedUntil = await recordLoginFailure(
+        user.email,
+        req,
+        user,
+        'TWO_FACTOR_FAILED',
+        'Invalid two-factor code during login'
+      );
+      if (lockedUntil) {
+        return sendAccountLocked(res, lockedUntil);
+      }
+      return res.status(400).json({ error: 'Invalid verification code' });
+    }
+
+    await completeLogin(
+      req,
+      res,
+      user,
+      method === 'recovery_code'
+        ? 'User logged in with a recovery code'
+        : 'User logged in with two-factor authentication'
+    );
+  } catch (error) {
+    logger.error('Two-factor login error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/auth/refresh
+// @desc    Exchange a refresh token for a new token pair
+// @access  Public
+router.post('/refresh', async (req, res) => {
+  try {
+    const { error } = refreshSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const session = await rotateSession(req.body.refreshToken, req);
+    if (!session) {
+      return res.status(401).json({ error: 'Refresh token is not valid' });
+    }
+
+    res.json({
+      success: true,
+      token: session.token,
+      refreshToken: session.refreshToken
+    });
+  } catch (error) {
+    logger.error('Refresh token error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/auth/forgot-password
+// @desc    Email a password reset link
+// @access  Public
+router.post('/forgot-password', async (req, res) => {
+  try {
+    const { error } = forgotPasswordSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const user = await prisma.user.findUnique({ where: { email: req.body.email } });
+
+    if (user) {
+      const token = await createUserToken(
+        user.id,
+        'PASSWORD_RESET',
+        PASSWORD_RESET_EXPIRES_MINUTES * 60 * 1000
+      );
+      const resetUrl = buildFrontendUrl('/reset-password', { token });
+
+      await sendMail({
+        to: user.email,
+        ...passwordResetEmail(user, resetUrl, PASSWORD_RESET_EXPIRES_MINUTES)
+      });
+
+      // Log activity
+      await prisma.userActivity.create({
+        data: {
+          userId: user.id,
+          action: 'PASSWORD_RESET_REQUESTED',
+          description: 'Password reset requested',
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent')
+        }
+      });
+
+      logger.info('Password reset requested', { userId: user.id });
+    }
+
+    // Same response whether or not the account exists, to avoid leaking emails
+    res.json({
+      success: true,
+      message: 'If an account exists for that email, a reset link has been sent'
+    });
+  } catch (error) {
+    logger.error('Forgot password error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/auth/reset-password
+// @desc    Set a new password using a reset token
+// @access  Public
+router.post('/reset-password', async (req, res) => {
+  try {
+    const { error } = resetPasswordSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const { token, password } = req.body;
+
+    const userToken = await consumeUserToken(token, 'PASSWORD_RESET');
+    if (!userToken) {
+      return res.status(400).json({ error: 'Reset link is invalid or has expired' });
+    }
+
+    // Hash password
+    const salt = await bcrypt.genSalt(10);
+    const hashedPassword = await bcrypt.hash(password, salt);
+
+    await prisma.user.update({
+      where: { id: userToken.userId },
+      data: { password: hashedPassword }
+    });
+
+    // Proving control of the mailbox also clears any lockout
+    await unlockAccount(userToken.userId);
+
+    // Anyone holding an old session must sign in again
+    await revokeUserSessions(userToken.userId);
 
     // Log activity
     await prisma.userActivity.create({
       data: {
-        userId: user.id,
-        action: 'USER_LOGIN',
-        description: 'User logged in successfully',
+        userId: userToken.userId,
+        action: 'PASSWORD_RESET',
+        description: 'Password reset via email link',
         ipAddress: req.ip,
         userAgent: req.get('User-Agent')
       }
     });
 
-    logger.info('User logged in', { userId: user.id, email: user.email });
+    logger.info('Password reset', { userId: userToken.userId });
 
-    res.json({
-      success: true,
-      token,
-      user: {
-        id: user.id,
-        email: user.email,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        role: user.role,
-        company: user.company,
-        subscriptions: user.subscriptions
+    res.json({ success: true, message: 'Password has been reset. Please sign in.' });
+  } catch (error) {
+    logger.error('Reset password error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/auth/verify-email
+// @desc    Confirm an email address using an emailed token
+// @access  Public
+router.post('/verify-email', async (req, res) => {
+  try {
+    const { error } = verifyEmailSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const userToken = await consumeUserToken(req.body.token, 'EMAIL_VERIFICATION');
+    if (!userToken) {
+      return res.status(400).json({ error: 'Verification link is invalid or has expired' });
+    }
+
+    await prisma.user.update({
+      where: { id: userToken.userId },
+      data: { isEmailVerified: true }
+    });
+
+    // Log activity
+    await prisma.userActivity.create({
+      data: {
+        userId: userToken.userId,
+        action: 'EMAIL_VERIFIED',
+        description: 'Email address verified'
       }
     });
+
+    logger.info('Email verified', { userId: userToken.userId });
+
+    const joinedCompanies = await completeAutomaticJoins(userToken.userId);
+    if (joinedCompanies.length > 0) {
+      await prisma.userActivity.create({
+        data: {
+          userId: userToken.userId,
+          action: 'JOIN_REQUEST_APPROVED',
+          description: `Joined ${joinedCompanies.join(', ')} through a verified email domain`
+        }
+      });
+    }
+
+    res.json({ success: true, message: 'Email address verified', joinedCompanies });
   } catch (error) {
-    logger.error('Login error', error);
+    logger.error('Verify email error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/auth/unlock
+// @desc    Lift a lockout using the link from the account locked email
+// @access  Public
+router.post('/unlock', async (req, res) => {
+  try {
+    const { error } = unlockSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const userToken = await consumeUserToken(req.body.token, 'ACCOUNT_UNLOCK');
+    if (!userToken) {
+      return res.status(400).json({ error: 'Unlock link is invalid or has expired' });
+    }
+
+    await unlockAccount(userToken.userId);
+
+    // Log activity
+    await prisma.userActivity.create({
+      data: {
+        userId: userToken.userId,
+        action: 'ACCOUNT_UNLOCKED',
+        description: 'Account unlocked via email link',
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    logger.info('Account unlocked', { userId: userToken.userId });
+
+    res.json({ success: true, message: 'Your account has been unlocked. You can sign in again.' });
+  } catch (error) {
+    logger.error('Unlock account error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/auth/resend-verification
+// @desc    Send another verification email
+// @access  Private
+router.post('/resend-verification', auth, async (req, res) => {
+  try {
+    const user = (req as any).user;
+
+    if (user.isEmailVerified) {
+      return res.status(400).json({ error: 'Email address is already verified' });
+    }
+
+    const recentTokens = await prisma.userToken.findMany({
+      where: {
+        userId: user.id,
+        type: 'EMAIL_VERIFICATION',
+        createdAt: { gte: new Date(Date.now() - 60 * 60 * 1000) }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    const lastSentAt = recentTokens[0]?.createdAt;
+    if (lastSentAt && Date.now() - lastSentAt.getTime() < VERIFICATION_RESEND_COOLDOWN_MS) {
+      const retryAfter = Math.ceil((VERIFICATION_RESEND_COOLDOWN_MS - (Date.now() - lastSentAt.getTime())) / 1000);
+      res.set('Retry-After', String(retryAfter));
+      return res.status(429).json({ error: `Please wait ${retryAfter} seconds before requesting another email` });
+    }
+
+    if (recentTokens.length >= VERIFICATION_RESEND_HOURLY_LIMIT) {
+      return res.status(429).json({ error: 'Too many verification emails requested. Please try again later.' });
+    }
+
+    await sendVerificationEmail(user);
+
+    res.json({ success: true, message: 'Verification email sent' });
+  } catch (error) {
+    logger.error('Resend verification error', error);
     res.status(500).json({ error: 'Server error' });
   }
 });
@@ -182,41 +643,51 @@ router.post('/login', async (req, res) => {
 // @access  Private
 router.get('/me', auth, async (req, res) => {
   try {
-    const user = await prisma.user.findUnique({
-      where: { id: (req as any).user.id },
-      include: {
-        company: true,
-        subscriptions: {
-          include: {
-            plan: true
-          }
-        }
-      }
+    res.json({
+      success: true,
+      user: formatUser((req as any).user)
     });
+  } catch (error) {
+    logger.error('Get user error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/auth/switch-company
+// @desc    Work in another of the user's companies for the rest of this session
+// @access  Private
+router.post('/switch-company', auth, blockImpersonation, async (req, res) => {
+  try {
+    const { error, value } = switchCompanySchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const user = (req as any).user;
+
+    if (!user.memberships.some((membership: any) => membership.companyId === value.companyId)) {
+      return res.status(404).json({ error: 'You are not a member of this company' });
+    }
+
+    await setActiveCompany((req as any).sessionFamilyId, value.companyId);
 
     res.json({
       success: true,
-      user: {
-        id: user!.id,
-        email: user!.email,
-        firstName: user!.firstName,
-        lastName: user!.lastName,
-        role: user!.role,
-        company: user!.company,
-        subscriptions: user!.subscriptions
-      }
+      user: formatUser(withActiveCompany(user, value.companyId))
     });
   } catch (error) {
-    logger.error('Get user error', error);
+    logger.error('Switch company error', error);
     res.status(500).json({ error: 'Server error' });
   }
 });
 
 // @route   POST /api/auth/logout
-// @desc    Logout user
+// @desc    Logout user and revoke the current session
 // @access  Private
-router.post('/logout', auth, async (req, res) => {
+router.post('/logout', auth, blockImpersonation, async (req, res) => {
   try {
+    await revokeSessionFamily((req as any).sessionFamilyId);
+
     // Log activity
     await prisma.userActivity.create({
       data: {
@@ -233,4 +704,102 @@ router.post('/logout', auth, async (req, res) => {
   }
 });
 
+// @route   POST /api/auth/logout-all
+// @desc    Revoke every session of the current user
+// @access  Private
+router.post('/logout-all', auth, blockImpersonation, async (req, res) => {
+  try {
+    const userId = (req as any).user.id;
+    const revoked = await revokeUserSessions(userId);
+
+    // Log activity
+    await prisma.userActivity.create({
+      data: {
+        userId,
+        action: 'USER_LOGOUT_ALL',
+        description: 'Signed out of all devices',
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    logger.info('User signed out of all devices', { userId, revoked });
+
+    res.json({ success: true, message: 'Signed out of all devices' });
+  } catch (error) {
+    logger.error('Logout all error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   GET /api/auth/sessions
+// @desc    List active sessions of the current user
+// @access  Private
+router.get('/sessions', auth, async (req, res) => {
+  try {
+    const userId = (req as any).user.id;
+
+    const sessions = await prisma.session.findMany({
+      where: {
+        userId,
+        revokedAt: null,
+        expiresAt: { gt: new Date() }
+      },
+      orderBy: { lastUsedAt: 'desc' }
+    });
+
+    res.json({
+      success: true,
+      data: sessions.map((session) => ({
+        id: session.familyId,
+        device: describeDevice(session.userAgent),
+        ipAddress: session.ipAddress,
+        userAgent: session.userAgent,
+        lastSeenAt: session.lastUsedAt,
+        current: session.familyId === (req as any).sessionFamilyId
+      }))
+    });
+  } catch (error) {
+    logger.error('Get sessions error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   DELETE /api/auth/sessions/:id
+// @desc    Revoke a single session
+// @access  Private
+router.delete('/sessions/:id', auth, blockImpersonation, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const userId = (req as any).user.id;
+
+    const session = await prisma.session.findFirst({
+      where: { familyId: id, userId, revokedAt: null }
+    });
+
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    await revokeSessionFamily(id);
+
+    // Log activity
+    await prisma.userActivity.create({
+      data: {
+        userId,
+        action: 'SESSION_REVOKED',
+        description: `Signed out ${describeDevice(session.userAgent)}`,
+        metadata: { sessionId: id },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.json({ success: true, message: 'Session revoked' });
+  } catch (error) {
+    logger.error('Revoke session error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
 export default router;
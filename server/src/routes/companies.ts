@@ -0,0 +1,675 @@
+import express from 'express';
+import Joi from 'joi';
+import { prisma } from '../index';
+import { auth } from '../middleware/auth';
+import { requireActiveCompanyParam } from '../middleware/company';
+import { blockImpersonation } from '../middleware/impersonation';
+import { requirePermission } from '../middleware/permissions';
+import { setActiveCompany } from '../utils/memberships';
+import { generateRandomToken } from '../utils/tokens';
+import {
+  approveJoinRequest,
+  getVerificationRecord,
+  isDomainVerificationPublished,
+  normalizeDomain
+} from '../utils/domains';
+import { checkMemberLimit } from '../utils/entitlements';
+import { parseImageDataUrl, removeUpload, saveUpload } from '../utils/storage';
+import { LIVE_SUBSCRIPTION_STATUSES } from '../utils/subscriptions';
+import logger from '../utils/logger';
+
+const router = express.Router();
+
+const COMPANY_SIZES = ['STARTUP', 'SMALL', 'MEDIUM', 'LARGE', 'ENTERPRISE'];
+const LOGO_MAX_BYTES = 2 * 1024 * 1024;
+
+// Validation schemas
+const optionalText = (max: number) => Joi.string().trim().max(max).allow(null, '');
+
+const companyProfileSchema = {
+  industry: optionalText(100),
+  size: Joi.string().valid(...COMPANY_SIZES).allow(null),
+  billingEmail: Joi.string().email().allow(null, ''),
+  billingName: optionalText(200),
+  billingAddressLine1: optionalText(200),
+  billingAddressLine2: optionalText(200),
+  billingCity: optionalText(100),
+  billingState: optionalText(100),
+  billingPostalCode: optionalText(20),
+  billingCountry: Joi.string().trim().length(2).uppercase().allow(null, ''),
+  taxId: optionalText(50)
+};
+
+const createCompanySchema = Joi.object({
+  name: Joi.string().trim().max(100).required(),
+  industry: companyProfileSchema.industry,
+  size: companyProfileSchema.size
+});
+
+const updateCompanySchema = Joi.object({
+  name: Joi.string().trim().max(100),
+  ...companyProfileSchema
+}).min(1);
+
+const logoSchema = Joi.object({
+  image: Joi.string().required()
+});
+
+const transferOwnershipSchema = Joi.object({
+  userId: Joi.string().required()
+});
+
+const deleteCompanySchema = Joi.object({
+  name: Joi.string().required()
+});
+
+const domainSchema = Joi.object({
+  domain: Joi.string().domain().required(),
+  joinPolicy: Joi.string().valid('DISABLED', 'APPROVAL', 'AUTOMATIC').default('APPROVAL')
+});
+
+// Cleared fields are stored as null rather than empty strings
+const withNulls = (values: Record<string, any>) =>
+  Object.fromEntries(Object.entries(values).map(([key, fieldValue]) => [key, fieldValue === '' ? null : fieldValue]));
+
+const formatCompany = (company: any) => ({
+  id: company.id,
+  name: company.name,
+  domain: company.domain,
+  domainVerified: !!company.domainVerifiedAt,
+  industry: company.industry,
+  size: company.size,
+  logoUrl: company.logoUrl,
+  billingEmail: company.billingEmail,
+  billingName: company.billingName,
+  billingAddressLine1: company.billingAddressLine1,
+  billingAddressLine2: company.billingAddressLine2,
+  billingCity: company.billingCity,
+  billingState: company.billingState,
+  billingPostalCode: company.billingPostalCode,
+  billingCountry: company.billingCountry,
+  taxId: company.taxId,
+  owner: company.owner || null,
+  createdAt: company.createdAt
+});
+
+const formatDomain = (company: any) => ({
+  domain: company.domain,
+  verified: !!company.domainVerifiedAt,
+  verifiedAt: company.domainVerifiedAt,
+  joinPolicy: company.domainJoinPolicy,
+  verificationRecord:
+    company.domain && company.domainVerificationToken
+      ? getVerificationRecord(company.domain, company.domainVerificationToken)
+      : null
+});
+
+const ownerSelect = { owner: { select: { id: true, email: true, firstName: true, lastName: true } } };
+
+// Transferring and deleting a company is up to its owner. Companies without
+// an owner leave it to anyone who can manage them.
+const isCompanyOwner = (user: any) => !user.company.ownerId || user.company.ownerId === user.id;
+
+// @route   POST /api/companies
+// @desc    Create a company owned and administered by the current user, and switch to it
+// @access  Private
+router.post('/', auth, blockImpersonation, async (req, res) => {
+  try {
+    const { error, value } = createCompanySchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const user = (req as any).user;
+
+    const company = await prisma.company.create({
+      data: {
+        name: value.name,
+        industry: value.industry || null,
+        size: value.size || null,
+        ownerId: user.id,
+        memberships: { create: { userId: user.id, role: 'ADMIN' } }
+      },
+      include: ownerSelect
+    });
+
+    await setActiveCompany((req as any).sessionFamilyId, company.id);
+
+    // Log activity
+    await prisma.userActivity.create({
+      data: {
+        userId: user.id,
+        action: 'COMPANY_CREATED',
+        description: `Created ${company.name}`,
+        metadata: { companyId: company.id },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.status(201).json({ success: true, data: formatCompany(company) });
+  } catch (error) {
+    logger.error('Create company error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   GET /api/companies/:id
+// @desc    Get the company profile and billing details
+// @access  Private (members:read)
+router.get('/:id', auth, requireActiveCompanyParam, requirePermission('members:read'), async (req, res) => {
+  try {
+    const company = await prisma.company.findUnique({
+      where: { id: req.params.id },
+      include: ownerSelect
+    });
+
+    res.json({ success: true, data: formatCompany(company) });
+  } catch (error) {
+    logger.error('Get company error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   PUT /api/companies/:id
+// @desc    Update the company profile and billing details. The domain is managed through /api/companies/:id/domain.
+// @access  Private (company:manage)
+router.put('/:id', auth, requireActiveCompanyParam, requirePermission('company:manage'), async (req, res) => {
+  try {
+    const { error, value } = updateCompanySchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const user = (req as any).user;
+
+    const company = await prisma.company.update({
+      where: { id: user.companyId },
+      data: withNulls(value),
+      include: ownerSelect
+    });
+
+    // Log activity
+    await prisma.userActivity.create({
+      data: {
+        userId: user.id,
+        action: 'COMPANY_UPDATED',
+        description: `Updated ${company.name}`,
+        metadata: { companyId: company.id, fields: Object.keys(value) },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.json({ success: true, data: formatCompany(company) });
+  } catch (error) {
+    logger.error('Update company error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   PUT /api/companies/:id/logo
+// @desc    Upload a company logo as a base64 data URL (PNG, JPEG, GIF or WebP, up to 2 MB)
+// @access  Private (company:manage)
+router.put('/:id/logo', auth, requireActiveCompanyParam, requirePermission('company:manage'), async (req, res) => {
+  try {
+    const { error, value } = logoSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const image = parseImageDataUrl(value.image);
+    if (!image) {
+      return res.status(400).json({ error: 'The logo must be a PNG, JPEG, GIF or WebP image' });
+    }
+    if (image.buffer.length > LOGO_MAX_BYTES) {
+      return res.status(400).json({ error: 'The logo must be 2 MB or smaller' });
+    }
+
+    const user = (req as any).user;
+    const logoUrl = await saveUpload('logos', image.buffer, image.extension);
+
+    const company = await prisma.company.update({
+      where: { id: user.companyId },
+      data: { logoUrl },
+      include: ownerSelect
+    });
+    await removeUpload(user.company.logoUrl);
+
+    // Log activity
+    await prisma.userActivity.create({
+      data: {
+        userId: user.id,
+        action: 'COMPANY_LOGO_UPDATED',
+        description: `Changed the logo of ${company.name}`,
+        metadata: { companyId: company.id },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.json({ success: true, data: formatCompany(company) });
+  } catch (error) {
+    logger.error('Upload company logo error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   DELETE /api/companies/:id/logo
+// @desc    Remove the company logo
+// @access  Private (company:manage)
+router.delete('/:id/logo', auth, requireActiveCompanyParam, requirePermission('company:manage'), async (req, res) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user.company.logoUrl) {
+      return res.status(404).json({ error: 'The company has no logo' });
+    }
+
+    const company = await prisma.company.update({
+      where: { id: user.companyId },
+      data: { logoUrl: null },
+      include: ownerSelect
+    });
+    await removeUpload(user.company.logoUrl);
+
+    // Log activity
+    await prisma.userActivity.create({
+      data: {
+        userId: user.id,
+        action: 'COMPANY_LOGO_REMOVED',
+        description: `Removed the logo of ${company.name}`,
+        metadata: { companyId: company.id },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.json({ success: true, data: formatCompany(company) });
+  } catch (error) {
+    logger.error('Remove company logo error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/companies/:id/transfer-ownership
+// @desc    Hand the company to another member, who becomes an admin
+// @access  Private (company:manage, owner only)
+router.post(
+  '/:id/transfer-ownership',
+  auth,
+  blockImpersonation,
+  requireActiveCompanyParam,
+  requirePermission('company:manage'),
+  async (req, res) => {
+    try {
+      const { error, value } = transferOwnershipSchema.validate(req.body);
+      if (error) {
+        return res.status(400).json({ error: error.details[0].message });
+      }
+
+      const user = (req as any).user;
+
+      if (!isCompanyOwner(user)) {
+        return res.status(403).json({ error: 'Only the company owner can transfer ownership' });
+      }
+
+      if (value.userId === user.company.ownerId) {
+        return res.status(400).json({ error: 'This member already owns the company' });
+      }
+
+      const membership = await prisma.companyMembership.findUnique({
+        where: { userId_companyId: { userId: value.userId, companyId: user.companyId } },
+        include: { user: { select: { email: true } } }
+      });
+      if (!membership) {
+        return res.status(404).json({ error: 'Member not found' });
+      }
+
+      // The new owner needs full control, which a custom role could take away
+      const [company] = await prisma.$transaction([
+        prisma.company.update({
+          where: { id: user.companyId },
+          data: { ownerId: membership.userId },
+          include: ownerSelect
+        }),
+        prisma.companyMembership.update({
+          where: { id: membership.id },
+          data: { role: 'ADMIN', customRoleId: null }
+        })
+      ]);
+
+      // Log activity
+      await prisma.userActivity.createMany({
+        data: [
+          {
+            userId: user.id,
+            action: 'COMPANY_OWNERSHIP_TRANSFERRED',
+            description: `Transferred ownership of ${company.name} to ${membership.user.email}`,
+            metadata: { companyId: company.id, previousOwnerId: user.company.ownerId, newOwnerId: membership.userId },
+            ipAddress: req.ip,
+            userAgent: req.get('User-Agent')
+          },
+          {
+            userId: membership.userId,
+            action: 'COMPANY_OWNERSHIP_RECEIVED',
+            description: `Became the owner of ${company.name}, transferred by ${user.email}`,
+            metadata: { companyId: company.id, previousOwnerId: user.company.ownerId },
+            ipAddress: req.ip,
+            userAgent: req.get('User-Agent')
+          }
+        ]
+      });
+
+      logger.info('Company ownership transferred', { companyId: company.id, from: user.id, to: membership.userId });
+
+      res.json({ success: true, data: formatCompany(company) });
+    } catch (error) {
+      logger.error('Transfer company ownership error', error);
+      res.status(500).json({ error: 'Server error' });
+    }
+  }
+);
+
+// @route   DELETE /api/companies/:id
+// @desc    Delete the company, its memberships, roles and settings. Confirm by sending the company name.
+// @access  Private (company:manage, owner only)
+router.delete('/:id', auth, blockImpersonation, requireActiveCompanyParam, requirePermission('company:manage'), async (req, res) => {
+  try {
+    const { error, value } = deleteCompanySchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const user = (req as any).user;
+    const { company } = user;
+
+    if (!isCompanyOwner(user)) {
+      return res.status(403).json({ error: 'Only the company owner can delete the company' });
+    }
+
+    if (value.name !== company.name) {
+      return res.status(400).json({ error: 'The company name does not match' });
+    }
+
+    const liveSubscriptions = await prisma.subscription.count({
+      where: { companyId: company.id, status: { in: [...LIVE_SUBSCRIPTION_STATUSES] } }
+    });
+    if (liveSubscriptions > 0) {
+      return res.status(400).json({ error: "Cancel the company's subscription before deleting it" });
+    }
+
+    // Sessions working in the company fall back to the user's next one
+    await prisma.company.delete({ where: { id: company.id } });
+    await removeUpload(company.logoUrl);
+
+    // Log activity
+    await prisma.userActivity.create({
+      data: {
+        userId: user.id,
+        action: 'COMPANY_DELETED',
+        description: `Deleted ${company.name}`,
+        metadata: { companyId: company.id },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    logger.info('Company deleted', { companyId: company.id, userId: user.id });
+
+    res.json({ success: true, message: 'Company deleted' });
+  } catch (error) {
+    logger.error('Delete company error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   GET /api/companies/:id/domain
+// @desc    Get the company's email domain and its verification status
+// @access  Private (domains:manage)
+router.get('/:id/domain', auth, requireActiveCompanyParam, requirePermission('domains:manage'), async (req, res) => {
+  try {
+    res.json({ success: true, data: formatDomain((req as any).user.company) });
+  } catch (error) {
+    logger.error('Get company domain error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   PUT /api/companies/:id/domain
+// @desc    Claim an email domain or change its join policy. A new domain has to be verified again.
+// @access  Private (domains:manage)
+router.put('/:id/domain', auth, requireActiveCompanyParam, requirePermission('domains:manage'), async (req, res) => {
+  try {
+    const { error, value } = domainSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const user = (req as any).user;
+    const domain = normalizeDomain(value.domain);
+    const isNewDomain = domain !== user.company.domain;
+
+    if (isNewDomain) {
+      const holder = await prisma.company.findUnique({ where: { domain } });
+      if (holder?.domainVerifiedAt) {
+        return res.status(400).json({ error: 'This domain has already been verified by another company' });
+      }
+    }
+
+    // An unverified claim doesn't prove anything, so it never blocks the company that can verify
+    const [, company] = await prisma.$transaction([
+      prisma.company.updateMany({
+        where: { domain, domainVerifiedAt: null, NOT: { id: user.companyId } },
+        data: { domain: null, domainVerificationToken: null }
+      }),
+      prisma.company.update({
+        where: { id: user.companyId },
+        data: {
+          domainJoinPolicy: value.joinPolicy,
+          ...(isNewDomain && {
+            domain,
+            domainVerificationToken: generateRandomToken(16),
+            domainVerifiedAt: null
+          })
+        }
+      })
+    ]);
+
+    // Log activity
+    await prisma.userActivity.create({
+      data: {
+        userId: user.id,
+        action: 'COMPANY_DOMAIN_UPDATED',
+        description: isNewDomain ? `Claimed domain ${domain}` : `Changed join policy for ${domain}`,
+        metadata: { companyId: company.id, domain, joinPolicy: company.domainJoinPolicy },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.json({ success: true, data: formatDomain(company) });
+  } catch (error) {
+    logger.error('Update company domain error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/companies/:id/domain/verify
+// @desc    Check the domain's DNS TXT record and mark it verified
+// @access  Private (domains:manage)
+router.post('/:id/domain/verify', auth, requireActiveCompanyParam, requirePermission('domains:manage'), async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const { company } = user;
+
+    if (!company.domain || !company.domainVerificationToken) {
+      return res.status(400).json({ error: 'Claim a domain first' });
+    }
+
+    if (company.domainVerifiedAt) {
+      return res.json({ success: true, data: formatDomain(company) });
+    }
+
+    let published = false;
+    try {
+      published = await isDomainVerificationPublished(company.domain, company.domainVerificationToken);
+    } catch (lookupError) {
+      logger.warn('Domain verification lookup failed', { companyId: company.id, error: (lookupError as Error).message });
+    }
+
+    if (!published) {
+      const { name } = getVerificationRecord(company.domain, company.domainVerificationToken);
+      return res.status(400).json({ error: `The verification TXT record was not found at ${name}. DNS changes can take a while to appear.` });
+    }
+
+    const updatedCompany = await prisma.company.update({
+      where: { id: company.id },
+      data: { domainVerifiedAt: new Date() }
+    });
+
+    // Log activity
+    await prisma.userActivity.create({
+      data: {
+        userId: user.id,
+        action: 'COMPANY_DOMAIN_VERIFIED',
+        description: `Verified domain ${company.domain}`,
+        metadata: { companyId: company.id, domain: company.domain },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    logger.info('Company domain verified', { companyId: company.id, domain: company.domain });
+
+    res.json({ success: true, data: formatDomain(updatedCompany) });
+  } catch (error) {
+    logger.error('Verify company domain error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   DELETE /api/companies/:id/domain
+// @desc    Release the company's email domain
+// @access  Private (domains:manage)
+router.delete('/:id/domain', auth, requireActiveCompanyParam, requirePermission('domains:manage'), async (req, res) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user.company.domain) {
+      return res.status(404).json({ error: 'No domain claimed' });
+    }
+
+    await prisma.company.update({
+      where: { id: user.companyId },
+      data: { domain: null, domainVerificationToken: null, domainVerifiedAt: null }
+    });
+
+    // Log activity
+    await prisma.userActivity.create({
+      data: {
+        userId: user.id,
+        action: 'COMPANY_DOMAIN_REMOVED',
+        description: `Released domain ${user.company.domain}`,
+        metadata: { companyId: user.companyId, domain: user.company.domain },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.json({ success: true, message: 'Domain removed' });
+  } catch (error) {
+    logger.error('Remove company domain error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   GET /api/companies/:id/join-requests
+// @desc    List pending requests to join the company
+// @access  Private (members:manage)
+router.get('/:id/join-requests', auth, requireActiveCompanyParam, requirePermission('members:manage'), async (req, res) => {
+  try {
+    const requests = await prisma.companyJoinRequest.findMany({
+      // Requests only count once the requester has proved they own the address
+      where: { companyId: (req as any).user.companyId, status: 'PENDING', user: { isEmailVerified: true } },
+      include: {
+        user: { select: { id: true, email: true, firstName: true, lastName: true } }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    res.json({ success: true, data: requests });
+  } catch (error) {
+    logger.error('Get join requests error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/companies/:id/join-requests/:requestId/approve
+// @desc    Approve a join request; the user joins as a member
+// @access  Private (members:manage)
+router.post('/:id/join-requests/:requestId/approve', auth, requireActiveCompanyParam, requirePermission('members:manage'), async (req, res) => {
+  try {
+    const user = (req as any).user;
+
+    const request = await prisma.companyJoinRequest.findFirst({
+      where: { id: req.params.requestId, companyId: user.companyId, status: 'PENDING', user: { isEmailVerified: true } },
+      include: { user: true }
+    });
+
+    if (!request) {
+      return res.status(404).json({ error: 'Join request not found' });
+    }
+
+    const limitError = await checkMemberLimit(user.companyId);
+    if (limitError) {
+      return res.status(403).json(limitError);
+    }
+
+    if (!(await approveJoinRequest(request, user.id))) {
+      return res.status(404).json({ error: 'Join request not found' });
+    }
+
+    // Log activity
+    await prisma.userActivity.create({
+      data: {
+        userId: request.userId,
+        action: 'JOIN_REQUEST_APPROVED',
+        description: `Joined ${user.company.name}, approved by ${user.email}`,
+        metadata: { companyId: user.companyId, joinRequestId: request.id, decidedBy: user.id },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.json({ success: true, message: `${request.user.email} joined the company` });
+  } catch (error) {
+    logger.error('Approve join request error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/companies/:id/join-requests/:requestId/decline
+// @desc    Decline a join request
+// @access  Private (members:manage)
+router.post('/:id/join-requests/:requestId/decline', auth, requireActiveCompanyParam, requirePermission('members:manage'), async (req, res) => {
+  try {
+    const user = (req as any).user;
+
+    const { count } = await prisma.companyJoinRequest.updateMany({
+      where: { id: req.params.requestId, companyId: user.companyId, status: 'PENDING' },
+      data: { status: 'DECLINED', decidedAt: new Date(), decidedById: user.id }
+    });
+
+    if (count === 0) {
+      return res.status(404).json({ error: 'Join request not found' });
+    }
+
+    res.json({ success: true, message: 'Join request declined' });
+  } catch (error) {
+    logger.error('Decline join request error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+export default router;
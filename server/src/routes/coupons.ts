@@ -0,0 +1,341 @@
+import express from 'express';
+import Joi from 'joi';
+import { CouponDuration } from '@prisma/client';
+import { prisma } from '../index';
+import { auth } from '../middleware/auth';
+import { requirePermission } from '../middleware/permissions';
+import { getBillingProvider } from '../utils/billing';
+import { applyCoupon, describeCoupon, findRedeemablePromotionCode, normalisePromotionCode } from '../utils/coupons';
+import logger from '../utils/logger';
+
+const router = express.Router();
+
+// Validation schemas
+const code = Joi.string()
+  .trim()
+  .pattern(/^[A-Za-z0-9_-]{3,40}$/)
+  .message('Codes are 3-40 letters, digits, dashes or underscores');
+
+const promotionCodeSchema = Joi.object({
+  code: code.required(),
+  maxRedemptions: Joi.number().integer().min(1),
+  expiresAt: Joi.date().greater('now')
+});
+
+const couponSchema = Joi.object({
+  name: Joi.string().trim().max(100).required(),
+  percentOff: Joi.number().integer().min(1).max(100),
+  amountOff: Joi.number().integer().min(1),
+  currency: Joi.string().lowercase().length(3).when('amountOff', { is: Joi.exist(), then: Joi.required() }),
+  duration: Joi.string().valid('once', 'repeating', 'forever').required(),
+  durationInMonths: Joi.number()
+    .integer()
+    .min(1)
+    .max(36)
+    .when('duration', { is: 'repeating', then: Joi.required(), otherwise: Joi.forbidden() }),
+  maxRedemptions: Joi.number().integer().min(1),
+  redeemBy: Joi.date().greater('now'),
+  // Plans the coupon is limited to; all plans when empty
+  planIds: Joi.array().items(Joi.string()).default([]),
+  // Optionally create the first promotion code along with the coupon
+  code
+}).xor('percentOff', 'amountOff');
+
+const updateCouponSchema = Joi.object({
+  name: Joi.string().trim().max(100),
+  isActive: Joi.boolean()
+}).min(1);
+
+const updatePromotionCodeSchema = Joi.object({
+  isActive: Joi.boolean().required()
+});
+
+const validateCodeSchema = Joi.object({
+  code: Joi.string().trim().required(),
+  planId: Joi.string().required(),
+  // Seats being bought on a per-seat plan
+  seats: Joi.number().integer().min(1).default(1)
+});
+
+const couponInclude = {
+  plans: { select: { id: true, name: true } },
+  promotionCodes: { orderBy: { createdAt: 'desc' as const } }
+};
+
+const isCodeTaken = async (value: string) =>
+  !!(await prisma.promotionCode.findUnique({ where: { code: normalisePromotionCode(value) } }));
+
+// @route   GET /api/coupons
+// @desc    Get all coupons with their promotion codes
+// @access  Private (coupons:write)
+router.get('/', auth, requirePermission('coupons:write'), async (req, res) => {
+  try {
+    const coupons = await prisma.coupon.findMany({
+      include: couponInclude,
+      orderBy: { createdAt: 'desc' }
+    });
+
+    res.json({
+      success: true,
+      data: coupons.map((coupon) => ({ ...coupon, description: describeCoupon(coupon) }))
+    });
+  } catch (error) {
+    logger.error('Get coupons error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/coupons
+// @desc    Create coupon
+// @access  Private (coupons:write)
+router.post('/', auth, requirePermission('coupons:write'), async (req, res) => {
+  try {
+    const { error, value } = couponSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const plans = await prisma.plan.findMany({ where: { id: { in: value.planIds } } });
+    if (plans.length !== value.planIds.length) {
+      return res.status(400).json({ error: 'Unknown plan' });
+    }
+    if (value.code && (await isCodeTaken(value.code))) {
+      return res.status(409).json({ error: 'This code is already in use' });
+    }
+
+    const billing = getBillingProvider();
+    const stripeCouponId = await billing.createCoupon({
+      name: value.name,
+      percentOff: value.percentOff,
+      amountOff: value.amountOff,
+      currency: value.currency,
+      duration: value.duration,
+      durationInMonths: value.durationInMonths,
+      maxRedemptions: value.maxRedemptions,
+      redeemBy: value.redeemBy,
+      productIds: [...new Set(plans.map((plan) => plan.stripeProductId))]
+    });
+    const stripePromotionCodeId = value.code
+      ? await billing.createPromotionCode({ couponId: stripeCouponId, code: normalisePromotionCode(value.code) })
+      : null;
+
+    const coupon = await prisma.coupon.create({
+      data: {
+        stripeCouponId,
+        name: value.name,
+        percentOff: value.percentOff,
+        amountOff: value.amountOff,
+        currency: value.currency,
+        duration: value.duration.toUpperCase() as CouponDuration,
+        durationInMonths: value.durationInMonths,
+        maxRedemptions: value.maxRedemptions,
+        redeemBy: value.redeemBy,
+        plans: { connect: plans.map((plan) => ({ id: plan.id })) },
+        ...(stripePromotionCodeId && {
+          promotionCodes: { create: { stripePromotionCodeId, code: normalisePromotionCode(value.code) } }
+        })
+      },
+      include: couponInclude
+    });
+
+    logger.info('Coupon created', { couponId: coupon.id, name: coupon.name });
+
+    res.status(201).json({
+      success: true,
+      data: { ...coupon, description: describeCoupon(coupon) }
+    });
+  } catch (error) {
+    logger.error('Create coupon error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   PUT /api/coupons/:id
+// @desc    Rename or (de)activate a coupon; its discount terms can't change
+// @access  Private (coupons:write)
+router.put('/:id', auth, requirePermission('coupons:write'), async (req, res) => {
+  try {
+    const { error, value } = updateCouponSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const existing = await prisma.coupon.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Coupon not found' });
+    }
+
+    const coupon = await prisma.coupon.update({
+      where: { id: existing.id },
+      data: value,
+      include: couponInclude
+    });
+
+    logger.info('Coupon updated', { couponId: coupon.id, name: coupon.name });
+
+    res.json({
+      success: true,
+      data: { ...coupon, description: describeCoupon(coupon) }
+    });
+  } catch (error) {
+    logger.error('Update coupon error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   DELETE /api/coupons/:id
+// @desc    Delete coupon; subscriptions that already have it keep their discount
+// @access  Private (coupons:write)
+router.delete('/:id', auth, requirePermission('coupons:write'), async (req, res) => {
+  try {
+    const coupon = await prisma.coupon.findUnique({ where: { id: req.params.id } });
+    if (!coupon) {
+      return res.status(404).json({ error: 'Coupon not found' });
+    }
+
+    await getBillingProvider().deleteCoupon(coupon.stripeCouponId);
+
+    // Redeemed coupons stay on record for the subscriptions and payments using them
+    if (coupon.timesRedeemed > 0) {
+      await prisma.$transaction([
+        prisma.coupon.update({ where: { id: coupon.id }, data: { isActive: false } }),
+        prisma.promotionCode.updateMany({ where: { couponId: coupon.id }, data: { isActive: false } })
+      ]);
+    } else {
+      await prisma.coupon.delete({ where: { id: coupon.id } });
+    }
+
+    logger.info('Coupon deleted', { couponId: coupon.id, name: coupon.name });
+
+    res.json({
+      success: true,
+      message: 'Coupon deleted successfully'
+    });
+  } catch (error) {
+    logger.error('Delete coupon error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/coupons/:id/promotion-codes
+// @desc    Create a promotion code customers redeem the coupon with
+// @access  Private (coupons:write)
+router.post('/:id/promotion-codes', auth, requirePermission('coupons:write'), async (req, res) => {
+  try {
+    const { error, value } = promotionCodeSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const coupon = await prisma.coupon.findUnique({ where: { id: req.params.id } });
+    if (!coupon || !coupon.isActive) {
+      return res.status(404).json({ error: 'Coupon not found' });
+    }
+    if (await isCodeTaken(value.code)) {
+      return res.status(409).json({ error: 'This code is already in use' });
+    }
+
+    const normalisedCode = normalisePromotionCode(value.code);
+    const stripePromotionCodeId = await getBillingProvider().createPromotionCode({
+      couponId: coupon.stripeCouponId,
+      code: normalisedCode,
+      maxRedemptions: value.maxRedemptions,
+      expiresAt: value.expiresAt
+    });
+
+    const promotionCode = await prisma.promotionCode.create({
+      data: {
+        stripePromotionCodeId,
+        code: normalisedCode,
+        maxRedemptions: value.maxRedemptions,
+        expiresAt: value.expiresAt,
+        couponId: coupon.id
+      }
+    });
+
+    logger.info('Promotion code created', { couponId: coupon.id, code: promotionCode.code });
+
+    res.status(201).json({
+      success: true,
+      data: promotionCode
+    });
+  } catch (error) {
+    logger.error('Create promotion code error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   PUT /api/coupons/:id/promotion-codes/:codeId
+// @desc    Activate or deactivate a promotion code
+// @access  Private (coupons:write)
+router.put('/:id/promotion-codes/:codeId', auth, requirePermission('coupons:write'), async (req, res) => {
+  try {
+    const { error, value } = updatePromotionCodeSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const existing = await prisma.promotionCode.findFirst({
+      where: { id: req.params.codeId, couponId: req.params.id }
+    });
+    if (!existing) {
+      return res.status(404).json({ error: 'Promotion code not found' });
+    }
+
+    await getBillingProvider().setPromotionCodeActive(existing.stripePromotionCodeId, value.isActive);
+    const promotionCode = await prisma.promotionCode.update({
+      where: { id: existing.id },
+      data: { isActive: value.isActive }
+    });
+
+    logger.info('Promotion code updated', { promotionCodeId: promotionCode.id, isActive: promotionCode.isActive });
+
+    res.json({
+      success: true,
+      data: promotionCode
+    });
+  } catch (error) {
+    logger.error('Update promotion code error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/coupons/validate
+// @desc    Check a promotion code at checkout and show what it takes off
+// @access  Private (subscriptions:write)
+router.post('/validate', auth, requirePermission('subscriptions:write'), async (req, res) => {
+  try {
+    const { error, value } = validateCodeSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const plan = await prisma.plan.findUnique({ where: { id: value.planId } });
+    if (!plan || !plan.isActive) {
+      return res.status(404).json({ error: 'Plan not found' });
+    }
+
+    const result = await findRedeemablePromotionCode(value.code, plan);
+    if ('error' in result) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    const { coupon } = result.promotionCode;
+    const amount = plan.perSeat ? plan.amount * value.seats : plan.amount;
+    res.json({
+      success: true,
+      data: {
+        code: result.promotionCode.code,
+        description: describeCoupon(coupon),
+        amount,
+        discountedAmount: applyCoupon(coupon, amount),
+        currency: plan.currency
+      }
+    });
+  } catch (error) {
+    logger.error('Validate promotion code error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+export default router;
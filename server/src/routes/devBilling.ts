@@ -0,0 +1,58 @@
+import express from 'express';
+import Joi from 'joi';
+import { auth } from '../middleware/auth';
+import { requirePermission } from '../middleware/permissions';
+import { getBillingProvider, isFakeBillingProvider } from '../utils/billing';
+import { reportClosedUsagePeriods } from '../utils/usage';
+import logger from '../utils/logger';
+
+// Moves the fake billing provider's clock forward, so renewals, trial ends,
+// scheduled plan changes and usage-period closes can be tried out offline.
+// Only mounted when BILLING_PROVIDER=fake.
+
+const router = express.Router();
+
+const advanceSchema = Joi.object({
+  to: Joi.date(),
+  days: Joi.number().min(0)
+}).xor('to', 'days');
+
+// @route   POST /api/dev/billing/advance
+// @desc    Run everything the billing provider would do up to a date (`to`) or `days` from now
+// @access  Private (plans:write)
+router.post('/advance', auth, requirePermission('plans:write'), async (req, res) => {
+  try {
+    const { error, value } = advanceSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const billing = getBillingProvider();
+    if (!isFakeBillingProvider(billing)) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+
+    const date: Date = value.to ?? new Date(Date.now() + value.days * 24 * 60 * 60 * 1000);
+    const eventCount = billing.events.length;
+
+    await billing.advanceTo(date);
+    const usagePeriodsReported = await reportClosedUsagePeriods(date);
+
+    logger.info('Fake billing advanced', { to: date, events: billing.events.length - eventCount });
+
+    // Webhook events follow shortly, like they would from Stripe
+    res.json({
+      success: true,
+      data: {
+        advancedTo: date,
+        events: billing.events.slice(eventCount).map((event) => ({ id: event.id, type: event.type })),
+        usagePeriodsReported
+      }
+    });
+  } catch (error) {
+    logger.error('Advance fake billing error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+export default router;
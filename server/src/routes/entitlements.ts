@@ -0,0 +1,27 @@
+import express from 'express';
+import { auth } from '../middleware/auth';
+import { getEntitlementUsage, getEntitlements } from '../utils/entitlements';
+import logger from '../utils/logger';
+
+const router = express.Router();
+
+// @route   GET /api/entitlements
+// @desc    Get the limits and features of the active company's plan, and how much of each limit is used
+// @access  Private
+router.get('/', auth, async (req, res) => {
+  try {
+    const user = (req as any).user;
+
+    const [entitlements, usage] = await Promise.all([getEntitlements(user), getEntitlementUsage(user)]);
+
+    res.json({
+      success: true,
+      data: { entitlements, usage }
+    });
+  } catch (error) {
+    logger.error('Get entitlements error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+export default router;
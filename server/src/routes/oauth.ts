@@ -0,0 +1,390 @@
+import express from 'express';
+import Joi from 'joi';
+import { prisma } from '../index';
+import { auth } from '../middleware/auth';
+import { blockImpersonation } from '../middleware/impersonation';
+import { getOAuthProvider, getOAuthProviders, getOAuthRedirectUri, OAuthProvider } from '../utils/oauthProviders';
+import { buildAuthorizationUrl, ExternalProfile, fetchExternalProfile, generateCodeVerifier } from '../utils/oauth';
+import { generateRandomToken, hashToken } from '../utils/tokens';
+import { consumeUserToken } from '../utils/userTokens';
+import { redirectWithLoginCode, respondToFirstFactor, sendAccountLocked } from '../utils/authResponse';
+import { isAccountLocked } from '../utils/loginProtection';
+import { getEnforcedSsoLoginUrl } from '../utils/saml';
+import { membershipsInclude } from '../utils/memberships';
+import { buildFrontendUrl } from '../utils/emailTemplates';
+import logger from '../utils/logger';
+
+const router = express.Router();
+
+// Validation schemas
+const exchangeSchema = Joi.object({
+  code: Joi.string().required()
+});
+
+const OAUTH_STATE_EXPIRES_MINUTES = 10;
+
+// Remember the PKCE verifier and nonce for the callback and build the provider URL
+const startAuthorization = async (provider: OAuthProvider, userId?: string): Promise<string> => {
+  const state = generateRandomToken();
+  const nonce = generateRandomToken(16);
+  const codeVerifier = generateCodeVerifier();
+
+  await prisma.oAuthState.create({
+    data: {
+      stateHash: hashToken(state),
+      provider: provider.id,
+      codeVerifier,
+      nonce,
+      userId,
+      expiresAt: new Date(Date.now() + OAUTH_STATE_EXPIRES_MINUTES * 60 * 1000)
+    }
+  });
+
+  return buildAuthorizationUrl(provider, {
+    state,
+    nonce,
+    codeVerifier,
+    redirectUri: getOAuthRedirectUri(provider.id)
+  });
+};
+
+// Single use: the state row is deleted as it is read
+const consumeOAuthState = async (state: string, providerId: string) => {
+  const record = await prisma.oAuthState.findUnique({ where: { stateHash: hashToken(state) } });
+  if (!record) {
+    return null;
+  }
+
+  const { count } = await prisma.oAuthState.deleteMany({ where: { id: record.id } });
+  if (count !== 1 || record.provider !== providerId || record.expiresAt <= new Date()) {
+    return null;
+  }
+
+  return record;
+};
+
+// Attach the provider identity to a signed-in user
+const linkIdentity = async (
+  req: express.Request,
+  userId: string,
+  provider: OAuthProvider,
+  profile: ExternalProfile
+): Promise<string | null> => {
+  const existing = await prisma.externalIdentity.findUnique({
+    where: { provider_subject: { provider: provider.id, subject: profile.subject } }
+  });
+
+  if (existing) {
+    return existing.userId === userId ? null : `This ${provider.name} account is linked to another user`;
+  }
+
+  await prisma.externalIdentity.create({
+    data: {
+      provider: provider.id,
+      subject: profile.subject,
+      email: profile.email,
+      userId
+    }
+  });
+
+  // Log activity
+  await prisma.userActivity.create({
+    data: {
+      userId,
+      action: 'OAUTH_ACCOUNT_LINKED',
+      description: `Connected ${provider.name} account`,
+      metadata: { provider: provider.id, email: profile.email },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    }
+  });
+
+  return null;
+};
+
+// Find the user for a provider identity, linking by verified email or creating
+// the account on first sign-in. Returns an error message instead when refused.
+const findOrCreateUser = async (
+  req: express.Request,
+  provider: OAuthProvider,
+  profile: ExternalProfile
+): Promise<{ userId: string } | { error: string }> => {
+  const identity = await prisma.externalIdentity.findUnique({
+    where: { provider_subject: { provider: provider.id, subject: profile.subject } }
+  });
+
+  if (identity) {
+    await prisma.externalIdentity.update({
+      where: { id: identity.id },
+      data: { lastUsedAt: new Date(), email: profile.email }
+    });
+    return { userId: identity.userId };
+  }
+
+  if (!profile.email) {
+    return { error: `Your ${provider.name} account did not share an email address` };
+  }
+
+  const existingUser = await prisma.user.findUnique({ where: { email: profile.email } });
+
+  if (existingUser) {
+    // Only trust the provider's word for who owns the address if it verified it
+    if (!profile.emailVerified) {
+      return {
+        error: `An account with ${profile.email} already exists. Sign in with your password and connect ${provider.name} from Settings.`
+      };
+    }
+
+    await linkIdentity(req, existingUser.id, provider, profile);
+    return { userId: existingUser.id };
+  }
+
+  const user = await prisma.user.create({
+    data: {
+      email: profile.email,
+      firstName: profile.firstName || profile.email.split('@')[0],
+      lastName: profile.lastName,
+      isEmailVerified: profile.emailVerified,
+      externalIdentities: {
+        create: {
+          provider: provider.id,
+          subject: profile.subject,
+          email: profile.email,
+          lastUsedAt: new Date()
+        }
+      }
+    }
+  });
+
+  // Log activity
+  await prisma.userActivity.create({
+    data: {
+      userId: user.id,
+      action: 'USER_REGISTERED',
+      description: `User registered with ${provider.name}`,
+      metadata: { provider: provider.id }
+    }
+  });
+
+  logger.info('User registered', { userId: user.id, email: user.email, provider: provider.id });
+
+  return { userId: user.id };
+};
+
+// @route   GET /api/auth/oauth/providers
+// @desc    List the enabled sign-in providers
+// @access  Public
+router.get('/providers', (req, res) => {
+  res.json({
+    success: true,
+    data: getOAuthProviders().map((provider) => ({ id: provider.id, name: provider.name }))
+  });
+});
+
+// @route   POST /api/auth/oauth/:provider/start
+// @desc    Begin signing in with a provider
+// @access  Public
+router.post('/:provider/start', async (req, res) => {
+  try {
+    const provider = getOAuthProvider(req.params.provider);
+    if (!provider) {
+      return res.status(404).json({ error: 'Sign-in provider not found' });
+    }
+
+    const url = await startAuthorization(provider);
+
+    res.json({ success: true, url });
+  } catch (error) {
+    logger.error('OAuth start error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/auth/oauth/:provider/link
+// @desc    Begin connecting a provider to the current user
+// @access  Private
+router.post('/:provider/link', auth, blockImpersonation, async (req, res) => {
+  try {
+    const provider = getOAuthProvider(req.params.provider);
+    if (!provider) {
+      return res.status(404).json({ error: 'Sign-in provider not found' });
+    }
+
+    const url = await startAuthorization(provider, (req as any).user.id);
+
+    res.json({ success: true, url });
+  } catch (error) {
+    logger.error('OAuth link error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   GET /api/auth/oauth/:provider/callback
+// @desc    Provider redirect target; sends the browser back to the app
+// @access  Public
+router.get('/:provider/callback', async (req, res) => {
+  const loginRedirect = (params: Record<string, string>) =>
+    res.redirect(buildFrontendUrl('/auth/callback', params));
+
+  try {
+    const provider = getOAuthProvider(req.params.provider);
+    const { code, state, error } = req.query as Record<string, string | undefined>;
+
+    const oauthState = provider && state ? await consumeOAuthState(state, provider.id) : null;
+    if (!provider || !oauthState) {
+      return loginRedirect({ error: 'Sign-in request has expired. Please try again.' });
+    }
+
+    const settingsRedirect = (params: Record<string, string>) =>
+      res.redirect(buildFrontendUrl('/settings', { tab: 'security', ...params }));
+
+    if (error || !code) {
+      const message = `${provider.name} sign-in was cancelled`;
+      return oauthState.userId ? settingsRedirect({ oauthError: message }) : loginRedirect({ error: message });
+    }
+
+    const profile = await fetchExternalProfile(provider, {
+      code,
+      codeVerifier: oauthState.codeVerifier,
+      nonce: oauthState.nonce,
+      redirectUri: getOAuthRedirectUri(provider.id)
+    });
+
+    if (oauthState.userId) {
+      const linkError = await linkIdentity(req, oauthState.userId, provider, profile);
+      return settingsRedirect(linkError ? { oauthError: linkError } : { linked: provider.id });
+    }
+
+    const result = await findOrCreateUser(req, provider, profile);
+    if ('error' in result) {
+      return loginRedirect({ error: result.error });
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: result.userId } });
+    if (user && (await getEnforcedSsoLoginUrl(user))) {
+      return loginRedirect({ error: 'Your company requires you to sign in with single sign-on' });
+    }
+
+    await redirectWithLoginCode(res, result.userId, { provider: provider.id });
+  } catch (error) {
+    logger.error('OAuth callback error', error);
+    loginRedirect({ error: 'Sign-in failed. Please try again.' });
+  }
+});
+
+// @route   POST /api/auth/oauth/exchange
+// @desc    Trade the code from the callback redirect for a session
+// @access  Public
+router.post('/exchange', async (req, res) => {
+  try {
+    const { error } = exchangeSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const userToken = await consumeUserToken(req.body.code, 'EXTERNAL_LOGIN');
+    if (!userToken) {
+      return res.status(400).json({ error: 'Sign-in link is invalid or has expired' });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userToken.userId },
+      include: {
+        ...membershipsInclude,
+        subscriptions: {
+          include: {
+            plan: true
+          }
+        }
+      }
+    });
+
+    // The account may have been deleted since the code was issued
+    if (!user || user.deletedAt) {
+      return res.status(401).json({ error: 'Sign-in link is invalid or has expired' });
+    }
+
+    // Same lockout as password login
+    if (isAccountLocked(user)) {
+      return sendAccountLocked(res, user.lockedUntil!);
+    }
+
+    await respondToFirstFactor(req, res, user, 'User logged in with an external provider');
+  } catch (error) {
+    logger.error('OAuth exchange error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   GET /api/auth/oauth/identities
+// @desc    List providers connected to the current user
+// @access  Private
+router.get('/identities', auth, async (req, res) => {
+  try {
+    const identities = await prisma.externalIdentity.findMany({
+      where: { userId: (req as any).user.id },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    res.json({
+      success: true,
+      data: identities.map((identity) => ({
+        id: identity.id,
+        provider: identity.provider,
+        providerName: getOAuthProvider(identity.provider)?.name || identity.provider,
+        email: identity.email,
+        lastUsedAt: identity.lastUsedAt,
+        createdAt: identity.createdAt
+      }))
+    });
+  } catch (error) {
+    logger.error('Get identities error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   DELETE /api/auth/oauth/identities/:id
+// @desc    Disconnect a provider
+// @access  Private
+router.delete('/identities/:id', auth, blockImpersonation, async (req, res) => {
+  try {
+    const user = (req as any).user;
+
+    const identity = await prisma.externalIdentity.findFirst({
+      where: { id: req.params.id, userId: user.id }
+    });
+
+    if (!identity) {
+      return res.status(404).json({ error: 'Connected account not found' });
+    }
+
+    // Never leave the user without a way to sign in
+    const identityCount = await prisma.externalIdentity.count({ where: { userId: user.id } });
+    if (!user.password && identityCount <= 1) {
+      return res.status(400).json({
+        error: 'Set a password before disconnecting your last sign-in provider'
+      });
+    }
+
+    await prisma.externalIdentity.delete({ where: { id: identity.id } });
+
+    // Log activity
+    await prisma.userActivity.create({
+      data: {
+        userId: user.id,
+        action: 'OAUTH_ACCOUNT_UNLINKED',
+        description: `Disconnected ${getOAuthProvider(identity.provider)?.name || identity.provider} account`,
+        metadata: { provider: identity.provider },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.json({ success: true, message: 'Account disconnected' });
+  } catch (error) {
+    logger.error('Unlink identity error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+export default router;
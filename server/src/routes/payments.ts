@@ -1,14 +1,15 @@
 import express from 'express';
 import { prisma } from '../index';
-import { auth, adminAuth } from '../middleware/auth';
+import { auth, authOrApiKey } from '../middleware/auth';
+import { requirePermission } from '../middleware/permissions';
 import logger from '../utils/logger';
 
 const router = express.Router();
 
 // @route   GET /api/payments
 // @desc    Get user payments
-// @access  Private
-router.get('/', auth, async (req, res) => {
+// @access  Private (payments:read)
+router.get('/', authOrApiKey('payments:read'), requirePermission('payments:read'), async (req, res) => {
   try {
     const { page = 1, limit = 10, status } = req.query;
     const user = (req as any).user;
@@ -23,7 +24,8 @@ router.get('/', auth, async (req, res) => {
           include: {
             plan: true
           }
-        }
+        },
+        coupon: true
       },
       orderBy: { createdAt: 'desc' },
       skip: (Number(page) - 1) * Number(limit),
@@ -49,8 +51,8 @@ router.get('/', auth, async (req, res) => {
 
 // @route   GET /api/payments/stats
 // @desc    Get payment statistics
-// @access  Private
-router.get('/stats', auth, async (req, res) => {
+// @access  Private (payments:read)
+router.get('/stats', authOrApiKey('payments:read'), requirePermission('payments:read'), async (req, res) => {
   try {
     const user = (req as any).user;
 
@@ -123,8 +125,8 @@ router.get('/stats', auth, async (req, res) => {
 
 // @route   GET /api/payments/:id
 // @desc    Get payment details
-// @access  Private
-router.get('/:id', auth, async (req, res) => {
+// @access  Private (payments:read)
+router.get('/:id', authOrApiKey('payments:read'), requirePermission('payments:read'), async (req, res) => {
   try {
     const { id } = req.params;
     const user = (req as any).user;
@@ -136,7 +138,8 @@ router.get('/:id', auth, async (req, res) => {
           include: {
             plan: true
           }
-        }
+        },
+        coupon: true
       }
     });
 
@@ -156,8 +159,8 @@ router.get('/:id', auth, async (req, res) => {
 
 // @route   GET /api/payments/admin/all
 // @desc    Get all payments (admin only)
-// @access  Private (Admin)
-router.get('/admin/all', adminAuth, async (req, res) => {
+// @access  Private (payments:read_all)
+router.get('/admin/all', auth, requirePermission('payments:read_all'), async (req, res) => {
   try {
     const { page = 1, limit = 20, status, userId } = req.query;
 
@@ -180,7 +183,8 @@ router.get('/admin/all', adminAuth, async (req, res) => {
           include: {
             plan: true
           }
-        }
+        },
+        coupon: true
       },
       orderBy: { createdAt: 'desc' },
       skip: (Number(page) - 1) * Number(limit),
@@ -1,6 +1,8 @@
 import express from 'express';
 import { prisma } from '../index';
-import { adminAuth } from '../middleware/auth';
+import { auth } from '../middleware/auth';
+import { requirePermission } from '../middleware/permissions';
+import { entitlementsSchema } from '../utils/entitlements';
 import logger from '../utils/logger';
 
 const router = express.Router();
@@ -27,21 +29,45 @@ router.get('/', async (req, res) => {
 
 // @route   POST /api/plans
 // @desc    Create new plan
-// @access  Private (Admin)
-router.post('/', adminAuth, async (req, res) => {
+// @access  Private (plans:write)
+router.post('/', auth, requirePermission('plans:write'), async (req, res) => {
   try {
-    const { name, stripePriceId, stripeProductId, amount, currency, interval, intervalCount, features } = req.body;
+    const {
+      name,
+      stripePriceId,
+      stripeProductId,
+      meteredPriceId,
+      amount,
+      currency,
+      interval,
+      intervalCount,
+      perSeat,
+      trialDays,
+      trialRequiresPaymentMethod,
+      features,
+      entitlements
+    } = req.body;
+
+    const { error } = entitlementsSchema.validate(entitlements);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
 
     const plan = await prisma.plan.create({
       data: {
         name,
         stripePriceId,
         stripeProductId,
+        meteredPriceId,
         amount,
         currency,
         interval,
         intervalCount,
-        features
+        perSeat,
+        trialDays,
+        trialRequiresPaymentMethod,
+        features,
+        entitlements
       }
     });
 
@@ -59,18 +85,26 @@ router.post('/', adminAuth, async (req, res) => {
 
 // @route   PUT /api/plans/:id
 // @desc    Update plan
-// @access  Private (Admin)
-router.put('/:id', adminAuth, async (req, res) => {
+// @access  Private (plans:write)
+router.put('/:id', auth, requirePermission('plans:write'), async (req, res) => {
   try {
     const { id } = req.params;
-    const { name, amount, features, isActive } = req.body;
+    const { name, amount, trialDays, trialRequiresPaymentMethod, features, entitlements, isActive } = req.body;
+
+    const { error } = entitlementsSchema.validate(entitlements);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
 
     const plan = await prisma.plan.update({
       where: { id },
       data: {
         name,
         amount,
+        trialDays,
+        trialRequiresPaymentMethod,
         features,
+        entitlements,
         isActive
       }
     });
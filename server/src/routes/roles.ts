@@ -0,0 +1,200 @@
+import express from 'express';
+import Joi from 'joi';
+import { prisma } from '../index';
+import { auth } from '../middleware/auth';
+import { requireCompany } from '../middleware/company';
+import { requirePermission } from '../middleware/permissions';
+import { COMPANY_PERMISSIONS, findUngrantablePermission } from '../utils/permissions';
+import logger from '../utils/logger';
+
+const router = express.Router();
+
+// Validation schemas
+const roleSchema = Joi.object({
+  name: Joi.string().trim().max(50).required(),
+  description: Joi.string().trim().max(200).allow('', null),
+  permissions: Joi.array().items(Joi.string().valid(...COMPANY_PERMISSIONS)).unique().required()
+});
+
+// @route   GET /api/roles
+// @desc    List the company's custom roles and assignable permissions
+// @access  Private (roles:manage)
+router.get('/', auth, requirePermission('roles:manage'), requireCompany, async (req, res) => {
+  try {
+    const { companyId } = (req as any).user;
+
+    const roles = await prisma.companyRole.findMany({
+      where: { companyId },
+      include: { _count: { select: { memberships: true } } },
+      orderBy: { name: 'asc' }
+    });
+
+    res.json({
+      success: true,
+      data: {
+        permissions: COMPANY_PERMISSIONS,
+        roles
+      }
+    });
+  } catch (error) {
+    logger.error('Get roles error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/roles
+// @desc    Create a custom role
+// @access  Private (roles:manage)
+router.post('/', auth, requirePermission('roles:manage'), requireCompany, async (req, res) => {
+  try {
+    const { error, value } = roleSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const user = (req as any).user;
+
+    const ungrantable = findUngrantablePermission(user, value.permissions);
+    if (ungrantable) {
+      return res.status(403).json({ error: `You cannot grant the ${ungrantable} permission` });
+    }
+
+    const existing = await prisma.companyRole.findUnique({
+      where: { companyId_name: { companyId: user.companyId, name: value.name } }
+    });
+    if (existing) {
+      return res.status(400).json({ error: 'A role with this name already exists' });
+    }
+
+    const role = await prisma.companyRole.create({
+      data: {
+        companyId: user.companyId,
+        name: value.name,
+        description: value.description || null,
+        permissions: value.permissions
+      }
+    });
+
+    // Log activity
+    await prisma.userActivity.create({
+      data: {
+        userId: user.id,
+        action: 'ROLE_CREATED',
+        description: `Created role ${role.name}`,
+        metadata: { roleId: role.id, permissions: role.permissions },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.status(201).json({
+      success: true,
+      data: role
+    });
+  } catch (error) {
+    logger.error('Create role error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   PUT /api/roles/:id
+// @desc    Update a custom role
+// @access  Private (roles:manage)
+router.put('/:id', auth, requirePermission('roles:manage'), requireCompany, async (req, res) => {
+  try {
+    const { error, value } = roleSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const user = (req as any).user;
+
+    const role = await prisma.companyRole.findFirst({
+      where: { id: req.params.id, companyId: user.companyId }
+    });
+    if (!role) {
+      return res.status(404).json({ error: 'Role not found' });
+    }
+
+    const ungrantable = findUngrantablePermission(user, value.permissions);
+    if (ungrantable) {
+      return res.status(403).json({ error: `You cannot grant the ${ungrantable} permission` });
+    }
+
+    const duplicate = await prisma.companyRole.findFirst({
+      where: { companyId: user.companyId, name: value.name, NOT: { id: role.id } }
+    });
+    if (duplicate) {
+      return res.status(400).json({ error: 'A role with this name already exists' });
+    }
+
+    const updatedRole = await prisma.companyRole.update({
+      where: { id: role.id },
+      data: {
+        name: value.name,
+        description: value.description || null,
+        permissions: value.permissions
+      }
+    });
+
+    // Log activity
+    await prisma.userActivity.create({
+      data: {
+        userId: user.id,
+        action: 'ROLE_UPDATED',
+        description: `Updated role ${updatedRole.name}`,
+        metadata: { roleId: role.id, permissions: updatedRole.permissions },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.json({
+      success: true,
+      data: updatedRole
+    });
+  } catch (error) {
+    logger.error('Update role error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   DELETE /api/roles/:id
+// @desc    Delete a custom role. Its members fall back to their built-in role.
+// @access  Private (roles:manage)
+router.delete('/:id', auth, requirePermission('roles:manage'), requireCompany, async (req, res) => {
+  try {
+    const user = (req as any).user;
+
+    const role = await prisma.companyRole.findFirst({
+      where: { id: req.params.id, companyId: user.companyId }
+    });
+    if (!role) {
+      return res.status(404).json({ error: 'Role not found' });
+    }
+
+    await prisma.companyRole.delete({ where: { id: role.id } });
+
+    // Log activity
+    await prisma.userActivity.create({
+      data: {
+        userId: user.id,
+        action: 'ROLE_DELETED',
+        description: `Deleted role ${role.name}`,
+        metadata: { roleId: role.id },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.json({
+      success: true,
+      message: 'Role deleted'
+    });
+  } catch (error) {
+    logger.error('Delete role error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,500 @@
+import express from 'express';
+import Joi from 'joi';
+import { prisma } from '../index';
+import { auth } from '../middleware/auth';
+import { blockImpersonation } from '../middleware/impersonation';
+import { requirePermission } from '../middleware/permissions';
+import {
+  companyHasSsoFeature,
+  createSamlClient,
+  getAcsUrl,
+  getSpEntityId,
+  getSpMetadataUrl,
+  getSsoLoginUrl,
+  mapSamlProfile,
+  parseIdpMetadata
+} from '../utils/saml';
+import { redirectWithLoginCode } from '../utils/authResponse';
+import { consumeUserToken, createUserToken } from '../utils/userTokens';
+import { getEmailDomain } from '../utils/domains';
+import { checkMemberLimit } from '../utils/entitlements';
+import { syncSeats } from '../utils/seats';
+import { buildFrontendUrl } from '../utils/emailTemplates';
+import logger from '../utils/logger';
+
+const router = express.Router();
+
+// Validation schemas
+const discoverSchema = Joi.object({
+  email: Joi.string().email().required()
+});
+
+const configSchema = Joi.object({
+  metadataXml: Joi.string().allow('', null),
+  idpEntityId: Joi.string().allow(''),
+  idpSsoUrl: Joi.string().uri().allow(''),
+  idpCertificate: Joi.string().allow(''),
+  emailAttribute: Joi.string(),
+  firstNameAttribute: Joi.string(),
+  lastNameAttribute: Joi.string(),
+  enabled: Joi.boolean(),
+  jitProvisioning: Joi.boolean(),
+  enforceSso: Joi.boolean()
+});
+
+const SAML_PROVIDER_PREFIX = 'saml:';
+const SAML_LINK_EXPIRES_MS = 10 * 60 * 1000;
+const SSO_PLAN_REQUIRED = 'Single sign-on requires an Enterprise plan';
+
+const loginRedirect = (res: express.Response, error: string) =>
+  res.redirect(buildFrontendUrl('/auth/callback', { error }));
+
+const settingsRedirect = (res: express.Response, params: Record<string, string>) =>
+  res.redirect(buildFrontendUrl('/settings', { tab: 'security', ...params }));
+
+const getEnabledConfig = (companyId: string) =>
+  prisma.companySsoConfig.findFirst({ where: { companyId, enabled: true } });
+
+// The IdP vouches for addresses on the company's verified domain. Accounts with
+// any other address are only connected to it from their own signed-in session.
+const isVerifiedCompanyEmail = async (companyId: string, email: string): Promise<boolean> => {
+  const company = await prisma.company.findUnique({ where: { id: companyId } });
+  return !!company?.domain && !!company.domainVerifiedAt && company.domain === getEmailDomain(email);
+};
+
+// Shape of the SSO config returned to company admins
+const formatConfig = (companyId: string, config: any, featureAvailable: boolean) => ({
+  featureAvailable,
+  serviceProvider: {
+    entityId: getSpEntityId(companyId),
+    acsUrl: getAcsUrl(companyId),
+    metadataUrl: getSpMetadataUrl(companyId),
+    loginUrl: getSsoLoginUrl(companyId)
+  },
+  config: config && {
+    enabled: config.enabled,
+    idpEntityId: config.idpEntityId,
+    idpSsoUrl: config.idpSsoUrl,
+    idpCertificate: config.idpCertificate,
+    hasMetadata: !!config.metadataXml,
+    emailAttribute: config.emailAttribute,
+    firstNameAttribute: config.firstNameAttribute,
+    lastNameAttribute: config.lastNameAttribute,
+    jitProvisioning: config.jitProvisioning,
+    enforceSso: config.enforceSso,
+    updatedAt: config.updatedAt
+  }
+});
+
+// @route   POST /api/sso/discover
+// @desc    Find the SSO login URL for an email address
+// @access  Public
+router.post('/discover', async (req, res) => {
+  try {
+    const { error } = discoverSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const { email } = req.body;
+
+    // Existing users go to one of their own companies; new users by their verified email domain
+    const user = await prisma.user.findUnique({ where: { email } });
+    const company = user
+      ? await prisma.company.findFirst({
+          where: {
+            memberships: { some: { userId: user.id } },
+            ssoConfig: { enabled: true }
+          }
+        })
+      : await prisma.company.findFirst({ where: { domain: getEmailDomain(email), domainVerifiedAt: { not: null } } });
+
+    const config = company ? await getEnabledConfig(company.id) : null;
+    if (!company || !config || !(await companyHasSsoFeature(company.id))) {
+      return res.status(404).json({ error: 'Single sign-on is not set up for this email address' });
+    }
+
+    res.json({
+      success: true,
+      data: { companyId: company.id, companyName: company.name, loginUrl: getSsoLoginUrl(company.id) }
+    });
+  } catch (error) {
+    logger.error('SSO discover error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   GET /api/sso/saml/:companyId/metadata
+// @desc    Service provider metadata to register with the IdP
+// @access  Public
+router.get('/saml/:companyId/metadata', async (req, res) => {
+  try {
+    const config = await prisma.companySsoConfig.findUnique({ where: { companyId: req.params.companyId } });
+    if (!config) {
+      return res.status(404).json({ error: 'Single sign-on is not configured' });
+    }
+
+    res.type('application/xml').send(createSamlClient(config).generateServiceProviderMetadata(null, null));
+  } catch (error) {
+    logger.error('SSO metadata error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   GET /api/sso/saml/:companyId/login
+// @desc    Start SP-initiated login by redirecting to the IdP
+// @access  Public
+router.get('/saml/:companyId/login', async (req, res) => {
+  try {
+    const config = await getEnabledConfig(req.params.companyId);
+    if (!config) {
+      return loginRedirect(res, 'Single sign-on is not enabled for this company');
+    }
+    if (!(await companyHasSsoFeature(config.companyId))) {
+      return loginRedirect(res, SSO_PLAN_REQUIRED);
+    }
+
+    const url = await createSamlClient(config).getAuthorizeUrlAsync('', req.get('host'), {});
+    res.redirect(url);
+  } catch (error) {
+    logger.error('SSO login error', error);
+    loginRedirect(res, 'Single sign-on failed. Please try again.');
+  }
+});
+
+// @route   POST /api/sso/saml/:companyId/link
+// @desc    Begin connecting the company's IdP to the current user
+// @access  Private
+router.post('/saml/:companyId/link', auth, blockImpersonation, async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const { companyId } = req.params;
+
+    if (!user.memberships.some((membership: any) => membership.companyId === companyId)) {
+      return res.status(404).json({ error: 'Company not found' });
+    }
+
+    const config = await getEnabledConfig(companyId);
+    if (!config) {
+      return res.status(400).json({ error: 'Single sign-on is not enabled for this company' });
+    }
+    if (!(await companyHasSsoFeature(companyId))) {
+      return res.status(403).json({ error: SSO_PLAN_REQUIRED });
+    }
+
+    // The IdP hands the relay state back with its response, naming the user to link
+    const relayState = await createUserToken(user.id, 'SAML_LINK', SAML_LINK_EXPIRES_MS);
+    const url = await createSamlClient(config).getAuthorizeUrlAsync(relayState, req.get('host'), {});
+
+    res.json({ success: true, url });
+  } catch (error) {
+    logger.error('SSO link error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/sso/saml/:companyId/acs
+// @desc    Assertion consumer service for SP- and IdP-initiated logins
+// @access  Public
+router.post('/saml/:companyId/acs', async (req, res) => {
+  const { companyId } = req.params;
+
+  try {
+    const config = await getEnabledConfig(companyId);
+    if (!config) {
+      return loginRedirect(res, 'Single sign-on is not enabled for this company');
+    }
+    if (!(await companyHasSsoFeature(companyId))) {
+      return loginRedirect(res, SSO_PLAN_REQUIRED);
+    }
+
+    let profile;
+    try {
+      ({ profile } = await createSamlClient(config).validatePostResponseAsync(req.body));
+    } catch (validationError) {
+      logger.warn('Rejected SAML response', { companyId, error: (validationError as Error).message });
+      return loginRedirect(res, 'Your identity provider sent an invalid sign-in response');
+    }
+
+    // node-saml pins the certificate but leaves the assertion issuer to us
+    if (!profile || profile.issuer !== config.idpEntityId) {
+      return loginRedirect(res, 'Your identity provider sent an invalid sign-in response');
+    }
+
+    const samlUser = mapSamlProfile(config, profile);
+    const provider = `${SAML_PROVIDER_PREFIX}${companyId}`;
+
+    const identity = await prisma.externalIdentity.findUnique({
+      where: { provider_subject: { provider, subject: samlUser.nameId } }
+    });
+
+    // Connecting the IdP to a signed-in user, see POST /saml/:companyId/link
+    const relayState = typeof req.body.RelayState === 'string' ? req.body.RelayState : '';
+    const linkToken = relayState ? await consumeUserToken(relayState, 'SAML_LINK') : null;
+    if (linkToken) {
+      const membership = await prisma.companyMembership.findUnique({
+        where: { userId_companyId: { userId: linkToken.userId, companyId } }
+      });
+      if (!membership) {
+        return settingsRedirect(res, { oauthError: 'You are no longer a member of this company' });
+      }
+      if (identity) {
+        return identity.userId === linkToken.userId
+          ? settingsRedirect(res, { linked: 'saml' })
+          : settingsRedirect(res, { oauthError: 'This single sign-on identity is linked to another user' });
+      }
+
+      await prisma.externalIdentity.create({
+        data: {
+          provider,
+          subject: samlUser.nameId,
+          email: samlUser.email,
+          userId: linkToken.userId
+        }
+      });
+
+      // Log activity
+      await prisma.userActivity.create({
+        data: {
+          userId: linkToken.userId,
+          action: 'SSO_ACCOUNT_LINKED',
+          description: 'Connected single sign-on',
+          metadata: { companyId, email: samlUser.email },
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent')
+        }
+      });
+
+      return settingsRedirect(res, { linked: 'saml' });
+    }
+
+    let userId = identity?.userId;
+
+    if (identity) {
+      await prisma.externalIdentity.update({
+        where: { id: identity.id },
+        data: { lastUsedAt: new Date(), email: samlUser.email }
+      });
+    } else {
+      if (!samlUser.email) {
+        return loginRedirect(res, 'Your identity provider did not send an email address');
+      }
+
+      const existingUser = await prisma.user.findUnique({
+        where: { email: samlUser.email },
+        include: { memberships: { where: { companyId } } }
+      });
+
+      if (existingUser) {
+        // The IdP only speaks for its own company's users
+        if (existingUser.memberships.length === 0) {
+          return loginRedirect(res, `${samlUser.email} belongs to a different account`);
+        }
+        if (!(await isVerifiedCompanyEmail(companyId, samlUser.email))) {
+          return loginRedirect(
+            res,
+            'Sign in with your password and connect single sign-on from your security settings first'
+          );
+        }
+        userId = existingUser.id;
+      } else {
+        if (!config.jitProvisioning) {
+          return loginRedirect(res, 'No account exists for you yet. Ask your administrator for access.');
+        }
+        if (await checkMemberLimit(companyId)) {
+          return loginRedirect(res, "Your company's plan has no room for another member. Ask your administrator to upgrade.");
+        }
+
+        // Just-in-time provisioning; the IdP has already vouched for the address
+        const user = await prisma.user.create({
+          data: {
+            email: samlUser.email,
+            firstName: samlUser.firstName || samlUser.email.split('@')[0],
+            lastName: samlUser.lastName,
+            isEmailVerified: true,
+            memberships: { create: { companyId } }
+          }
+        });
+        userId = user.id;
+        await syncSeats(companyId, 'joined');
+
+        // Log activity
+        await prisma.userActivity.create({
+          data: {
+            userId,
+            action: 'USER_REGISTERED',
+            description: 'User provisioned through single sign-on',
+            metadata: { companyId }
+          }
+        });
+
+        logger.info('User provisioned via SSO', { userId, companyId });
+      }
+
+      await prisma.externalIdentity.create({
+        data: {
+          provider,
+          subject: samlUser.nameId,
+          email: samlUser.email,
+          lastUsedAt: new Date(),
+          userId
+        }
+      });
+    }
+
+    await redirectWithLoginCode(res, userId!, { provider: 'saml' });
+  } catch (error) {
+    logger.error('SSO assertion error', error);
+    loginRedirect(res, 'Single sign-on failed. Please try again.');
+  }
+});
+
+// @route   GET /api/sso/config
+// @desc    Get the SSO configuration of the admin's company
+// @access  Private (sso:manage)
+router.get('/config', auth, requirePermission('sso:manage'), async (req, res) => {
+  try {
+    const { companyId } = (req as any).user;
+    if (!companyId) {
+      return res.status(400).json({ error: 'You are not part of a company' });
+    }
+
+    const config = await prisma.companySsoConfig.findUnique({ where: { companyId } });
+    const featureAvailable = await companyHasSsoFeature(companyId);
+
+    res.json({ success: true, data: formatConfig(companyId, config, featureAvailable) });
+  } catch (error) {
+    logger.error('Get SSO config error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   PUT /api/sso/config
+// @desc    Create or update the company's SAML IdP configuration
+// @access  Private (sso:manage)
+router.put('/config', auth, requirePermission('sso:manage'), async (req, res) => {
+  try {
+    const { error, value } = configSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const user = (req as any).user;
+    const { companyId } = user;
+    if (!companyId) {
+      return res.status(400).json({ error: 'You are not part of a company' });
+    }
+
+    const featureAvailable = await companyHasSsoFeature(companyId);
+    if (!featureAvailable) {
+      return res.status(403).json({ error: 'Single sign-on requires an Enterprise plan' });
+    }
+
+    const { metadataXml, idpEntityId, idpSsoUrl, idpCertificate, ...settings } = value;
+
+    // Uploaded metadata wins over individually entered IdP fields
+    let idp: { idpEntityId?: string; idpSsoUrl?: string; idpCertificate?: string; metadataXml?: string | null };
+    if (metadataXml) {
+      const metadata = parseIdpMetadata(metadataXml);
+      if (!metadata) {
+        return res.status(400).json({
+          error: 'Could not read an entity ID, SSO URL and signing certificate from the metadata'
+        });
+      }
+      idp = {
+        idpEntityId: metadata.entityId,
+        idpSsoUrl: metadata.ssoUrl,
+        idpCertificate: metadata.certificate,
+        metadataXml
+      };
+    } else {
+      idp = {
+        ...(idpEntityId && { idpEntityId }),
+        ...(idpSsoUrl && { idpSsoUrl }),
+        ...(idpCertificate && { idpCertificate })
+      };
+    }
+
+    const existing = await prisma.companySsoConfig.findUnique({ where: { companyId } });
+    const merged = { ...existing, ...idp };
+    if (!merged.idpEntityId || !merged.idpSsoUrl || !merged.idpCertificate) {
+      return res.status(400).json({
+        error: 'Provide IdP metadata XML, or the IdP entity ID, SSO URL and certificate'
+      });
+    }
+
+    // Enforcing SSO without it switched on would lock every password user out
+    if (settings.enforceSso && !(settings.enabled ?? existing?.enabled)) {
+      return res.status(400).json({ error: 'Enable single sign-on before enforcing it' });
+    }
+
+    const config = await prisma.companySsoConfig.upsert({
+      where: { companyId },
+      create: {
+        companyId,
+        idpEntityId: merged.idpEntityId,
+        idpSsoUrl: merged.idpSsoUrl,
+        idpCertificate: merged.idpCertificate,
+        metadataXml: idp.metadataXml,
+        ...settings
+      },
+      update: { ...idp, ...settings }
+    });
+
+    // Log activity
+    await prisma.userActivity.create({
+      data: {
+        userId: user.id,
+        action: 'SSO_CONFIG_UPDATED',
+        description: 'Updated single sign-on configuration',
+        metadata: { companyId, enabled: config.enabled, enforceSso: config.enforceSso },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    logger.info('SSO config updated', { companyId, userId: user.id });
+
+    res.json({ success: true, data: formatConfig(companyId, config, featureAvailable) });
+  } catch (error) {
+    logger.error('Update SSO config error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   DELETE /api/sso/config
+// @desc    Remove the company's SSO configuration
+// @access  Private (sso:manage)
+router.delete('/config', auth, requirePermission('sso:manage'), async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const { companyId } = user;
+    if (!companyId) {
+      return res.status(400).json({ error: 'You are not part of a company' });
+    }
+
+    const { count } = await prisma.companySsoConfig.deleteMany({ where: { companyId } });
+    if (count === 0) {
+      return res.status(404).json({ error: 'Single sign-on is not configured' });
+    }
+
+    // Log activity
+    await prisma.userActivity.create({
+      data: {
+        userId: user.id,
+        action: 'SSO_CONFIG_DELETED',
+        description: 'Removed single sign-on configuration',
+        metadata: { companyId },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.json({ success: true, message: 'Single sign-on configuration removed' });
+  } catch (error) {
+    logger.error('Delete SSO config error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+export default router;
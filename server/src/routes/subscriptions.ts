@@ -1,23 +1,87 @@
 import express from 'express';
-import Stripe from 'stripe';
+import Joi from 'joi';
 import { prisma } from '../index';
-import { auth } from '../middleware/auth';
+import { auth, authOrApiKey } from '../middleware/auth';
+import { blockImpersonation } from '../middleware/impersonation';
+import { requirePermission } from '../middleware/permissions';
+import { requireVerifiedEmail } from '../middleware/verifiedEmail';
+import {
+  cancelScheduledPlanChange,
+  cancelSubscription,
+  changePlan,
+  checkPlanChange,
+  previewPlanChange
+} from '../utils/subscriptions';
+import { BillingCardError, getBillingProvider } from '../utils/billing';
+import { hasUsedTrial, trialDaysFor } from '../utils/trials';
+import { claimRedemption, findRedeemablePromotionCode, releaseRedemption } from '../utils/coupons';
+import { USAGE_BATCH_LIMIT, recordUsageEvents, usageRejection } from '../utils/usage';
+import { checkSeatChange, previewSeatChange, setSeats } from '../utils/seats';
 import logger from '../utils/logger';
 
 const router = express.Router();
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
-  apiVersion: '2023-10-16'
+
+// Validation schemas
+const createSubscriptionSchema = Joi.object({
+  planId: Joi.string().required(),
+  // Only optional for trials that don't need a card up front
+  paymentMethodId: Joi.string(),
+  promotionCode: Joi.string().trim(),
+  // Per-seat plans only; never fewer than the company has members
+  seats: Joi.number().integer().min(1)
+});
+
+const paymentMethodSchema = Joi.object({
+  paymentMethodId: Joi.string().required()
+});
+
+const usageEventSchema = Joi.object({
+  quantity: Joi.number().integer().min(1).required(),
+  action: Joi.string().max(100).required(),
+  // Retried events with the same key are only counted once
+  idempotencyKey: Joi.string().max(255).required(),
+  timestamp: Joi.date()
+});
+
+const usageBatchSchema = Joi.object({
+  events: Joi.array().items(usageEventSchema).min(1).max(USAGE_BATCH_LIMIT).required()
+});
+
+const planChangePreviewSchema = Joi.object({
+  planId: Joi.string().required(),
+  timing: Joi.string().valid('immediate', 'period_end').default('immediate')
 });
 
+const planChangeSchema = planChangePreviewSchema.keys({
+  prorationDate: Joi.number().integer()
+});
+
+const seatChangePreviewSchema = Joi.object({
+  seats: Joi.number().integer().min(1).required()
+});
+
+const seatChangeSchema = seatChangePreviewSchema.keys({
+  prorationDate: Joi.number().integer()
+});
+
+// Proration dates from a preview are honoured for this long
+const PRORATION_DATE_MAX_AGE_SECONDS = 60 * 60;
+
+// Subscriptions belong to the active company; users outside of one only have their own
+const subscriptionScope = (user: any) =>
+  user.companyId ? { companyId: user.companyId } : { userId: user.id, companyId: null };
+
 // @route   GET /api/subscriptions
-// @desc    Get user subscriptions
-// @access  Private
-router.get('/', auth, async (req, res) => {
+// @desc    Get the active company's subscriptions
+// @access  Private (subscriptions:read)
+router.get('/', auth, requirePermission('subscriptions:read'), async (req, res) => {
   try {
     const subscriptions = await prisma.subscription.findMany({
-      where: { userId: (req as any).user.id },
+      where: subscriptionScope((req as any).user),
       include: {
         plan: true,
+        scheduledPlan: true,
+        coupon: true,
         payments: true
       },
       orderBy: { createdAt: 'desc' }
@@ -35,10 +99,15 @@ router.get('/', auth, async (req, res) => {
 
 // @route   POST /api/subscriptions/create
 // @desc    Create subscription
-// @access  Private
-router.post('/create', auth, async (req, res) => {
+// @access  Private (subscriptions:write)
+router.post('/create', auth, blockImpersonation, requirePermission('subscriptions:write'), requireVerifiedEmail, async (req, res) => {
   try {
-    const { planId, paymentMethodId } = req.body;
+    const { error, value } = createSubscriptionSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const { planId, paymentMethodId, promotionCode: code, seats } = value;
     const user = (req as any).user;
 
     // Get plan details
@@ -46,14 +115,37 @@ router.post('/create', auth, async (req, res) => {
       where: { id: planId }
     });
 
-    if (!plan) {
+    if (!plan || !plan.isActive) {
       return res.status(404).json({ error: 'Plan not found' });
     }
 
-    // Create or get Stripe customer
+    if (seats && !plan.perSeat) {
+      return res.status(400).json({ error: 'This plan is not billed per seat' });
+    }
+    // Every member of the company takes a seat
+    const members = user.companyId ? await prisma.companyMembership.count({ where: { companyId: user.companyId } }) : 1;
+    const quantity = plan.perSeat ? Math.max(seats ?? 1, members) : 1;
+
+    const trialDays = await trialDaysFor(user, plan);
+    if (!paymentMethodId && (trialDays === 0 || plan.trialRequiresPaymentMethod)) {
+      return res.status(400).json({ error: 'A payment method is required' });
+    }
+
+    let promotionCode = null;
+    if (code) {
+      const result = await findRedeemablePromotionCode(code, plan);
+      if ('error' in result) {
+        return res.status(400).json({ error: result.error });
+      }
+      promotionCode = result.promotionCode;
+    }
+
+    const billing = getBillingProvider();
+
+    // Create or get the billing customer
     let customerId = user.stripeCustomerId;
     if (!customerId) {
-      const customer = await stripe.customers.create({
+      const customer = await billing.createCustomer({
         email: user.email,
         name: `${user.firstName} ${user.lastName}`,
         metadata: {
@@ -70,46 +162,57 @@ router.post('/create', auth, async (req, res) => {
       });
     }
 
-    // Attach payment method to customer
-    await stripe.paymentMethods.attach(paymentMethodId, {
-      customer: customerId
-    });
+    // Attach payment method and make it the default
+    if (paymentMethodId) {
+      await billing.attachPaymentMethod(customerId, paymentMethodId);
+    }
 
-    // Set as default payment method
-    await stripe.customers.update(customerId, {
-      invoice_settings: {
-        default_payment_method: paymentMethodId
-      }
-    });
+    // Hold the redemption while the subscription is created
+    if (promotionCode && !(await claimRedemption(promotionCode))) {
+      return res.status(400).json({ error: 'This code has been fully redeemed' });
+    }
 
     // Create subscription
-    const stripeSubscription = await stripe.subscriptions.create({
-      customer: customerId,
-      items: [{
-        price: plan.stripePriceId,
-        quantity: 1
-      }],
-      payment_behavior: 'default_incomplete',
-      payment_settings: {
-        save_default_payment_method: 'on_subscription'
-      },
-      expand: ['latest_invoice.payment_intent']
-    });
+    let billingSubscription;
+    try {
+      billingSubscription = await billing.createSubscription({
+        customerId,
+        priceId: plan.stripePriceId,
+        quantity,
+        meteredPriceId: plan.meteredPriceId,
+        trialDays,
+        promotionCodeId: promotionCode?.stripePromotionCodeId
+      });
+    } catch (error) {
+      if (promotionCode) {
+        await releaseRedemption(promotionCode);
+      }
+      throw error;
+    }
 
     // Save subscription to database
     const subscription = await prisma.subscription.create({
       data: {
-        stripeSubscriptionId: stripeSubscription.id,
+        stripeSubscriptionId: billingSubscription.id,
         userId: user.id,
         planId: plan.id,
         companyId: user.companyId,
-        status: stripeSubscription.status as any,
-        currentPeriodStart: new Date(stripeSubscription.current_period_start * 1000),
-        currentPeriodEnd: new Date(stripeSubscription.current_period_end * 1000),
-        priceId: plan.stripePriceId
+        status: billingSubscription.status,
+        currentPeriodStart: billingSubscription.currentPeriodStart,
+        currentPeriodEnd: billingSubscription.currentPeriodEnd,
+        trialStart: billingSubscription.trialStart,
+        trialEnd: billingSubscription.trialEnd,
+        paymentMethodMissing: !paymentMethodId,
+        priceId: plan.stripePriceId,
+        quantity,
+        purchasedSeats: plan.perSeat ? seats ?? 1 : 1,
+        stripeMeteredItemId: billingSubscription.meteredItemId,
+        couponId: promotionCode?.couponId,
+        promotionCodeId: promotionCode?.id
       },
       include: {
-        plan: true
+        plan: true,
+        coupon: true
       }
     });
 
@@ -118,8 +221,16 @@ router.post('/create', auth, async (req, res) => {
       data: {
         userId: user.id,
         action: 'SUBSCRIPTION_CREATED',
-        description: `Created subscription for plan: ${plan.name}`,
-        metadata: { subscriptionId: subscription.id, planId: plan.id }
+        description: trialDays
+          ? `Started a ${trialDays}-day trial of plan: ${plan.name}`
+          : `Created subscription for plan: ${plan.name}`,
+        metadata: {
+          subscriptionId: subscription.id,
+          planId: plan.id,
+          quantity,
+          trialDays,
+          promotionCode: promotionCode?.code
+        }
       }
     });
 
@@ -132,18 +243,92 @@ router.post('/create', auth, async (req, res) => {
     res.json({
       success: true,
       subscription,
-      clientSecret: (stripeSubscription.latest_invoice as any)?.payment_intent?.client_secret
+      clientSecret: billingSubscription.clientSecret,
+      setupClientSecret: billingSubscription.setupClientSecret
     });
   } catch (error) {
+    // Declined or invalid cards are the customer's to fix
+    if (error instanceof BillingCardError) {
+      return res.status(402).json({ error: error.message });
+    }
     logger.error('Create subscription error', error);
     res.status(500).json({ error: 'Server error' });
   }
 });
 
+// @route   GET /api/subscriptions/trial-eligibility
+// @desc    Whether the user can still start a free trial
+// @access  Private (subscriptions:write)
+router.get('/trial-eligibility', auth, requirePermission('subscriptions:write'), async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: { eligible: !(await hasUsedTrial((req as any).user)) }
+    });
+  } catch (error) {
+    logger.error('Get trial eligibility error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/subscriptions/:id/payment-method
+// @desc    Add the card a subscription is charged to, e.g. before a card-less trial ends
+// @access  Private (subscriptions:write)
+router.post('/:id/payment-method', auth, blockImpersonation, requirePermission('subscriptions:write'), async (req, res) => {
+  try {
+    const { error, value } = paymentMethodSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const user = (req as any).user;
+    const subscription = await prisma.subscription.findFirst({
+      where: { id: req.params.id, ...subscriptionScope(user) }
+    });
+    if (!subscription) {
+      return res.status(404).json({ error: 'Subscription not found' });
+    }
+
+    // The card goes to whoever the subscription is billed to
+    const billing = getBillingProvider();
+    const { customerId } = await billing.getSubscription(subscription.stripeSubscriptionId);
+    await billing.attachPaymentMethod(customerId, value.paymentMethodId);
+
+    const updatedSubscription = await prisma.subscription.update({
+      where: { id: subscription.id },
+      data: { paymentMethodMissing: false },
+      include: { plan: true }
+    });
+
+    // Log activity
+    await prisma.userActivity.create({
+      data: {
+        userId: user.id,
+        action: 'SUBSCRIPTION_PAYMENT_METHOD_UPDATED',
+        description: `Updated the payment method of subscription: ${subscription.id}`,
+        metadata: { subscriptionId: subscription.id },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.json({
+      success: true,
+      subscription: updatedSubscription
+    });
+  } catch (error) {
+    if (error instanceof BillingCardError) {
+      return res.status(402).json({ error: error.message });
+    }
+    logger.error('Update payment method error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
 // @route   POST /api/subscriptions/:id/cancel
 // @desc    Cancel subscription
-// @access  Private
-router.post('/:id/cancel', auth, async (req, res) => {
+// @access  Private (subscriptions:write)
+router.post('/:id/cancel', auth, blockImpersonation, requirePermission('subscriptions:write'), async (req, res) => {
   try {
     const { id } = req.params;
     const { cancelAtPeriodEnd = true } = req.body;
@@ -151,34 +336,14 @@ router.post('/:id/cancel', auth, async (req, res) => {
 
     // Find subscription
     const subscription = await prisma.subscription.findFirst({
-      where: { id, userId: user.id }
+      where: { id, ...subscriptionScope(user) }
     });
 
     if (!subscription) {
       return res.status(404).json({ error: 'Subscription not found' });
     }
 
-    // Cancel in Stripe
-    if (cancelAtPeriodEnd) {
-      await stripe.subscriptions.update(subscription.stripeSubscriptionId, {
-        cancel_at_period_end: true
-      });
-    } else {
-      await stripe.subscriptions.cancel(subscription.stripeSubscriptionId);
-    }
-
-    // Update in database
-    const updatedSubscription = await prisma.subscription.update({
-      where: { id },
-      data: {
-        cancelAtPeriodEnd,
-        canceledAt: cancelAtPeriodEnd ? undefined : new Date(),
-        status: cancelAtPeriodEnd ? subscription.status : 'CANCELED'
-      },
-      include: {
-        plan: true
-      }
-    });
+    const updatedSubscription = await cancelSubscription(subscription, cancelAtPeriodEnd);
 
     // Log activity
     await prisma.userActivity.create({
@@ -208,24 +373,24 @@ router.post('/:id/cancel', auth, async (req, res) => {
 
 // @route   POST /api/subscriptions/:id/reactivate
 // @desc    Reactivate subscription
-// @access  Private
-router.post('/:id/reactivate', auth, async (req, res) => {
+// @access  Private (subscriptions:write)
+router.post('/:id/reactivate', auth, blockImpersonation, requirePermission('subscriptions:write'), async (req, res) => {
   try {
     const { id } = req.params;
     const user = (req as any).user;
 
     // Find subscription
     const subscription = await prisma.subscription.findFirst({
-      where: { id, userId: user.id }
+      where: { id, ...subscriptionScope(user) }
     });
 
     if (!subscription) {
       return res.status(404).json({ error: 'Subscription not found' });
     }
 
-    // Reactivate in Stripe
-    await stripe.subscriptions.update(subscription.stripeSubscriptionId, {
-      cancel_at_period_end: false
+    // Reactivate with the billing provider
+    await getBillingProvider().updateSubscription(subscription.stripeSubscriptionId, {
+      cancelAtPeriodEnd: false
     });
 
     // Update in database
@@ -265,21 +430,278 @@ router.post('/:id/reactivate', auth, async (req, res) => {
   }
 });
 
+// Load a subscription of the user's scope and the plan it should move to
+const loadPlanChange = async (user: any, subscriptionId: string, planId: string) => {
+  const [subscription, plan] = await Promise.all([
+    prisma.subscription.findFirst({
+      where: { id: subscriptionId, ...subscriptionScope(user) },
+      include: { plan: true }
+    }),
+    prisma.plan.findUnique({ where: { id: planId } })
+  ]);
+  return { subscription, plan };
+};
+
+// @route   POST /api/subscriptions/:id/change-plan/preview
+// @desc    Preview what switching plans costs now and on the next invoice
+// @access  Private (subscriptions:write)
+router.post('/:id/change-plan/preview', auth, blockImpersonation, requirePermission('subscriptions:write'), async (req, res) => {
+  try {
+    const { error, value } = planChangePreviewSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const { subscription, plan } = await loadPlanChange((req as any).user, req.params.id, value.planId);
+    if (!subscription) {
+      return res.status(404).json({ error: 'Subscription not found' });
+    }
+    if (!plan) {
+      return res.status(404).json({ error: 'Plan not found' });
+    }
+
+    const problem = checkPlanChange(subscription, plan);
+    if (problem) {
+      return res.status(400).json({ error: problem });
+    }
+
+    const preview = await previewPlanChange(subscription, plan, value.timing);
+
+    res.json({
+      success: true,
+      data: { currentPlan: subscription.plan, newPlan: plan, ...preview }
+    });
+  } catch (error) {
+    logger.error('Preview plan change error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/subscriptions/:id/change-plan
+// @desc    Switch plans immediately (prorated) or at the end of the current period
+// @access  Private (subscriptions:write)
+router.post('/:id/change-plan', auth, blockImpersonation, requirePermission('subscriptions:write'), async (req, res) => {
+  try {
+    const { error, value } = planChangeSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const user = (req as any).user;
+    const { subscription, plan } = await loadPlanChange(user, req.params.id, value.planId);
+    if (!subscription) {
+      return res.status(404).json({ error: 'Subscription not found' });
+    }
+    if (!plan) {
+      return res.status(404).json({ error: 'Plan not found' });
+    }
+
+    const problem = checkPlanChange(subscription, plan);
+    if (problem) {
+      return res.status(400).json({ error: problem });
+    }
+
+    const prorationDate =
+      value.prorationDate && Date.now() / 1000 - value.prorationDate < PRORATION_DATE_MAX_AGE_SECONDS
+        ? value.prorationDate
+        : undefined;
+
+    const updatedSubscription = await changePlan(subscription, plan, value.timing, prorationDate);
+
+    // Log activity
+    await prisma.userActivity.create({
+      data: {
+        userId: user.id,
+        action: 'SUBSCRIPTION_PLAN_CHANGED',
+        description:
+          value.timing === 'immediate'
+            ? `Changed plan from ${subscription.plan.name} to ${plan.name}`
+            : `Scheduled a change from ${subscription.plan.name} to ${plan.name} on ${subscription.currentPeriodEnd.toDateString()}`,
+        metadata: { subscriptionId: subscription.id, fromPlanId: subscription.planId, toPlanId: plan.id, timing: value.timing },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    logger.info('Subscription plan changed', {
+      userId: user.id,
+      subscriptionId: subscription.id,
+      fromPlanId: subscription.planId,
+      toPlanId: plan.id,
+      timing: value.timing
+    });
+
+    res.json({
+      success: true,
+      subscription: updatedSubscription
+    });
+  } catch (error) {
+    logger.error('Change plan error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   DELETE /api/subscriptions/:id/change-plan
+// @desc    Cancel a plan change scheduled for the end of the period
+// @access  Private (subscriptions:write)
+router.delete('/:id/change-plan', auth, blockImpersonation, requirePermission('subscriptions:write'), async (req, res) => {
+  try {
+    const user = (req as any).user;
+
+    const subscription = await prisma.subscription.findFirst({
+      where: { id: req.params.id, ...subscriptionScope(user) },
+      include: { scheduledPlan: true }
+    });
+    if (!subscription) {
+      return res.status(404).json({ error: 'Subscription not found' });
+    }
+    if (!subscription.scheduledPlan) {
+      return res.status(400).json({ error: 'No plan change is scheduled' });
+    }
+
+    const updatedSubscription = await cancelScheduledPlanChange(subscription);
+
+    // Log activity
+    await prisma.userActivity.create({
+      data: {
+        userId: user.id,
+        action: 'SUBSCRIPTION_PLAN_CHANGE_CANCELED',
+        description: `Canceled the scheduled change to ${subscription.scheduledPlan.name}`,
+        metadata: { subscriptionId: subscription.id, planId: subscription.scheduledPlan.id },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.json({
+      success: true,
+      subscription: updatedSubscription
+    });
+  } catch (error) {
+    logger.error('Cancel plan change error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Load a subscription of the user's scope for a seat change
+const loadSeatChange = (user: any, subscriptionId: string) =>
+  prisma.subscription.findFirst({
+    where: { id: subscriptionId, ...subscriptionScope(user) },
+    include: { plan: true }
+  });
+
+// @route   POST /api/subscriptions/:id/seats/preview
+// @desc    Preview what changing the number of seats costs now and on the next invoice
+// @access  Private (subscriptions:write)
+router.post('/:id/seats/preview', auth, blockImpersonation, requirePermission('subscriptions:write'), async (req, res) => {
+  try {
+    const { error, value } = seatChangePreviewSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const subscription = await loadSeatChange((req as any).user, req.params.id);
+    if (!subscription) {
+      return res.status(404).json({ error: 'Subscription not found' });
+    }
+
+    const problem = await checkSeatChange(subscription, value.seats);
+    if (problem) {
+      return res.status(400).json({ error: problem });
+    }
+
+    const preview = await previewSeatChange(subscription, value.seats);
+
+    res.json({
+      success: true,
+      data: { currentSeats: subscription.quantity, seats: value.seats, ...preview }
+    });
+  } catch (error) {
+    logger.error('Preview seat change error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/subscriptions/:id/seats
+// @desc    Add or remove seats, invoicing the prorated difference
+// @access  Private (subscriptions:write)
+router.post('/:id/seats', auth, blockImpersonation, requirePermission('subscriptions:write'), async (req, res) => {
+  try {
+    const { error, value } = seatChangeSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const user = (req as any).user;
+    const subscription = await loadSeatChange(user, req.params.id);
+    if (!subscription) {
+      return res.status(404).json({ error: 'Subscription not found' });
+    }
+
+    const problem = await checkSeatChange(subscription, value.seats);
+    if (problem) {
+      return res.status(400).json({ error: problem });
+    }
+
+    const prorationDate =
+      value.prorationDate && Date.now() / 1000 - value.prorationDate < PRORATION_DATE_MAX_AGE_SECONDS
+        ? value.prorationDate
+        : undefined;
+
+    const updatedSubscription = await setSeats(subscription, value.seats, { prorationDate, purchased: true });
+
+    // Log activity
+    await prisma.userActivity.create({
+      data: {
+        userId: user.id,
+        action: 'SUBSCRIPTION_SEATS_CHANGED',
+        description: `Changed seats from ${subscription.quantity} to ${value.seats}`,
+        metadata: { subscriptionId: subscription.id, from: subscription.quantity, to: value.seats },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    logger.info('Subscription seats changed', {
+      userId: user.id,
+      subscriptionId: subscription.id,
+      from: subscription.quantity,
+      to: value.seats
+    });
+
+    res.json({
+      success: true,
+      subscription: updatedSubscription
+    });
+  } catch (error) {
+    // Declined or invalid cards are the customer's to fix
+    if (error instanceof BillingCardError) {
+      return res.status(402).json({ error: error.message });
+    }
+    logger.error('Change seats error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
 // @route   GET /api/subscriptions/:id/usage
 // @desc    Get subscription usage
-// @access  Private
-router.get('/:id/usage', auth, async (req, res) => {
+// @access  Private (subscriptions:read)
+router.get('/:id/usage', auth, requirePermission('subscriptions:read'), async (req, res) => {
   try {
     const { id } = req.params;
     const user = (req as any).user;
 
     // Find subscription
     const subscription = await prisma.subscription.findFirst({
-      where: { id, userId: user.id },
+      where: { id, ...subscriptionScope(user) },
       include: {
         usageRecords: {
           orderBy: { timestamp: 'desc' },
           take: 100
+        },
+        usagePeriods: {
+          orderBy: { periodStart: 'desc' },
+          take: 12
         }
       }
     });
@@ -298,12 +720,18 @@ router.get('/:id/usage', auth, async (req, res) => {
       .filter(record => record.timestamp >= currentMonth)
       .reduce((sum, record) => sum + record.quantity, 0);
 
+    const currentPeriod = subscription.usagePeriods.find(
+      (usagePeriod) => usagePeriod.periodStart.getTime() === subscription.currentPeriodStart.getTime()
+    );
+
     res.json({
       success: true,
       data: {
         subscription,
         totalUsage,
         monthlyUsage,
+        currentPeriodUsage: currentPeriod?.quantity ?? 0,
+        usagePeriods: subscription.usagePeriods,
         usageRecords: subscription.usageRecords
       }
     });
@@ -313,4 +741,62 @@ router.get('/:id/usage', auth, async (req, res) => {
   }
 });
 
+// @route   POST /api/subscriptions/:id/usage
+// @desc    Record a usage event, or a batch of them under `events`
+// @access  Private (usage:write)
+router.post('/:id/usage', authOrApiKey('usage:write'), requirePermission('usage:write'), async (req, res) => {
+  try {
+    const isBatch = req.body?.events !== undefined;
+    const { error, value } = (isBatch ? usageBatchSchema : usageEventSchema).validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const { id } = req.params;
+    const user = (req as any).user;
+
+    // API keys act in their company, see authOrApiKey
+    const subscription = await prisma.subscription.findFirst({
+      where: { id, ...subscriptionScope(user) }
+    });
+
+    if (!subscription) {
+      return res.status(404).json({ error: 'Subscription not found' });
+    }
+
+    const rejection = usageRejection(subscription);
+    if (rejection) {
+      return res.status(409).json({ error: rejection });
+    }
+
+    const results = await recordUsageEvents(subscription, isBatch ? value.events : [value]);
+
+    if (!isBatch) {
+      const [result] = results;
+      if (result.status === 'rejected') {
+        return res.status(409).json({ error: result.error });
+      }
+      return res.status(result.status === 'recorded' ? 201 : 200).json({
+        success: true,
+        duplicate: result.status === 'duplicate',
+        data: result.usageRecord
+      });
+    }
+
+    const count = (status: string) => results.filter((result) => result.status === status).length;
+    res.json({
+      success: true,
+      data: {
+        recorded: count('recorded'),
+        duplicates: count('duplicate'),
+        rejected: count('rejected'),
+        results
+      }
+    });
+  } catch (error) {
+    logger.error('Record usage error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
 export default router;
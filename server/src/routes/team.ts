@@ -0,0 +1,493 @@
+import express from 'express';
+import Joi from 'joi';
+import { prisma } from '../index';
+import { auth } from '../middleware/auth';
+import { requireCompany } from '../middleware/company';
+import { blockImpersonation } from '../middleware/impersonation';
+import { requirePermission } from '../middleware/permissions';
+import { closeInvitation, findPendingInvitation, INVITABLE_ROLES, normalizeEmail, sendInvitation } from '../utils/invitations';
+import { addMembership, setActiveCompany } from '../utils/memberships';
+import { checkMemberLimit } from '../utils/entitlements';
+import { syncSeats } from '../utils/seats';
+import { findUngrantablePermission, getMembershipPermissions, MembershipSubject } from '../utils/permissions';
+import logger from '../utils/logger';
+
+const router = express.Router();
+
+// Validation schemas
+const memberRoleSchema = Joi.object({
+  role: Joi.string().valid(...INVITABLE_ROLES).required(),
+  customRoleId: Joi.string().allow(null)
+});
+
+const invitationSchema = memberRoleSchema.keys({
+  email: Joi.string().email().required()
+});
+
+const invitationTokenSchema = Joi.object({
+  token: Joi.string().required()
+});
+
+const membershipInclude = {
+  user: { select: { id: true, email: true, firstName: true, lastName: true, isEmailVerified: true, twoFactorEnabled: true } },
+  customRole: { select: { id: true, name: true, permissions: true } }
+};
+
+// A member as the Team page lists them: the user with their role in this company
+const formatMember = (membership: any) => ({
+  ...membership.user,
+  role: membership.role,
+  customRole: membership.customRole && { id: membership.customRole.id, name: membership.customRole.name },
+  joinedAt: membership.createdAt
+});
+
+// Resolve a custom role of the company; undefined means it doesn't exist there
+const findCompanyRole = async (companyId: string, customRoleId?: string | null) => {
+  if (!customRoleId) {
+    return null;
+  }
+  const role = await prisma.companyRole.findFirst({ where: { id: customRoleId, companyId } });
+  return role || undefined;
+};
+
+// Nobody can give out, or take away, more access than they hold themselves
+const checkRoleChange = (actor: any, membership: MembershipSubject) => {
+  return findUngrantablePermission(actor, getMembershipPermissions(membership));
+};
+
+// @route   GET /api/team/members
+// @desc    List the members of the active company and the roles they can be given
+// @access  Private (members:read)
+router.get('/members', auth, requirePermission('members:read'), requireCompany, async (req, res) => {
+  try {
+    const { companyId } = (req as any).user;
+
+    const [memberships, roles] = await Promise.all([
+      prisma.companyMembership.findMany({
+        where: { companyId },
+        include: membershipInclude,
+        orderBy: { createdAt: 'asc' }
+      }),
+      prisma.companyRole.findMany({
+        where: { companyId },
+        select: { id: true, name: true, description: true },
+        orderBy: { name: 'asc' }
+      })
+    ]);
+
+    res.json({
+      success: true,
+      data: { members: memberships.map(formatMember), roles }
+    });
+  } catch (error) {
+    logger.error('Get team members error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   PUT /api/team/members/:userId/role
+// @desc    Change a member's built-in and custom role in the company
+// @access  Private (members:manage)
+router.put('/members/:userId/role', auth, requirePermission('members:manage'), requireCompany, async (req, res) => {
+  try {
+    const { error, value } = memberRoleSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const user = (req as any).user;
+
+    // Changing your own role could lock you out of team management
+    if (req.params.userId === user.id) {
+      return res.status(400).json({ error: 'You cannot change your own role' });
+    }
+
+    const membership = await prisma.companyMembership.findUnique({
+      where: { userId_companyId: { userId: req.params.userId, companyId: user.companyId } },
+      include: membershipInclude
+    });
+    if (!membership) {
+      return res.status(404).json({ error: 'Member not found' });
+    }
+
+    if (membership.userId === user.company.ownerId) {
+      return res.status(400).json({ error: "The company owner's role cannot be changed" });
+    }
+
+    const customRole = await findCompanyRole(user.companyId, value.customRoleId);
+    if (customRole === undefined) {
+      return res.status(404).json({ error: 'Role not found' });
+    }
+
+    const ungrantable =
+      checkRoleChange(user, membership) || checkRoleChange(user, { role: value.role, customRole });
+    if (ungrantable) {
+      return res.status(403).json({ error: `You cannot change roles involving the ${ungrantable} permission` });
+    }
+
+    const updatedMembership = await prisma.companyMembership.update({
+      where: { id: membership.id },
+      data: { role: value.role, customRoleId: customRole?.id ?? null },
+      include: membershipInclude
+    });
+
+    // Log activity
+    await prisma.userActivity.create({
+      data: {
+        userId: membership.userId,
+        action: 'MEMBER_ROLE_CHANGED',
+        description: `Role in ${user.company.name} changed to ${customRole ? customRole.name : value.role} by ${user.email}`,
+        metadata: {
+          companyId: user.companyId,
+          changedBy: user.id,
+          previousRole: membership.role,
+          previousCustomRoleId: membership.customRoleId,
+          role: value.role,
+          customRoleId: customRole?.id ?? null
+        },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.json({
+      success: true,
+      data: formatMember(updatedMembership)
+    });
+  } catch (error) {
+    logger.error('Change member role error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   DELETE /api/team/members/:userId
+// @desc    Remove a member from the company
+// @access  Private (members:manage)
+router.delete('/members/:userId', auth, requirePermission('members:manage'), requireCompany, async (req, res) => {
+  try {
+    const user = (req as any).user;
+
+    if (req.params.userId === user.id) {
+      return res.status(400).json({ error: 'You cannot remove yourself from the company' });
+    }
+
+    const membership = await prisma.companyMembership.findUnique({
+      where: { userId_companyId: { userId: req.params.userId, companyId: user.companyId } },
+      include: membershipInclude
+    });
+    if (!membership) {
+      return res.status(404).json({ error: 'Member not found' });
+    }
+
+    if (membership.userId === user.company.ownerId) {
+      return res.status(400).json({ error: 'The company owner cannot be removed; transfer ownership first' });
+    }
+
+    const ungrantable = checkRoleChange(user, membership);
+    if (ungrantable) {
+      return res.status(403).json({ error: `You cannot remove a member with the ${ungrantable} permission` });
+    }
+
+    // The removed user keeps their account and other companies, but loses this
+    // company's access, including company API keys they created
+    await prisma.$transaction([
+      prisma.companyMembership.delete({ where: { id: membership.id } }),
+      prisma.apiKey.updateMany({
+        where: { userId: membership.userId, companyId: user.companyId, revokedAt: null },
+        data: { revokedAt: new Date() }
+      })
+    ]);
+    await syncSeats(user.companyId, 'left');
+
+    // Log activity
+    await prisma.userActivity.create({
+      data: {
+        userId: membership.userId,
+        action: 'MEMBER_REMOVED',
+        description: `Removed from ${user.company.name} by ${user.email}`,
+        metadata: { companyId: user.companyId, removedBy: user.id },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.json({
+      success: true,
+      message: 'Member removed'
+    });
+  } catch (error) {
+    logger.error('Remove member error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   GET /api/team/invitations
+// @desc    List pending invitations
+// @access  Private (members:invite)
+router.get('/invitations', auth, requirePermission('members:invite'), requireCompany, async (req, res) => {
+  try {
+    const invitations = await prisma.companyInvitation.findMany({
+      where: {
+        companyId: (req as any).user.companyId,
+        acceptedAt: null,
+        declinedAt: null,
+        revokedAt: null,
+        expiresAt: { gt: new Date() }
+      },
+      select: {
+        id: true,
+        email: true,
+        role: true,
+        expiresAt: true,
+        createdAt: true,
+        customRole: { select: { id: true, name: true } },
+        invitedBy: { select: { firstName: true, lastName: true, email: true } }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    res.json({
+      success: true,
+      data: invitations
+    });
+  } catch (error) {
+    logger.error('Get invitations error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/team/invitations
+// @desc    Invite someone to the company by email
+// @access  Private (members:invite)
+router.post('/invitations', auth, requirePermission('members:invite'), requireCompany, async (req, res) => {
+  try {
+    const { error, value } = invitationSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const user = (req as any).user;
+    const email = normalizeEmail(value.email);
+
+    const existingMember = await prisma.companyMembership.findFirst({
+      where: { companyId: user.companyId, user: { email: { equals: email, mode: 'insensitive' } } }
+    });
+    if (existingMember) {
+      return res.status(400).json({ error: 'This person is already a member' });
+    }
+
+    const limitError = await checkMemberLimit(user.companyId, { includeInvitations: true });
+    if (limitError) {
+      return res.status(403).json(limitError);
+    }
+
+    const customRole = await findCompanyRole(user.companyId, value.customRoleId);
+    if (customRole === undefined) {
+      return res.status(404).json({ error: 'Role not found' });
+    }
+
+    const ungrantable = checkRoleChange(user, { role: value.role, customRole });
+    if (ungrantable) {
+      return res.status(403).json({ error: `You cannot invite someone with the ${ungrantable} permission` });
+    }
+
+    const invitation = await sendInvitation({
+      companyId: user.companyId,
+      email,
+      role: value.role,
+      customRoleId: customRole?.id,
+      invitedBy: user
+    });
+
+    // Log activity
+    await prisma.userActivity.create({
+      data: {
+        userId: user.id,
+        action: 'MEMBER_INVITED',
+        description: `Invited ${email} to ${invitation.company.name}`,
+        metadata: { invitationId: invitation.id, email, role: invitation.role, customRoleId: invitation.customRoleId },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.status(201).json({
+      success: true,
+      data: {
+        id: invitation.id,
+        email: invitation.email,
+        role: invitation.role,
+        customRole: invitation.customRole && { id: invitation.customRole.id, name: invitation.customRole.name },
+        expiresAt: invitation.expiresAt,
+        createdAt: invitation.createdAt
+      }
+    });
+  } catch (error) {
+    logger.error('Create invitation error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   DELETE /api/team/invitations/:id
+// @desc    Revoke a pending invitation
+// @access  Private (members:invite)
+router.delete('/invitations/:id', auth, requirePermission('members:invite'), requireCompany, async (req, res) => {
+  try {
+    const user = (req as any).user;
+
+    const { count } = await prisma.companyInvitation.updateMany({
+      where: {
+        id: req.params.id,
+        companyId: user.companyId,
+        acceptedAt: null,
+        declinedAt: null,
+        revokedAt: null
+      },
+      data: { revokedAt: new Date() }
+    });
+
+    if (count === 0) {
+      return res.status(404).json({ error: 'Invitation not found' });
+    }
+
+    res.json({
+      success: true,
+      message: 'Invitation revoked'
+    });
+  } catch (error) {
+    logger.error('Revoke invitation error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/team/invitations/lookup
+// @desc    Describe an invitation from its emailed token
+// @access  Public
+router.post('/invitations/lookup', async (req, res) => {
+  try {
+    const { error } = invitationTokenSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const invitation = await findPendingInvitation(req.body.token);
+    if (!invitation) {
+      return res.status(404).json({ error: 'This invitation is invalid or has expired' });
+    }
+
+    const existingUser = await prisma.user.findFirst({
+      where: { email: { equals: invitation.email, mode: 'insensitive' } }
+    });
+
+    res.json({
+      success: true,
+      data: {
+        email: invitation.email,
+        companyName: invitation.company.name,
+        invitedBy: `${invitation.invitedBy.firstName} ${invitation.invitedBy.lastName}`,
+        expiresAt: invitation.expiresAt,
+        hasAccount: !!existingUser
+      }
+    });
+  } catch (error) {
+    logger.error('Lookup invitation error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/team/invitations/accept
+// @desc    Join the inviting company with the signed-in account and switch to it
+// @access  Private
+router.post('/invitations/accept', auth, blockImpersonation, async (req, res) => {
+  try {
+    const { error } = invitationTokenSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const user = (req as any).user;
+
+    const invitation = await findPendingInvitation(req.body.token);
+    if (!invitation) {
+      return res.status(404).json({ error: 'This invitation is invalid or has expired' });
+    }
+
+    if (normalizeEmail(user.email) !== invitation.email) {
+      return res.status(403).json({ error: 'This invitation was sent to a different email address' });
+    }
+
+    if (user.memberships.some((membership: any) => membership.companyId === invitation.companyId)) {
+      return res.status(400).json({ error: 'You are already a member of this company' });
+    }
+
+    const limitError = await checkMemberLimit(invitation.companyId);
+    if (limitError) {
+      return res.status(403).json(limitError);
+    }
+
+    if (!(await closeInvitation(invitation.id, 'acceptedAt'))) {
+      return res.status(404).json({ error: 'This invitation is invalid or has expired' });
+    }
+
+    await addMembership(user.id, invitation.companyId, invitation.role, invitation.customRoleId);
+    await syncSeats(invitation.companyId, 'joined');
+    await setActiveCompany((req as any).sessionFamilyId, invitation.companyId);
+
+    // Log activity
+    await prisma.userActivity.create({
+      data: {
+        userId: user.id,
+        action: 'INVITATION_ACCEPTED',
+        description: `Joined ${invitation.company.name}`,
+        metadata: { invitationId: invitation.id, companyId: invitation.companyId, invitedBy: invitation.invitedById },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.json({
+      success: true,
+      message: `You joined ${invitation.company.name}`
+    });
+  } catch (error) {
+    logger.error('Accept invitation error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/team/invitations/decline
+// @desc    Decline an invitation
+// @access  Public
+router.post('/invitations/decline', async (req, res) => {
+  try {
+    const { error } = invitationTokenSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const invitation = await findPendingInvitation(req.body.token);
+    if (!invitation || !(await closeInvitation(invitation.id, 'declinedAt'))) {
+      return res.status(404).json({ error: 'This invitation is invalid or has expired' });
+    }
+
+    // Log activity
+    await prisma.userActivity.create({
+      data: {
+        userId: invitation.invitedById,
+        action: 'INVITATION_DECLINED',
+        description: `${invitation.email} declined the invitation to ${invitation.company.name}`,
+        metadata: { invitationId: invitation.id, email: invitation.email }
+      }
+    });
+
+    res.json({
+      success: true,
+      message: 'Invitation declined'
+    });
+  } catch (error) {
+    logger.error('Decline invitation error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,256 @@
+import express from 'express';
+import bcrypt from 'bcryptjs';
+import Joi from 'joi';
+import QRCode from 'qrcode';
+import { prisma } from '../index';
+import { auth } from '../middleware/auth';
+import { blockImpersonation } from '../middleware/impersonation';
+import { buildOtpauthUri, generateTotpSecret } from '../utils/totp';
+import {
+  encryptSecret,
+  generateRecoveryCodes,
+  isTwoFactorRequired,
+  verifySecondFactor,
+  verifyTotpCode
+} from '../utils/twoFactor';
+import logger from '../utils/logger';
+
+const router = express.Router();
+
+const TOTP_ISSUER = process.env.TWO_FACTOR_ISSUER || 'SAAS Dashboard';
+
+// Validation schemas
+const codeSchema = Joi.object({
+  code: Joi.string().required()
+});
+
+const disableSchema = Joi.object({
+  password: Joi.string(),
+  code: Joi.string(),
+  recoveryCode: Joi.string()
+}).xor('code', 'recoveryCode');
+
+// @route   GET /api/auth/2fa/status
+// @desc    Get two-factor status for the current user
+// @access  Private
+router.get('/status', auth, async (req, res) => {
+  try {
+    const user = (req as any).user;
+
+    const recoveryCodesRemaining = await prisma.recoveryCode.count({
+      where: { userId: user.id, usedAt: null }
+    });
+
+    res.json({
+      success: true,
+      data: {
+        enabled: user.twoFactorEnabled,
+        required: isTwoFactorRequired(user),
+        recoveryCodesRemaining
+      }
+    });
+  } catch (error) {
+    logger.error('Get 2FA status error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/auth/2fa/setup
+// @desc    Start enrollment by generating a new TOTP secret
+// @access  Private
+router.post('/setup', auth, blockImpersonation, async (req, res) => {
+  try {
+    const user = (req as any).user;
+
+    if (user.twoFactorEnabled) {
+      return res.status(400).json({ error: 'Two-factor authentication is already enabled' });
+    }
+
+    const secret = generateTotpSecret();
+    const otpauthUrl = buildOtpauthUri(secret, user.email, TOTP_ISSUER);
+
+    // Stored but inactive until the user confirms a code from their app
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        twoFactorSecret: encryptSecret(secret),
+        twoFactorLastUsedStep: null
+      }
+    });
+
+    const qrCode = await QRCode.toDataURL(otpauthUrl);
+
+    res.json({
+      success: true,
+      data: { secret, otpauthUrl, qrCode }
+    });
+  } catch (error) {
+    logger.error('2FA setup error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/auth/2fa/enable
+// @desc    Confirm enrollment with a code and issue recovery codes
+// @access  Private
+router.post('/enable', auth, blockImpersonation, async (req, res) => {
+  try {
+    const { error } = codeSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const user = (req as any).user;
+
+    if (user.twoFactorEnabled) {
+      return res.status(400).json({ error: 'Two-factor authentication is already enabled' });
+    }
+
+    if (!user.twoFactorSecret) {
+      return res.status(400).json({ error: 'Start two-factor setup first' });
+    }
+
+    const isValid = await verifyTotpCode(user, req.body.code);
+    if (!isValid) {
+      return res.status(400).json({ error: 'Invalid verification code' });
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { twoFactorEnabled: true }
+    });
+
+    const recoveryCodes = await generateRecoveryCodes(user.id);
+
+    // Log activity
+    await prisma.userActivity.create({
+      data: {
+        userId: user.id,
+        action: 'TWO_FACTOR_ENABLED',
+        description: 'Two-factor authentication enabled',
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    logger.info('2FA enabled', { userId: user.id });
+
+    res.json({
+      success: true,
+      data: { recoveryCodes }
+    });
+  } catch (error) {
+    logger.error('2FA enable error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/auth/2fa/disable
+// @desc    Turn off two-factor authentication
+// @access  Private
+router.post('/disable', auth, blockImpersonation, async (req, res) => {
+  try {
+    const { error } = disableSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const user = (req as any).user;
+    const { password, code, recoveryCode } = req.body;
+
+    if (!user.twoFactorEnabled) {
+      return res.status(400).json({ error: 'Two-factor authentication is not enabled' });
+    }
+
+    if (isTwoFactorRequired(user)) {
+      return res.status(403).json({ error: 'Two-factor authentication is required for your role' });
+    }
+
+    // Accounts that only sign in through a provider have no password to confirm
+    if (user.password) {
+      const isMatch = !!password && (await bcrypt.compare(password, user.password));
+      if (!isMatch) {
+        return res.status(400).json({ error: 'Invalid password' });
+      }
+    }
+
+    const method = await verifySecondFactor(user, { code, recoveryCode });
+    if (!method) {
+      return res.status(400).json({ error: 'Invalid verification code' });
+    }
+
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: user.id },
+        data: {
+          twoFactorEnabled: false,
+          twoFactorSecret: null,
+          twoFactorLastUsedStep: null
+        }
+      }),
+      prisma.recoveryCode.deleteMany({ where: { userId: user.id } })
+    ]);
+
+    // Log activity
+    await prisma.userActivity.create({
+      data: {
+        userId: user.id,
+        action: 'TWO_FACTOR_DISABLED',
+        description: 'Two-factor authentication disabled',
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    logger.info('2FA disabled', { userId: user.id });
+
+    res.json({ success: true, message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    logger.error('2FA disable error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/auth/2fa/recovery-codes
+// @desc    Replace recovery codes
+// @access  Private
+router.post('/recovery-codes', auth, blockImpersonation, async (req, res) => {
+  try {
+    const { error } = codeSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const user = (req as any).user;
+
+    if (!user.twoFactorEnabled) {
+      return res.status(400).json({ error: 'Two-factor authentication is not enabled' });
+    }
+
+    const isValid = await verifyTotpCode(user, req.body.code);
+    if (!isValid) {
+      return res.status(400).json({ error: 'Invalid verification code' });
+    }
+
+    const recoveryCodes = await generateRecoveryCodes(user.id);
+
+    // Log activity
+    await prisma.userActivity.create({
+      data: {
+        userId: user.id,
+        action: 'RECOVERY_CODES_REGENERATED',
+        description: 'Two-factor recovery codes regenerated'
+      }
+    });
+
+    res.json({
+      success: true,
+      data: { recoveryCodes }
+    });
+  } catch (error) {
+    logger.error('Regenerate recovery codes error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+export default router;
@@ -1,10 +1,37 @@
 import express from 'express';
+import Joi from 'joi';
+import bcrypt from 'bcryptjs';
 import { prisma } from '../index';
-import { auth, adminAuth } from '../middleware/auth';
+import { auth } from '../middleware/auth';
+import { blockImpersonation } from '../middleware/impersonation';
+import { requirePermission } from '../middleware/permissions';
+import { unlockAccount } from '../utils/loginProtection';
+import { endImpersonation, startImpersonation } from '../utils/impersonation';
+import { hasPermission } from '../utils/permissions';
+import { formatUser } from '../utils/authResponse';
+import { membershipsInclude, withActiveCompany } from '../utils/memberships';
+import { enqueueDataExport } from '../utils/dataExports';
+import { ACCOUNT_DELETION_GRACE_DAYS, findPersonalSubscriptions } from '../utils/accountDeletion';
+import { cancelSubscription } from '../utils/subscriptions';
+import { sendMail } from '../utils/mailer';
+import { accountDeletionScheduledEmail, buildFrontendUrl } from '../utils/emailTemplates';
 import logger from '../utils/logger';
 
 const router = express.Router();
 
+// Never hand out where the archive lives on disk
+const formatDataExport = ({ filePath, userId, ...dataExport }: any) => dataExport;
+
+// Validation schemas
+const impersonateSchema = Joi.object({
+  reason: Joi.string().trim().max(500).allow('', null)
+});
+
+const accountDeletionSchema = Joi.object({
+  password: Joi.string(),
+  confirmEmail: Joi.string()
+});
+
 // @route   GET /api/users/profile
 // @desc    Get user profile
 // @access  Private
@@ -13,7 +40,7 @@ router.get('/profile', auth, async (req, res) => {
     const user = await prisma.user.findUnique({
       where: { id: (req as any).user.id },
       include: {
-        company: true,
+        ...membershipsInclude,
         subscriptions: {
           include: {
             plan: true
@@ -24,7 +51,7 @@ router.get('/profile', auth, async (req, res) => {
 
     res.json({
       success: true,
-      data: user
+      data: user && withActiveCompany(user, (req as any).user.companyId)
     });
   } catch (error) {
     logger.error('Get profile error', error);
@@ -45,9 +72,6 @@ router.put('/profile', auth, async (req, res) => {
       data: {
         firstName,
         lastName
-      },
-      include: {
-        company: true
       }
     });
 
@@ -102,10 +126,218 @@ router.get('/activities', auth, async (req, res) => {
   }
 });
 
+// @route   GET /api/users/data-exports
+// @desc    List the user's recent data exports
+// @access  Private
+router.get('/data-exports', auth, blockImpersonation, async (req, res) => {
+  try {
+    const exports = await prisma.dataExport.findMany({
+      where: { userId: (req as any).user.id },
+      orderBy: { createdAt: 'desc' },
+      take: 10
+    });
+
+    res.json({ success: true, data: exports.map(formatDataExport) });
+  } catch (error) {
+    logger.error('Get data exports error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/users/data-exports
+// @desc    Start building an archive of the user's data; they are emailed when it is ready
+// @access  Private
+router.post('/data-exports', auth, blockImpersonation, async (req, res) => {
+  try {
+    const user = (req as any).user;
+
+    const inProgress = await prisma.dataExport.findFirst({
+      where: { userId: user.id, status: { in: ['PENDING', 'PROCESSING'] } }
+    });
+    if (inProgress) {
+      return res.status(409).json({ error: 'An export is already being prepared' });
+    }
+
+    const dataExport = await prisma.dataExport.create({ data: { userId: user.id } });
+    enqueueDataExport(dataExport.id);
+
+    // Log activity
+    await prisma.userActivity.create({
+      data: {
+        userId: user.id,
+        action: 'DATA_EXPORT_REQUESTED',
+        description: 'Requested a copy of account data',
+        metadata: { exportId: dataExport.id },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.status(202).json({ success: true, data: formatDataExport(dataExport) });
+  } catch (error) {
+    logger.error('Create data export error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   GET /api/users/data-exports/:id/download
+// @desc    Download a finished data export until it expires
+// @access  Private
+router.get('/data-exports/:id/download', auth, blockImpersonation, async (req, res) => {
+  try {
+    const user = (req as any).user;
+
+    const dataExport = await prisma.dataExport.findFirst({
+      where: { id: req.params.id, userId: user.id }
+    });
+    if (!dataExport) {
+      return res.status(404).json({ error: 'Export not found' });
+    }
+
+    if (dataExport.status !== 'COMPLETED' || !dataExport.filePath) {
+      const expired = dataExport.status === 'EXPIRED';
+      return res.status(expired ? 410 : 400).json({ error: expired ? 'This export has expired' : 'This export is not ready' });
+    }
+    if (dataExport.expiresAt && dataExport.expiresAt < new Date()) {
+      return res.status(410).json({ error: 'This export has expired' });
+    }
+
+    // Log activity
+    await prisma.userActivity.create({
+      data: {
+        userId: user.id,
+        action: 'DATA_EXPORT_DOWNLOADED',
+        description: 'Downloaded a copy of account data',
+        metadata: { exportId: dataExport.id },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    const date = dataExport.createdAt.toISOString().slice(0, 10);
+    res.download(dataExport.filePath, `account-data-${date}.zip`);
+  } catch (error) {
+    logger.error('Download data export error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/users/account-deletion
+// @desc    Schedule the account for deletion after the grace period and cancel personal subscriptions
+// @access  Private
+router.post('/account-deletion', auth, blockImpersonation, async (req, res) => {
+  try {
+    const { error, value } = accountDeletionSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const user = (req as any).user;
+
+    if (user.deletionScheduledFor) {
+      return res.status(400).json({ error: 'Your account is already scheduled for deletion' });
+    }
+
+    // Accounts that only sign in through a provider confirm with their email address instead
+    if (user.password) {
+      const isMatch = !!value.password && (await bcrypt.compare(value.password, user.password));
+      if (!isMatch) {
+        return res.status(400).json({ error: 'Invalid password' });
+      }
+    } else if (value.confirmEmail?.trim().toLowerCase() !== user.email.toLowerCase()) {
+      return res.status(400).json({ error: 'Type your email address to confirm' });
+    }
+
+    const ownedCompanies = await prisma.company.findMany({ where: { ownerId: user.id }, select: { name: true } });
+    if (ownedCompanies.length > 0) {
+      return res.status(400).json({
+        error: `Transfer or delete ${ownedCompanies.map((company) => company.name).join(', ')} before deleting your account`
+      });
+    }
+
+    // Stop renewals now; the user keeps what they paid for during the grace period
+    const subscriptions = await findPersonalSubscriptions(user.id);
+    for (const subscription of subscriptions.filter((candidate) => !candidate.cancelAtPeriodEnd)) {
+      await cancelSubscription(subscription, true);
+    }
+
+    const deletionScheduledFor = new Date(Date.now() + ACCOUNT_DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000);
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { deletionRequestedAt: new Date(), deletionScheduledFor }
+    });
+
+    try {
+      await sendMail({
+        to: user.email,
+        ...accountDeletionScheduledEmail(user, buildFrontendUrl('/settings', { tab: 'privacy' }), deletionScheduledFor)
+      });
+    } catch (mailError) {
+      logger.error('Failed to send account deletion email', mailError);
+    }
+
+    // Log activity
+    await prisma.userActivity.create({
+      data: {
+        userId: user.id,
+        action: 'ACCOUNT_DELETION_REQUESTED',
+        description: `Account scheduled for deletion on ${deletionScheduledFor.toDateString()}`,
+        metadata: { deletionScheduledFor, canceledSubscriptionIds: subscriptions.map((subscription) => subscription.id) },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    logger.info('Account deletion requested', { userId: user.id, deletionScheduledFor });
+
+    res.json({ success: true, data: { deletionScheduledFor } });
+  } catch (error) {
+    logger.error('Request account deletion error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   DELETE /api/users/account-deletion
+// @desc    Cancel a pending account deletion during the grace period
+// @access  Private
+router.delete('/account-deletion', auth, blockImpersonation, async (req, res) => {
+  try {
+    const user = (req as any).user;
+
+    if (!user.deletionScheduledFor) {
+      return res.status(400).json({ error: 'Your account is not scheduled for deletion' });
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { deletionRequestedAt: null, deletionScheduledFor: null }
+    });
+
+    // Log activity
+    await prisma.userActivity.create({
+      data: {
+        userId: user.id,
+        action: 'ACCOUNT_DELETION_CANCELED',
+        description: 'Canceled the account deletion',
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.json({
+      success: true,
+      message: 'Your account will not be deleted. Canceled subscriptions can be reactivated until the end of their billing period.'
+    });
+  } catch (error) {
+    logger.error('Cancel account deletion error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
 // @route   GET /api/users/admin/all
 // @desc    Get all users (admin only)
-// @access  Private (Admin)
-router.get('/admin/all', adminAuth, async (req, res) => {
+// @access  Private (users:read_all)
+router.get('/admin/all', auth, requirePermission('users:read_all'), async (req, res) => {
   try {
     const { page = 1, limit = 20, search, role } = req.query;
 
@@ -122,7 +354,10 @@ router.get('/admin/all', adminAuth, async (req, res) => {
     const users = await prisma.user.findMany({
       where,
       include: {
-        company: true,
+        memberships: {
+          include: { company: true },
+          orderBy: { createdAt: 'asc' }
+        },
         subscriptions: {
           include: {
             plan: true
@@ -157,4 +392,165 @@ router.get('/admin/all', adminAuth, async (req, res) => {
   }
 });
 
+// @route   POST /api/users/admin/:id/unlock
+// @desc    Clear a login lockout (admin only)
+// @access  Private (users:unlock)
+router.post('/admin/:id/unlock', auth, requirePermission('users:unlock'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const admin = (req as any).user;
+
+    const user = await prisma.user.findUnique({ where: { id } });
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    await unlockAccount(id);
+
+    // Log activity
+    await prisma.userActivity.create({
+      data: {
+        userId: id,
+        action: 'ACCOUNT_UNLOCKED',
+        description: `Account unlocked by ${admin.email}`,
+        metadata: { unlockedBy: admin.id },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    logger.info('Account unlocked by admin', { userId: id, adminId: admin.id });
+
+    res.json({ success: true, message: 'Account unlocked' });
+  } catch (error) {
+    logger.error('Admin unlock error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/users/admin/:id/impersonate
+// @desc    Start viewing the app as another user
+// @access  Private (users:impersonate)
+router.post('/admin/:id/impersonate', auth, blockImpersonation, requirePermission('users:impersonate'), async (req, res) => {
+  try {
+    const { error, value } = impersonateSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ error: error.details[0].message });
+    }
+
+    const admin = (req as any).user;
+    const { id } = req.params;
+
+    if (id === admin.id) {
+      return res.status(400).json({ error: 'You cannot impersonate yourself' });
+    }
+
+    const target = await prisma.user.findUnique({
+      where: { id },
+      include: {
+        ...membershipsInclude,
+        subscriptions: {
+          include: {
+            plan: true
+          }
+        }
+      }
+    });
+
+    if (!target) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    // Impersonating another impersonator would hand over their access
+    if (hasPermission(target, 'users:impersonate')) {
+      return res.status(403).json({ error: 'This user cannot be impersonated' });
+    }
+
+    const { token, impersonation } = await startImpersonation(
+      admin.id,
+      target.id,
+      (req as any).sessionFamilyId,
+      value.reason
+    );
+
+    // Log activity for both parties
+    await prisma.userActivity.createMany({
+      data: [
+        {
+          userId: admin.id,
+          action: 'IMPERSONATION_STARTED',
+          description: `Started impersonating ${target.email}`,
+          metadata: { impersonationId: impersonation.id, targetUserId: target.id, reason: impersonation.reason },
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent')
+        },
+        {
+          userId: target.id,
+          action: 'IMPERSONATION_STARTED',
+          description: `${admin.email} started impersonating this account`,
+          metadata: { impersonationId: impersonation.id, adminId: admin.id, reason: impersonation.reason },
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent')
+        }
+      ]
+    });
+
+    logger.info('Impersonation started', { impersonationId: impersonation.id, adminId: admin.id, targetUserId: target.id });
+
+    res.json({
+      success: true,
+      token,
+      expiresAt: impersonation.expiresAt,
+      user: formatUser(target)
+    });
+  } catch (error) {
+    logger.error('Start impersonation error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// @route   POST /api/users/impersonation/stop
+// @desc    End the current impersonation
+// @access  Private (while impersonating)
+router.post('/impersonation/stop', auth, async (req, res) => {
+  try {
+    const impersonation = (req as any).impersonation;
+    if (!impersonation) {
+      return res.status(400).json({ error: 'You are not impersonating anyone' });
+    }
+
+    const user = (req as any).user;
+    await endImpersonation(impersonation.id);
+
+    // Log activity for both parties
+    await prisma.userActivity.createMany({
+      data: [
+        {
+          userId: impersonation.adminId,
+          action: 'IMPERSONATION_STOPPED',
+          description: `Stopped impersonating ${user.email}`,
+          metadata: { impersonationId: impersonation.id, targetUserId: user.id },
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent')
+        },
+        {
+          userId: user.id,
+          action: 'IMPERSONATION_STOPPED',
+          description: `${impersonation.admin.email} stopped impersonating this account`,
+          metadata: { impersonationId: impersonation.id, adminId: impersonation.adminId },
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent')
+        }
+      ]
+    });
+
+    logger.info('Impersonation stopped', { impersonationId: impersonation.id });
+
+    res.json({ success: true, message: 'Impersonation ended' });
+  } catch (error) {
+    logger.error('Stop impersonation error', error);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
 export default router;
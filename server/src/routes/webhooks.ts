@@ -1,25 +1,26 @@
 import express from 'express';
-import Stripe from 'stripe';
 import { prisma } from '../index';
+import {
+  BillingCustomer,
+  BillingEvent,
+  BillingInvoice,
+  BillingSubscription,
+  getBillingProvider
+} from '../utils/billing';
 import logger from '../utils/logger';
 
 const router = express.Router();
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
-  apiVersion: '2023-10-16'
-});
-
-const endpointSecret = process.env.STRIPE_WEBHOOK_SECRET!;
 
 // @route   POST /api/webhooks/stripe
-// @desc    Handle Stripe webhooks
+// @desc    Handle billing provider webhooks (Stripe, or the fake provider offline)
 // @access  Public (but verified)
 router.post('/stripe', express.raw({ type: 'application/json' }), async (req, res) => {
   const sig = req.headers['stripe-signature'];
 
-  let event: Stripe.Event;
+  let event: BillingEvent;
 
   try {
-    event = stripe.webhooks.constructEvent(req.body, sig!, endpointSecret);
+    event = getBillingProvider().constructEvent(req.body, sig as string | undefined);
   } catch (err: any) {
     logger.error('Webhook signature verification failed', err);
     return res.status(400).send(`Webhook Error: ${err.message}`);
@@ -27,29 +28,28 @@ router.post('/stripe', express.raw({ type: 'application/json' }), async (req, re
 
   try {
     switch (event.type) {
-      case 'customer.subscription.created':
-      case 'customer.subscription.updated':
-        await handleSubscriptionUpdate(event.data.object as Stripe.Subscription);
+      case 'subscription.updated':
+        await handleSubscriptionUpdate(event.subscription);
         break;
         
-      case 'customer.subscription.deleted':
-        await handleSubscriptionDeleted(event.data.object as Stripe.Subscription);
+      case 'subscription.deleted':
+        await handleSubscriptionDeleted(event.subscription);
         break;
         
       case 'invoice.payment_succeeded':
-        await handlePaymentSucceeded(event.data.object as Stripe.Invoice);
+        await handlePaymentSucceeded(event.invoice);
         break;
         
       case 'invoice.payment_failed':
-        await handlePaymentFailed(event.data.object as Stripe.Invoice);
+        await handlePaymentFailed(event.invoice);
         break;
         
       case 'customer.created':
-        await handleCustomerCreated(event.data.object as Stripe.Customer);
+        await handleCustomerCreated(event.customer);
         break;
         
       default:
-        logger.info(`Unhandled event type: ${event.type}`);
+        logger.info(`Unhandled event type: ${event.providerType}`);
     }
 
     res.json({ received: true });
@@ -59,26 +59,55 @@ router.post('/stripe', express.raw({ type: 'application/json' }), async (req, re
   }
 });
 
-async function handleSubscriptionUpdate(subscription: Stripe.Subscription) {
+async function handleSubscriptionUpdate(subscription: BillingSubscription) {
   try {
     const existingSubscription = await prisma.subscription.findUnique({
       where: { stripeSubscriptionId: subscription.id }
     });
 
     if (existingSubscription) {
+      // Follow plan changes made here or in the provider's dashboard, including
+      // a scheduled change that has just taken effect
+      const plan =
+        subscription.priceId !== existingSubscription.priceId
+          ? await prisma.plan.findUnique({ where: { stripePriceId: subscription.priceId } })
+          : null;
+      const scheduledChangeApplied = !!plan && plan.id === existingSubscription.scheduledPlanId;
+
       await prisma.subscription.update({
         where: { stripeSubscriptionId: subscription.id },
         data: {
-          status: subscription.status as any,
-          currentPeriodStart: new Date(subscription.current_period_start * 1000),
-          currentPeriodEnd: new Date(subscription.current_period_end * 1000),
-          cancelAtPeriodEnd: subscription.cancel_at_period_end,
-          canceledAt: subscription.canceled_at ? new Date(subscription.canceled_at * 1000) : null,
-          trialStart: subscription.trial_start ? new Date(subscription.trial_start * 1000) : null,
-          trialEnd: subscription.trial_end ? new Date(subscription.trial_end * 1000) : null
+          ...(plan && { planId: plan.id, priceId: plan.stripePriceId }),
+          ...(scheduledChangeApplied && { scheduledPlanId: null, stripeScheduleId: null }),
+          status: subscription.status,
+          quantity: subscription.quantity,
+          stripeMeteredItemId: subscription.meteredItemId,
+          currentPeriodStart: subscription.currentPeriodStart,
+          currentPeriodEnd: subscription.currentPeriodEnd,
+          cancelAtPeriodEnd: subscription.cancelAtPeriodEnd,
+          canceledAt: subscription.canceledAt,
+          trialStart: subscription.trialStart,
+          trialEnd: subscription.trialEnd
         }
       });
 
+      if (scheduledChangeApplied) {
+        // Log activity
+        await prisma.userActivity.create({
+          data: {
+            userId: existingSubscription.userId,
+            action: 'SUBSCRIPTION_PLAN_CHANGED',
+            description: `Scheduled plan change to ${plan!.name} took effect`,
+            metadata: {
+              subscriptionId: existingSubscription.id,
+              fromPlanId: existingSubscription.planId,
+              toPlanId: plan!.id,
+              timing: 'period_end'
+            }
+          }
+        });
+      }
+
       logger.info('Subscription updated', { subscriptionId: subscription.id });
     }
   } catch (error) {
@@ -86,7 +115,7 @@ async function handleSubscriptionUpdate(subscription: Stripe.Subscription) {
   }
 }
 
-async function handleSubscriptionDeleted(subscription: Stripe.Subscription) {
+async function handleSubscriptionDeleted(subscription: BillingSubscription) {
   try {
     await prisma.subscription.update({
       where: { stripeSubscriptionId: subscription.id },
@@ -102,23 +131,35 @@ async function handleSubscriptionDeleted(subscription: Stripe.Subscription) {
   }
 }
 
-async function handlePaymentSucceeded(invoice: Stripe.Invoice) {
+// The local coupon behind an invoice's discount, if we know it
+async function findInvoiceCouponId(invoice: BillingInvoice) {
+  if (!invoice.couponId) {
+    return null;
+  }
+  const coupon = await prisma.coupon.findUnique({ where: { stripeCouponId: invoice.couponId } });
+  return coupon?.id ?? null;
+}
+
+async function handlePaymentSucceeded(invoice: BillingInvoice) {
   try {
-    if (invoice.subscription) {
+    // Trials start with an invoice for nothing, which isn't a payment
+    if (invoice.subscriptionId && invoice.amountPaid > 0) {
       const subscription = await prisma.subscription.findUnique({
-        where: { stripeSubscriptionId: invoice.subscription as string },
+        where: { stripeSubscriptionId: invoice.subscriptionId },
         include: { user: true }
       });
 
       if (subscription) {
         await prisma.payment.create({
           data: {
-            stripePaymentId: invoice.payment_intent as string,
-            amount: invoice.amount_paid,
+            stripePaymentId: invoice.paymentId!,
+            amount: invoice.amountPaid,
             currency: invoice.currency,
             status: 'SUCCEEDED',
             description: invoice.description || 'Subscription payment',
-            receiptUrl: invoice.hosted_invoice_url,
+            receiptUrl: invoice.receiptUrl,
+            discountAmount: invoice.discountAmount,
+            couponId: await findInvoiceCouponId(invoice),
             userId: subscription.userId,
             subscriptionId: subscription.id
           }
@@ -129,10 +170,10 @@ async function handlePaymentSucceeded(invoice: Stripe.Invoice) {
           data: {
             userId: subscription.userId,
             action: 'PAYMENT_SUCCEEDED',
-            description: `Payment succeeded for amount: ${invoice.amount_paid / 100} ${invoice.currency.toUpperCase()}`,
+            description: `Payment succeeded for amount: ${invoice.amountPaid / 100} ${invoice.currency.toUpperCase()}`,
             metadata: { 
-              paymentId: typeof invoice.payment_intent === 'string' ? invoice.payment_intent : invoice.payment_intent?.id || null,
-              amount: invoice.amount_paid,
+              paymentId: invoice.paymentId,
+              amount: invoice.amountPaid,
               currency: invoice.currency
             }
           }
@@ -140,7 +181,7 @@ async function handlePaymentSucceeded(invoice: Stripe.Invoice) {
 
         logger.info('Payment succeeded', { 
           userId: subscription.userId,
-          amount: invoice.amount_paid,
+          amount: invoice.amountPaid,
           currency: invoice.currency
         });
       }
@@ -150,22 +191,24 @@ async function handlePaymentSucceeded(invoice: Stripe.Invoice) {
   }
 }
 
-async function handlePaymentFailed(invoice: Stripe.Invoice) {
+async function handlePaymentFailed(invoice: BillingInvoice) {
   try {
-    if (invoice.subscription) {
+    if (invoice.subscriptionId) {
       const subscription = await prisma.subscription.findUnique({
-        where: { stripeSubscriptionId: invoice.subscription as string },
+        where: { stripeSubscriptionId: invoice.subscriptionId },
         include: { user: true }
       });
 
       if (subscription) {
         await prisma.payment.create({
           data: {
-            stripePaymentId: invoice.payment_intent as string || `failed_${Date.now()}`,
-            amount: invoice.amount_due,
+            stripePaymentId: invoice.paymentId || `failed_${Date.now()}`,
+            amount: invoice.amountDue,
             currency: invoice.currency,
             status: 'FAILED',
             description: invoice.description || 'Subscription payment failed',
+            discountAmount: invoice.discountAmount,
+            couponId: await findInvoiceCouponId(invoice),
             userId: subscription.userId,
             subscriptionId: subscription.id
           }
@@ -176,10 +219,10 @@ async function handlePaymentFailed(invoice: Stripe.Invoice) {
           data: {
             userId: subscription.userId,
             action: 'PAYMENT_FAILED',
-            description: `Payment failed for amount: ${invoice.amount_due / 100} ${invoice.currency.toUpperCase()}`,
+            description: `Payment failed for amount: ${invoice.amountDue / 100} ${invoice.currency.toUpperCase()}`,
             metadata: { 
-              paymentId: typeof invoice.payment_intent === 'string' ? invoice.payment_intent : invoice.payment_intent?.id || null,
-              amount: invoice.amount_due,
+              paymentId: invoice.paymentId,
+              amount: invoice.amountDue,
               currency: invoice.currency
             }
           }
@@ -187,7 +230,7 @@ async function handlePaymentFailed(invoice: Stripe.Invoice) {
 
         logger.warn('Payment failed', { 
           userId: subscription.userId,
-          amount: invoice.amount_due,
+          amount: invoice.amountDue,
           currency: invoice.currency
         });
       }
@@ -197,7 +240,7 @@ async function handlePaymentFailed(invoice: Stripe.Invoice) {
   }
 }
 
-async function handleCustomerCreated(customer: Stripe.Customer) {
+async function handleCustomerCreated(customer: BillingCustomer) {
   try {
     if (customer.metadata?.userId) {
       await prisma.user.update({
@@ -0,0 +1,111 @@
+import { PrismaClient, Role } from '@prisma/client';
+import logger from '../utils/logger';
+
+// Turns the company a user belonged to before memberships existed
+// (users.companyId, with their custom role) into a CompanyMembership, then
+// gives every company without an owner one. Run once after upgrading with
+// `npm run db:backfill-memberships`; running it again does nothing, since each
+// user's legacy columns are cleared as they are copied. The columns can be
+// dropped from the schema afterwards.
+
+const prisma = new PrismaClient();
+
+// The role a legacy member gets in their company. Before memberships the
+// platform role was also the company role; super admins only keep theirs on
+// the platform.
+const COMPANY_ROLES: Record<Role, Role> = {
+  USER: 'USER',
+  ADMIN: 'ADMIN',
+  SUPER_ADMIN: 'ADMIN'
+};
+
+async function backfillMemberships() {
+  const users = await prisma.user.findMany({
+    where: { legacyCompanyId: { not: null } },
+    select: { id: true, email: true, role: true, legacyCompanyId: true, legacyCustomRoleId: true }
+  });
+
+  let created = 0;
+  for (const user of users) {
+    const companyId = user.legacyCompanyId!;
+    const [company, customRole] = await Promise.all([
+      prisma.company.findUnique({ where: { id: companyId } }),
+      user.legacyCustomRoleId ? prisma.companyRole.findUnique({ where: { id: user.legacyCustomRoleId } }) : null
+    ]);
+
+    await prisma.$transaction([
+      // A company deleted since then has nothing left to join
+      ...(company
+        ? [
+            prisma.companyMembership.upsert({
+              where: { userId_companyId: { userId: user.id, companyId } },
+              create: {
+                userId: user.id,
+                companyId,
+                role: COMPANY_ROLES[user.role],
+                customRoleId: customRole?.companyId === companyId ? customRole.id : null
+              },
+              update: {}
+            })
+          ]
+        : []),
+      prisma.user.update({
+        where: { id: user.id },
+        data: { legacyCompanyId: null, legacyCustomRoleId: null }
+      })
+    ]);
+
+    if (company) {
+      created += 1;
+    } else {
+      logger.warn('Skipped membership backfill for a deleted company', { userId: user.id, companyId });
+    }
+  }
+
+  logger.info('Backfilled memberships', { created, users: users.length });
+}
+
+// Companies created before ownership existed go to their earliest admin, or
+// failing that to their earliest member, who becomes an admin
+async function assignOwners() {
+  const companies = await prisma.company.findMany({
+    where: { ownerId: null },
+    include: { memberships: { include: { user: { select: { createdAt: true } } } } }
+  });
+
+  let assigned = 0;
+  for (const company of companies) {
+    const members = [...company.memberships].sort(
+      (a, b) => a.user.createdAt.getTime() - b.user.createdAt.getTime()
+    );
+    const owner = members.find((membership) => membership.role === 'ADMIN' && !membership.customRoleId) || members[0];
+    if (!owner) {
+      continue;
+    }
+
+    await prisma.$transaction([
+      prisma.companyMembership.update({
+        where: { id: owner.id },
+        data: { role: 'ADMIN', customRoleId: null }
+      }),
+      prisma.company.update({ where: { id: company.id }, data: { ownerId: owner.userId } })
+    ]);
+    assigned += 1;
+  }
+
+  logger.info('Assigned company owners', { assigned, companies: companies.length });
+}
+
+async function main() {
+  await backfillMemberships();
+  await assignOwners();
+}
+
+main()
+  .catch((error) => {
+    logger.error('Membership backfill failed', error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -24,6 +24,10 @@ async function main() {
         'Email support',
         '5GB storage'
       ],
+      entitlements: {
+        max_users: 10,
+        max_api_keys: 5
+      },
       isActive: true
     }
   })
@@ -39,6 +43,7 @@ async function main() {
       currency: 'usd',
       interval: 'month',
       intervalCount: 1,
+      trialDays: 14,
       features: [
         'Up to 50 users',
         'Advanced analytics',
@@ -46,6 +51,13 @@ async function main() {
         '50GB storage',
         'Custom integrations'
       ],
+      entitlements: {
+        max_users: 50,
+        max_api_keys: 20,
+        advanced_analytics: true,
+        custom_integrations: true,
+        priority_support: true
+      },
       isActive: true
     }
   })
@@ -70,6 +82,40 @@ async function main() {
         'Dedicated account manager',
         'SSO integration'
       ],
+      entitlements: {
+        max_users: null,
+        max_api_keys: null,
+        advanced_analytics: true,
+        custom_integrations: true,
+        priority_support: true,
+        sso: true
+      },
+      isActive: true
+    }
+  })
+
+  await prisma.plan.upsert({
+    where: { stripePriceId: 'price_team_monthly' },
+    update: {},
+    create: {
+      name: 'Team Plan',
+      stripePriceId: 'price_team_monthly',
+      stripeProductId: 'prod_team',
+      amount: 799, // $7.99 per seat
+      currency: 'usd',
+      interval: 'month',
+      intervalCount: 1,
+      perSeat: true,
+      features: [
+        'Pay per team member',
+        'Advanced analytics',
+        'Email support',
+        '20GB storage'
+      ],
+      entitlements: {
+        max_api_keys: 10,
+        advanced_analytics: true
+      },
       isActive: true
     }
   })
@@ -98,10 +144,17 @@ async function main() {
       lastName: 'User',
       role: 'ADMIN',
       isEmailVerified: true,
-      companyId: company.id
+      memberships: {
+        create: { companyId: company.id, role: 'ADMIN' }
+      }
     }
   })
 
+  await prisma.company.update({
+    where: { id: company.id },
+    data: { ownerId: adminUser.id }
+  })
+
   // Create sample user
   const userPassword = await bcrypt.hash('user123', 10)
   const sampleUser = await prisma.user.upsert({
@@ -114,7 +167,9 @@ async function main() {
       lastName: 'Doe',
       role: 'USER',
       isEmailVerified: true,
-      companyId: company.id,
+      memberships: {
+        create: { companyId: company.id }
+      },
       stripeCustomerId: 'cus_sample_customer'
     }
   })
@@ -0,0 +1,112 @@
+import fs from 'fs/promises';
+import { prisma } from '../index';
+import { getBillingProvider } from './billing';
+import { cancelSubscription, LIVE_SUBSCRIPTION_STATUSES } from './subscriptions';
+import { syncSeats } from './seats';
+import logger from './logger';
+
+export const ACCOUNT_DELETION_GRACE_DAYS = Number(process.env.ACCOUNT_DELETION_GRACE_DAYS) || 14;
+const DELETION_INTERVAL_MS = 60 * 60 * 1000;
+
+// Subscriptions the user pays for themselves. Company subscriptions carry on
+// for the rest of the company.
+export const findPersonalSubscriptions = (userId: string) =>
+  prisma.subscription.findMany({
+    where: { userId, companyId: null, status: { in: [...LIVE_SUBSCRIPTION_STATUSES] } }
+  });
+
+// Strip a user's personal data once their grace period is over. Payments and
+// subscriptions stay for accounting, attached to the anonymised user and an
+// anonymised billing customer.
+export const anonymiseUser = async (userId: string): Promise<void> => {
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    include: { dataExports: true, memberships: true }
+  });
+
+  // Anything left running in the grace period ends now
+  for (const subscription of await findPersonalSubscriptions(user.id)) {
+    await cancelSubscription(subscription, false);
+  }
+
+  const email = `deleted-${user.id}@deleted.invalid`;
+
+  // The customer keeps paying for any company subscriptions, so it is renamed
+  // rather than deleted
+  if (user.stripeCustomerId) {
+    await getBillingProvider().updateCustomer(user.stripeCustomerId, { email, name: 'Deleted User' });
+  }
+
+  await prisma.$transaction([
+    prisma.session.deleteMany({ where: { userId } }),
+    prisma.userToken.deleteMany({ where: { userId } }),
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.externalIdentity.deleteMany({ where: { userId } }),
+    prisma.apiKey.deleteMany({ where: { userId } }),
+    prisma.companyMembership.deleteMany({ where: { userId } }),
+    prisma.companyJoinRequest.deleteMany({ where: { userId } }),
+    prisma.dataExport.deleteMany({ where: { userId } }),
+    prisma.userActivity.deleteMany({ where: { userId } }),
+    prisma.loginAttempt.deleteMany({ where: { email: user.email } }),
+    prisma.companyInvitation.deleteMany({ where: { email: { equals: user.email, mode: 'insensitive' } } }),
+    prisma.company.updateMany({ where: { ownerId: userId }, data: { ownerId: null } }),
+    prisma.user.update({
+      where: { id: userId },
+      data: {
+        email,
+        password: null,
+        firstName: 'Deleted',
+        lastName: 'User',
+        isEmailVerified: false,
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorLastUsedStep: null,
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+        deletionScheduledFor: null,
+        deletedAt: new Date()
+      }
+    })
+  ]);
+
+  // The user's seats are freed up in the companies they belonged to
+  for (const membership of user.memberships) {
+    await syncSeats(membership.companyId, 'left');
+  }
+
+  for (const dataExport of user.dataExports) {
+    if (dataExport.filePath) {
+      await fs.rm(dataExport.filePath, { force: true });
+    }
+  }
+
+  logger.info('User account anonymised', { userId });
+};
+
+// Anonymise every account whose grace period has ended
+export const processDueAccountDeletions = async (): Promise<number> => {
+  const due = await prisma.user.findMany({
+    where: { deletedAt: null, deletionScheduledFor: { lte: new Date() } },
+    select: { id: true }
+  });
+
+  let processed = 0;
+  for (const { id } of due) {
+    try {
+      await anonymiseUser(id);
+      processed += 1;
+    } catch (error) {
+      // Retried on the next run
+      logger.error('Account deletion failed', { userId: id, error: (error as Error).message });
+    }
+  }
+  return processed;
+};
+
+export const startAccountDeletionWorker = (): void => {
+  const run = () => {
+    processDueAccountDeletions().catch((error) => logger.error('Account deletion job error', error));
+  };
+  run();
+  setInterval(run, DELETION_INTERVAL_MS).unref();
+};
@@ -0,0 +1,39 @@
+import crypto from 'crypto';
+import { prisma } from '../index';
+import { generateRandomToken, hashToken } from './tokens';
+
+// Keys look like sk_1a2b3c4d_<secret>. Only the SHA-256 hash is stored; the
+// prefix stays visible so users can tell their keys apart.
+
+export const API_KEY_SCOPES = ['analytics:read', 'analytics:write', 'payments:read', 'usage:write'] as const;
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+const KEY_PREFIX = 'sk_';
+const LAST_USED_TOUCH_INTERVAL_MS = 60 * 1000;
+
+export const isApiKey = (credential: string): boolean => credential.startsWith(KEY_PREFIX);
+
+export const generateApiKey = () => {
+  const prefix = `${KEY_PREFIX}${crypto.randomBytes(4).toString('hex')}`;
+  const key = `${prefix}_${generateRandomToken(24)}`;
+  return { key, prefix, keyHash: hashToken(key) };
+};
+
+// The key record if the key exists, is not revoked and has not expired
+export const findActiveApiKey = async (key: string) => {
+  const apiKey = await prisma.apiKey.findUnique({ where: { keyHash: hashToken(key) } });
+
+  if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt <= new Date())) {
+    return null;
+  }
+
+  // Track last use without writing on every request
+  if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_TOUCH_INTERVAL_MS) {
+    await prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: new Date() }
+    });
+  }
+
+  return apiKey;
+};
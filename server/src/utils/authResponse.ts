@@ -0,0 +1,92 @@
+import { Request, Response } from 'express';
+import { User } from '@prisma/client';
+import { prisma } from '../index';
+import { createSession } from './sessions';
+import { generateTwoFactorChallenge, isTwoFactorRequired } from './twoFactor';
+import { getUserPermissions } from './permissions';
+import { formatMemberships, withActiveCompany } from './memberships';
+import { recordLoginSuccess } from './loginProtection';
+import { createUserToken } from './userTokens';
+import { buildFrontendUrl } from './emailTemplates';
+import logger from './logger';
+
+const EXTERNAL_LOGIN_CODE_EXPIRES_MS = 2 * 60 * 1000;
+
+// Shape of the user object returned by the auth endpoints. Expects the user's
+// memberships to be loaded; fresh logins start in the default company.
+export const formatUser = (loaded: any) => {
+  const user = 'membership' in loaded ? loaded : withActiveCompany(loaded);
+
+  return {
+    id: user.id,
+    email: user.email,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    role: user.role,
+    isEmailVerified: user.isEmailVerified,
+    hasPassword: !!user.password,
+    twoFactorEnabled: user.twoFactorEnabled,
+    twoFactorRequired: isTwoFactorRequired(user),
+    deletionScheduledFor: user.deletionScheduledFor,
+    permissions: getUserPermissions(user),
+    company: user.company,
+    companies: formatMemberships(user.memberships),
+    subscriptions: user.subscriptions
+  };
+};
+
+// Start a session for a fully authenticated user and send the login response
+export const completeLogin = async (req: Request, res: Response, user: User, description: string) => {
+  await recordLoginSuccess(user.email, req, user.id);
+
+  const { token, refreshToken } = await createSession(user.id, req);
+
+  // Log activity
+  await prisma.userActivity.create({
+    data: {
+      userId: user.id,
+      action: 'USER_LOGIN',
+      description,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    }
+  });
+
+  logger.info('User logged in', { userId: user.id, email: user.email });
+
+  res.json({
+    success: true,
+    token,
+    refreshToken,
+    user: formatUser(user)
+  });
+};
+
+// The first factor succeeded: finish the login, or ask for a second factor
+export const respondToFirstFactor = async (req: Request, res: Response, user: User, description: string) => {
+  if (user.twoFactorEnabled) {
+    return res.json({
+      success: true,
+      twoFactorRequired: true,
+      challengeToken: generateTwoFactorChallenge(user.id)
+    });
+  }
+
+  await completeLogin(req, res, user, description);
+};
+
+// Response for a login attempt against a locked account
+export const sendAccountLocked = (res: Response, lockedUntil: Date) => {
+  res.status(423).json({
+    error: 'Account is temporarily locked after too many failed login attempts. Check your email to unlock it.',
+    code: 'ACCOUNT_LOCKED',
+    lockedUntil
+  });
+};
+
+// External sign-ins (OAuth, SAML) end with a browser redirect. Tokens never go
+// in the URL; the app trades this short-lived code at /api/auth/oauth/exchange.
+export const redirectWithLoginCode = async (res: Response, userId: string, params: Record<string, string> = {}) => {
+  const code = await createUserToken(userId, 'EXTERNAL_LOGIN', EXTERNAL_LOGIN_CODE_EXPIRES_MS);
+  res.redirect(buildFrontendUrl('/auth/callback', { code, ...params }));
+};
@@ -0,0 +1,170 @@
+import { SubscriptionStatus } from '@prisma/client';
+import { createStripeBillingProvider } from './stripeBillingProvider';
+import { createFakeBillingProvider, FakeBillingProvider } from './fakeBillingProvider';
+
+// Provider-neutral view of the billing objects the app works with. IDs are the
+// provider's own and are stored in the `stripe*` columns.
+
+export interface BillingCustomer {
+  id: string;
+  email: string | null;
+  metadata: Record<string, string>;
+}
+
+export interface BillingSubscription {
+  id: string;
+  customerId: string;
+  status: SubscriptionStatus;
+  priceId: string;
+  quantity: number;
+  // Item carrying the plan's metered price, if it has one
+  meteredItemId: string | null;
+  currentPeriodStart: Date;
+  currentPeriodEnd: Date;
+  cancelAtPeriodEnd: boolean;
+  canceledAt: Date | null;
+  trialStart: Date | null;
+  trialEnd: Date | null;
+  // Set while the first payment still has to be confirmed by the customer (SCA)
+  clientSecret: string | null;
+  // Set while a card saved for after a trial still has to be confirmed
+  setupClientSecret: string | null;
+}
+
+export interface BillingInvoice {
+  id: string;
+  subscriptionId: string | null;
+  paymentId: string | null;
+  amountPaid: number;
+  amountDue: number;
+  // Before discounts, and what the coupon (if any) took off
+  subtotal: number;
+  discountAmount: number;
+  couponId: string | null;
+  currency: string;
+  description: string | null;
+  receiptUrl: string | null;
+}
+
+export interface BillingInvoiceLine {
+  description: string | null;
+  amount: number;
+}
+
+export interface BillingCouponParams {
+  name: string;
+  percentOff?: number | null;
+  amountOff?: number | null;
+  currency?: string | null;
+  duration: 'once' | 'repeating' | 'forever';
+  durationInMonths?: number | null;
+  maxRedemptions?: number | null;
+  redeemBy?: Date | null;
+  // Restrict to these products; any product when empty
+  productIds: string[];
+}
+
+export interface BillingRefund {
+  id: string;
+  paymentId: string;
+  amount: number;
+  status: string;
+}
+
+export type BillingEvent =
+  | { id: string; type: 'subscription.updated' | 'subscription.deleted'; subscription: BillingSubscription }
+  | { id: string; type: 'invoice.payment_succeeded' | 'invoice.payment_failed'; invoice: BillingInvoice }
+  | { id: string; type: 'customer.created'; customer: BillingCustomer }
+  | { id: string; type: 'unhandled'; providerType: string };
+
+export interface BillingProvider {
+  name: string;
+  createCustomer: (params: { email: string; name: string; metadata: Record<string, string> }) => Promise<BillingCustomer>;
+  updateCustomer: (customerId: string, params: { email: string; name: string }) => Promise<void>;
+  // Attach a payment method and make it the customer's default for invoices
+  attachPaymentMethod: (customerId: string, paymentMethodId: string) => Promise<void>;
+  // A trial ends the subscription if no payment method has been added by then
+  createSubscription: (params: {
+    customerId: string;
+    priceId: string;
+    quantity: number;
+    meteredPriceId?: string | null;
+    trialDays?: number;
+    promotionCodeId?: string;
+  }) => Promise<BillingSubscription>;
+  getSubscription: (subscriptionId: string) => Promise<BillingSubscription>;
+  // Price or quantity changes are prorated and invoiced straight away
+  updateSubscription: (
+    subscriptionId: string,
+    params: { priceId?: string; quantity?: number; prorationDate?: number; cancelAtPeriodEnd?: boolean }
+  ) => Promise<BillingSubscription>;
+  cancelSubscription: (subscriptionId: string) => Promise<BillingSubscription>;
+  // Switch price when the current period ends; returns the schedule ID
+  schedulePriceChange: (
+    subscriptionId: string,
+    params: { priceId: string; quantity: number; scheduleId?: string | null }
+  ) => Promise<string>;
+  releaseSchedule: (scheduleId: string) => Promise<void>;
+  // Proration lines a price change made at `prorationDate` (unix seconds) would invoice
+  previewPriceChange: (
+    subscriptionId: string,
+    params: { priceId: string; quantity: number; prorationDate: number }
+  ) => Promise<{ currency: string; lines: BillingInvoiceLine[] }>;
+  // Coupons and the promotion codes customers redeem them with; both return the new ID
+  createCoupon: (params: BillingCouponParams) => Promise<string>;
+  deleteCoupon: (couponId: string) => Promise<void>;
+  createPromotionCode: (params: {
+    couponId: string;
+    code: string;
+    maxRedemptions?: number | null;
+    expiresAt?: Date | null;
+  }) => Promise<string>;
+  setPromotionCodeActive: (promotionCodeId: string, active: boolean) => Promise<void>;
+  // Set the usage billed for the period containing `timestamp` on a metered item
+  reportUsage: (params: {
+    subscriptionItemId: string;
+    quantity: number;
+    timestamp: Date;
+    idempotencyKey: string;
+  }) => Promise<void>;
+  createRefund: (params: { paymentId: string; amount?: number }) => Promise<BillingRefund>;
+  // Verify a webhook request and translate its event
+  constructEvent: (payload: Buffer, signature: string | undefined) => BillingEvent;
+}
+
+// The card was declined or is invalid; the message can be shown to the customer
+export class BillingCardError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BillingCardError';
+  }
+}
+
+const createDefaultProvider = (): BillingProvider => {
+  switch (process.env.BILLING_PROVIDER) {
+    case 'fake':
+      return createFakeBillingProvider();
+    default:
+      if (!process.env.STRIPE_SECRET_KEY) {
+        throw new Error('STRIPE_SECRET_KEY is not defined');
+      }
+      return createStripeBillingProvider(process.env.STRIPE_SECRET_KEY, process.env.STRIPE_WEBHOOK_SECRET!);
+  }
+};
+
+let provider: BillingProvider | null = null;
+
+// Replace the active provider, e.g. with a fake one in tests
+export const setBillingProvider = (nextProvider: BillingProvider): void => {
+  provider = nextProvider;
+};
+
+export const getBillingProvider = (): BillingProvider => {
+  if (!provider) {
+    provider = createDefaultProvider();
+  }
+  return provider;
+};
+
+export const isFakeBillingProvider = (candidate: BillingProvider): candidate is FakeBillingProvider =>
+  candidate.name === 'fake';
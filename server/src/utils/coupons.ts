@@ -0,0 +1,119 @@
+import { Coupon, Plan, PromotionCode } from '@prisma/client';
+import { prisma } from '../index';
+
+export type CouponWithPlans = Coupon & { plans: Plan[] };
+
+export const normalisePromotionCode = (code: string) => code.trim().toUpperCase();
+
+// "20% off for 3 months", "$5.00 off once"
+export const describeCoupon = (coupon: Coupon): string => {
+  const amount = coupon.percentOff
+    ? `${coupon.percentOff}% off`
+    : `${new Intl.NumberFormat('en-US', { style: 'currency', currency: coupon.currency!.toUpperCase() }).format(
+        coupon.amountOff! / 100
+      )} off`;
+
+  switch (coupon.duration) {
+    case 'ONCE':
+      return `${amount} the first payment`;
+    case 'REPEATING':
+      return `${amount} for ${coupon.durationInMonths} month${coupon.durationInMonths === 1 ? '' : 's'}`;
+    default:
+      return `${amount} forever`;
+  }
+};
+
+// What one payment of `amount` comes to while the coupon applies
+export const applyCoupon = (coupon: Coupon, amount: number): number =>
+  coupon.percentOff
+    ? amount - Math.round((amount * coupon.percentOff) / 100)
+    : Math.max(0, amount - coupon.amountOff!);
+
+const redemptionProblem = (
+  coupon: CouponWithPlans,
+  promotionCode: PromotionCode,
+  plan: Plan,
+  now: Date
+): string | null => {
+  if (!promotionCode.isActive || !coupon.isActive) {
+    return 'This code is no longer active';
+  }
+  if ((promotionCode.expiresAt && promotionCode.expiresAt <= now) || (coupon.redeemBy && coupon.redeemBy <= now)) {
+    return 'This code has expired';
+  }
+  if (
+    (promotionCode.maxRedemptions !== null && promotionCode.timesRedeemed >= promotionCode.maxRedemptions) ||
+    (coupon.maxRedemptions !== null && coupon.timesRedeemed >= coupon.maxRedemptions)
+  ) {
+    return 'This code has been fully redeemed';
+  }
+  if (coupon.plans.length > 0 && !coupon.plans.some((candidate) => candidate.id === plan.id)) {
+    return 'This code does not apply to the selected plan';
+  }
+  if (coupon.amountOff && coupon.currency !== plan.currency) {
+    return 'This code does not apply to the selected plan';
+  }
+  return null;
+};
+
+// Find a promotion code that can be redeemed on this plan right now
+export const findRedeemablePromotionCode = async (
+  code: string,
+  plan: Plan
+): Promise<{ promotionCode: PromotionCode & { coupon: CouponWithPlans } } | { error: string }> => {
+  const promotionCode = await prisma.promotionCode.findUnique({
+    where: { code: normalisePromotionCode(code) },
+    include: { coupon: { include: { plans: true } } }
+  });
+  if (!promotionCode) {
+    return { error: 'This code is not valid' };
+  }
+
+  const problem = redemptionProblem(promotionCode.coupon, promotionCode, plan, new Date());
+  return problem ? { error: problem } : { promotionCode };
+};
+
+// Redemptions left under a limit, as an updateMany filter: the count only
+// moves if it is still below the limit when the database applies it
+const belowLimit = (limit: number | null) => (limit === null ? {} : { timesRedeemed: { lt: limit } });
+
+// Count a redemption against the code and its coupon before it is used, so
+// parallel checkouts can't take the last redemption twice. Returns false if
+// either has been fully redeemed in the meantime.
+export const claimRedemption = (promotionCode: PromotionCode & { coupon: Coupon }): Promise<boolean> =>
+  prisma.$transaction(async (tx) => {
+    const code = await tx.promotionCode.updateMany({
+      where: { id: promotionCode.id, ...belowLimit(promotionCode.maxRedemptions) },
+      data: { timesRedeemed: { increment: 1 } }
+    });
+    if (code.count === 0) {
+      return false;
+    }
+
+    const coupon = await tx.coupon.updateMany({
+      where: { id: promotionCode.couponId, ...belowLimit(promotionCode.coupon.maxRedemptions) },
+      data: { timesRedeemed: { increment: 1 } }
+    });
+    if (coupon.count === 0) {
+      await tx.promotionCode.update({
+        where: { id: promotionCode.id },
+        data: { timesRedeemed: { decrement: 1 } }
+      });
+      return false;
+    }
+
+    return true;
+  });
+
+// Give back a claimed redemption that was never used
+export const releaseRedemption = (promotionCode: PromotionCode) =>
+  prisma.$transaction([
+    prisma.promotionCode.update({
+      where: { id: promotionCode.id },
+      data: { timesRedeemed: { decrement: 1 } }
+    }),
+    prisma.coupon.update({
+      where: { id: promotionCode.couponId },
+      data: { timesRedeemed: { decrement: 1 } }
+    })
+  ]);
@@ -0,0 +1,218 @@
+import fs from 'fs/promises';
+import path from 'path';
+import JSZip from 'jszip';
+import { prisma } from '../index';
+import { sendMail } from './mailer';
+import { buildFrontendUrl, dataExportReadyEmail } from './emailTemplates';
+import logger from './logger';
+
+export const DATA_EXPORT_EXPIRES_HOURS = Number(process.env.DATA_EXPORT_EXPIRES_HOURS) || 48;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Archives hold personal data, so they are kept apart from the public uploads
+const getExportDirectory = (): string => path.resolve(process.env.DATA_EXPORT_DIR || 'exports');
+
+const formatCsvValue = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text = value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  // Keep spreadsheets from evaluating text as formulas
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: Record<string, unknown>[]): string => {
+  const columns = Array.from(new Set(rows.flatMap((row) => Object.keys(row))));
+  const lines = [columns.join(','), ...rows.map((row) => columns.map((column) => formatCsvValue(row[column])).join(','))];
+  return `${lines.join('\r\n')}\r\n`;
+};
+
+// Everything we hold about the user, minus credentials and secrets
+const collectUserData = async (userId: string) => {
+  const [user, memberships, subscriptions, payments, usageRecords, activities, sessions] = await Promise.all([
+    prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: {
+        id: true,
+        email: true,
+        firstName: true,
+        lastName: true,
+        role: true,
+        isEmailVerified: true,
+        twoFactorEnabled: true,
+        stripeCustomerId: true,
+        createdAt: true,
+        updatedAt: true
+      }
+    }),
+    prisma.companyMembership.findMany({
+      where: { userId },
+      include: { company: true, customRole: { select: { name: true } } },
+      orderBy: { createdAt: 'asc' }
+    }),
+    prisma.subscription.findMany({
+      where: { userId },
+      include: { plan: { select: { name: true } } },
+      orderBy: { createdAt: 'asc' }
+    }),
+    prisma.payment.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+    prisma.usageRecord.findMany({ where: { subscription: { userId } }, orderBy: { timestamp: 'asc' } }),
+    prisma.userActivity.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+    prisma.session.findMany({
+      where: { userId },
+      select: {
+        id: true,
+        ipAddress: true,
+        userAgent: true,
+        createdAt: true,
+        lastUsedAt: true,
+        expiresAt: true,
+        revokedAt: true
+      },
+      orderBy: { createdAt: 'asc' }
+    })
+  ]);
+
+  const companies = memberships.map(({ company, customRole, role, createdAt }) => ({
+    id: company.id,
+    name: company.name,
+    domain: company.domain,
+    industry: company.industry,
+    size: company.size,
+    role,
+    customRole: customRole?.name ?? null,
+    isOwner: company.ownerId === userId,
+    joinedAt: createdAt
+  }));
+
+  return {
+    user,
+    companies,
+    subscriptions: subscriptions.map(({ plan, ...subscription }) => ({ ...subscription, planName: plan.name })),
+    payments,
+    usageRecords,
+    activities,
+    sessions
+  };
+};
+
+export const buildDataExportArchive = async (userId: string): Promise<Buffer> => {
+  const data = await collectUserData(userId);
+  const zip = new JSZip();
+
+  zip.file(
+    'README.txt',
+    [
+      `Account data for ${data.user.email}, exported ${new Date().toISOString()}.`,
+      '',
+      'data.json holds everything in one file. Each CSV file holds one kind of record:',
+      'user, companies, subscriptions, payments, usage records, activity log and sign-in sessions.'
+    ].join('\n')
+  );
+  zip.file('data.json', JSON.stringify(data, null, 2));
+  zip.file('user.csv', toCsv([data.user]));
+  zip.file('companies.csv', toCsv(data.companies));
+  zip.file('subscriptions.csv', toCsv(data.subscriptions));
+  zip.file('payments.csv', toCsv(data.payments));
+  zip.file('usage_records.csv', toCsv(data.usageRecords));
+  zip.file('activities.csv', toCsv(data.activities));
+  zip.file('sessions.csv', toCsv(data.sessions));
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+};
+
+// Build the archive for a pending export. Safe to call more than once: only
+// the first call claims the export.
+export const processDataExport = async (exportId: string): Promise<void> => {
+  const claimed = await prisma.dataExport.updateMany({
+    where: { id: exportId, status: 'PENDING' },
+    data: { status: 'PROCESSING' }
+  });
+  if (claimed.count === 0) {
+    return;
+  }
+
+  const dataExport = await prisma.dataExport.findUniqueOrThrow({ where: { id: exportId }, include: { user: true } });
+
+  try {
+    const archive = await buildDataExportArchive(dataExport.userId);
+
+    const directory = getExportDirectory();
+    await fs.mkdir(directory, { recursive: true });
+    const filePath = path.join(directory, `${dataExport.id}.zip`);
+    await fs.writeFile(filePath, archive);
+
+    await prisma.dataExport.update({
+      where: { id: dataExport.id },
+      data: {
+        status: 'COMPLETED',
+        filePath,
+        fileSize: archive.length,
+        completedAt: new Date(),
+        expiresAt: new Date(Date.now() + DATA_EXPORT_EXPIRES_HOURS * 60 * 60 * 1000)
+      }
+    });
+
+    logger.info('Data export completed', { exportId: dataExport.id, userId: dataExport.userId, bytes: archive.length });
+  } catch (error) {
+    logger.error('Data export failed', { exportId: dataExport.id, error: (error as Error).message });
+    await prisma.dataExport.update({
+      where: { id: dataExport.id },
+      data: { status: 'FAILED', error: 'The export could not be created' }
+    });
+    return;
+  }
+
+  try {
+    await sendMail({
+      to: dataExport.user.email,
+      ...dataExportReadyEmail(dataExport.user, buildFrontendUrl('/settings', { tab: 'privacy' }), DATA_EXPORT_EXPIRES_HOURS)
+    });
+  } catch (mailError) {
+    // The export is still listed in the user's settings
+    logger.error('Failed to send data export email', mailError);
+  }
+};
+
+// Run an export after the current request has been answered
+export const enqueueDataExport = (exportId: string): void => {
+  setImmediate(() => {
+    processDataExport(exportId).catch((error) => logger.error('Data export job error', error));
+  });
+};
+
+// Delete archives whose download window has passed
+export const purgeExpiredDataExports = async (): Promise<number> => {
+  const expired = await prisma.dataExport.findMany({
+    where: { status: 'COMPLETED', expiresAt: { lt: new Date() } }
+  });
+
+  for (const dataExport of expired) {
+    if (dataExport.filePath) {
+      await fs.rm(dataExport.filePath, { force: true });
+    }
+    await prisma.dataExport.update({
+      where: { id: dataExport.id },
+      data: { status: 'EXPIRED', filePath: null }
+    });
+  }
+  return expired.length;
+};
+
+// Pick up exports interrupted by a restart and purge expired archives every hour
+export const startDataExportWorker = async (): Promise<void> => {
+  await prisma.dataExport.updateMany({ where: { status: 'PROCESSING' }, data: { status: 'PENDING' } });
+
+  const pending = await prisma.dataExport.findMany({ where: { status: 'PENDING' }, select: { id: true } });
+  pending.forEach(({ id }) => enqueueDataExport(id));
+
+  const purge = () => {
+    purgeExpiredDataExports().catch((error) => logger.error('Data export purge error', error));
+  };
+  purge();
+  setInterval(purge, PURGE_INTERVAL_MS).unref();
+};
@@ -0,0 +1,65 @@
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import dns from 'dns/promises';
+
+// Stand in for the app's Prisma client before loading anything that imports it;
+// resolving TXT records never touches the database
+require.cache[require.resolve('../index')] = { exports: { prisma: {} } } as NodeModule;
+
+const {
+  createDnsResolver,
+  createStaticResolver,
+  getEmailDomain,
+  getVerificationRecord,
+  isDomainVerificationPublished,
+  normalizeDomain,
+  setTxtResolver
+} = require('./domains') as typeof import('./domains');
+
+test('normalises domains and email domains', () => {
+  assert.equal(normalizeDomain(' Example.COM. '), 'example.com');
+  assert.equal(getEmailDomain('Jane@Example.com'), 'example.com');
+  assert.equal(getEmailDomain('no-at-sign'), '');
+});
+
+test('finds the verification record among the TXT values published for the domain', async () => {
+  const { name, value } = getVerificationRecord('example.com', 'token-123');
+  assert.equal(name, '_saas-dashboard-verification.example.com');
+
+  setTxtResolver(createStaticResolver({ [name]: ['v=spf1 -all', ` ${value} `] }));
+  assert.equal(await isDomainVerificationPublished('example.com', 'token-123'), true);
+  assert.equal(await isDomainVerificationPublished('example.com', 'another-token'), false);
+  assert.equal(await isDomainVerificationPublished('other.example', 'token-123'), false);
+});
+
+test('does not accept the token published at the bare domain or as part of a longer value', async () => {
+  const { value } = getVerificationRecord('example.com', 'token-123');
+
+  setTxtResolver(createStaticResolver({ 'example.com': [value] }));
+  assert.equal(await isDomainVerificationPublished('example.com', 'token-123'), false);
+
+  setTxtResolver(createStaticResolver({ '_saas-dashboard-verification.example.com': [`${value}-extra`] }));
+  assert.equal(await isDomainVerificationPublished('example.com', 'token-123'), false);
+});
+
+test('joins chunked DNS answers and treats missing records as none', async () => {
+  const resolver = createDnsResolver();
+  const resolveTxt = mock.method(dns, 'resolveTxt', async (hostname: string) => {
+    if (hostname === 'missing.example') {
+      throw Object.assign(new Error('queryTxt ENODATA'), { code: 'ENODATA' });
+    }
+    if (hostname === 'broken.example') {
+      throw Object.assign(new Error('queryTxt ESERVFAIL'), { code: 'ESERVFAIL' });
+    }
+    return [['saas-dashboard-', 'verification=abc'], ['v=spf1 -all']];
+  });
+
+  try {
+    assert.deepEqual(await resolver.resolveTxt('example.com'), ['saas-dashboard-verification=abc', 'v=spf1 -all']);
+    assert.deepEqual(await resolver.resolveTxt('missing.example'), []);
+    // Lookup failures are reported rather than read as "not published"
+    await assert.rejects(resolver.resolveTxt('broken.example'), { code: 'ESERVFAIL' });
+  } finally {
+    resolveTxt.mock.restore();
+  }
+});
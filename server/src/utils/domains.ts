@@ -0,0 +1,118 @@
+import dns from 'dns/promises';
+import { prisma } from '../index';
+import { addMembership } from './memberships';
+import { checkMemberLimit } from './entitlements';
+import { syncSeats } from './seats';
+
+const VERIFICATION_RECORD_PREFIX = '_saas-dashboard-verification';
+const VERIFICATION_VALUE_PREFIX = 'saas-dashboard-verification=';
+
+export interface TxtResolver {
+  name: string;
+  resolveTxt: (hostname: string) => Promise<string[]>;
+}
+
+// Looks records up in public DNS
+export const createDnsResolver = (): TxtResolver => ({
+  name: 'dns',
+  resolveTxt: async (hostname) => {
+    try {
+      const records = await dns.resolveTxt(hostname);
+      // Long TXT values arrive split into chunks
+      return records.map((chunks) => chunks.join(''));
+    } catch (error: any) {
+      if (error.code === 'ENODATA' || error.code === 'ENOTFOUND') {
+        return [];
+      }
+      throw error;
+    }
+  }
+});
+
+// Answers from a fixed table of hostname -> TXT values (tests, local development)
+export const createStaticResolver = (records: Record<string, string[]>): TxtResolver => ({
+  name: 'static',
+  resolveTxt: async (hostname) => records[hostname] || []
+});
+
+let resolver: TxtResolver | null = null;
+
+// Replace the active resolver, e.g. with a static one in tests
+export const setTxtResolver = (nextResolver: TxtResolver): void => {
+  resolver = nextResolver;
+};
+
+export const normalizeDomain = (domain: string): string => domain.trim().toLowerCase().replace(/\.$/, '');
+
+export const getEmailDomain = (email: string): string => normalizeDomain(email.split('@')[1] || '');
+
+// The TXT record a company publishes to prove it controls its domain
+export const getVerificationRecord = (domain: string, token: string) => ({
+  name: `${VERIFICATION_RECORD_PREFIX}.${domain}`,
+  value: `${VERIFICATION_VALUE_PREFIX}${token}`
+});
+
+export const isDomainVerificationPublished = async (domain: string, token: string): Promise<boolean> => {
+  if (!resolver) {
+    resolver = createDnsResolver();
+  }
+
+  const { name, value } = getVerificationRecord(domain, token);
+  const records = await resolver.resolveTxt(name);
+  return records.some((record) => record.trim() === value);
+};
+
+// The company that new users with this email address can join, if any
+export const findJoinableCompany = (email: string) =>
+  prisma.company.findFirst({
+    where: {
+      domain: getEmailDomain(email),
+      domainVerifiedAt: { not: null },
+      domainJoinPolicy: { not: 'DISABLED' }
+    }
+  });
+
+// Approve a pending join request and add the user as a member. Returns false
+// if someone else already decided it.
+export const approveJoinRequest = async (
+  request: { id: string; userId: string; companyId: string },
+  decidedById: string | null
+): Promise<boolean> => {
+  const claimed = await prisma.companyJoinRequest.updateMany({
+    where: { id: request.id, status: 'PENDING' },
+    data: { status: 'APPROVED', decidedAt: new Date(), decidedById }
+  });
+
+  if (claimed.count === 0) {
+    return false;
+  }
+
+  await addMembership(request.userId, request.companyId, 'USER');
+  await syncSeats(request.companyId, 'joined');
+  return true;
+};
+
+// Let the user into companies that admit their domain automatically. Runs
+// once the user has proved they own their email address.
+export const completeAutomaticJoins = async (userId: string): Promise<string[]> => {
+  const requests = await prisma.companyJoinRequest.findMany({
+    where: {
+      userId,
+      status: 'PENDING',
+      company: { domainJoinPolicy: 'AUTOMATIC', domainVerifiedAt: { not: null } }
+    },
+    include: { company: true }
+  });
+
+  const joined: string[] = [];
+  for (const request of requests) {
+    // A full company leaves the request for an admin to approve once there's room
+    if (await checkMemberLimit(request.companyId)) {
+      continue;
+    }
+    if (await approveJoinRequest(request, null)) {
+      joined.push(request.company.name);
+    }
+  }
+  return joined;
+};
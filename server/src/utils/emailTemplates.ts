@@ -0,0 +1,174 @@
+import { MailMessage } from './mailer';
+
+type EmailContent = Omit<MailMessage, 'to'>;
+
+interface Recipient {
+  firstName: string;
+}
+
+const escapeHtml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+// Build an absolute link into the client app
+export const buildFrontendUrl = (pathname: string, params: Record<string, string> = {}): string => {
+  const url = new URL(pathname, process.env.FRONTEND_URL || 'http://localhost:3000');
+  Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+  return url.toString();
+};
+
+export const passwordResetEmail = (user: Recipient, resetUrl: string, expiresInMinutes: number): EmailContent => ({
+  subject: 'Reset your password',
+  text: [
+    `Hi ${user.firstName},`,
+    '',
+    'We received a request to reset your password. Use the link below to choose a new one:',
+    resetUrl,
+    '',
+    `This link expires in ${expiresInMinutes} minutes and can only be used once.`,
+    'If you did not request a password reset, you can ignore this email.'
+  ].join('\n'),
+  html: `
+    <p>Hi ${escapeHtml(user.firstName)},</p>
+    <p>We received a request to reset your password. Use the link below to choose a new one:</p>
+    <p><a href="${resetUrl}">Reset password</a></p>
+    <p>This link expires in ${expiresInMinutes} minutes and can only be used once.
+    If you did not request a password reset, you can ignore this email.</p>
+  `
+});
+
+export const emailVerificationEmail = (user: Recipient, verifyUrl: string): EmailContent => ({
+  subject: 'Verify your email address',
+  text: [
+    `Hi ${user.firstName},`,
+    '',
+    'Please confirm your email address by opening the link below:',
+    verifyUrl,
+    '',
+    'If you did not create an account, you can ignore this email.'
+  ].join('\n'),
+  html: `
+    <p>Hi ${escapeHtml(user.firstName)},</p>
+    <p>Please confirm your email address by opening the link below:</p>
+    <p><a href="${verifyUrl}">Verify email address</a></p>
+    <p>If you did not create an account, you can ignore this email.</p>
+  `
+});
+
+export const accountLockedEmail = (user: Recipient, unlockUrl: string, lockMinutes: number): EmailContent => ({
+  subject: 'Your account has been locked',
+  text: [
+    `Hi ${user.firstName},`,
+    '',
+    `We locked your account for ${lockMinutes} minutes after too many failed sign-in attempts.`,
+    'If this was you, you can unlock it straight away with the link below:',
+    unlockUrl,
+    '',
+    'If this was not you, we recommend resetting your password.'
+  ].join('\n'),
+  html: `
+    <p>Hi ${escapeHtml(user.firstName)},</p>
+    <p>We locked your account for ${lockMinutes} minutes after too many failed sign-in attempts.</p>
+    <p>If this was you, you can unlock it straight away: <a href="${unlockUrl}">Unlock account</a></p>
+    <p>If this was not you, we recommend resetting your password.</p>
+  `
+});
+
+export const teamInvitationEmail = (
+  inviterName: string,
+  companyName: string,
+  acceptUrl: string,
+  expiresInDays: number
+): EmailContent => ({
+  subject: `${inviterName} invited you to join ${companyName}`,
+  text: [
+    'Hi,',
+    '',
+    `${inviterName} invited you to join ${companyName} on SAAS Dashboard. Use the link below to accept or decline:`,
+    acceptUrl,
+    '',
+    `This invitation expires in ${expiresInDays} days.`,
+    'If you were not expecting it, you can ignore this email.'
+  ].join('\n'),
+  html: `
+    <p>Hi,</p>
+    <p>${escapeHtml(inviterName)} invited you to join ${escapeHtml(companyName)} on SAAS Dashboard.</p>
+    <p><a href="${acceptUrl}">View invitation</a></p>
+    <p>This invitation expires in ${expiresInDays} days.
+    If you were not expecting it, you can ignore this email.</p>
+  `
+});
+
+export const dataExportReadyEmail = (user: Recipient, downloadUrl: string, expiresInHours: number): EmailContent => ({
+  subject: 'Your data export is ready',
+  text: [
+    `Hi ${user.firstName},`,
+    '',
+    'The copy of your account data you asked for is ready. Sign in and download it from your settings:',
+    downloadUrl,
+    '',
+    `The download is available for ${expiresInHours} hours.`,
+    'If you did not request this export, please reset your password.'
+  ].join('\n'),
+  html: `
+    <p>Hi ${escapeHtml(user.firstName)},</p>
+    <p>The copy of your account data you asked for is ready. Sign in and download it from your settings:</p>
+    <p><a href="${downloadUrl}">Download your data</a></p>
+    <p>The download is available for ${expiresInHours} hours.
+    If you did not request this export, please reset your password.</p>
+  `
+});
+
+export const accountDeletionScheduledEmail = (user: Recipient, cancelUrl: string, deletionDate: Date): EmailContent => ({
+  subject: 'Your account is scheduled for deletion',
+  text: [
+    `Hi ${user.firstName},`,
+    '',
+    `We received a request to delete your account. It will be deleted on ${deletionDate.toDateString()}.`,
+    'Until then you can keep the account by signing in and canceling the deletion:',
+    cancelUrl,
+    '',
+    'If you did not request this, cancel the deletion and reset your password.'
+  ].join('\n'),
+  html: `
+    <p>Hi ${escapeHtml(user.firstName)},</p>
+    <p>We received a request to delete your account. It will be deleted on ${deletionDate.toDateString()}.</p>
+    <p>Until then you can keep the account by signing in and canceling the deletion: <a href="${cancelUrl}">Keep my account</a></p>
+    <p>If you did not request this, cancel the deletion and reset your password.</p>
+  `
+});
+
+export const trialEndingEmail = (
+  user: Recipient,
+  planName: string,
+  trialEnd: Date,
+  paymentMethodMissing: boolean,
+  manageUrl: string
+): EmailContent => {
+  const nextStep = paymentMethodMissing
+    ? 'Add a payment method before then to keep your subscription, otherwise it ends with the trial.'
+    : 'Your subscription continues automatically and your card will be charged then.';
+
+  return {
+    subject: `Your ${planName} trial ends on ${trialEnd.toDateString()}`,
+    text: [
+      `Hi ${user.firstName},`,
+      '',
+      `Your free trial of ${planName} ends on ${trialEnd.toDateString()}.`,
+      nextStep,
+      '',
+      'Manage your subscription:',
+      manageUrl
+    ].join('\n'),
+    html: `
+    <p>Hi ${escapeHtml(user.firstName)},</p>
+    <p>Your free trial of ${escapeHtml(planName)} ends on ${trialEnd.toDateString()}.</p>
+    <p>${nextStep}</p>
+    <p><a href="${manageUrl}">Manage your subscription</a></p>
+  `
+  };
+};
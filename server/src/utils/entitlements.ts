@@ -0,0 +1,138 @@
+import Joi from 'joi';
+import { Plan, SubscriptionStatus } from '@prisma/client';
+import { prisma } from '../index';
+
+// What a plan lets its subscribers do. Plans store these under `entitlements`;
+// `features` stays as the marketing copy shown on the Plans page. A limit of
+// null means unlimited, and anything a plan leaves out falls back to the free tier.
+
+export const ENTITLEMENT_LIMITS = ['max_users', 'max_api_keys'] as const;
+
+export const ENTITLEMENT_FLAGS = ['advanced_analytics', 'custom_integrations', 'priority_support', 'sso'] as const;
+
+export type EntitlementLimit = (typeof ENTITLEMENT_LIMITS)[number];
+export type EntitlementFlag = (typeof ENTITLEMENT_FLAGS)[number];
+export type Entitlements = Record<EntitlementLimit, number | null> & Record<EntitlementFlag, boolean>;
+
+// Accounts without a live subscription
+export const FREE_ENTITLEMENTS: Entitlements = {
+  max_users: 3,
+  max_api_keys: 2,
+  advanced_analytics: false,
+  custom_integrations: false,
+  priority_support: false,
+  sso: false
+};
+
+const LIMIT_LABELS: Record<EntitlementLimit, string> = {
+  max_users: 'team members',
+  max_api_keys: 'API keys'
+};
+
+// Subscriptions keep their entitlements while a failed payment is retried
+const ENTITLED_STATUSES: SubscriptionStatus[] = ['ACTIVE', 'TRIALING', 'PAST_DUE'];
+
+export const entitlementsSchema = Joi.object({
+  ...Object.fromEntries(ENTITLEMENT_LIMITS.map((limit) => [limit, Joi.number().integer().min(0).allow(null)])),
+  ...Object.fromEntries(ENTITLEMENT_FLAGS.map((flag) => [flag, Joi.boolean()]))
+});
+
+// Subscriptions belong to a company, or to a user outside of any company
+export type EntitlementScope = { companyId: string } | { userId: string; companyId: null };
+
+export const entitlementScope = (user: { id: string; companyId?: string | null }): EntitlementScope =>
+  user.companyId ? { companyId: user.companyId } : { userId: user.id, companyId: null };
+
+// Per-seat plans take any number of members, buying seats as they join
+export const planEntitlements = (plan: Plan): Entitlements => ({
+  ...FREE_ENTITLEMENTS,
+  ...(plan.entitlements as Partial<Entitlements>),
+  ...(plan.perSeat && { max_users: null })
+});
+
+// The most generous of each entitlement across the scope's live subscriptions
+export const resolveEntitlements = async (scope: EntitlementScope): Promise<Entitlements> => {
+  const subscriptions = await prisma.subscription.findMany({
+    where: { ...scope, status: { in: ENTITLED_STATUSES } },
+    include: { plan: true }
+  });
+  if (subscriptions.length === 0) {
+    return { ...FREE_ENTITLEMENTS };
+  }
+
+  const plans = subscriptions.map((subscription) => planEntitlements(subscription.plan));
+  const entitlements = { ...plans[0] };
+  for (const plan of plans.slice(1)) {
+    for (const limit of ENTITLEMENT_LIMITS) {
+      const current = entitlements[limit];
+      entitlements[limit] = current === null || plan[limit] === null ? null : Math.max(current, plan[limit]!);
+    }
+    for (const flag of ENTITLEMENT_FLAGS) {
+      entitlements[flag] = entitlements[flag] || plan[flag];
+    }
+  }
+  return entitlements;
+};
+
+export const getEntitlements = (user: { id: string; companyId?: string | null }) =>
+  resolveEntitlements(entitlementScope(user));
+
+export const getCompanyEntitlements = (companyId: string) => resolveEntitlements({ companyId });
+
+// Response body for an action that would go over a limit
+export const limitReachedError = (limit: EntitlementLimit, value: number) => ({
+  error: `Your plan allows up to ${value} ${LIMIT_LABELS[limit]}. Upgrade to add more.`,
+  code: 'PLAN_LIMIT_REACHED',
+  entitlement: limit,
+  limit: value
+});
+
+const countActiveApiKeys = (scope: EntitlementScope) =>
+  prisma.apiKey.count({
+    where: {
+      ...scope,
+      revokedAt: null,
+      OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }]
+    }
+  });
+
+const countPendingInvitations = (companyId: string) =>
+  prisma.companyInvitation.count({
+    where: { companyId, acceptedAt: null, declinedAt: null, revokedAt: null, expiresAt: { gt: new Date() } }
+  });
+
+// Whether the company can take another member. Pending invitations hold a seat
+// when deciding whether to send a new one.
+export const checkMemberLimit = async (companyId: string, { includeInvitations = false } = {}) => {
+  const { max_users: limit } = await getCompanyEntitlements(companyId);
+  if (limit === null) {
+    return null;
+  }
+
+  const [members, invitations] = await Promise.all([
+    prisma.companyMembership.count({ where: { companyId } }),
+    includeInvitations ? countPendingInvitations(companyId) : 0
+  ]);
+  return members + invitations >= limit ? limitReachedError('max_users', limit) : null;
+};
+
+// Whether another API key can be created in the scope
+export const checkApiKeyLimit = async (scope: EntitlementScope) => {
+  const { max_api_keys: limit } = await resolveEntitlements(scope);
+  if (limit === null) {
+    return null;
+  }
+  return (await countActiveApiKeys(scope)) >= limit ? limitReachedError('max_api_keys', limit) : null;
+};
+
+// How much of each limit is in use
+export const getEntitlementUsage = async (
+  user: { id: string; companyId?: string | null }
+): Promise<Record<EntitlementLimit, number>> => {
+  const scope = entitlementScope(user);
+  const [members, apiKeys] = await Promise.all([
+    user.companyId ? prisma.companyMembership.count({ where: { companyId: user.companyId } }) : 1,
+    countActiveApiKeys(scope)
+  ]);
+  return { max_users: members, max_api_keys: apiKeys };
+};
@@ -0,0 +1,126 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BillingCardError, BillingEvent } from './billing';
+import { createFakeBillingProvider, FakeBillingProvider, FakePrice } from './fakeBillingProvider';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PRICES: Record<string, FakePrice> = {
+  price_basic: { amount: 1000, currency: 'usd', interval: 'month', intervalCount: 1 },
+  price_pro: { amount: 3000, currency: 'usd', interval: 'month', intervalCount: 1 }
+};
+
+// A fake with a clock the test controls, whose webhooks are verified like the app does
+const setup = () => {
+  let clock = new Date('2025-01-01T00:00:00Z');
+  const delivered: BillingEvent[] = [];
+  const billing = createFakeBillingProvider({
+    getPrice: async (priceId) => PRICES[priceId],
+    deliver: async (_event, payload, signature) => {
+      delivered.push(billing.constructEvent(Buffer.from(payload), signature));
+    },
+    deliveryDelayMs: 0,
+    now: () => clock
+  });
+
+  return {
+    billing,
+    delivered,
+    setClock: (date: Date) => {
+      clock = date;
+    },
+    // Webhooks go out one after another on timers
+    flush: async () => {
+      const deadline = Date.now() + 2000;
+      while (delivered.length < billing.events.length && Date.now() < deadline) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+    }
+  };
+};
+
+const subscribe = async (billing: FakeBillingProvider, paymentMethodId: string | null, trialDays?: number) => {
+  const customer = await billing.createCustomer({ email: 'jane@example.com', name: 'Jane Doe', metadata: {} });
+  if (paymentMethodId) {
+    await billing.attachPaymentMethod(customer.id, paymentMethodId);
+  }
+  return billing.createSubscription({ customerId: customer.id, priceId: 'price_basic', quantity: 1, trialDays });
+};
+
+test('charges, prorates, renews and delivers signed webhooks', async () => {
+  const { billing, delivered, setClock, flush } = setup();
+
+  const subscription = await subscribe(billing, 'pm_card_visa');
+  assert.equal(subscription.status, 'ACTIVE');
+  assert.equal(subscription.currentPeriodEnd.toISOString(), '2025-02-01T00:00:00.000Z');
+  assert.equal(billing.invoices[0].amountPaid, 1000);
+
+  // Two more seats with half of January left
+  setClock(new Date('2025-01-16T12:00:00Z'));
+  await billing.updateSubscription(subscription.id, { quantity: 3 });
+  assert.equal(billing.invoices[1].amountPaid, 1000);
+
+  // Pro from the next period on
+  await billing.schedulePriceChange(subscription.id, { priceId: 'price_pro', quantity: 3 });
+  await billing.advanceTo(new Date('2025-02-01T00:00:00Z'));
+
+  const renewed = await billing.getSubscription(subscription.id);
+  assert.equal(renewed.priceId, 'price_pro');
+  assert.equal(renewed.status, 'ACTIVE');
+  assert.equal(renewed.currentPeriodEnd.toISOString(), '2025-03-01T00:00:00.000Z');
+  assert.equal(billing.invoices[2].amountPaid, 9000);
+
+  await flush();
+  assert.deepEqual(
+    delivered.map((event) => event.id),
+    billing.events.map((event) => event.id)
+  );
+  assert.equal(delivered.filter((event) => event.type === 'invoice.payment_succeeded').length, 3);
+  assert.throws(() => billing.constructEvent(Buffer.from(JSON.stringify({ id: delivered[0].id })), 'forged'));
+});
+
+test('cancels a trial that ends without a payment method', async () => {
+  const { billing, flush } = setup();
+
+  const subscription = await subscribe(billing, null, 14);
+  assert.equal(subscription.status, 'TRIALING');
+  assert.equal(billing.invoices.length, 0);
+
+  await billing.advanceTo(new Date(subscription.currentPeriodEnd.getTime() + DAY_MS));
+
+  assert.equal((await billing.getSubscription(subscription.id)).status, 'CANCELED');
+  assert.equal(billing.events[billing.events.length - 1].type, 'subscription.deleted');
+  await flush();
+});
+
+test('rejects declined cards', async () => {
+  const { billing } = setup();
+
+  await assert.rejects(subscribe(billing, 'pm_card_chargeDeclined'), BillingCardError);
+});
+
+test('picks up restored subscriptions without reusing their IDs', async () => {
+  const first = setup();
+  const subscription = await subscribe(first.billing, 'pm_card_visa');
+  await first.flush();
+
+  const { billing, flush } = setup();
+  billing.restore({
+    subscriptions: [{ ...subscription, status: 'ACTIVE', hasPaymentMethod: true }],
+    schedules: [],
+    coupons: [],
+    promotionCodes: [],
+    ids: [subscription.id, subscription.customerId, ...first.billing.invoices.map((invoice) => invoice.paymentId!)]
+  });
+
+  const updated = await billing.updateSubscription(subscription.id, { cancelAtPeriodEnd: true });
+  assert.equal(updated.cancelAtPeriodEnd, true);
+
+  const another = await subscribe(billing, 'pm_card_visa');
+  assert.notEqual(another.id, subscription.id);
+  assert.notEqual(another.customerId, subscription.customerId);
+
+  await billing.advanceTo(subscription.currentPeriodEnd);
+  assert.equal((await billing.getSubscription(subscription.id)).status, 'CANCELED');
+  await flush();
+});
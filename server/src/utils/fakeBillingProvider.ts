@@ -0,0 +1,623 @@
+import crypto from 'crypto';
+import {
+  BillingCardError,
+  BillingCouponParams,
+  BillingCustomer,
+  BillingEvent,
+  BillingInvoice,
+  BillingInvoiceLine,
+  BillingProvider,
+  BillingRefund,
+  BillingSubscription
+} from './billing';
+import logger from './logger';
+
+// In-memory billing for offline development and tests. Every card is accepted
+// (except payment method IDs containing "Declined", e.g. Stripe's
+// `pm_card_chargeDeclined`), charges succeed straight away and webhook events
+// are delivered to the app like Stripe would. State lives in memory;
+// `restoreFakeBillingState` reloads what the database knows after a restart.
+
+export interface FakePrice {
+  amount: number;
+  currency: string;
+  interval: string;
+  intervalCount: number;
+}
+
+export interface FakeBillingOptions {
+  // Look up what a price costs; defaults to the plan with that `stripePriceId`
+  getPrice?: (priceId: string) => Promise<FakePrice>;
+  // Receives every event in order; defaults to posting it to the webhook endpoint
+  deliver?: (event: BillingEvent, payload: string, signature: string) => Promise<void>;
+  // Wait before each delivery so the request that caused it has saved its changes
+  deliveryDelayMs?: number;
+  now?: () => Date;
+}
+
+export interface FakeUsageReport {
+  subscriptionItemId: string;
+  quantity: number;
+  timestamp: Date;
+  idempotencyKey: string;
+}
+
+export interface FakeBillingProvider extends BillingProvider {
+  events: BillingEvent[];
+  invoices: BillingInvoice[];
+  // Usage reported to metered items; it is recorded but never charged
+  usageReports: FakeUsageReport[];
+  // Renew, cancel, end trials or apply scheduled changes to subscriptions whose period ended by `date`
+  advanceTo: (date: Date) => Promise<void>;
+  // Take back state from an earlier run
+  restore: (state: FakeBillingState) => void;
+}
+
+export interface FakeSchedule {
+  id: string;
+  subscriptionId: string;
+  priceId: string;
+  quantity: number;
+}
+
+export interface FakeCoupon extends BillingCouponParams {
+  id: string;
+}
+
+export interface FakePromotionCode {
+  id: string;
+  couponId: string;
+  code: string;
+  maxRedemptions: number | null;
+  expiresAt: Date | null;
+  active: boolean;
+  timesRedeemed: number;
+}
+
+export interface FakeBillingState {
+  subscriptions: (BillingSubscription & { hasPaymentMethod: boolean })[];
+  schedules: FakeSchedule[];
+  coupons: FakeCoupon[];
+  promotionCodes: FakePromotionCode[];
+  // Every ID handed out before, so new ones don't collide with them
+  ids: string[];
+}
+
+export const FAKE_WEBHOOK_SECRET = 'whsec_fake';
+
+const sign = (payload: string) => crypto.createHmac('sha256', FAKE_WEBHOOK_SECRET).update(payload).digest('hex');
+
+// The app is loaded lazily so tests can use the fake without a database
+const loadPrisma = async () => (await import('../index')).prisma;
+
+const defaultGetPrice = async (priceId: string): Promise<FakePrice> => {
+  const prisma = await loadPrisma();
+  const plan = await prisma.plan.findUnique({ where: { stripePriceId: priceId } });
+  if (!plan) {
+    throw new Error(`No such price: ${priceId}`);
+  }
+  return { amount: plan.amount, currency: plan.currency, interval: plan.interval, intervalCount: plan.intervalCount };
+};
+
+const defaultDeliver = async (_event: BillingEvent, payload: string, signature: string) => {
+  const url =
+    process.env.FAKE_BILLING_WEBHOOK_URL || `http://localhost:${process.env.PORT || 3001}/api/webhooks/stripe`;
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'stripe-signature': signature },
+    body: payload
+  });
+  if (!response.ok) {
+    throw new Error(`Webhook delivery failed with status ${response.status}`);
+  }
+};
+
+// Billing periods a coupon lasts for; null when it never runs out
+const discountPeriods = (coupon: FakeCoupon, price: FakePrice): number | null => {
+  if (coupon.duration === 'forever') {
+    return null;
+  }
+  if (coupon.duration === 'once') {
+    return 1;
+  }
+  const monthsPerPeriod =
+    { day: 1 / 30, week: 7 / 30, month: 1, year: 12 }[price.interval as 'day' | 'week' | 'month' | 'year'] *
+    price.intervalCount;
+  return Math.max(1, Math.ceil(coupon.durationInMonths! / monthsPerPeriod));
+};
+
+const addInterval = (date: Date, price: FakePrice) => {
+  const next = new Date(date);
+  switch (price.interval) {
+    case 'day':
+      next.setUTCDate(next.getUTCDate() + price.intervalCount);
+      break;
+    case 'week':
+      next.setUTCDate(next.getUTCDate() + 7 * price.intervalCount);
+      break;
+    case 'year':
+      next.setUTCFullYear(next.getUTCFullYear() + price.intervalCount);
+      break;
+    default:
+      next.setUTCMonth(next.getUTCMonth() + price.intervalCount);
+  }
+  return next;
+};
+
+export const createFakeBillingProvider = (options: FakeBillingOptions = {}): FakeBillingProvider => {
+  const getPrice = options.getPrice || defaultGetPrice;
+  const deliver = options.deliver || defaultDeliver;
+  const deliveryDelayMs = options.deliveryDelayMs ?? 250;
+  const now = options.now || (() => new Date());
+
+  const customers = new Map<string, BillingCustomer & { defaultPaymentMethod: string | null }>();
+  const subscriptions = new Map<string, BillingSubscription>();
+  const schedules = new Map<string, FakeSchedule>();
+  const coupons = new Map<string, FakeCoupon>();
+  const promotionCodes = new Map<string, FakePromotionCode>();
+  const discounts = new Map<string, { coupon: FakeCoupon; periodsLeft: number | null }>();
+  const refunds: BillingRefund[] = [];
+  const events: BillingEvent[] = [];
+  const invoices: BillingInvoice[] = [];
+  const usageReports: FakeUsageReport[] = [];
+
+  // Sequential IDs keep runs reproducible
+  let sequence = 0;
+  const nextId = (prefix: string) => `${prefix}_fake_${++sequence}`;
+
+  // Deliver one at a time, in the order they happened
+  let deliveries = Promise.resolve();
+  const emit = (event: BillingEvent) => {
+    events.push(event);
+    const payload = JSON.stringify({ id: event.id });
+    deliveries = deliveries
+      .then(() => new Promise<void>((resolve) => setTimeout(resolve, deliveryDelayMs)))
+      .then(() => deliver(event, payload, sign(payload)))
+      .catch((error) => {
+        logger.error('Fake billing webhook delivery failed', { eventId: event.id, error: error.message });
+      });
+  };
+
+  const findSubscription = (subscriptionId: string) => {
+    const subscription = subscriptions.get(subscriptionId);
+    if (!subscription) {
+      throw new Error(`No such subscription: ${subscriptionId}`);
+    }
+    return subscription;
+  };
+
+  const snapshot = (subscription: BillingSubscription): BillingSubscription => ({ ...subscription });
+
+  // Coupons take their share of renewals; prorations are charged in full
+  const charge = (
+    subscription: BillingSubscription,
+    amount: number,
+    currency: string,
+    description: string,
+    discountable = false
+  ) => {
+    const discount = discountable ? discounts.get(subscription.id) : undefined;
+    let discountAmount = 0;
+    if (discount && discount.periodsLeft !== 0) {
+      discountAmount = discount.coupon.percentOff
+        ? Math.round((amount * discount.coupon.percentOff) / 100)
+        : Math.min(amount, discount.coupon.amountOff!);
+      if (discount.periodsLeft !== null) {
+        discount.periodsLeft -= 1;
+      }
+    }
+
+    const total = amount - discountAmount;
+    const paid = total === 0 || !!customers.get(subscription.customerId)?.defaultPaymentMethod;
+    const invoice: BillingInvoice = {
+      id: nextId('in'),
+      subscriptionId: subscription.id,
+      paymentId: total > 0 ? nextId('pi') : null,
+      amountPaid: paid ? total : 0,
+      amountDue: total,
+      subtotal: amount,
+      discountAmount,
+      couponId: discountAmount > 0 ? discount!.coupon.id : null,
+      currency,
+      description,
+      receiptUrl: null
+    };
+    invoices.push(invoice);
+    emit({ id: nextId('evt'), type: paid ? 'invoice.payment_succeeded' : 'invoice.payment_failed', invoice });
+    return paid;
+  };
+
+  // Check a code can still be redeemed and count the redemption
+  const redeemPromotionCode = (promotionCodeId: string) => {
+    const promotionCode = promotionCodes.get(promotionCodeId);
+    const coupon = promotionCode && coupons.get(promotionCode.couponId);
+    if (
+      !promotionCode ||
+      !coupon ||
+      !promotionCode.active ||
+      (promotionCode.expiresAt && promotionCode.expiresAt <= now()) ||
+      (coupon.redeemBy && coupon.redeemBy <= now()) ||
+      (promotionCode.maxRedemptions !== null && promotionCode.timesRedeemed >= promotionCode.maxRedemptions)
+    ) {
+      throw new Error(`This promotion code cannot be redeemed: ${promotionCodeId}`);
+    }
+    promotionCode.timesRedeemed += 1;
+    return coupon;
+  };
+
+  // Unused time on the old price is credited, the rest of the period on the new one charged
+  const prorate = async (subscription: BillingSubscription, priceId: string, quantity: number, at: Date) => {
+    const [oldPrice, newPrice] = await Promise.all([getPrice(subscription.priceId), getPrice(priceId)]);
+    const periodLength = subscription.currentPeriodEnd.getTime() - subscription.currentPeriodStart.getTime();
+    const remaining = Math.max(0, subscription.currentPeriodEnd.getTime() - at.getTime()) / periodLength;
+
+    const lines: BillingInvoiceLine[] = [
+      {
+        description: `Unused time on ${subscription.quantity} × ${subscription.priceId}`,
+        amount: -Math.round(oldPrice.amount * subscription.quantity * remaining)
+      },
+      {
+        description: `Remaining time on ${quantity} × ${priceId}`,
+        amount: Math.round(newPrice.amount * quantity * remaining)
+      }
+    ];
+    return { currency: newPrice.currency, lines };
+  };
+
+  const provider: FakeBillingProvider = {
+    name: 'fake',
+    events,
+    invoices,
+    usageReports,
+
+    createCustomer: async ({ email, metadata }) => {
+      const customer = { id: nextId('cus'), email, metadata, defaultPaymentMethod: null };
+      customers.set(customer.id, customer);
+      emit({ id: nextId('evt'), type: 'customer.created', customer: { id: customer.id, email, metadata } });
+      return { id: customer.id, email, metadata };
+    },
+
+    updateCustomer: async (customerId, { email }) => {
+      const customer = customers.get(customerId);
+      if (customer) {
+        customer.email = email;
+      }
+    },
+
+    attachPaymentMethod: async (customerId, paymentMethodId) => {
+      // Customers from an earlier run are only known to the database
+      const customer = customers.get(customerId) || { id: customerId, email: null, metadata: {}, defaultPaymentMethod: null };
+      customers.set(customerId, customer);
+      if (paymentMethodId.includes('Declined')) {
+        throw new BillingCardError('Your card was declined.');
+      }
+      customer.defaultPaymentMethod = paymentMethodId;
+    },
+
+    createSubscription: async ({ customerId, priceId, quantity, meteredPriceId, trialDays, promotionCodeId }) => {
+      const price = await getPrice(priceId);
+      const coupon = promotionCodeId ? redeemPromotionCode(promotionCodeId) : null;
+      const start = now();
+      const trialEnd = trialDays ? new Date(start.getTime() + trialDays * 24 * 60 * 60 * 1000) : null;
+      const subscription: BillingSubscription = {
+        id: nextId('sub'),
+        customerId,
+        status: trialEnd ? 'TRIALING' : 'INCOMPLETE',
+        priceId,
+        quantity,
+        meteredItemId: meteredPriceId ? nextId('si') : null,
+        currentPeriodStart: start,
+        currentPeriodEnd: trialEnd || addInterval(start, price),
+        cancelAtPeriodEnd: false,
+        canceledAt: null,
+        trialStart: trialEnd ? start : null,
+        trialEnd,
+        clientSecret: null,
+        setupClientSecret: null
+      };
+      subscriptions.set(subscription.id, subscription);
+      if (coupon) {
+        discounts.set(subscription.id, { coupon, periodsLeft: discountPeriods(coupon, price) });
+      }
+
+      // No customer action is ever needed, so the first invoice is paid at once
+      if (!trialEnd && charge(subscription, price.amount * quantity, price.currency, 'Subscription creation', true)) {
+        subscription.status = 'ACTIVE';
+      }
+      emit({ id: nextId('evt'), type: 'subscription.updated', subscription: snapshot(subscription) });
+      return snapshot(subscription);
+    },
+
+    getSubscription: async (subscriptionId) => snapshot(findSubscription(subscriptionId)),
+
+    updateSubscription: async (subscriptionId, { priceId, quantity, prorationDate, cancelAtPeriodEnd }) => {
+      const subscription = findSubscription(subscriptionId);
+
+      if (priceId || quantity) {
+        const nextPriceId = priceId ?? subscription.priceId;
+        const nextQuantity = quantity ?? subscription.quantity;
+        const at = prorationDate ? new Date(prorationDate * 1000) : now();
+        const { currency, lines } = await prorate(subscription, nextPriceId, nextQuantity, at);
+        const amount = lines.reduce((total, line) => total + line.amount, 0);
+
+        subscription.priceId = nextPriceId;
+        subscription.quantity = nextQuantity;
+        // Credits are left on the customer's balance rather than refunded
+        if (amount > 0) {
+          charge(subscription, amount, currency, 'Subscription update');
+        }
+      }
+      if (cancelAtPeriodEnd !== undefined) {
+        subscription.cancelAtPeriodEnd = cancelAtPeriodEnd;
+      }
+
+      emit({ id: nextId('evt'), type: 'subscription.updated', subscription: snapshot(subscription) });
+      return snapshot(subscription);
+    },
+
+    cancelSubscription: async (subscriptionId) => {
+      const subscription = findSubscription(subscriptionId);
+      subscription.status = 'CANCELED';
+      subscription.canceledAt = now();
+      emit({ id: nextId('evt'), type: 'subscription.deleted', subscription: snapshot(subscription) });
+      return snapshot(subscription);
+    },
+
+    schedulePriceChange: async (subscriptionId, { priceId, quantity, scheduleId }) => {
+      findSubscription(subscriptionId);
+      const schedule = { id: scheduleId || nextId('sub_sched'), subscriptionId, priceId, quantity };
+      schedules.set(schedule.id, schedule);
+      return schedule.id;
+    },
+
+    releaseSchedule: async (scheduleId) => {
+      schedules.delete(scheduleId);
+    },
+
+    previewPriceChange: async (subscriptionId, { priceId, quantity, prorationDate }) =>
+      prorate(findSubscription(subscriptionId), priceId, quantity, new Date(prorationDate * 1000)),
+
+    createCoupon: async (params) => {
+      const coupon = { ...params, id: nextId('coupon') };
+      coupons.set(coupon.id, coupon);
+      return coupon.id;
+    },
+
+    // Like Stripe, subscriptions keep a discount they already have
+    deleteCoupon: async (couponId) => {
+      coupons.delete(couponId);
+      for (const promotionCode of promotionCodes.values()) {
+        if (promotionCode.couponId === couponId) {
+          promotionCode.active = false;
+        }
+      }
+    },
+
+    createPromotionCode: async ({ couponId, code, maxRedemptions, expiresAt }) => {
+      if (!coupons.has(couponId)) {
+        throw new Error(`No such coupon: ${couponId}`);
+      }
+      const promotionCode = {
+        id: nextId('promo'),
+        couponId,
+        code,
+        maxRedemptions: maxRedemptions ?? null,
+        expiresAt: expiresAt ?? null,
+        active: true,
+        timesRedeemed: 0
+      };
+      promotionCodes.set(promotionCode.id, promotionCode);
+      return promotionCode.id;
+    },
+
+    setPromotionCodeActive: async (promotionCodeId, active) => {
+      const promotionCode = promotionCodes.get(promotionCodeId);
+      if (!promotionCode) {
+        throw new Error(`No such promotion code: ${promotionCodeId}`);
+      }
+      promotionCode.active = active;
+    },
+
+    reportUsage: async (report) => {
+      const known = [...subscriptions.values()].some(
+        (subscription) => subscription.meteredItemId === report.subscriptionItemId
+      );
+      if (!known) {
+        throw new Error(`No such subscription item: ${report.subscriptionItemId}`);
+      }
+      // A retried request doesn't add a second report
+      if (!usageReports.some((candidate) => candidate.idempotencyKey === report.idempotencyKey)) {
+        usageReports.push({ ...report });
+      }
+    },
+
+    createRefund: async ({ paymentId, amount }) => {
+      const invoice = invoices.find((candidate) => candidate.paymentId === paymentId);
+      if (!invoice || invoice.amountPaid === 0) {
+        throw new Error(`No such payment: ${paymentId}`);
+      }
+      const refunded = refunds
+        .filter((refund) => refund.paymentId === paymentId)
+        .reduce((total, refund) => total + refund.amount, 0);
+      const refundAmount = amount ?? invoice.amountPaid - refunded;
+      if (refundAmount <= 0 || refunded + refundAmount > invoice.amountPaid) {
+        throw new Error('Refund amount is greater than the unrefunded amount');
+      }
+
+      const refund = { id: nextId('re'), paymentId, amount: refundAmount, status: 'succeeded' };
+      refunds.push(refund);
+      return refund;
+    },
+
+    constructEvent: (payload, signature) => {
+      const expected = sign(payload.toString());
+      if (
+        !signature ||
+        signature.length !== expected.length ||
+        !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+      ) {
+        throw new Error('No signatures found matching the expected signature for payload');
+      }
+
+      const { id } = JSON.parse(payload.toString());
+      const event = events.find((candidate) => candidate.id === id);
+      if (!event) {
+        throw new Error(`No such event: ${id}`);
+      }
+      return event;
+    },
+
+    advanceTo: async (date) => {
+      for (const subscription of subscriptions.values()) {
+        while (subscription.status !== 'CANCELED' && subscription.currentPeriodEnd <= date) {
+          const trialWithoutPaymentMethod =
+            subscription.status === 'TRIALING' && !customers.get(subscription.customerId)?.defaultPaymentMethod;
+          if (subscription.cancelAtPeriodEnd || trialWithoutPaymentMethod) {
+            subscription.status = 'CANCELED';
+            subscription.canceledAt = subscription.currentPeriodEnd;
+            emit({ id: nextId('evt'), type: 'subscription.deleted', subscription: snapshot(subscription) });
+            break;
+          }
+
+          const schedule = [...schedules.values()].find((candidate) => candidate.subscriptionId === subscription.id);
+          if (schedule) {
+            subscription.priceId = schedule.priceId;
+            subscription.quantity = schedule.quantity;
+            schedules.delete(schedule.id);
+          }
+
+          const price = await getPrice(subscription.priceId);
+          subscription.currentPeriodStart = subscription.currentPeriodEnd;
+          subscription.currentPeriodEnd = addInterval(subscription.currentPeriodStart, price);
+          const paid = charge(
+            subscription,
+            price.amount * subscription.quantity,
+            price.currency,
+            'Subscription renewal',
+            true
+          );
+          subscription.status = paid ? 'ACTIVE' : 'PAST_DUE';
+          emit({ id: nextId('evt'), type: 'subscription.updated', subscription: snapshot(subscription) });
+        }
+      }
+    },
+
+    restore: (state) => {
+      for (const { hasPaymentMethod, ...subscription } of state.subscriptions) {
+        subscriptions.set(subscription.id, { ...subscription });
+        const customer = customers.get(subscription.customerId);
+        customers.set(subscription.customerId, {
+          id: subscription.customerId,
+          email: null,
+          metadata: {},
+          defaultPaymentMethod: customer?.defaultPaymentMethod || (hasPaymentMethod ? 'pm_fake_restored' : null)
+        });
+      }
+      for (const schedule of state.schedules) {
+        schedules.set(schedule.id, { ...schedule });
+      }
+      for (const coupon of state.coupons) {
+        coupons.set(coupon.id, { ...coupon });
+      }
+      for (const promotionCode of state.promotionCodes) {
+        promotionCodes.set(promotionCode.id, { ...promotionCode });
+      }
+      for (const id of state.ids) {
+        sequence = Math.max(sequence, Number(id.match(/_fake_(\d+)$/)?.[1] ?? 0));
+      }
+    }
+  };
+
+  return provider;
+};
+
+const isFakeId = (id: string | null | undefined): id is string => !!id && id.includes('_fake_');
+
+// Rebuild the fake's state from the database, so subscriptions created before
+// a restart can still be changed, canceled and renewed. Discounts already
+// running on a subscription are not restored.
+export const restoreFakeBillingState = async (provider: FakeBillingProvider): Promise<number> => {
+  const prisma = await loadPrisma();
+  const [allSubscriptions, coupons, users, payments] = await Promise.all([
+    prisma.subscription.findMany({
+      where: { stripeSubscriptionId: { contains: '_fake_' } },
+      include: { user: true, scheduledPlan: true }
+    }),
+    prisma.coupon.findMany({
+      where: { stripeCouponId: { contains: '_fake_' } },
+      include: { plans: true, promotionCodes: true }
+    }),
+    prisma.user.findMany({ where: { stripeCustomerId: { contains: '_fake_' } }, select: { stripeCustomerId: true } }),
+    prisma.payment.findMany({ where: { stripePaymentId: { contains: '_fake_' } }, select: { stripePaymentId: true } })
+  ]);
+  const subscriptions = allSubscriptions.filter(
+    (subscription) => subscription.status !== 'CANCELED' && isFakeId(subscription.user.stripeCustomerId)
+  );
+
+  const state: FakeBillingState = {
+    subscriptions: subscriptions.map((subscription) => ({
+      id: subscription.stripeSubscriptionId,
+      customerId: subscription.user.stripeCustomerId!,
+      status: subscription.status,
+      priceId: subscription.priceId,
+      quantity: subscription.quantity,
+      meteredItemId: subscription.stripeMeteredItemId,
+      currentPeriodStart: subscription.currentPeriodStart,
+      currentPeriodEnd: subscription.currentPeriodEnd,
+      cancelAtPeriodEnd: subscription.cancelAtPeriodEnd,
+      canceledAt: subscription.canceledAt,
+      trialStart: subscription.trialStart,
+      trialEnd: subscription.trialEnd,
+      clientSecret: null,
+      setupClientSecret: null,
+      hasPaymentMethod: !subscription.paymentMethodMissing
+    })),
+    schedules: subscriptions
+      .filter((subscription) => subscription.stripeScheduleId && subscription.scheduledPlan)
+      .map((subscription) => ({
+        id: subscription.stripeScheduleId!,
+        subscriptionId: subscription.stripeSubscriptionId,
+        priceId: subscription.scheduledPlan!.stripePriceId,
+        quantity: subscription.quantity
+      })),
+    coupons: coupons.map((coupon) => ({
+      id: coupon.stripeCouponId,
+      name: coupon.name,
+      percentOff: coupon.percentOff,
+      amountOff: coupon.amountOff,
+      currency: coupon.currency,
+      duration: coupon.duration.toLowerCase() as FakeCoupon['duration'],
+      durationInMonths: coupon.durationInMonths,
+      maxRedemptions: coupon.maxRedemptions,
+      redeemBy: coupon.redeemBy,
+      productIds: coupon.plans.map((plan) => plan.stripeProductId)
+    })),
+    promotionCodes: coupons.flatMap((coupon) =>
+      coupon.promotionCodes.map((promotionCode) => ({
+        id: promotionCode.stripePromotionCodeId,
+        couponId: coupon.stripeCouponId,
+        code: promotionCode.code,
+        maxRedemptions: promotionCode.maxRedemptions,
+        expiresAt: promotionCode.expiresAt,
+        active: promotionCode.isActive && coupon.isActive,
+        timesRedeemed: promotionCode.timesRedeemed
+      }))
+    ),
+    ids: [
+      ...allSubscriptions.flatMap((subscription) => [
+        subscription.stripeSubscriptionId,
+        subscription.stripeScheduleId,
+        subscription.stripeMeteredItemId
+      ]),
+      ...coupons.flatMap((coupon) => [
+        coupon.stripeCouponId,
+        ...coupon.promotionCodes.map((promotionCode) => promotionCode.stripePromotionCodeId)
+      ]),
+      ...users.map((user) => user.stripeCustomerId),
+      ...payments.map((payment) => payment.stripePaymentId)
+    ].filter(isFakeId)
+  };
+
+  provider.restore(state);
+  return state.subscriptions.length;
+};
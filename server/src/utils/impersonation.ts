@@ -0,0 +1,69 @@
+import jwt from 'jsonwebtoken';
+import { prisma } from '../index';
+
+const IMPERSONATION_EXPIRES_MINUTES = Number(process.env.IMPERSONATION_EXPIRES_MINUTES) || 30;
+export const IMPERSONATION_PURPOSE = 'impersonation';
+
+const getJwtSecret = (): string => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT_SECRET is not defined');
+  }
+  return secret;
+};
+
+// Open an impersonation and issue its access token. The token names both the
+// admin and the target, and cannot be refreshed: when it expires the admin
+// has to start over.
+export const startImpersonation = async (
+  adminId: string,
+  targetUserId: string,
+  sessionFamilyId: string,
+  reason?: string | null
+) => {
+  const impersonation = await prisma.impersonation.create({
+    data: {
+      adminId,
+      targetUserId,
+      sessionFamilyId,
+      reason: reason || null,
+      expiresAt: new Date(Date.now() + IMPERSONATION_EXPIRES_MINUTES * 60 * 1000)
+    }
+  });
+
+  const token = jwt.sign(
+    {
+      userId: targetUserId,
+      impersonatorId: adminId,
+      impersonationId: impersonation.id,
+      familyId: sessionFamilyId,
+      purpose: IMPERSONATION_PURPOSE
+    },
+    getJwtSecret(),
+    { expiresIn: IMPERSONATION_EXPIRES_MINUTES * 60 }
+  );
+
+  return { token, impersonation };
+};
+
+// The impersonation if it has not been stopped or expired, with the admin
+// loaded so their permission can be re-checked on every request
+export const findActiveImpersonation = async (impersonationId: string) => {
+  return prisma.impersonation.findFirst({
+    where: {
+      id: impersonationId,
+      endedAt: null,
+      expiresAt: { gt: new Date() }
+    },
+    include: {
+      admin: true
+    }
+  });
+};
+
+export const endImpersonation = async (impersonationId: string): Promise<void> => {
+  await prisma.impersonation.updateMany({
+    where: { id: impersonationId, endedAt: null },
+    data: { endedAt: new Date() }
+  });
+};
@@ -0,0 +1,88 @@
+import { Role } from '@prisma/client';
+import { prisma } from '../index';
+import { generateRandomToken, hashToken } from './tokens';
+import { sendMail } from './mailer';
+import { buildFrontendUrl, teamInvitationEmail } from './emailTemplates';
+
+const INVITATION_EXPIRES_DAYS = Number(process.env.INVITATION_EXPIRES_DAYS) || 7;
+
+// Roles a company can invite into; SUPER_ADMIN is never handed out this way
+export const INVITABLE_ROLES: Role[] = ['USER', 'ADMIN'];
+
+export const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+interface InvitationInput {
+  companyId: string;
+  email: string;
+  role: Role;
+  customRoleId?: string | null;
+  invitedBy: { id: string; firstName: string; lastName: string };
+}
+
+// Create an invitation and email its link. Re-inviting an address replaces
+// its pending invitation.
+export const sendInvitation = async (input: InvitationInput) => {
+  const email = normalizeEmail(input.email);
+  const token = generateRandomToken();
+  const now = new Date();
+
+  const [, invitation] = await prisma.$transaction([
+    prisma.companyInvitation.updateMany({
+      where: { companyId: input.companyId, email, acceptedAt: null, declinedAt: null, revokedAt: null },
+      data: { revokedAt: now }
+    }),
+    prisma.companyInvitation.create({
+      data: {
+        companyId: input.companyId,
+        email,
+        tokenHash: hashToken(token),
+        role: input.role,
+        customRoleId: input.customRoleId || null,
+        invitedById: input.invitedBy.id,
+        expiresAt: new Date(now.getTime() + INVITATION_EXPIRES_DAYS * 24 * 60 * 60 * 1000)
+      },
+      include: { company: true, customRole: true }
+    })
+  ]);
+
+  await sendMail({
+    to: email,
+    ...teamInvitationEmail(
+      `${input.invitedBy.firstName} ${input.invitedBy.lastName}`,
+      invitation.company.name,
+      buildFrontendUrl('/register', { invitation: token }),
+      INVITATION_EXPIRES_DAYS
+    )
+  });
+
+  return invitation;
+};
+
+// The invitation for a token if it is still open
+export const findPendingInvitation = async (token: string) => {
+  const invitation = await prisma.companyInvitation.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { company: true, customRole: true, invitedBy: true }
+  });
+
+  if (
+    !invitation ||
+    invitation.acceptedAt ||
+    invitation.declinedAt ||
+    invitation.revokedAt ||
+    invitation.expiresAt <= new Date()
+  ) {
+    return null;
+  }
+
+  return invitation;
+};
+
+// Claim the invitation so it can only be accepted or declined once
+export const closeInvitation = async (invitationId: string, outcome: 'acceptedAt' | 'declinedAt'): Promise<boolean> => {
+  const claimed = await prisma.companyInvitation.updateMany({
+    where: { id: invitationId, acceptedAt: null, declinedAt: null, revokedAt: null },
+    data: { [outcome]: new Date() }
+  });
+  return claimed.count === 1;
+};
@@ -0,0 +1,161 @@
+import { Request } from 'express';
+import { prisma } from '../index';
+import { createUserToken } from './userTokens';
+import { sendMail } from './mailer';
+import { accountLockedEmail, buildFrontendUrl } from './emailTemplates';
+import logger from './logger';
+
+const WINDOW_MS = 15 * 60 * 1000;
+const DELAY_AFTER_FAILURES = Number(process.env.LOGIN_DELAY_AFTER_FAILURES) || 3;
+const MAX_DELAY_SECONDS = 60;
+const LOCKOUT_THRESHOLD = Number(process.env.LOGIN_LOCKOUT_THRESHOLD) || 10;
+const LOCKOUT_MINUTES = Number(process.env.LOGIN_LOCKOUT_MINUTES) || 30;
+const IP_FAILURE_LIMIT = Number(process.env.LOGIN_IP_FAILURE_LIMIT) || 50;
+const UNLOCK_TOKEN_EXPIRES_HOURS = 24;
+
+interface LoginUser {
+  id: string;
+  email: string;
+  firstName: string;
+}
+
+// Seconds until another attempt for this email/IP is allowed (0 = go ahead).
+// Each failure past the first few doubles the wait, capped at a minute; an IP
+// with too many failures across all accounts waits out the whole window.
+export const getLoginRetryAfter = async (email: string, ipAddress?: string): Promise<number> => {
+  const windowStart = new Date(Date.now() - WINDOW_MS);
+
+  if (ipAddress) {
+    const ipFailures = await prisma.loginAttempt.findMany({
+      where: { ipAddress, succeeded: false, createdAt: { gte: windowStart } },
+      orderBy: { createdAt: 'asc' },
+      select: { createdAt: true }
+    });
+
+    if (ipFailures.length >= IP_FAILURE_LIMIT) {
+      const oldest = ipFailures[ipFailures.length - IP_FAILURE_LIMIT].createdAt;
+      return Math.max(1, Math.ceil((oldest.getTime() + WINDOW_MS - Date.now()) / 1000));
+    }
+  }
+
+  const lastSuccess = await prisma.loginAttempt.findFirst({
+    where: { email, succeeded: true },
+    orderBy: { createdAt: 'desc' }
+  });
+
+  const since = lastSuccess && lastSuccess.createdAt > windowStart ? lastSuccess.createdAt : windowStart;
+
+  const failures = await prisma.loginAttempt.findMany({
+    where: { email, succeeded: false, createdAt: { gt: since } },
+    orderBy: { createdAt: 'desc' },
+    select: { createdAt: true }
+  });
+
+  if (failures.length < DELAY_AFTER_FAILURES) {
+    return 0;
+  }
+
+  const delaySeconds = Math.min(2 ** (failures.length - DELAY_AFTER_FAILURES), MAX_DELAY_SECONDS);
+  const nextAllowedAt = failures[0].createdAt.getTime() + delaySeconds * 1000;
+
+  return Math.max(0, Math.ceil((nextAllowedAt - Date.now()) / 1000));
+};
+
+export const isAccountLocked = (user: { lockedUntil: Date | null }): boolean => {
+  return !!user.lockedUntil && user.lockedUntil > new Date();
+};
+
+// Record a failed attempt (wrong password or second factor); locks the
+// account once it crosses the threshold. Returns the lock expiry if this
+// failure locked it, otherwise null.
+export const recordLoginFailure = async (
+  email: string,
+  req: Request,
+  user: LoginUser | null,
+  action: string,
+  description: string
+): Promise<Date | null> => {
+  await prisma.loginAttempt.create({
+    data: { email, ipAddress: req.ip, succeeded: false }
+  });
+
+  if (!user) {
+    return null;
+  }
+
+  // Count in the database so parallel attempts can't overwrite each other's failures
+  const { failedLoginAttempts } = await prisma.user.update({
+    where: { id: user.id },
+    data: { failedLoginAttempts: { increment: 1 } },
+    select: { failedLoginAttempts: true }
+  });
+
+  // Only the attempt that claims the lock resets the counter and sends the email
+  let lockedUntil: Date | null = null;
+  if (failedLoginAttempts >= LOCKOUT_THRESHOLD) {
+    const lockExpiry = new Date(Date.now() + LOCKOUT_MINUTES * 60 * 1000);
+    const locked = await prisma.user.updateMany({
+      where: { id: user.id, failedLoginAttempts: { gte: LOCKOUT_THRESHOLD } },
+      data: { failedLoginAttempts: 0, lockedUntil: lockExpiry }
+    });
+    lockedUntil = locked.count === 1 ? lockExpiry : null;
+  }
+
+  // Log activity
+  await prisma.userActivity.create({
+    data: {
+      userId: user.id,
+      action,
+      description,
+      metadata: { failedLoginAttempts },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    }
+  });
+
+  if (lockedUntil) {
+    await lockAccount(user, req);
+  }
+
+  return lockedUntil;
+};
+
+async function lockAccount(user: LoginUser, req: Request) {
+  // Log activity
+  await prisma.userActivity.create({
+    data: {
+      userId: user.id,
+      action: 'ACCOUNT_LOCKED',
+      description: `Account locked for ${LOCKOUT_MINUTES} minutes after ${LOCKOUT_THRESHOLD} failed login attempts`,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    }
+  });
+
+  logger.warn('Account locked', { userId: user.id, ip: req.ip });
+
+  try {
+    const token = await createUserToken(user.id, 'ACCOUNT_UNLOCK', UNLOCK_TOKEN_EXPIRES_HOURS * 60 * 60 * 1000);
+    await sendMail({
+      to: user.email,
+      ...accountLockedEmail(user, buildFrontendUrl('/unlock-account', { token }), LOCKOUT_MINUTES)
+    });
+  } catch (error) {
+    logger.error('Failed to send account locked email', error);
+  }
+}
+
+export const recordLoginSuccess = async (email: string, req: Request, userId: string): Promise<void> => {
+  await prisma.loginAttempt.create({
+    data: { email, ipAddress: req.ip, succeeded: true }
+  });
+
+  await unlockAccount(userId);
+};
+
+export const unlockAccount = async (userId: string): Promise<void> => {
+  await prisma.user.update({
+    where: { id: userId },
+    data: { failedLoginAttempts: 0, lockedUntil: null }
+  });
+};
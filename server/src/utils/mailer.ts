@@ -0,0 +1,82 @@
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import logger from './logger';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send: (message: MailMessage & { from: string }) => Promise<void>;
+}
+
+// Logs messages instead of delivering them (local development)
+export const createConsoleTransport = (): MailTransport => ({
+  name: 'console',
+  send: async (message) => {
+    logger.info('Email (console transport)', {
+      to: message.to,
+      subject: message.subject,
+      text: message.text
+    });
+  }
+});
+
+// Writes each message as a JSON file so links can be opened by hand
+export const createFileTransport = (directory: string): MailTransport => ({
+  name: 'file',
+  send: async (message) => {
+    await fs.mkdir(directory, { recursive: true });
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const filename = path.join(directory, `${Date.now()}-${safeRecipient}.json`);
+    await fs.writeFile(filename, JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2));
+    logger.info('Email written to file', { to: message.to, subject: message.subject, filename });
+  }
+});
+
+export const createSmtpTransport = (url: string): MailTransport => {
+  const transporter = nodemailer.createTransport(url);
+  return {
+    name: 'smtp',
+    send: async (message) => {
+      await transporter.sendMail(message);
+    }
+  };
+};
+
+const createDefaultTransport = (): MailTransport => {
+  switch (process.env.MAIL_TRANSPORT) {
+    case 'smtp':
+      if (!process.env.SMTP_URL) {
+        throw new Error('SMTP_URL is not defined');
+      }
+      return createSmtpTransport(process.env.SMTP_URL);
+    case 'file':
+      return createFileTransport(process.env.MAIL_OUTPUT_DIR || 'mail');
+    default:
+      return createConsoleTransport();
+  }
+};
+
+let transport: MailTransport | null = null;
+
+// Replace the active transport, e.g. with an in-memory one in tests
+export const setMailTransport = (nextTransport: MailTransport): void => {
+  transport = nextTransport;
+};
+
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  if (!transport) {
+    transport = createDefaultTransport();
+  }
+
+  const from = process.env.MAIL_FROM || 'SAAS Dashboard <no-reply@localhost>';
+  await transport.send({ ...message, from });
+
+  logger.info('Email sent', { to: message.to, subject: message.subject, transport: transport.name });
+};
@@ -0,0 +1,49 @@
+import { Role } from '@prisma/client';
+import { prisma } from '../index';
+
+// Load a user's memberships the way withActiveCompany expects them
+export const membershipsInclude = {
+  memberships: {
+    include: { company: true, customRole: true },
+    orderBy: { createdAt: 'asc' as const }
+  }
+};
+
+// Attach the active company to a user loaded with membershipsInclude, as
+// `membership`, `companyId` and `company`. Falls back to the user's oldest
+// membership when no company is requested or they no longer belong to it.
+export const withActiveCompany = <T extends { memberships: any[] }>(user: T, companyId?: string | null) => {
+  const membership =
+    user.memberships.find((candidate) => candidate.companyId === companyId) || user.memberships[0];
+
+  return {
+    ...user,
+    membership: membership || null,
+    companyId: (membership?.companyId as string | undefined) ?? null,
+    company: membership?.company ?? null
+  };
+};
+
+// The companies a user can switch between
+export const formatMemberships = (memberships: any[]) =>
+  memberships.map((membership) => ({
+    id: membership.company.id,
+    name: membership.company.name,
+    role: membership.role,
+    customRole: membership.customRole ? { id: membership.customRole.id, name: membership.customRole.name } : null
+  }));
+
+export const addMembership = (userId: string, companyId: string, role: Role, customRoleId?: string | null) =>
+  prisma.companyMembership.upsert({
+    where: { userId_companyId: { userId, companyId } },
+    create: { userId, companyId, role, customRoleId: customRoleId || null },
+    update: {}
+  });
+
+// Switch every live token of a session family to another company
+export const setActiveCompany = async (familyId: string, companyId: string | null): Promise<void> => {
+  await prisma.session.updateMany({
+    where: { familyId, revokedAt: null },
+    data: { activeCompanyId: companyId }
+  });
+};
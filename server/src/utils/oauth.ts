@@ -0,0 +1,237 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { OAuthProvider } from './oauthProviders';
+
+// Authorization code flow with PKCE (RFC 7636). For OpenID Connect providers
+// the ID token is verified against the issuer's published keys; for plain
+// OAuth 2.0 providers the profile comes from the userinfo endpoint.
+
+const METADATA_TTL_MS = 60 * 60 * 1000;
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'ES256', 'ES384', 'ES512', 'PS256'];
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint?: string;
+  jwks_uri: string;
+}
+
+interface TokenResponse {
+  access_token: string;
+  id_token?: string;
+  token_type?: string;
+}
+
+export interface ExternalProfile {
+  subject: string;
+  email: string | null;
+  emailVerified: boolean;
+  firstName: string;
+  lastName: string;
+}
+
+const base64Url = (buffer: Buffer): string => buffer.toString('base64url');
+
+export const generateCodeVerifier = (): string => base64Url(crypto.randomBytes(32));
+
+export const getCodeChallenge = (codeVerifier: string): string => {
+  return base64Url(crypto.createHash('sha256').update(codeVerifier).digest());
+};
+
+const fetchJson = async (url: string, init?: RequestInit): Promise<any> => {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(`Request to ${url} failed with status ${response.status}`);
+  }
+  return response.json();
+};
+
+const metadataCache = new Map<string, { metadata: ProviderMetadata; fetchedAt: number }>();
+
+const discover = async (issuer: string): Promise<ProviderMetadata> => {
+  const cached = metadataCache.get(issuer);
+  if (cached && Date.now() - cached.fetchedAt < METADATA_TTL_MS) {
+    return cached.metadata;
+  }
+
+  const metadata = await fetchJson(`${issuer.replace(/\/+$/, '')}/.well-known/openid-configuration`);
+  metadataCache.set(issuer, { metadata, fetchedAt: Date.now() });
+  return metadata;
+};
+
+const jwksCache = new Map<string, crypto.JsonWebKey[]>();
+
+// Look up a signing key by kid, refetching once in case the issuer rotated keys
+const getSigningKey = async (jwksUri: string, kid?: string): Promise<crypto.KeyObject> => {
+  const findKey = (keys: crypto.JsonWebKey[]) =>
+    keys.find((key) => (kid ? key.kid === kid : key.use !== 'enc'));
+
+  let key = findKey(jwksCache.get(jwksUri) || []);
+  if (!key) {
+    const { keys } = await fetchJson(jwksUri);
+    jwksCache.set(jwksUri, keys);
+    key = findKey(keys);
+  }
+
+  if (!key) {
+    throw new Error('No matching signing key for ID token');
+  }
+
+  return crypto.createPublicKey({ key, format: 'jwk' });
+};
+
+const getEndpoints = async (provider: OAuthProvider) => {
+  if (provider.issuer) {
+    const metadata = await discover(provider.issuer);
+    return {
+      authorizationEndpoint: metadata.authorization_endpoint,
+      tokenEndpoint: metadata.token_endpoint,
+      userinfoEndpoint: metadata.userinfo_endpoint
+    };
+  }
+
+  return {
+    authorizationEndpoint: provider.authorizationEndpoint!,
+    tokenEndpoint: provider.tokenEndpoint!,
+    userinfoEndpoint: provider.userinfoEndpoint
+  };
+};
+
+export const buildAuthorizationUrl = async (
+  provider: OAuthProvider,
+  params: { state: string; nonce: string; codeVerifier: string; redirectUri: string }
+): Promise<string> => {
+  const { authorizationEndpoint } = await getEndpoints(provider);
+
+  const url = new URL(authorizationEndpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', provider.clientId);
+  url.searchParams.set('redirect_uri', params.redirectUri);
+  url.searchParams.set('scope', provider.scopes.join(' '));
+  url.searchParams.set('state', params.state);
+  url.searchParams.set('code_challenge', getCodeChallenge(params.codeVerifier));
+  url.searchParams.set('code_challenge_method', 'S256');
+  if (provider.issuer) {
+    url.searchParams.set('nonce', params.nonce);
+  }
+
+  return url.toString();
+};
+
+const exchangeCode = async (
+  provider: OAuthProvider,
+  code: string,
+  codeVerifier: string,
+  redirectUri: string
+): Promise<TokenResponse> => {
+  const { tokenEndpoint } = await getEndpoints(provider);
+
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: redirectUri,
+    client_id: provider.clientId,
+    code_verifier: codeVerifier
+  });
+  if (provider.clientSecret) {
+    body.set('client_secret', provider.clientSecret);
+  }
+
+  const tokens = await fetchJson(tokenEndpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json'
+    },
+    body
+  });
+
+  if (!tokens.access_token) {
+    throw new Error(tokens.error_description || tokens.error || 'Token response did not include an access token');
+  }
+
+  return tokens;
+};
+
+const verifyIdToken = async (provider: OAuthProvider, idToken: string, nonce: string): Promise<any> => {
+  const metadata = await discover(provider.issuer!);
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded || typeof decoded.payload === 'string') {
+    throw new Error('ID token is malformed');
+  }
+
+  const key = await getSigningKey(metadata.jwks_uri, decoded.header.kid);
+  const claims = jwt.verify(idToken, key, {
+    algorithms: ID_TOKEN_ALGORITHMS,
+    audience: provider.clientId
+  }) as jwt.JwtPayload;
+
+  // Multi-tenant issuers (Microsoft "common") publish a templated issuer
+  const expectedIssuer = metadata.issuer.replace('{tenantid}', String(claims.tid));
+  if (claims.iss !== expectedIssuer) {
+    throw new Error('ID token issuer mismatch');
+  }
+
+  if (claims.nonce !== nonce) {
+    throw new Error('ID token nonce mismatch');
+  }
+
+  return claims;
+};
+
+const splitName = (name?: string | null) => {
+  const [firstName = '', ...rest] = (name || '').trim().split(/\s+/);
+  return { firstName, lastName: rest.join(' ') };
+};
+
+// GitHub profiles may hide the email; the verified primary address comes from /user/emails
+const fetchGitHubProfile = async (provider: OAuthProvider, accessToken: string): Promise<ExternalProfile> => {
+  const headers = {
+    Authorization: `Bearer ${accessToken}`,
+    Accept: 'application/vnd.github+json',
+    'User-Agent': 'saas-dashboard'
+  };
+
+  const user = await fetchJson(provider.userinfoEndpoint!, { headers });
+  const emails: Array<{ email: string; primary: boolean; verified: boolean }> = await fetchJson(
+    `${provider.userinfoEndpoint}/emails`,
+    { headers }
+  );
+  const primary = emails.find((entry) => entry.primary) || emails[0];
+
+  return {
+    subject: String(user.id),
+    email: primary?.email || user.email || null,
+    emailVerified: !!primary?.verified,
+    ...splitName(user.name || user.login)
+  };
+};
+
+// Complete the flow: trade the code for tokens and return the user's profile
+export const fetchExternalProfile = async (
+  provider: OAuthProvider,
+  params: { code: string; codeVerifier: string; nonce: string; redirectUri: string }
+): Promise<ExternalProfile> => {
+  const tokens = await exchangeCode(provider, params.code, params.codeVerifier, params.redirectUri);
+
+  if (!provider.issuer) {
+    return fetchGitHubProfile(provider, tokens.access_token);
+  }
+
+  if (!tokens.id_token) {
+    throw new Error('Token response did not include an ID token');
+  }
+
+  const claims = await verifyIdToken(provider, tokens.id_token, params.nonce);
+  const fallbackName = splitName(claims.name);
+
+  return {
+    subject: String(claims.sub),
+    email: claims.email || claims.preferred_username || null,
+    // Microsoft omits email_verified; its email claim is not verified either
+    emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+    firstName: claims.given_name || fallbackName.firstName,
+    lastName: claims.family_name || fallbackName.lastName
+  };
+};
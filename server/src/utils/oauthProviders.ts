@@ -0,0 +1,91 @@
+// External sign-in providers. A provider is enabled when its client ID is set.
+// OpenID Connect providers only need an issuer (endpoints come from discovery);
+// plain OAuth 2.0 providers such as GitHub list their endpoints explicitly.
+
+export interface OAuthProvider {
+  id: string;
+  name: string;
+  clientId: string;
+  clientSecret?: string;
+  scopes: string[];
+  // OpenID Connect
+  issuer?: string;
+  // Plain OAuth 2.0
+  authorizationEndpoint?: string;
+  tokenEndpoint?: string;
+  userinfoEndpoint?: string;
+}
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+const buildProviders = (): OAuthProvider[] => {
+  const githubUrl = trimSlash(process.env.OAUTH_GITHUB_URL || 'https://github.com');
+  const githubApiUrl = trimSlash(process.env.OAUTH_GITHUB_API_URL || 'https://api.github.com');
+
+  const providers: Array<OAuthProvider | null> = [
+    process.env.OAUTH_GOOGLE_CLIENT_ID
+      ? {
+          id: 'google',
+          name: 'Google',
+          clientId: process.env.OAUTH_GOOGLE_CLIENT_ID,
+          clientSecret: process.env.OAUTH_GOOGLE_CLIENT_SECRET,
+          issuer: process.env.OAUTH_GOOGLE_ISSUER || 'https://accounts.google.com',
+          scopes: ['openid', 'email', 'profile']
+        }
+      : null,
+    process.env.OAUTH_GITHUB_CLIENT_ID
+      ? {
+          id: 'github',
+          name: 'GitHub',
+          clientId: process.env.OAUTH_GITHUB_CLIENT_ID,
+          clientSecret: process.env.OAUTH_GITHUB_CLIENT_SECRET,
+          authorizationEndpoint: `${githubUrl}/login/oauth/authorize`,
+          tokenEndpoint: `${githubUrl}/login/oauth/access_token`,
+          userinfoEndpoint: `${githubApiUrl}/user`,
+          scopes: ['read:user', 'user:email']
+        }
+      : null,
+    process.env.OAUTH_MICROSOFT_CLIENT_ID
+      ? {
+          id: 'microsoft',
+          name: 'Microsoft',
+          clientId: process.env.OAUTH_MICROSOFT_CLIENT_ID,
+          clientSecret: process.env.OAUTH_MICROSOFT_CLIENT_SECRET,
+          issuer: process.env.OAUTH_MICROSOFT_ISSUER || 'https://login.microsoftonline.com/common/v2.0',
+          scopes: ['openid', 'email', 'profile']
+        }
+      : null,
+    // Any other OpenID Connect issuer, e.g. Okta, Keycloak or the local mock issuer
+    process.env.OAUTH_OIDC_CLIENT_ID && process.env.OAUTH_OIDC_ISSUER
+      ? {
+          id: 'oidc',
+          name: process.env.OAUTH_OIDC_NAME || 'Single sign-on',
+          clientId: process.env.OAUTH_OIDC_CLIENT_ID,
+          clientSecret: process.env.OAUTH_OIDC_CLIENT_SECRET,
+          issuer: process.env.OAUTH_OIDC_ISSUER,
+          scopes: ['openid', 'email', 'profile']
+        }
+      : null
+  ];
+
+  return providers.filter((provider): provider is OAuthProvider => provider !== null);
+};
+
+let providers: OAuthProvider[] | null = null;
+
+export const getOAuthProviders = (): OAuthProvider[] => {
+  if (!providers) {
+    providers = buildProviders();
+  }
+  return providers;
+};
+
+export const getOAuthProvider = (id: string): OAuthProvider | undefined => {
+  return getOAuthProviders().find((provider) => provider.id === id);
+};
+
+// Where providers send the browser back to; must be registered with each provider
+export const getOAuthRedirectUri = (providerId: string): string => {
+  const baseUrl = trimSlash(process.env.OAUTH_CALLBACK_BASE_URL || 'http://localhost:3001');
+  return `${baseUrl}/api/auth/oauth/${providerId}/callback`;
+};
@@ -0,0 +1,126 @@
+// Access is granted by permission, not by role name. Built-in roles map to a
+// fixed permission set. A user's platform role grants the platform permissions;
+// the company-level ones come from their membership of the active company,
+// where a custom role can replace those of the membership's built-in role.
+
+// Permissions a company can hand out through its own roles
+export const COMPANY_PERMISSIONS = [
+  'analytics:read',
+  'analytics:write',
+  'payments:read',
+  'subscriptions:read',
+  'subscriptions:write',
+  'usage:write',
+  'members:read',
+  'members:invite',
+  'members:manage',
+  'api_keys:manage',
+  'roles:manage',
+  'sso:manage',
+  'domains:manage',
+  'company:manage'
+] as const;
+
+// Platform operator permissions, only granted through built-in roles
+export const PLATFORM_PERMISSIONS = [
+  'analytics:read_all',
+  'payments:read_all',
+  'plans:write',
+  'coupons:write',
+  'users:read_all',
+  'users:unlock',
+  'users:impersonate'
+] as const;
+
+export const PERMISSIONS = [...COMPANY_PERMISSIONS, ...PLATFORM_PERMISSIONS] as const;
+
+export type CompanyPermission = (typeof COMPANY_PERMISSIONS)[number];
+export type Permission = (typeof PERMISSIONS)[number];
+
+const MEMBER_PERMISSIONS: Permission[] = [
+  'analytics:read',
+  'analytics:write',
+  'payments:read',
+  'subscriptions:read',
+  'subscriptions:write',
+  'usage:write',
+  'members:read'
+];
+
+const ROLE_PERMISSIONS: Record<string, Permission[]> = {
+  USER: MEMBER_PERMISSIONS,
+  ADMIN: [
+    ...MEMBER_PERMISSIONS,
+    'members:invite',
+    'members:manage',
+    'api_keys:manage',
+    'roles:manage',
+    'sso:manage',
+    'domains:manage',
+    'company:manage',
+    'analytics:read_all',
+    'payments:read_all',
+    'plans:write',
+    'coupons:write',
+    'users:read_all',
+    'users:unlock'
+  ],
+  SUPER_ADMIN: [...PERMISSIONS]
+};
+
+// Permissions beyond what every member has; the 2FA policy applies to users holding any of these
+const ELEVATED_PERMISSIONS: Permission[] = PERMISSIONS.filter((permission) => !MEMBER_PERMISSIONS.includes(permission));
+
+export const isCompanyPermission = (permission: string): permission is CompanyPermission =>
+  (COMPANY_PERMISSIONS as readonly string[]).includes(permission);
+
+export interface MembershipSubject {
+  role: string;
+  customRole?: { permissions: string[] } | null;
+}
+
+export interface PermissionSubject {
+  role: string;
+  membership?: MembershipSubject | null;
+}
+
+// Company-level permissions a membership grants. Outside of a company users
+// still manage their own subscriptions and analytics.
+export const getMembershipPermissions = (membership?: MembershipSubject | null): CompanyPermission[] => {
+  if (!membership) {
+    return MEMBER_PERMISSIONS.filter(isCompanyPermission);
+  }
+
+  if (membership.customRole) {
+    return membership.customRole.permissions.filter(isCompanyPermission);
+  }
+
+  return (ROLE_PERMISSIONS[membership.role] || []).filter(isCompanyPermission);
+};
+
+// Effective permissions in the active company. Expects the active membership
+// (with its customRole) to be attached, see withActiveCompany.
+export const getUserPermissions = (user: PermissionSubject): Permission[] => {
+  // Super admins are never restricted by a company role
+  if (user.role === 'SUPER_ADMIN') {
+    return ROLE_PERMISSIONS.SUPER_ADMIN;
+  }
+
+  const platform = (ROLE_PERMISSIONS[user.role] || []).filter((permission) => !isCompanyPermission(permission));
+  return [...platform, ...getMembershipPermissions(user.membership)];
+};
+
+export const hasPermission = (user: PermissionSubject, permission: Permission): boolean =>
+  getUserPermissions(user).includes(permission);
+
+export const isElevatedPermission = (permission: Permission): boolean => ELEVATED_PERMISSIONS.includes(permission);
+
+export const hasElevatedPermissions = (user: PermissionSubject): boolean =>
+  getUserPermissions(user).some((permission) => ELEVATED_PERMISSIONS.includes(permission));
+
+// The first permission in the list the user does not hold, if any. Used so
+// nobody can hand out access they don't have themselves.
+export const findUngrantablePermission = (user: PermissionSubject, permissions: string[]): string | undefined => {
+  const granted: string[] = getUserPermissions(user);
+  return permissions.find((permission) => !granted.includes(permission));
+};
@@ -0,0 +1,154 @@
+import { DOMParser } from '@xmldom/xmldom';
+import { CacheProvider, Profile, SAML, ValidateInResponseTo } from '@node-saml/node-saml';
+import { CompanySsoConfig } from '@prisma/client';
+import { prisma } from '../index';
+import { getCompanyEntitlements } from './entitlements';
+
+// Each company is its own SAML service provider, so one app can federate with
+// a different identity provider per tenant.
+
+const METADATA_NS = 'urn:oasis:names:tc:SAML:2.0:metadata';
+const DSIG_NS = 'http://www.w3.org/2000/09/xmldsig#';
+const REDIRECT_BINDING = 'urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Redirect';
+const REQUEST_EXPIRES_MS = 10 * 60 * 1000;
+
+const getBaseUrl = () => (process.env.SAML_BASE_URL || 'http://localhost:3001').replace(/\/+$/, '');
+
+export const getSpEntityId = (companyId: string) => `${getBaseUrl()}/api/sso/saml/${companyId}`;
+export const getAcsUrl = (companyId: string) => `${getBaseUrl()}/api/sso/saml/${companyId}/acs`;
+export const getSsoLoginUrl = (companyId: string) => `${getBaseUrl()}/api/sso/saml/${companyId}/login`;
+export const getSpMetadataUrl = (companyId: string) => `${getBaseUrl()}/api/sso/saml/${companyId}/metadata`;
+
+export interface IdpMetadata {
+  entityId: string;
+  ssoUrl: string;
+  certificate: string;
+}
+
+// Pull the entity ID, redirect-binding SSO URL and signing certificate out of
+// IdP metadata XML. Returns null if any of them is missing.
+export const parseIdpMetadata = (xml: string): IdpMetadata | null => {
+  let doc: Document;
+  try {
+    doc = new DOMParser({ errorHandler: { error: () => undefined, fatalError: () => undefined } })
+      .parseFromString(xml, 'text/xml') as unknown as Document;
+  } catch (error) {
+    return null;
+  }
+
+  const entity = doc.getElementsByTagNameNS(METADATA_NS, 'EntityDescriptor')[0];
+  const idp = entity?.getElementsByTagNameNS(METADATA_NS, 'IDPSSODescriptor')[0];
+  if (!entity || !idp) {
+    return null;
+  }
+
+  const services = Array.from(idp.getElementsByTagNameNS(METADATA_NS, 'SingleSignOnService'));
+  const service = services.find((item) => item.getAttribute('Binding') === REDIRECT_BINDING) || services[0];
+
+  const keys = Array.from(idp.getElementsByTagNameNS(METADATA_NS, 'KeyDescriptor'));
+  const signingKey = keys.find((key) => key.getAttribute('use') !== 'encryption');
+  const certificate = signingKey?.getElementsByTagNameNS(DSIG_NS, 'X509Certificate')[0]?.textContent;
+
+  const entityId = entity.getAttribute('entityID');
+  const ssoUrl = service?.getAttribute('Location');
+
+  if (!entityId || !ssoUrl || !certificate) {
+    return null;
+  }
+
+  return { entityId, ssoUrl, certificate: certificate.replace(/\s+/g, '') };
+};
+
+// AuthnRequest IDs live in the database so the response can land on any instance
+const requestCache: CacheProvider = {
+  saveAsync: async (key, value) => {
+    const request = await prisma.samlRequest.create({
+      data: { id: key, value, expiresAt: new Date(Date.now() + REQUEST_EXPIRES_MS) }
+    });
+    return { value: request.value, createdAt: request.createdAt.getTime() };
+  },
+  getAsync: async (key) => {
+    const request = await prisma.samlRequest.findUnique({ where: { id: key } });
+    return request && request.expiresAt > new Date() ? request.value : null;
+  },
+  removeAsync: async (key) => {
+    if (!key) {
+      return null;
+    }
+    await prisma.samlRequest.deleteMany({
+      where: { OR: [{ id: key }, { expiresAt: { lte: new Date() } }] }
+    });
+    return key;
+  }
+};
+
+export const createSamlClient = (config: CompanySsoConfig): SAML => {
+  return new SAML({
+    issuer: getSpEntityId(config.companyId),
+    callbackUrl: getAcsUrl(config.companyId),
+    entryPoint: config.idpSsoUrl,
+    idpIssuer: config.idpEntityId,
+    idpCert: config.idpCertificate,
+    audience: getSpEntityId(config.companyId),
+    identifierFormat: null,
+    wantAssertionsSigned: true,
+    wantAuthnResponseSigned: false,
+    // SP-initiated responses must answer one of our requests; IdP-initiated ones carry no InResponseTo
+    validateInResponseTo: ValidateInResponseTo.ifPresent,
+    requestIdExpirationPeriodMs: REQUEST_EXPIRES_MS,
+    cacheProvider: requestCache
+  });
+};
+
+export interface SamlUserProfile {
+  nameId: string;
+  email: string | null;
+  firstName: string;
+  lastName: string;
+}
+
+const readAttribute = (profile: Profile, name: string): string | undefined => {
+  const value = profile[name] ?? (profile.attributes as Record<string, unknown> | undefined)?.[name];
+  const first = Array.isArray(value) ? value[0] : value;
+  return typeof first === 'string' && first.trim() ? first.trim() : undefined;
+};
+
+// Apply the company's attribute mapping to an assertion
+export const mapSamlProfile = (config: CompanySsoConfig, profile: Profile): SamlUserProfile => {
+  const nameIdEmail = profile.nameID?.includes('@') ? profile.nameID : undefined;
+
+  return {
+    nameId: profile.nameID,
+    email: readAttribute(profile, config.emailAttribute) || profile.email || profile.mail || nameIdEmail || null,
+    firstName: readAttribute(profile, config.firstNameAttribute) || '',
+    lastName: readAttribute(profile, config.lastNameAttribute) || ''
+  };
+};
+
+// SSO is an Enterprise feature: the company needs a live plan that includes it
+export const companyHasSsoFeature = async (companyId: string): Promise<boolean> =>
+  (await getCompanyEntitlements(companyId)).sso;
+
+// If one of the user's companies requires SSO, the URL they must sign in through
+export const getEnforcedSsoLoginUrl = async (user: { id: string; role: string }): Promise<string | null> => {
+  // Super admins keep password access so a broken IdP can't lock everyone out
+  if (user.role === 'SUPER_ADMIN') {
+    return null;
+  }
+
+  const configs = await prisma.companySsoConfig.findMany({
+    where: {
+      enabled: true,
+      enforceSso: true,
+      company: { memberships: { some: { userId: user.id } } }
+    }
+  });
+
+  // A company that lost the SSO feature can't send anyone to its IdP
+  for (const config of configs) {
+    if (await companyHasSsoFeature(config.companyId)) {
+      return getSsoLoginUrl(config.companyId);
+    }
+  }
+  return null;
+};
@@ -0,0 +1,130 @@
+import { Plan, Subscription } from '@prisma/client';
+import { prisma } from '../index';
+import { getBillingProvider } from './billing';
+import logger from './logger';
+
+// Per-seat plans charge `amount` for each seat, and a company's subscription
+// always has at least one seat per member. Seats bought ahead of time are kept
+// when someone leaves.
+
+// Seats still follow members while a failed payment is retried
+const SEAT_SYNC_STATUSES = ['ACTIVE', 'TRIALING', 'PAST_DUE'] as const;
+
+export interface SeatChangePreview {
+  currency: string;
+  // Charged (or credited, when negative) as soon as the change is applied
+  amountDueNow: number;
+  nextInvoice: { amount: number; date: Date };
+  // Pass back when applying so the charge matches the preview
+  prorationDate: number;
+  lines: { description: string | null; amount: number }[];
+}
+
+export const countSeatsInUse = (subscription: Subscription) =>
+  subscription.companyId ? prisma.companyMembership.count({ where: { companyId: subscription.companyId } }) : 1;
+
+// Why the subscription's seats can't be set to `seats`, or null if they can
+export const checkSeatChange = async (
+  subscription: Subscription & { plan: Plan },
+  seats: number
+): Promise<string | null> => {
+  if (!subscription.plan.perSeat) {
+    return 'This plan is not billed per seat';
+  }
+  if (!['ACTIVE', 'TRIALING'].includes(subscription.status)) {
+    return 'Only active subscriptions can change seats';
+  }
+  if (seats === subscription.quantity) {
+    return `The subscription already has ${seats} seats`;
+  }
+  const inUse = await countSeatsInUse(subscription);
+  if (seats < inUse) {
+    return `${inUse} seats are in use. Remove members before dropping below that.`;
+  }
+  return null;
+};
+
+export const previewSeatChange = async (
+  subscription: Subscription & { plan: Plan },
+  seats: number
+): Promise<SeatChangePreview> => {
+  const prorationDate = Math.floor(Date.now() / 1000);
+  const { currency, lines } = await getBillingProvider().previewPriceChange(subscription.stripeSubscriptionId, {
+    priceId: subscription.priceId,
+    quantity: seats,
+    prorationDate
+  });
+
+  return {
+    currency,
+    amountDueNow: lines.reduce((total, line) => total + line.amount, 0),
+    nextInvoice: { amount: subscription.plan.amount * seats, date: subscription.currentPeriodEnd },
+    prorationDate,
+    lines
+  };
+};
+
+// Change the number of seats, invoicing the prorated difference straight away.
+// `purchased` marks a change the customer asked for rather than a member joining or leaving.
+export const setSeats = async (
+  subscription: Subscription,
+  seats: number,
+  { prorationDate, purchased = false }: { prorationDate?: number; purchased?: boolean } = {}
+) => {
+  const billing = getBillingProvider();
+  await billing.updateSubscription(subscription.stripeSubscriptionId, { quantity: seats, prorationDate });
+
+  // A plan change waiting for the period end would otherwise bring back the old count
+  if (subscription.stripeScheduleId && subscription.scheduledPlanId) {
+    const scheduledPlan = await prisma.plan.findUniqueOrThrow({ where: { id: subscription.scheduledPlanId } });
+    await billing.schedulePriceChange(subscription.stripeSubscriptionId, {
+      priceId: scheduledPlan.stripePriceId,
+      quantity: seats,
+      scheduleId: subscription.stripeScheduleId
+    });
+  }
+
+  return prisma.subscription.update({
+    where: { id: subscription.id },
+    data: { quantity: seats, ...(purchased && { purchasedSeats: seats }) },
+    include: { plan: true, scheduledPlan: true }
+  });
+};
+
+// Bring a company's per-seat subscriptions in line with its members after
+// someone joins or leaves. Failures are logged rather than undoing the change
+// to the team.
+export const syncSeats = async (companyId: string, change: 'joined' | 'left'): Promise<void> => {
+  try {
+    const [subscriptions, members] = await Promise.all([
+      prisma.subscription.findMany({
+        where: { companyId, status: { in: [...SEAT_SYNC_STATUSES] }, plan: { perSeat: true } }
+      }),
+      prisma.companyMembership.count({ where: { companyId } })
+    ]);
+
+    for (const subscription of subscriptions) {
+      const seats =
+        change === 'joined'
+          ? Math.max(subscription.quantity, members)
+          : Math.max(subscription.quantity - 1, members, subscription.purchasedSeats);
+      if (seats === subscription.quantity) {
+        continue;
+      }
+
+      await setSeats(subscription, seats);
+
+      // Log activity
+      await prisma.userActivity.create({
+        data: {
+          userId: subscription.userId,
+          action: 'SUBSCRIPTION_SEATS_CHANGED',
+          description: `Seats changed from ${subscription.quantity} to ${seats} after a member ${change}`,
+          metadata: { subscriptionId: subscription.id, from: subscription.quantity, to: seats }
+        }
+      });
+    }
+  } catch (error) {
+    logger.error('Seat sync failed', { companyId, error: (error as Error).message });
+  }
+};
@@ -0,0 +1,111 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { Request } from 'express';
+import { hashToken } from './tokens';
+
+process.env.JWT_SECRET = 'test-jwt-secret';
+
+type Row = Record<string, any>;
+
+// Just enough of Prisma's filters for the queries under test
+const matches = (row: Row, where: Row): boolean =>
+  Object.entries(where).every(([key, condition]) => {
+    if (condition !== null && typeof condition === 'object' && 'gt' in condition) {
+      return row[key] > condition.gt;
+    }
+    return row[key] === condition;
+  });
+
+const sessions: Row[] = [];
+const activity: Row[] = [];
+
+const session = {
+  create: async ({ data }: { data: Row }) => {
+    const row = { id: crypto.randomUUID(), revokedAt: null, replacedById: null, activeCompanyId: null, ...data };
+    sessions.push(row);
+    return row;
+  },
+  findUnique: async ({ where }: { where: Row }) => sessions.find((row) => matches(row, where)) || null,
+  findFirst: async ({ where }: { where: Row }) => sessions.find((row) => matches(row, where)) || null,
+  update: async ({ where, data }: { where: Row; data: Row }) =>
+    Object.assign(sessions.find((row) => matches(row, where))!, data),
+  updateMany: async ({ where, data }: { where: Row; data: Row }) => {
+    const matched = sessions.filter((row) => matches(row, where));
+    matched.forEach((row) => Object.assign(row, data));
+    return { count: matched.length };
+  }
+};
+
+// Transactions run one at a time, as the row lock on the claimed session makes them
+let transactions: Promise<unknown> = Promise.resolve();
+
+const prisma = {
+  session,
+  userActivity: {
+    create: async ({ data }: { data: Row }) => {
+      activity.push(data);
+      return data;
+    }
+  },
+  $transaction: <T>(run: (tx: unknown) => Promise<T>) => {
+    const result = transactions.then(() => run({ session }));
+    transactions = result.catch(() => undefined);
+    return result;
+  }
+};
+
+// Stand in for the app's Prisma client before loading anything that imports it
+require.cache[require.resolve('../index')] = { exports: { prisma } } as NodeModule;
+
+const { createSession, findActiveSession, rotateSession } = require('./sessions') as typeof import('./sessions');
+
+const req = { ip: '127.0.0.1', get: () => 'node-test' } as unknown as Request;
+
+const familyOf = (refreshToken: string) => sessions.find((row) => row.token === hashToken(refreshToken))!.familyId;
+
+test('rotates a refresh token into a new pair in the same family', async () => {
+  const first = await createSession('user-rotate', req);
+  const second = await rotateSession(first.refreshToken, req);
+
+  assert.ok(second);
+  assert.equal(second.userId, 'user-rotate');
+  assert.notEqual(second.refreshToken, first.refreshToken);
+  assert.equal(familyOf(second.refreshToken), familyOf(first.refreshToken));
+
+  // The old token now points at its replacement
+  const old = sessions.find((row) => row.token === hashToken(first.refreshToken))!;
+  assert.ok(old.revokedAt);
+  assert.equal(old.replacedById, sessions.find((row) => row.token === hashToken(second.refreshToken))!.id);
+});
+
+test('revokes the whole family when a used refresh token comes back', async () => {
+  const first = await createSession('user-reuse', req);
+  const familyId = familyOf(first.refreshToken);
+  const second = await rotateSession(first.refreshToken, req);
+  assert.ok(second);
+
+  assert.equal(await rotateSession(first.refreshToken, req), null);
+  assert.equal(await findActiveSession(familyId), null);
+  assert.equal(await rotateSession(second.refreshToken, req), null);
+  assert.ok(activity.some((entry) => entry.action === 'REFRESH_TOKEN_REUSED' && entry.userId === 'user-reuse'));
+});
+
+test('lets only one of two concurrent refreshes rotate the token', async () => {
+  const first = await createSession('user-race', req);
+  const familyId = familyOf(first.refreshToken);
+
+  const results = await Promise.all([rotateSession(first.refreshToken, req), rotateSession(first.refreshToken, req)]);
+
+  assert.equal(results.filter(Boolean).length, 1);
+  // The loser is treated as reuse, which ends the session for both
+  assert.equal(await findActiveSession(familyId), null);
+});
+
+test('refuses unknown and expired refresh tokens', async () => {
+  assert.equal(await rotateSession('not-a-token', req), null);
+
+  const expired = await createSession('user-expired', req);
+  sessions.find((row) => row.token === hashToken(expired.refreshToken))!.expiresAt = new Date(Date.now() - 1000);
+  assert.equal(await rotateSession(expired.refreshToken, req), null);
+});
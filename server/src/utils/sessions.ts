@@ -0,0 +1,188 @@
+import crypto from 'crypto';
+import { Request } from 'express';
+import jwt from 'jsonwebtoken';
+import { prisma } from '../index';
+import { generateRandomToken, hashToken } from './tokens';
+import logger from './logger';
+
+const ACCESS_TOKEN_EXPIRES_IN = (process.env.JWT_EXPIRES_IN || '15m') as jwt.SignOptions['expiresIn'];
+const REFRESH_TOKEN_EXPIRES_DAYS = Number(process.env.REFRESH_TOKEN_EXPIRES_DAYS) || 30;
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+}
+
+// Generate a short-lived access token tied to a session family
+export const generateAccessToken = (userId: string, familyId: string): string => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT_SECRET is not defined');
+  }
+  return jwt.sign({ userId, familyId }, secret, { expiresIn: ACCESS_TOKEN_EXPIRES_IN });
+};
+
+const refreshTokenExpiry = (): Date => {
+  return new Date(Date.now() + REFRESH_TOKEN_EXPIRES_DAYS * 24 * 60 * 60 * 1000);
+};
+
+// Start a new login session and return its first token pair
+export const createSession = async (userId: string, req: Request): Promise<SessionTokens> => {
+  const refreshToken = generateRandomToken();
+  const familyId = crypto.randomUUID();
+
+  await prisma.session.create({
+    data: {
+      token: hashToken(refreshToken),
+      familyId,
+      userId,
+      expiresAt: refreshTokenExpiry(),
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    }
+  });
+
+  return {
+    token: generateAccessToken(userId, familyId),
+    refreshToken
+  };
+};
+
+// Revoke every live token in a session family
+export const revokeSessionFamily = async (familyId: string): Promise<void> => {
+  await prisma.session.updateMany({
+    where: { familyId, revokedAt: null },
+    data: { revokedAt: new Date() }
+  });
+};
+
+// Exchange a refresh token for a new pair. Returns null when the token is
+// unknown, expired or has already been used; presenting a used token revokes
+// the whole family since it means the token was leaked.
+export const rotateSession = async (
+  refreshToken: string,
+  req: Request
+): Promise<(SessionTokens & { userId: string }) | null> => {
+  const session = await prisma.session.findUnique({
+    where: { token: hashToken(refreshToken) }
+  });
+
+  if (!session) {
+    return null;
+  }
+
+  if (session.revokedAt) {
+    if (session.replacedById) {
+      await handleTokenReuse(session.userId, session.familyId, req);
+    }
+    return null;
+  }
+
+  if (session.expiresAt < new Date()) {
+    return null;
+  }
+
+  const nextRefreshToken = generateRandomToken();
+
+  const rotated = await prisma.$transaction(async (tx) => {
+    // Guard against two concurrent refreshes both claiming the same token
+    const claimed = await tx.session.updateMany({
+      where: { id: session.id, revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+
+    if (claimed.count === 0) {
+      return null;
+    }
+
+    const nextSession = await tx.session.create({
+      data: {
+        token: hashToken(nextRefreshToken),
+        familyId: session.familyId,
+        userId: session.userId,
+        activeCompanyId: session.activeCompanyId,
+        expiresAt: refreshTokenExpiry(),
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    await tx.session.update({
+      where: { id: session.id },
+      data: { replacedById: nextSession.id }
+    });
+
+    return nextSession;
+  });
+
+  if (!rotated) {
+    await handleTokenReuse(session.userId, session.familyId, req);
+    return null;
+  }
+
+  return {
+    userId: session.userId,
+    token: generateAccessToken(session.userId, session.familyId),
+    refreshToken: nextRefreshToken
+  };
+};
+
+// Revoke every live session a user has, e.g. "sign out of all devices"
+export const revokeUserSessions = async (userId: string): Promise<number> => {
+  const result = await prisma.session.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date() }
+  });
+  return result.count;
+};
+
+// Find the live token of a session family, if the family has not been revoked
+export const findActiveSession = async (familyId: string) => {
+  return prisma.session.findFirst({
+    where: {
+      familyId,
+      revokedAt: null,
+      expiresAt: { gt: new Date() }
+    }
+  });
+};
+
+// Summarise a user agent string as e.g. "Chrome on macOS"
+export const describeDevice = (userAgent?: string | null): string => {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+
+  let browser = 'Unknown browser';
+  if (/Edg\//.test(userAgent)) browser = 'Edge';
+  else if (/OPR\//.test(userAgent)) browser = 'Opera';
+  else if (/Chrome\//.test(userAgent)) browser = 'Chrome';
+  else if (/Firefox\//.test(userAgent)) browser = 'Firefox';
+  else if (/Safari\//.test(userAgent)) browser = 'Safari';
+
+  let os = 'unknown OS';
+  if (/iPhone|iPad/.test(userAgent)) os = 'iOS';
+  else if (/Android/.test(userAgent)) os = 'Android';
+  else if (/Windows/.test(userAgent)) os = 'Windows';
+  else if (/Mac OS X/.test(userAgent)) os = 'macOS';
+  else if (/Linux/.test(userAgent)) os = 'Linux';
+
+  return `${browser} on ${os}`;
+};
+
+async function handleTokenReuse(userId: string, familyId: string, req: Request) {
+  await revokeSessionFamily(familyId);
+
+  await prisma.userActivity.create({
+    data: {
+      userId,
+      action: 'REFRESH_TOKEN_REUSED',
+      description: 'A previously used refresh token was presented; session revoked',
+      metadata: { familyId },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    }
+  });
+
+  logger.warn('Refresh token reuse detected', { userId, familyId });
+}
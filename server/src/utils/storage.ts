@@ -0,0 +1,60 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { generateRandomToken } from './tokens';
+import logger from './logger';
+
+// Uploaded files live on local disk and are served from this URL prefix
+export const UPLOADS_URL_PATH = '/api/uploads';
+
+export const getUploadDirectory = (): string => path.resolve(process.env.UPLOAD_DIR || 'uploads');
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp'
+};
+
+export const IMAGE_TYPES = Object.keys(IMAGE_EXTENSIONS);
+
+// Decode a base64 `data:` URL holding one of the accepted image types.
+// SVG is left out on purpose: it can carry scripts.
+export const parseImageDataUrl = (dataUrl: string): { buffer: Buffer; extension: string } | null => {
+  const match = /^data:([a-z/+-]+);base64,([A-Za-z0-9+/=\s]+)$/.exec(dataUrl);
+  if (!match || !IMAGE_EXTENSIONS[match[1]]) {
+    return null;
+  }
+  return { buffer: Buffer.from(match[2], 'base64'), extension: IMAGE_EXTENSIONS[match[1]] };
+};
+
+// Store a file under a folder of the upload directory and return its public URL.
+// Names are random so a replaced file never comes back from a cache.
+export const saveUpload = async (folder: string, buffer: Buffer, extension: string): Promise<string> => {
+  const directory = path.join(getUploadDirectory(), folder);
+  await fs.mkdir(directory, { recursive: true });
+
+  const filename = `${generateRandomToken(12)}.${extension}`;
+  await fs.writeFile(path.join(directory, filename), buffer);
+  return `${UPLOADS_URL_PATH}/${folder}/${filename}`;
+};
+
+// Delete a file saved by saveUpload. Missing files are ignored.
+export const removeUpload = async (url: string | null | undefined): Promise<void> => {
+  if (!url || !url.startsWith(`${UPLOADS_URL_PATH}/`)) {
+    return;
+  }
+
+  const root = getUploadDirectory();
+  const filePath = path.resolve(root, url.slice(UPLOADS_URL_PATH.length + 1));
+  if (!filePath.startsWith(`${root}${path.sep}`)) {
+    return;
+  }
+
+  try {
+    await fs.unlink(filePath);
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      logger.warn('Failed to remove upload', { url, error: error.message });
+    }
+  }
+};
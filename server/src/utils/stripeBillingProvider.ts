@@ -0,0 +1,264 @@
+import Stripe from 'stripe';
+import { SubscriptionStatus } from '@prisma/client';
+import {
+  BillingCardError,
+  BillingCustomer,
+  BillingEvent,
+  BillingInvoice,
+  BillingProvider,
+  BillingSubscription
+} from './billing';
+
+const fromUnix = (seconds: number | null) => (seconds ? new Date(seconds * 1000) : null);
+
+const idOf = (value: string | { id: string } | null) => (value && typeof value !== 'string' ? value.id : value);
+
+const toBillingCustomer = (customer: Stripe.Customer): BillingCustomer => ({
+  id: customer.id,
+  email: customer.email,
+  metadata: customer.metadata
+});
+
+const isMetered = (item: Stripe.SubscriptionItem) => item.price.recurring?.usage_type === 'metered';
+
+// The plan's own item, as opposed to the metered one billed on top
+const licensedItem = (subscription: Stripe.Subscription) => subscription.items.data.find((item) => !isMetered(item))!;
+
+const toBillingSubscription = (subscription: Stripe.Subscription): BillingSubscription => {
+  const item = licensedItem(subscription);
+  const meteredItem = subscription.items.data.find(isMetered);
+  const invoice = subscription.latest_invoice;
+  const paymentIntent = invoice && typeof invoice !== 'string' ? invoice.payment_intent : null;
+
+  return {
+    id: subscription.id,
+    customerId: idOf(subscription.customer)!,
+    // Stripe reports statuses in lowercase, the database enum is uppercase
+    status: subscription.status.toUpperCase() as SubscriptionStatus,
+    priceId: item.price.id,
+    quantity: item.quantity ?? 1,
+    meteredItemId: meteredItem?.id ?? null,
+    currentPeriodStart: fromUnix(subscription.current_period_start)!,
+    currentPeriodEnd: fromUnix(subscription.current_period_end)!,
+    cancelAtPeriodEnd: subscription.cancel_at_period_end,
+    canceledAt: fromUnix(subscription.canceled_at),
+    trialStart: fromUnix(subscription.trial_start),
+    trialEnd: fromUnix(subscription.trial_end),
+    clientSecret: paymentIntent && typeof paymentIntent !== 'string' ? paymentIntent.client_secret : null,
+    setupClientSecret:
+      subscription.pending_setup_intent && typeof subscription.pending_setup_intent !== 'string'
+        ? subscription.pending_setup_intent.client_secret
+        : null
+  };
+};
+
+const toBillingInvoice = (invoice: Stripe.Invoice): BillingInvoice => ({
+  id: invoice.id,
+  subscriptionId: idOf(invoice.subscription),
+  paymentId: idOf(invoice.payment_intent),
+  amountPaid: invoice.amount_paid,
+  amountDue: invoice.amount_due,
+  subtotal: invoice.subtotal,
+  discountAmount: (invoice.total_discount_amounts || []).reduce((total, discount) => total + discount.amount, 0),
+  couponId: invoice.discount?.coupon.id ?? null,
+  currency: invoice.currency,
+  description: invoice.description,
+  receiptUrl: invoice.hosted_invoice_url ?? null
+});
+
+// Card declines surface as BillingCardError so routes don't depend on Stripe
+const withCardErrors = async <T>(request: () => Promise<T>): Promise<T> => {
+  try {
+    return await request();
+  } catch (error) {
+    if (error instanceof Stripe.errors.StripeCardError) {
+      throw new BillingCardError(error.message);
+    }
+    throw error;
+  }
+};
+
+export const createStripeBillingProvider = (secretKey: string, webhookSecret: string): BillingProvider => {
+  const stripe = new Stripe(secretKey, {
+    apiVersion: '2023-10-16'
+  });
+
+  const retrieveItem = async (subscriptionId: string) => licensedItem(await stripe.subscriptions.retrieve(subscriptionId));
+
+  return {
+    name: 'stripe',
+
+    createCustomer: async ({ email, name, metadata }) =>
+      toBillingCustomer(await stripe.customers.create({ email, name, metadata })),
+
+    updateCustomer: async (customerId, { email, name }) => {
+      await stripe.customers.update(customerId, { email, name });
+    },
+
+    attachPaymentMethod: (customerId, paymentMethodId) =>
+      withCardErrors(async () => {
+        await stripe.paymentMethods.attach(paymentMethodId, { customer: customerId });
+        await stripe.customers.update(customerId, {
+          invoice_settings: { default_payment_method: paymentMethodId }
+        });
+      }),
+
+    createSubscription: async ({ customerId, priceId, quantity, meteredPriceId, trialDays, promotionCodeId }) => {
+      const subscription = await stripe.subscriptions.create({
+        customer: customerId,
+        // Metered prices take no quantity, usage is reported instead
+        items: [{ price: priceId, quantity }, ...(meteredPriceId ? [{ price: meteredPriceId }] : [])],
+        payment_behavior: 'default_incomplete',
+        payment_settings: {
+          save_default_payment_method: 'on_subscription'
+        },
+        ...(trialDays && {
+          trial_period_days: trialDays,
+          trial_settings: { end_behavior: { missing_payment_method: 'cancel' } }
+        }),
+        ...(promotionCodeId && { promotion_code: promotionCodeId }),
+        expand: ['latest_invoice.payment_intent', 'pending_setup_intent']
+      });
+      return toBillingSubscription(subscription);
+    },
+
+    getSubscription: async (subscriptionId) => toBillingSubscription(await stripe.subscriptions.retrieve(subscriptionId)),
+
+    updateSubscription: async (subscriptionId, { priceId, quantity, prorationDate, cancelAtPeriodEnd }) => {
+      const params: Stripe.SubscriptionUpdateParams = {};
+
+      if (priceId || quantity) {
+        const item = await retrieveItem(subscriptionId);
+        params.items = [{ id: item.id, price: priceId ?? item.price.id, quantity: quantity ?? item.quantity }];
+        params.proration_behavior = 'always_invoice';
+        if (prorationDate) {
+          params.proration_date = prorationDate;
+        }
+      }
+      if (cancelAtPeriodEnd !== undefined) {
+        params.cancel_at_period_end = cancelAtPeriodEnd;
+      }
+
+      return withCardErrors(async () => toBillingSubscription(await stripe.subscriptions.update(subscriptionId, params)));
+    },
+
+    cancelSubscription: async (subscriptionId) => toBillingSubscription(await stripe.subscriptions.cancel(subscriptionId)),
+
+    schedulePriceChange: async (subscriptionId, { priceId, quantity, scheduleId }) => {
+      const schedule = scheduleId
+        ? await stripe.subscriptionSchedules.retrieve(scheduleId)
+        : await stripe.subscriptionSchedules.create({ from_subscription: subscriptionId });
+      const currentPhase = schedule.phases[0];
+      const { price: currentPrice } = await retrieveItem(subscriptionId);
+
+      await stripe.subscriptionSchedules.update(schedule.id, {
+        end_behavior: 'release',
+        phases: [
+          {
+            items: currentPhase.items.map((item) => ({ price: idOf(item.price)!, quantity: item.quantity })),
+            start_date: currentPhase.start_date,
+            end_date: currentPhase.end_date
+          },
+          {
+            // Only the plan's price changes, a metered item carries over
+            items: currentPhase.items.map((item) =>
+              idOf(item.price) === currentPrice.id ? { price: priceId, quantity } : { price: idOf(item.price)! }
+            ),
+            iterations: 1
+          }
+        ]
+      });
+
+      return schedule.id;
+    },
+
+    releaseSchedule: async (scheduleId) => {
+      await stripe.subscriptionSchedules.release(scheduleId);
+    },
+
+    previewPriceChange: async (subscriptionId, { priceId, quantity, prorationDate }) => {
+      const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+
+      const invoice = await stripe.invoices.retrieveUpcoming({
+        customer: idOf(subscription.customer)!,
+        subscription: subscription.id,
+        subscription_items: [{ id: licensedItem(subscription).id, price: priceId, quantity }],
+        subscription_proration_behavior: 'create_prorations',
+        subscription_proration_date: prorationDate
+      });
+
+      // The rest of the upcoming invoice is the next renewal
+      return {
+        currency: invoice.currency,
+        lines: invoice.lines.data
+          .filter((line) => line.proration)
+          .map((line) => ({ description: line.description, amount: line.amount }))
+      };
+    },
+
+    createCoupon: async (params) => {
+      const coupon = await stripe.coupons.create({
+        name: params.name,
+        ...(params.percentOff
+          ? { percent_off: params.percentOff }
+          : { amount_off: params.amountOff!, currency: params.currency! }),
+        duration: params.duration,
+        ...(params.duration === 'repeating' && { duration_in_months: params.durationInMonths! }),
+        ...(params.maxRedemptions && { max_redemptions: params.maxRedemptions }),
+        ...(params.redeemBy && { redeem_by: Math.floor(params.redeemBy.getTime() / 1000) }),
+        ...(params.productIds.length > 0 && { applies_to: { products: params.productIds } })
+      });
+      return coupon.id;
+    },
+
+    deleteCoupon: async (couponId) => {
+      await stripe.coupons.del(couponId);
+    },
+
+    createPromotionCode: async ({ couponId, code, maxRedemptions, expiresAt }) => {
+      const promotionCode = await stripe.promotionCodes.create({
+        coupon: couponId,
+        code,
+        ...(maxRedemptions && { max_redemptions: maxRedemptions }),
+        ...(expiresAt && { expires_at: Math.floor(expiresAt.getTime() / 1000) })
+      });
+      return promotionCode.id;
+    },
+
+    setPromotionCodeActive: async (promotionCodeId, active) => {
+      await stripe.promotionCodes.update(promotionCodeId, { active });
+    },
+
+    reportUsage: async ({ subscriptionItemId, quantity, timestamp, idempotencyKey }) => {
+      await stripe.subscriptionItems.createUsageRecord(
+        subscriptionItemId,
+        { quantity, timestamp: Math.floor(timestamp.getTime() / 1000), action: 'set' },
+        { idempotencyKey }
+      );
+    },
+
+    createRefund: async ({ paymentId, amount }) => {
+      const refund = await stripe.refunds.create({ payment_intent: paymentId, amount });
+      return { id: refund.id, paymentId, amount: refund.amount, status: refund.status ?? 'pending' };
+    },
+
+    constructEvent: (payload, signature): BillingEvent => {
+      const event = stripe.webhooks.constructEvent(payload, signature!, webhookSecret);
+
+      switch (event.type) {
+        case 'customer.subscription.created':
+        case 'customer.subscription.updated':
+          return { id: event.id, type: 'subscription.updated', subscription: toBillingSubscription(event.data.object) };
+        case 'customer.subscription.deleted':
+          return { id: event.id, type: 'subscription.deleted', subscription: toBillingSubscription(event.data.object) };
+        case 'invoice.payment_succeeded':
+        case 'invoice.payment_failed':
+          return { id: event.id, type: event.type, invoice: toBillingInvoice(event.data.object) };
+        case 'customer.created':
+          return { id: event.id, type: 'customer.created', customer: toBillingCustomer(event.data.object) };
+        default:
+          return { id: event.id, type: 'unhandled', providerType: event.type };
+      }
+    }
+  };
+};
@@ -0,0 +1,166 @@
+import { Plan, Subscription } from '@prisma/client';
+import { prisma } from '../index';
+import { getBillingProvider } from './billing';
+
+// Subscriptions that have not ended yet
+export const LIVE_SUBSCRIPTION_STATUSES = ['ACTIVE', 'TRIALING', 'PAST_DUE', 'UNPAID', 'INCOMPLETE'] as const;
+
+export type PlanChangeTiming = 'immediate' | 'period_end';
+
+export interface PlanChangePreview {
+  timing: PlanChangeTiming;
+  currency: string;
+  // Charged (or credited, when negative) as soon as the change is applied
+  amountDueNow: number;
+  nextInvoice: { amount: number; date: Date };
+  // Pass back when applying so the charge matches the preview
+  prorationDate: number | null;
+  lines: { description: string | null; amount: number }[];
+}
+
+// A plan can replace the current one if it bills the same way
+export const checkPlanChange = (subscription: Subscription & { plan: Plan }, plan: Plan): string | null => {
+  if (!['ACTIVE', 'TRIALING'].includes(subscription.status)) {
+    return 'Only active subscriptions can change plans';
+  }
+  if (subscription.cancelAtPeriodEnd) {
+    return 'Reactivate the subscription before changing its plan';
+  }
+  if (plan.id === subscription.planId) {
+    return 'The subscription is already on this plan';
+  }
+  if (!plan.isActive) {
+    return 'This plan is no longer available';
+  }
+  if (
+    plan.currency !== subscription.plan.currency ||
+    plan.interval !== subscription.plan.interval ||
+    plan.intervalCount !== subscription.plan.intervalCount
+  ) {
+    return 'You can only switch to a plan with the same currency and billing interval';
+  }
+  if (plan.perSeat !== subscription.plan.perSeat) {
+    return 'You can only switch between plans that are both billed per seat, or both not';
+  }
+  return null;
+};
+
+// Drop a pending period-end change, leaving the subscription on its current plan
+const releaseSchedule = async (subscription: Subscription) => {
+  if (!subscription.stripeScheduleId) {
+    return;
+  }
+  await getBillingProvider().releaseSchedule(subscription.stripeScheduleId);
+  await prisma.subscription.update({
+    where: { id: subscription.id },
+    data: { scheduledPlanId: null, stripeScheduleId: null }
+  });
+};
+
+export const previewPlanChange = async (
+  subscription: Subscription,
+  plan: Plan,
+  timing: PlanChangeTiming
+): Promise<PlanChangePreview> => {
+  const nextPeriodAmount = plan.amount * subscription.quantity;
+
+  if (timing === 'period_end') {
+    return {
+      timing,
+      currency: plan.currency,
+      amountDueNow: 0,
+      nextInvoice: { amount: nextPeriodAmount, date: subscription.currentPeriodEnd },
+      prorationDate: null,
+      lines: []
+    };
+  }
+
+  const prorationDate = Math.floor(Date.now() / 1000);
+  const { currency, lines } = await getBillingProvider().previewPriceChange(subscription.stripeSubscriptionId, {
+    priceId: plan.stripePriceId,
+    quantity: subscription.quantity,
+    prorationDate
+  });
+
+  // Prorations get invoiced straight away; the next renewal is the new plan at full price
+  return {
+    timing,
+    currency,
+    amountDueNow: lines.reduce((total, line) => total + line.amount, 0),
+    nextInvoice: { amount: nextPeriodAmount, date: subscription.currentPeriodEnd },
+    prorationDate,
+    lines
+  };
+};
+
+// Move the subscription to another plan now, invoicing the prorated difference,
+// or at the end of the current period through a subscription schedule
+export const changePlan = async (
+  subscription: Subscription,
+  plan: Plan,
+  timing: PlanChangeTiming,
+  prorationDate?: number
+) => {
+  const billing = getBillingProvider();
+
+  if (timing === 'immediate') {
+    await releaseSchedule(subscription);
+
+    await billing.updateSubscription(subscription.stripeSubscriptionId, {
+      priceId: plan.stripePriceId,
+      quantity: subscription.quantity,
+      prorationDate
+    });
+
+    return prisma.subscription.update({
+      where: { id: subscription.id },
+      data: { planId: plan.id, priceId: plan.stripePriceId, scheduledPlanId: null, stripeScheduleId: null },
+      include: { plan: true, scheduledPlan: true }
+    });
+  }
+
+  const scheduleId = await billing.schedulePriceChange(subscription.stripeSubscriptionId, {
+    priceId: plan.stripePriceId,
+    quantity: subscription.quantity,
+    scheduleId: subscription.stripeScheduleId
+  });
+
+  // planId follows once the new phase starts (subscription.updated webhook)
+  return prisma.subscription.update({
+    where: { id: subscription.id },
+    data: { scheduledPlanId: plan.id, stripeScheduleId: scheduleId },
+    include: { plan: true, scheduledPlan: true }
+  });
+};
+
+export const cancelScheduledPlanChange = async (subscription: Subscription) => {
+  await releaseSchedule(subscription);
+  return prisma.subscription.findUniqueOrThrow({
+    where: { id: subscription.id },
+    include: { plan: true, scheduledPlan: true }
+  });
+};
+
+// Cancel with the billing provider and record it, either at the end of the billing period or straight away
+export const cancelSubscription = async (subscription: Subscription, cancelAtPeriodEnd: boolean) => {
+  // A subscription managed by a schedule can't be canceled directly
+  await releaseSchedule(subscription);
+
+  if (cancelAtPeriodEnd) {
+    await getBillingProvider().updateSubscription(subscription.stripeSubscriptionId, { cancelAtPeriodEnd: true });
+  } else {
+    await getBillingProvider().cancelSubscription(subscription.stripeSubscriptionId);
+  }
+
+  return prisma.subscription.update({
+    where: { id: subscription.id },
+    data: {
+      cancelAtPeriodEnd,
+      canceledAt: cancelAtPeriodEnd ? undefined : new Date(),
+      status: cancelAtPeriodEnd ? subscription.status : 'CANCELED'
+    },
+    include: {
+      plan: true
+    }
+  });
+};
@@ -0,0 +1,11 @@
+import crypto from 'crypto';
+
+// Generate a random opaque token suitable for emailing or handing to a client
+export const generateRandomToken = (bytes: number = 32): string => {
+  return crypto.randomBytes(bytes).toString('hex');
+};
+
+// Hash a token for storage; only the hash ever touches the database
+export const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
@@ -0,0 +1,75 @@
+import { Plan } from '@prisma/client';
+import { prisma } from '../index';
+import { sendMail } from './mailer';
+import { buildFrontendUrl, trialEndingEmail } from './emailTemplates';
+import logger from './logger';
+
+export const TRIAL_REMINDER_DAYS = 3;
+const REMINDER_INTERVAL_MS = 60 * 60 * 1000;
+
+// One trial per customer: neither the user nor the company they subscribe for
+// may have had one before, whatever became of that subscription
+export const hasUsedTrial = async (user: { id: string; companyId?: string | null }): Promise<boolean> => {
+  const trialed = await prisma.subscription.findFirst({
+    where: {
+      trialStart: { not: null },
+      OR: [{ userId: user.id }, ...(user.companyId ? [{ companyId: user.companyId }] : [])]
+    },
+    select: { id: true }
+  });
+  return !!trialed;
+};
+
+// Trial days the user gets on this plan, 0 when none
+export const trialDaysFor = async (user: { id: string; companyId?: string | null }, plan: Plan): Promise<number> => {
+  if (plan.trialDays <= 0) {
+    return 0;
+  }
+  return (await hasUsedTrial(user)) ? 0 : plan.trialDays;
+};
+
+// Email subscribers whose trial ends within the next few days
+export const sendTrialEndingReminders = async (): Promise<number> => {
+  const now = new Date();
+  const due = await prisma.subscription.findMany({
+    where: {
+      status: 'TRIALING',
+      trialReminderSentAt: null,
+      trialEnd: { gt: now, lte: new Date(now.getTime() + TRIAL_REMINDER_DAYS * 24 * 60 * 60 * 1000) }
+    },
+    include: { user: true, plan: true }
+  });
+
+  let sent = 0;
+  for (const subscription of due) {
+    try {
+      await sendMail({
+        to: subscription.user.email,
+        ...trialEndingEmail(
+          subscription.user,
+          subscription.plan.name,
+          subscription.trialEnd!,
+          subscription.paymentMethodMissing,
+          buildFrontendUrl('/subscriptions')
+        )
+      });
+      await prisma.subscription.update({
+        where: { id: subscription.id },
+        data: { trialReminderSentAt: new Date() }
+      });
+      sent += 1;
+    } catch (error) {
+      // Retried on the next run
+      logger.error('Trial reminder failed', { subscriptionId: subscription.id, error: (error as Error).message });
+    }
+  }
+  return sent;
+};
+
+export const startTrialReminderWorker = (): void => {
+  const run = () => {
+    sendTrialEndingReminders().catch((error) => logger.error('Trial reminder job error', error));
+  };
+  run();
+  setInterval(run, REMINDER_INTERVAL_MS).unref();
+};
@@ -0,0 +1,112 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateTotp, generateTotpSecret, getTimeStep } from './totp';
+
+process.env.TWO_FACTOR_ENCRYPTION_KEY = 'test-two-factor-key';
+
+type Row = Record<string, any>;
+
+// Just enough of Prisma's filters for the queries under test
+const matches = (row: Row, where: Row): boolean =>
+  Object.entries(where).every(([key, condition]) => {
+    if (key === 'OR') {
+      return condition.some((branch: Row) => matches(row, branch));
+    }
+    if (condition !== null && typeof condition === 'object' && 'lt' in condition) {
+      return row[key] !== null && row[key] < condition.lt;
+    }
+    return row[key] === condition;
+  });
+
+const users: Row[] = [];
+const recoveryCodes: Row[] = [];
+
+const updateMany = (rows: Row[]) => async ({ where, data }: { where: Row; data: Row }) => {
+  const matched = rows.filter((row) => matches(row, where));
+  matched.forEach((row) => Object.assign(row, data));
+  return { count: matched.length };
+};
+
+// Stand in for the app's Prisma client before loading anything that imports it
+require.cache[require.resolve('../index')] = {
+  exports: {
+    prisma: {
+      user: { updateMany: updateMany(users) },
+      recoveryCode: {
+        updateMany: updateMany(recoveryCodes),
+        deleteMany: async ({ where }: { where: Row }) => {
+          const kept = recoveryCodes.filter((row) => !matches(row, where));
+          const count = recoveryCodes.length - kept.length;
+          recoveryCodes.splice(0, recoveryCodes.length, ...kept);
+          return { count };
+        },
+        createMany: async ({ data }: { data: Row[] }) => {
+          recoveryCodes.push(...data.map((row) => ({ ...row, usedAt: null })));
+          return { count: data.length };
+        }
+      },
+      $transaction: (operations: Promise<unknown>[]) => Promise.all(operations)
+    }
+  }
+} as NodeModule;
+
+const { encryptSecret, generateRecoveryCodes, verifySecondFactor, verifyTotpCode } =
+  require('./twoFactor') as typeof import('./twoFactor');
+
+const enrolledUser = (id: string, secret: string) => {
+  const user = { id, twoFactorSecret: encryptSecret(secret), twoFactorLastUsedStep: null };
+  users.push({ ...user });
+  return user;
+};
+
+test('accepts each TOTP time step only once', async () => {
+  const secret = generateTotpSecret();
+  const user = enrolledUser('user-totp', secret);
+  const code = generateTotp(secret);
+
+  assert.equal(await verifyTotpCode(user, code), true);
+  // The caller still holds the user as loaded before the first login
+  assert.equal(await verifyTotpCode(user, code), false);
+
+  // Nor does an earlier step still inside the drift window work afterwards
+  const loaded = { ...user, twoFactorLastUsedStep: getTimeStep() };
+  assert.equal(await verifyTotpCode(loaded, generateTotp(secret, Date.now() - 30 * 1000)), false);
+});
+
+test('lets only one of several concurrent logins use a code', async () => {
+  const secret = generateTotpSecret();
+  const user = enrolledUser('user-race', secret);
+  const code = generateTotp(secret);
+
+  const results = await Promise.all([1, 2, 3].map(() => verifyTotpCode(user, code)));
+  assert.deepEqual(results.filter(Boolean), [true]);
+});
+
+test('rejects malformed codes and users without a secret', async () => {
+  const secret = generateTotpSecret();
+  const user = enrolledUser('user-invalid', secret);
+
+  assert.equal(await verifyTotpCode(user, '12345'), false);
+  assert.equal(await verifyTotpCode(user, 'abcdef'), false);
+  assert.equal(await verifyTotpCode({ ...user, twoFactorSecret: null }, generateTotp(secret)), false);
+});
+
+test('accepts each recovery code once, however it is typed', async () => {
+  const user = enrolledUser('user-recovery', generateTotpSecret());
+  const [first, second] = await generateRecoveryCodes(user.id);
+
+  assert.equal(await verifySecondFactor(user, { recoveryCode: first }), 'recovery_code');
+  assert.equal(await verifySecondFactor(user, { recoveryCode: first }), null);
+  const retyped = ` ${second.replace('-', '').toUpperCase()} `;
+  assert.equal(await verifySecondFactor(user, { recoveryCode: retyped }), 'recovery_code');
+});
+
+test('invalidates old recovery codes when new ones are generated', async () => {
+  const user = enrolledUser('user-regenerate', generateTotpSecret());
+  const [old] = await generateRecoveryCodes(user.id);
+  const [fresh] = await generateRecoveryCodes(user.id);
+
+  assert.equal(await verifySecondFactor(user, { recoveryCode: old }), null);
+  assert.equal(await verifySecondFactor(user, { recoveryCode: fresh }), 'recovery_code');
+  assert.equal(await verifySecondFactor(user, {}), null);
+});
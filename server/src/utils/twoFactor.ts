@@ -0,0 +1,141 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { prisma } from '../index';
+import { verifyTotp } from './totp';
+import { hashToken } from './tokens';
+import { PermissionSubject, hasElevatedPermissions } from './permissions';
+
+const RECOVERY_CODE_COUNT = 10;
+const CHALLENGE_EXPIRES_IN = '5m';
+const CHALLENGE_PURPOSE = 'two_factor_challenge';
+
+// TOTP secrets are encrypted at rest with AES-256-GCM
+const getEncryptionKey = (): Buffer => {
+  const keyMaterial = process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.JWT_SECRET;
+  if (!keyMaterial) {
+    throw new Error('TWO_FACTOR_ENCRYPTION_KEY is not defined');
+  }
+  return crypto.createHash('sha256').update(keyMaterial).digest();
+};
+
+export const encryptSecret = (secret: string): string => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [iv, tag, encrypted].map((part) => part.toString('base64')).join('.');
+};
+
+export const decryptSecret = (payload: string): string => {
+  const [iv, tag, encrypted] = payload.split('.').map((part) => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+};
+
+// Whether policy forces this user to enroll (REQUIRE_2FA_FOR_ADMINS). Applies to
+// anyone with permissions beyond a regular member's, including via a custom role.
+export const isTwoFactorRequired = (user: PermissionSubject): boolean => {
+  return process.env.REQUIRE_2FA_FOR_ADMINS === 'true' && hasElevatedPermissions(user);
+};
+
+const normalizeRecoveryCode = (code: string): string => {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, '');
+};
+
+// Replace any existing recovery codes; the plain codes are only returned here
+export const generateRecoveryCodes = async (userId: string): Promise<string[]> => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  await prisma.$transaction([
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.recoveryCode.createMany({
+      data: codes.map((code) => ({
+        userId,
+        codeHash: hashToken(normalizeRecoveryCode(code))
+      }))
+    })
+  ]);
+
+  return codes;
+};
+
+interface TwoFactorUser {
+  id: string;
+  twoFactorSecret: string | null;
+  twoFactorLastUsedStep: number | null;
+}
+
+// Check a TOTP code against the stored secret, refusing to accept the same
+// time step twice
+export const verifyTotpCode = async (user: TwoFactorUser, code: string): Promise<boolean> => {
+  if (!user.twoFactorSecret) {
+    return false;
+  }
+
+  const step = verifyTotp(decryptSecret(user.twoFactorSecret), code);
+  if (step === null || (user.twoFactorLastUsedStep !== null && step <= user.twoFactorLastUsedStep)) {
+    return false;
+  }
+
+  // Only one of several requests racing with the same code gets to record its step
+  const claimed = await prisma.user.updateMany({
+    where: {
+      id: user.id,
+      OR: [{ twoFactorLastUsedStep: null }, { twoFactorLastUsedStep: { lt: step } }]
+    },
+    data: { twoFactorLastUsedStep: step }
+  });
+
+  return claimed.count === 1;
+};
+
+// Verify either a TOTP code or a single-use recovery code
+export const verifySecondFactor = async (
+  user: TwoFactorUser,
+  input: { code?: string; recoveryCode?: string }
+): Promise<'totp' | 'recovery_code' | null> => {
+  if (input.code) {
+    return (await verifyTotpCode(user, input.code)) ? 'totp' : null;
+  }
+
+  if (input.recoveryCode) {
+    const claimed = await prisma.recoveryCode.updateMany({
+      where: {
+        userId: user.id,
+        codeHash: hashToken(normalizeRecoveryCode(input.recoveryCode)),
+        usedAt: null
+      },
+      data: { usedAt: new Date() }
+    });
+    return claimed.count === 1 ? 'recovery_code' : null;
+  }
+
+  return null;
+};
+
+const getJwtSecret = (): string => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT_SECRET is not defined');
+  }
+  return secret;
+};
+
+// Short-lived token proving the password step succeeded. It carries no
+// session, so the auth middleware never accepts it as an access token.
+export const generateTwoFactorChallenge = (userId: string): string => {
+  return jwt.sign({ userId, purpose: CHALLENGE_PURPOSE }, getJwtSecret(), { expiresIn: CHALLENGE_EXPIRES_IN });
+};
+
+export const verifyTwoFactorChallenge = (challengeToken: string): string | null => {
+  try {
+    const decoded = jwt.verify(challengeToken, getJwtSecret()) as any;
+    return decoded.purpose === CHALLENGE_PURPOSE ? decoded.userId : null;
+  } catch (error) {
+    return null;
+  }
+};
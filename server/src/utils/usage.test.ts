@@ -0,0 +1,149 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { Prisma, Subscription } from '@prisma/client';
+
+type Row = Record<string, any>;
+
+const periods: Row[] = [];
+const records: Row[] = [];
+
+const samePeriod = (row: Row, { subscriptionId, periodStart }: Row) =>
+  row.subscriptionId === subscriptionId && row.periodStart.getTime() === periodStart.getTime();
+
+const tx = {
+  usagePeriod: {
+    upsert: async ({ where, create, update }: { where: Row; create: Row; update: Row }) => {
+      const existing = periods.find((row) => samePeriod(row, where.subscriptionId_periodStart));
+      if (existing) {
+        existing.quantity += update.quantity.increment;
+        return existing;
+      }
+      const row = { id: crypto.randomUUID(), closedAt: null, ...create };
+      periods.push(row);
+      return row;
+    }
+  },
+  usageRecord: {
+    create: async ({ data }: { data: Row }) => {
+      const { subscriptionId, idempotencyKey } = data;
+      if (records.some((row) => row.subscriptionId === subscriptionId && row.idempotencyKey === idempotencyKey)) {
+        throw new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test'
+        });
+      }
+      const row = { id: crypto.randomUUID(), ...data };
+      records.push(row);
+      return row;
+    }
+  }
+};
+
+// Transactions run one at a time and leave nothing behind when they throw
+let transactions: Promise<unknown> = Promise.resolve();
+
+const prisma = {
+  usageRecord: {
+    findUnique: async ({ where }: { where: Row }) => {
+      const { subscriptionId, idempotencyKey } = where.subscriptionId_idempotencyKey;
+      return (
+        records.find((row) => row.subscriptionId === subscriptionId && row.idempotencyKey === idempotencyKey) || null
+      );
+    }
+  },
+  usagePeriod: {
+    findFirst: async () => null
+  },
+  $transaction: <T>(run: (client: typeof tx) => Promise<T>) => {
+    const result = transactions.then(async () => {
+      const snapshot = { periods: periods.map((row) => ({ ...row })), records: [...records] };
+      try {
+        return await run(tx);
+      } catch (error) {
+        periods.splice(0, periods.length, ...snapshot.periods);
+        records.splice(0, records.length, ...snapshot.records);
+        throw error;
+      }
+    });
+    transactions = result.catch(() => undefined);
+    return result;
+  }
+};
+
+// Stand in for the app's Prisma client before loading anything that imports it
+require.cache[require.resolve('../index')] = { exports: { prisma } } as NodeModule;
+
+const { recordUsageEvents } = require('./usage') as typeof import('./usage');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const activeSubscription = () =>
+  ({
+    id: crypto.randomUUID(),
+    status: 'ACTIVE',
+    currentPeriodStart: new Date(Date.now() - 10 * DAY_MS),
+    currentPeriodEnd: new Date(Date.now() + 20 * DAY_MS)
+  }) as Subscription;
+
+const periodTotal = (subscription: Subscription) =>
+  periods.find((row) => row.subscriptionId === subscription.id)?.quantity ?? 0;
+
+test('counts an event once however many times its key is sent', async () => {
+  const subscription = activeSubscription();
+  const event = { quantity: 5, action: 'api_call', idempotencyKey: 'evt-1' };
+
+  const [first] = await recordUsageEvents(subscription, [event]);
+  const [again] = await recordUsageEvents(subscription, [{ ...event, quantity: 50 }]);
+
+  assert.equal(first.status, 'recorded');
+  assert.equal(again.status, 'duplicate');
+  assert.equal(again.usageRecord.id, first.usageRecord.id);
+  assert.equal(periodTotal(subscription), 5);
+});
+
+test('spots repeated keys within a batch', async () => {
+  const subscription = activeSubscription();
+  const results = await recordUsageEvents(subscription, [
+    { quantity: 1, action: 'api_call', idempotencyKey: 'a' },
+    { quantity: 2, action: 'api_call', idempotencyKey: 'b' },
+    { quantity: 1, action: 'api_call', idempotencyKey: 'a' }
+  ]);
+
+  assert.deepEqual(results.map((result) => result.status), ['recorded', 'recorded', 'duplicate']);
+  assert.equal(periodTotal(subscription), 3);
+});
+
+test('scopes keys to their subscription', async () => {
+  const first = activeSubscription();
+  const second = activeSubscription();
+  const event = { quantity: 1, action: 'api_call', idempotencyKey: 'shared' };
+
+  assert.equal((await recordUsageEvents(first, [event]))[0].status, 'recorded');
+  assert.equal((await recordUsageEvents(second, [event]))[0].status, 'recorded');
+});
+
+test('counts concurrent requests with the same key once', async () => {
+  const subscription = activeSubscription();
+  const event = { quantity: 3, action: 'api_call', idempotencyKey: 'race' };
+
+  const results = await Promise.all([
+    recordUsageEvents(subscription, [event]),
+    recordUsageEvents(subscription, [event])
+  ]);
+
+  assert.deepEqual(results.map(([result]) => result.status).sort(), ['duplicate', 'recorded']);
+  assert.equal(periodTotal(subscription), 3);
+});
+
+test('rejects events the subscription has no open period for', async () => {
+  const subscription = activeSubscription();
+  const [future, past] = await recordUsageEvents(subscription, [
+    { quantity: 1, action: 'api_call', idempotencyKey: 'future', timestamp: new Date(Date.now() + DAY_MS) },
+    { quantity: 1, action: 'api_call', idempotencyKey: 'past', timestamp: new Date(Date.now() - 40 * DAY_MS) }
+  ]);
+
+  assert.equal(future.status, 'rejected');
+  assert.equal(past.status, 'rejected');
+  assert.equal(periodTotal(subscription), 0);
+});
@@ -0,0 +1,173 @@
+import { Prisma, Subscription, UsageRecord } from '@prisma/client';
+import { prisma } from '../index';
+import { getBillingProvider } from './billing';
+import logger from './logger';
+
+export const USAGE_BATCH_LIMIT = 100;
+// The systems sending usage may have clocks running slightly ahead of ours
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+// Stripe takes usage for a period until its invoice is finalised, about an hour after it ends
+const REPORT_INTERVAL_MS = 10 * 60 * 1000;
+
+export interface UsageEvent {
+  quantity: number;
+  action: string;
+  idempotencyKey: string;
+  timestamp?: Date;
+}
+
+export type UsageEventResult =
+  | { idempotencyKey: string; status: 'recorded' | 'duplicate'; usageRecord: UsageRecord }
+  | { idempotencyKey: string; status: 'rejected'; error: string };
+
+class UsageRejectedError extends Error {}
+
+// Why the subscription can't take usage right now, or null if it can
+export const usageRejection = (subscription: Subscription): string | null => {
+  switch (subscription.status) {
+    case 'ACTIVE':
+    case 'TRIALING':
+    case 'PAST_DUE':
+      return null;
+    case 'CANCELED':
+    case 'INCOMPLETE_EXPIRED':
+      return 'Usage cannot be recorded for a canceled subscription';
+    default:
+      return 'Usage cannot be recorded until the subscription is active';
+  }
+};
+
+// The billing period a timestamp falls in: the current one, or an earlier one still open
+const findPeriod = async (subscription: Subscription, timestamp: Date) => {
+  if (timestamp >= subscription.currentPeriodStart && timestamp < subscription.currentPeriodEnd) {
+    return { periodStart: subscription.currentPeriodStart, periodEnd: subscription.currentPeriodEnd };
+  }
+  return prisma.usagePeriod.findFirst({
+    where: { subscriptionId: subscription.id, periodStart: { lte: timestamp }, periodEnd: { gt: timestamp } }
+  });
+};
+
+const findByKey = (subscriptionId: string, idempotencyKey: string) =>
+  prisma.usageRecord.findUnique({ where: { subscriptionId_idempotencyKey: { subscriptionId, idempotencyKey } } });
+
+const recordUsageEvent = async (
+  subscription: Subscription,
+  event: UsageEvent,
+  retry = true
+): Promise<UsageEventResult> => {
+  const { idempotencyKey } = event;
+  const existing = await findByKey(subscription.id, idempotencyKey);
+  if (existing) {
+    return { idempotencyKey, status: 'duplicate', usageRecord: existing };
+  }
+
+  const now = new Date();
+  const timestamp = event.timestamp ?? now;
+  if (timestamp.getTime() > now.getTime() + CLOCK_SKEW_MS) {
+    return { idempotencyKey, status: 'rejected', error: 'Timestamp is in the future' };
+  }
+  const period = await findPeriod(subscription, timestamp);
+  if (!period) {
+    return { idempotencyKey, status: 'rejected', error: 'No open billing period covers this timestamp' };
+  }
+
+  try {
+    const usageRecord = await prisma.$transaction(async (tx) => {
+      // Updating the period holds off its closing until this commits
+      const usagePeriod = await tx.usagePeriod.upsert({
+        where: { subscriptionId_periodStart: { subscriptionId: subscription.id, periodStart: period.periodStart } },
+        create: {
+          subscriptionId: subscription.id,
+          periodStart: period.periodStart,
+          periodEnd: period.periodEnd,
+          quantity: event.quantity
+        },
+        update: { quantity: { increment: event.quantity } }
+      });
+      if (usagePeriod.closedAt) {
+        throw new UsageRejectedError('The billing period for this timestamp has closed');
+      }
+
+      return tx.usageRecord.create({
+        data: {
+          subscriptionId: subscription.id,
+          usagePeriodId: usagePeriod.id,
+          quantity: event.quantity,
+          action: event.action,
+          timestamp,
+          idempotencyKey
+        }
+      });
+    });
+    return { idempotencyKey, status: 'recorded', usageRecord };
+  } catch (error) {
+    if (error instanceof UsageRejectedError) {
+      return { idempotencyKey, status: 'rejected', error: error.message };
+    }
+    // A concurrent request recorded the same key or opened the same period first
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002' && retry) {
+      return recordUsageEvent(subscription, event, false);
+    }
+    throw error;
+  }
+};
+
+// Record events in order; each is counted towards its billing period at most once
+export const recordUsageEvents = async (
+  subscription: Subscription,
+  events: UsageEvent[]
+): Promise<UsageEventResult[]> => {
+  const results: UsageEventResult[] = [];
+  for (const event of events) {
+    results.push(await recordUsageEvent(subscription, event));
+  }
+  return results;
+};
+
+// Close billing periods that have ended by `now` and report their totals on metered plans
+export const reportClosedUsagePeriods = async (now = new Date()): Promise<number> => {
+  await prisma.usagePeriod.updateMany({
+    where: { closedAt: null, periodEnd: { lte: now } },
+    data: { closedAt: now }
+  });
+
+  // A canceled subscription's items are gone, so there is nothing left to report to
+  const due = await prisma.usagePeriod.findMany({
+    where: {
+      closedAt: { not: null },
+      reportedAt: null,
+      subscription: { stripeMeteredItemId: { not: null }, status: { not: 'CANCELED' } }
+    },
+    include: { subscription: true }
+  });
+
+  let reported = 0;
+  for (const usagePeriod of due) {
+    try {
+      await getBillingProvider().reportUsage({
+        subscriptionItemId: usagePeriod.subscription.stripeMeteredItemId!,
+        quantity: usagePeriod.quantity,
+        // Any moment inside the period bills the usage on that period's invoice
+        timestamp: new Date(usagePeriod.periodEnd.getTime() - 1000),
+        idempotencyKey: `usage-period-${usagePeriod.id}`
+      });
+      await prisma.usagePeriod.update({
+        where: { id: usagePeriod.id },
+        data: { reportedAt: new Date() }
+      });
+      reported += 1;
+    } catch (error) {
+      // Retried on the next run
+      logger.error('Usage report failed', { usagePeriodId: usagePeriod.id, error: (error as Error).message });
+    }
+  }
+  return reported;
+};
+
+export const startUsageReportingWorker = (): void => {
+  const run = () => {
+    reportClosedUsagePeriods().catch((error) => logger.error('Usage reporting job error', error));
+  };
+  run();
+  setInterval(run, REPORT_INTERVAL_MS).unref();
+};
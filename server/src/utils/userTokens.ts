@@ -0,0 +1,49 @@
+import { UserTokenType } from '@prisma/client';
+import { prisma } from '../index';
+import { generateRandomToken, hashToken } from './tokens';
+
+// Issue a new emailed token; any older unused token of the same type expires
+export const createUserToken = async (
+  userId: string,
+  type: UserTokenType,
+  ttlMs: number
+): Promise<string> => {
+  const token = generateRandomToken();
+  const now = new Date();
+
+  await prisma.$transaction([
+    prisma.userToken.updateMany({
+      where: { userId, type, usedAt: null, expiresAt: { gt: now } },
+      data: { expiresAt: now }
+    }),
+    prisma.userToken.create({
+      data: {
+        userId,
+        type,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(now.getTime() + ttlMs)
+      }
+    })
+  ]);
+
+  return token;
+};
+
+// Mark a token as used. Returns null if it is unknown, of another type,
+// expired or already used.
+export const consumeUserToken = async (token: string, type: UserTokenType) => {
+  const userToken = await prisma.userToken.findUnique({
+    where: { tokenHash: hashToken(token) }
+  });
+
+  if (!userToken || userToken.type !== type || userToken.usedAt || userToken.expiresAt < new Date()) {
+    return null;
+  }
+
+  const claimed = await prisma.userToken.updateMany({
+    where: { id: userToken.id, usedAt: null },
+    data: { usedAt: new Date() }
+  });
+
+  return claimed.count === 1 ? userToken : null;
+};